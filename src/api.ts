@@ -3,8 +3,50 @@
  * Now uses Region documents instead of custom RealmData objects
  */
 
-import { RealmManager } from './realm-manager';
-import { TagSystem } from './tag-system';
+import { RealmDataCompat, RealmManager, RealmPathResult, RealmQueryOptions } from './realm-manager';
+import { TagSystem, EffectiveTagResult, TagNamespace, TagNamespaceDefinition } from './tag-system';
+import { PathPoint } from './path-geometry';
+import { TravelCalculator, TravelTimeOptions, TravelTimeResult } from './travel-calculator';
+import { RoutePlanner, RouteOptions, RouteResult } from './route-planner';
+import { TokenTracker } from './token-tracker';
+import { TagQuery } from './tag-query';
+import {
+  GeoJSONExportOptions,
+  GeoJSONFeature,
+  GeoJSONFeatureCollection,
+  GeoJSONImportOptions
+} from './geojson';
+import { AzgaarImporter, AzgaarImportOptions } from './azgaar-importer';
+import {
+  REALM_EXPORT_SCHEMA,
+  RealmExport,
+  RealmImportReport,
+  RealmImportReportEntry,
+  migrateExport,
+  validateSchema
+} from './export-format';
+import { WorldImportReport, WorldSceneImport, WorldTransfer } from './world-transfer';
+import { RealmDiffDecision, RealmDiffItem, RealmDiffResult } from './import-diff';
+import {
+  ImageMaskData,
+  ImageMaskImporter,
+  ImageMaskMapping,
+  ImageMaskOptions,
+  ImageMaskRealm
+} from './image-mask-importer';
+import { ThematicOverlay } from './thematic-overlay';
+import { BorderCheckOptions, BorderProblem, checkSceneBorders } from './border-check';
+import { getTokenTravelSpeed as getBehaviorTokenTravelSpeed } from './realm-behaviors';
+import {
+  DiscoveryRecord,
+  DiscoveryState,
+  PARTY_DISCOVERY,
+  RealmDiscovery,
+  canSeeRealm,
+  getDiscoveryRecord as getRealmDiscoveryRecord,
+  getDiscoveryState as getRealmDiscoveryState,
+  getVisibleRealms
+} from './realm-discovery';
 
 // Type for realm regions
 type RealmRegion = RegionDocument & {
@@ -12,6 +54,7 @@ type RealmRegion = RegionDocument & {
     'realms-and-reaches'?: {
       isRealm?: boolean;
       tags?: string[];
+      priority?: number;
       metadata?: {
         created: string;
         modified: string;
@@ -21,53 +64,159 @@ type RealmRegion = RegionDocument & {
   };
 };
 
-// Helper functions
-class RealmHelpers {
-  static getTags(region: RealmRegion): string[] {
-    return region.flags['realms-and-reaches']?.tags || [];
-  }
+/*
+ * Query, travel and route functions use what the current user may see:
+ * players get only the realms they have discovered, reporting only the tags
+ * they may see.
+ */
 
-  static hasTag(region: RealmRegion, tag: string): boolean {
-    return this.getTags(region).includes(tag);
-  }
+/**
+ * Get the highest-priority realm at specific coordinates
+ */
+export function getRealmAt(x: number, y: number): RealmRegion | null {
+  return getRealmsAt(x, y)[0] || null;
+}
 
-  static getTag(region: RealmRegion, key: string): string | null {
-    const tags = this.getTags(region);
-    const tag = tags.find(t => t.startsWith(key + ':'));
-    return tag ? tag.split(':', 2)[1] : null;
-  }
+/**
+ * Get all realms at specific coordinates, highest priority first
+ */
+export function getRealmsAt(x: number, y: number): RealmRegion[] {
+  return getVisibleRealms(RealmManager.getInstance().getRealmsAt(x, y));
 }
 
 /**
- * Get realm data at specific coordinates
+ * Get the merged tags of all realms at specific coordinates
+ *
+ * Single-value namespaces (biome, climate, travel_speed, elevation) take the
+ * highest-priority realm's value; other tags are unioned. Each tag lists the
+ * realm(s) it came from.
  */
-export function getRealmAt(x: number, y: number): RealmRegion | null {
-  return RealmManager.getInstance().getRealmAt(x, y);
+export function getEffectiveTagsAt(x: number, y: number): EffectiveTagResult {
+  return TagSystem.getInstance().resolveEffectiveTags(getRealmsAt(x, y));
+}
+
+/**
+ * Get the realms a route crosses, with entry/exit points and distance in each
+ */
+export function getRealmsAlongPath(points: PathPoint[]): RealmPathResult {
+  const manager = RealmManager.getInstance();
+  const result = manager.getRealmsAlongPath(points);
+  if (game.user?.isGM) return result;
+
+  const visible = new Set(getVisibleRealms(manager.getAllRealms()).map(realm => realm.id));
+  return {
+    ...result,
+    crossings: result.crossings.filter(crossing => visible.has(crossing.realmId)),
+    realms: result.realms.filter(realm => visible.has(realm.realmId))
+  };
+}
+
+/**
+ * Calculate travel time along a route, weighted by each realm's travel_speed
+ */
+export function calculateTravelTime(
+  points: PathPoint[],
+  options: TravelTimeOptions
+): TravelTimeResult {
+  return TravelCalculator.getInstance().calculate(points, options, getVisibleRealms);
+}
+
+/**
+ * Calculate travel time along a route and whisper the breakdown to GMs
+ */
+export async function postTravelTime(
+  points: PathPoint[],
+  options: TravelTimeOptions
+): Promise<TravelTimeResult> {
+  const calculator = TravelCalculator.getInstance();
+  const result = calculator.calculate(points, options, getVisibleRealms);
+  await calculator.postChatCard(result);
+  return result;
+}
+
+/**
+ * Find the least-cost route between two points, weighted by realm tags
+ */
+export function findRoute(start: PathPoint, end: PathPoint, options?: RouteOptions): RouteResult {
+  return RoutePlanner.getInstance().findRoute(start, end, options, getVisibleRealms);
+}
+
+/**
+ * Get the realms a token is currently inside, as tracked from its movement
+ */
+export function getTokenRealms(tokenId: string, sceneId?: string): RealmRegion[] {
+  const manager = RealmManager.getInstance(sceneId);
+  const id = sceneId || canvas?.scene?.id || 'global';
+  const realms = TokenTracker.getInstance()
+    .getTokenRealms(id, tokenId)
+    .map(realmId => manager.getRealm(realmId))
+    .filter(realm => realm !== null);
+  return getVisibleRealms(realms);
+}
+
+/**
+ * Get the speed modifier travel speed behaviors apply to a token where it stands
+ * @returns The modifier, or 1 when no behavior applies
+ */
+export function getTokenTravelSpeed(tokenId: string, sceneId?: string): number {
+  const scene = sceneId ? game.scenes?.get(sceneId) : canvas?.scene;
+  return getBehaviorTokenTravelSpeed(scene?.tokens.get(tokenId));
 }
 
 /**
  * Get all realms in current scene
  */
 export function getAllRealms(): RealmRegion[] {
-  return RealmManager.getInstance().getAllRealms();
+  return getVisibleRealms(RealmManager.getInstance().getAllRealms());
 }
 
 /**
  * Get realms by tag
  */
 export function getRealmsByTag(tag: string): RealmRegion[] {
-  return RealmManager.getInstance()
-    .getAllRealms()
-    .filter(realm => RealmHelpers.hasTag(realm, tag));
+  return getVisibleRealms(RealmManager.getInstance().getAllRealms()).filter(realm =>
+    realm.hasTag(tag)
+  );
 }
 
 /**
  * Get realms by tag key (e.g., 'biome' returns all realms with biome tags)
  */
 export function getRealmsByTagKey(key: string): RealmRegion[] {
-  return RealmManager.getInstance()
-    .getAllRealms()
-    .filter(realm => RealmHelpers.getTag(realm, key) !== null);
+  return getVisibleRealms(RealmManager.getInstance().getAllRealms()).filter(
+    realm => realm.getTag(key) !== null
+  );
+}
+
+/**
+ * Find realms matching a boolean tag query or query options
+ *
+ * e.g. findRealms('biome:forest AND (terrain:dense OR custom:haunted) AND NOT resources:timber')
+ * @throws TagQueryError if the query is malformed
+ */
+export function findRealms(query: string | RealmQueryOptions): RealmRegion[] {
+  const options = typeof query === 'string' ? { query } : query;
+  const manager = RealmManager.getInstance(options.sceneId);
+  if (game.user?.isGM) return manager.findRealms(options);
+
+  // Match players' queries against only what they can see
+  const realms = options.bounds
+    ? manager.getRealmsInBounds(options.bounds)
+    : manager.getAllRealms();
+  return manager.filterRealms(getVisibleRealms(realms), options);
+}
+
+/**
+ * Check a tag query for syntax errors
+ * @returns The error message, or null if the query is valid
+ */
+export function validateTagQuery(query: string): string | null {
+  try {
+    TagQuery.parse(query);
+    return null;
+  } catch (error) {
+    return error instanceof Error ? error.message : String(error);
+  }
 }
 
 /**
@@ -86,6 +235,20 @@ export function validateTag(tag: string): boolean {
   return TagSystem.getInstance().validateTag(tag).valid;
 }
 
+/**
+ * Register a tag namespace with its own label, colour, suggestions and value rules
+ */
+export function registerTagNamespace(definition: TagNamespaceDefinition): TagNamespace {
+  return TagSystem.getInstance().registerNamespace(definition);
+}
+
+/**
+ * Get every known tag namespace, core and registered
+ */
+export function getTagNamespaces(): TagNamespace[] {
+  return TagSystem.getInstance().getNamespaces();
+}
+
 /**
  * Create a new realm
  */
@@ -94,6 +257,7 @@ export async function createRealm(realmData: {
   shapes?: any[];
   tags?: string[];
   color?: string;
+  priority?: number;
 }): Promise<RealmRegion> {
   return RealmManager.getInstance().createRealm(realmData);
 }
@@ -108,6 +272,7 @@ export async function updateRealm(
     shapes?: any[];
     tags?: string[];
     color?: string;
+    priority?: number;
   }
 ): Promise<RealmRegion | null> {
   const manager = RealmManager.getInstance();
@@ -125,20 +290,208 @@ export async function deleteRealm(realmId: string): Promise<boolean> {
   return RealmManager.getInstance().deleteRealm(realmId);
 }
 
+/**
+ * Merge realms into the first of them, combining their tags and deleting the others
+ */
+export async function mergeRealms(realmIds: string[]): Promise<RealmDataCompat> {
+  return RealmManager.getInstance().mergeRealms(realmIds);
+}
+
+/**
+ * Cut the area of another realm out of a realm
+ */
+export async function subtractRealm(realmId: string, otherId: string): Promise<RealmDataCompat> {
+  return RealmManager.getInstance().subtractRealm(realmId, otherId);
+}
+
+/**
+ * Trim a realm to the area it shares with another realm
+ */
+export async function intersectRealm(realmId: string, otherId: string): Promise<RealmDataCompat> {
+  return RealmManager.getInstance().intersectRealm(realmId, otherId);
+}
+
+/**
+ * Cut a realm into pieces along a line, creating a new realm for each extra piece
+ */
+export async function splitRealm(realmId: string, line: PathPoint[]): Promise<RealmDataCompat[]> {
+  return RealmManager.getInstance().splitRealm(realmId, line);
+}
+
 /**
  * Export current scene's realm data
  */
-export function exportScene(): any {
+export function exportScene(): RealmExport {
   return RealmManager.getInstance().exportScene();
 }
 
 /**
- * Import realm data to current scene
+ * Import realm data of any supported export version to current scene
+ * @returns Which realms were accepted, skipped or invalid
  */
-export async function importScene(data: any): Promise<void> {
+export async function importScene(data: any): Promise<RealmImportReport> {
   return RealmManager.getInstance().importScene(data);
 }
 
+/**
+ * Compare an export with the current scene's realms without importing it
+ * @returns New, changed, unchanged and deleted items, and the invalid realms
+ */
+export function previewImport(data: any): {
+  items: RealmDiffItem[];
+  invalid: RealmImportReportEntry[];
+} {
+  return RealmManager.getInstance().previewImport(data);
+}
+
+/**
+ * Apply the accepted items of an import preview to the current scene
+ * @param decisions - Accept flag and merged tags per item
+ */
+export async function applyImportDiff(
+  items: RealmDiffItem[],
+  decisions?: RealmDiffDecision[]
+): Promise<RealmDiffResult> {
+  return RealmManager.getInstance().applyImportDiff(items, decisions);
+}
+
+/**
+ * Export the realms of every scene in the world
+ */
+export function exportWorld(): RealmExport {
+  return WorldTransfer.getInstance().exportWorld();
+}
+
+/**
+ * Import a world export, matching scenes by ID and then by name
+ * @param plan - Target scene and merge/replace/skip mode per exported scene
+ */
+export async function importWorld(
+  data: any,
+  plan?: WorldSceneImport[]
+): Promise<WorldImportReport> {
+  return WorldTransfer.getInstance().importWorld(data, plan);
+}
+
+/**
+ * Check an export against the current format without importing it
+ * @returns Schema errors after migrating to the current version
+ */
+export function validateExport(data: any): { valid: boolean; errors: string[] } {
+  try {
+    const migrated = migrateExport(data);
+    const errors = validateSchema(migrated, REALM_EXPORT_SCHEMA).map(
+      error => `${error.path} ${error.message}`
+    );
+    return { valid: errors.length === 0, errors };
+  } catch (error) {
+    return { valid: false, errors: [error instanceof Error ? error.message : String(error)] };
+  }
+}
+
+/**
+ * Export current scene's realms as a GeoJSON FeatureCollection
+ */
+export function exportGeoJSON(options?: GeoJSONExportOptions): GeoJSONFeatureCollection {
+  return RealmManager.getInstance().exportGeoJSON(options);
+}
+
+/**
+ * Import realms from GeoJSON into the current scene
+ * @returns The number of realms created
+ */
+export async function importGeoJSON(
+  data: GeoJSONFeatureCollection | GeoJSONFeature,
+  options?: GeoJSONImportOptions
+): Promise<number> {
+  return RealmManager.getInstance().importGeoJSON(data, options);
+}
+
+/**
+ * Import an Azgaar Fantasy Map Generator map (.map text, JSON or GeoJSON) as realms
+ * @returns The number of realms created
+ */
+export async function importAzgaarMap(
+  content: string | object,
+  options?: AzgaarImportOptions
+): Promise<number> {
+  return AzgaarImporter.getInstance().import(content, options);
+}
+
+/**
+ * Vectorise a colour mask stretched over the current scene, without creating anything
+ */
+export function vectorizeImageMask(
+  image: ImageMaskData,
+  mappings: ImageMaskMapping[],
+  options?: ImageMaskOptions
+): ImageMaskRealm[] {
+  const importer = ImageMaskImporter.getInstance();
+  return importer.vectorize(image, mappings, importer.getSceneBounds(), options);
+}
+
+/**
+ * Create realms in the current scene from a colour mask
+ * @returns The number of realms created
+ */
+export async function importImageMask(
+  image: ImageMaskData,
+  mappings: ImageMaskMapping[],
+  options?: ImageMaskOptions
+): Promise<number> {
+  const realms = vectorizeImageMask(image, mappings, options);
+  const created = await ImageMaskImporter.getInstance().createRealms(realms);
+  return created.length;
+}
+
+/**
+ * Get how much a user (default: the current user) knows about a realm
+ */
+export function getDiscoveryState(realmId: string, userId?: string): DiscoveryState {
+  const realm = RealmManager.getInstance().getRealm(realmId);
+  return realm ? getRealmDiscoveryState(realm._region, userId ?? game.user?.id) : 'undiscovered';
+}
+
+/**
+ * Set a realm's discovery state for a user, or for the whole party by default
+ */
+export async function setDiscoveryState(
+  realmId: string,
+  state: DiscoveryState,
+  target: string = PARTY_DISCOVERY
+): Promise<void> {
+  return RealmDiscovery.getInstance().setDiscoveryState(realmId, state, target);
+}
+
+/**
+ * Get which party token discovered a realm through movement, and when
+ */
+export function getDiscoveryRecord(realmId: string): DiscoveryRecord | null {
+  const realm = RealmManager.getInstance().getRealm(realmId);
+  return realm && canSeeRealm(realm._region) ? getRealmDiscoveryRecord(realm._region) : null;
+}
+
+/**
+ * Find gaps and overlaps between the current scene's realms, largest first
+ */
+export function checkRealmBorders(options?: BorderCheckOptions): BorderProblem[] {
+  return checkSceneBorders(undefined, options);
+}
+
+/**
+ * Colour realms by a tag namespace, or turn the thematic overlay off with null
+ */
+export async function setThematicOverlay(namespace: string | null): Promise<void> {
+  return ThematicOverlay.getInstance().setNamespace(namespace);
+}
+
+/**
+ * Get the namespace the thematic overlay shows, or null when it is off
+ */
+export function getThematicOverlay(): string | null {
+  return ThematicOverlay.getInstance().getNamespace();
+}
+
 /**
  * Get the RealmManager instance
  */
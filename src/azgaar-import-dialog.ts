@@ -0,0 +1,128 @@
+/**
+ * Azgaar Import Dialog - Choose an FMG map and how to tag it
+ *
+ * The biome mapping table is edited as text, one `id: tags` line per biome,
+ * and saved in the 'azgaarBiomeTags' world setting for the next import.
+ */
+
+import {
+  AzgaarImporter,
+  AzgaarLayer,
+  AZGAAR_BIOME_NAMES,
+  DEFAULT_AZGAAR_BIOME_TAGS
+} from './azgaar-importer';
+
+/**
+ * Format a biome mapping as editable lines
+ */
+export function formatBiomeTagTable(table: Record<string, string[]>): string {
+  return Object.entries(table)
+    .sort(([a], [b]) => Number(a) - Number(b))
+    .map(([id, tags]) => `${id}: ${tags.join(', ')}`)
+    .join('\n');
+}
+
+/**
+ * Parse `id: tag, tag` lines into a biome mapping; blank tags skip the biome
+ */
+export function parseBiomeTagTable(text: string): Record<string, string[]> {
+  const table: Record<string, string[]> = {};
+  for (const line of text.split('\n')) {
+    const match = line.match(/^\s*(\d+)\s*:(.*)$/);
+    if (!match) continue;
+    table[match[1]] = match[2]
+      .split(',')
+      .map(tag => tag.trim().toLowerCase())
+      .filter(tag => tag.includes(':'));
+  }
+  return table;
+}
+
+/**
+ * Open the import dialog for the current scene
+ */
+export function openAzgaarImportDialog(): void {
+  const saved = game.settings.get('realms-and-reaches', 'azgaarBiomeTags');
+  const table = Object.keys(saved || {}).length > 0 ? saved : DEFAULT_AZGAAR_BIOME_TAGS;
+  const biomeHint = AZGAAR_BIOME_NAMES.map((name, id) => `${id} ${name}`).join(', ');
+
+  const dialog = new Dialog({
+    title: 'Import Azgaar Map',
+    content: `
+      <form class="realm-azgaar-import" autocomplete="off">
+        <div class="form-group">
+          <label>Map File</label>
+          <input type="file" name="file" accept=".map,.json,.geojson">
+        </div>
+        <p class="notes">A saved .map file, a full JSON export or a cells GeoJSON export.</p>
+        <div class="form-group">
+          <label>Layers</label>
+          <label class="checkbox"><input type="checkbox" name="biomes" checked> Biomes</label>
+          <label class="checkbox"><input type="checkbox" name="states" checked> States</label>
+          <label class="checkbox"><input type="checkbox" name="provinces"> Provinces</label>
+        </div>
+        <div class="form-group">
+          <label>State Namespace</label>
+          <input type="text" name="stateNamespace" value="state">
+        </div>
+        <div class="form-group">
+          <label>Province Namespace</label>
+          <input type="text" name="provinceNamespace" value="province">
+        </div>
+        <div class="form-group stacked">
+          <label>Biome Tags</label>
+          <textarea name="biomeTags" rows="8">${formatBiomeTagTable(table)}</textarea>
+          <p class="notes">One <code>id: tags</code> line per FMG biome; leave the tags blank to skip it. Default IDs: ${biomeHint}.</p>
+        </div>
+        <div class="form-group">
+          <label class="checkbox"><input type="checkbox" name="replace"> Replace existing realms</label>
+        </div>
+      </form>
+    `,
+    buttons: {
+      import: {
+        icon: '<i class="fas fa-file-import"></i>',
+        label: 'Import',
+        callback: async (html: JQuery) => {
+          const form = html.find('form')[0] as HTMLFormElement;
+          const file = (form.elements.namedItem('file') as HTMLInputElement).files?.[0];
+          if (!file) {
+            ui.notifications?.warn('Choose a map file to import');
+            return;
+          }
+
+          const checked = (name: string) =>
+            (form.elements.namedItem(name) as HTMLInputElement).checked;
+          const text = (name: string) =>
+            (form.elements.namedItem(name) as HTMLInputElement).value.trim();
+
+          const layers = (['biomes', 'states', 'provinces'] as AzgaarLayer[]).filter(checked);
+          const biomeTags = parseBiomeTagTable(text('biomeTags'));
+          await game.settings.set('realms-and-reaches', 'azgaarBiomeTags', biomeTags);
+
+          try {
+            const count = await AzgaarImporter.getInstance().import(await file.text(), {
+              layers,
+              biomeTags,
+              stateNamespace: text('stateNamespace') || undefined,
+              provinceNamespace: text('provinceNamespace') || undefined,
+              replace: checked('replace')
+            });
+            ui.notifications?.info(`Imported ${count} realms from ${file.name}`);
+          } catch (error) {
+            console.error('Realms & Reaches | Azgaar import failed:', error);
+            ui.notifications?.error(
+              'Failed to import map: ' + (error instanceof Error ? error.message : String(error))
+            );
+          }
+        }
+      },
+      cancel: {
+        label: 'Cancel'
+      }
+    },
+    default: 'import'
+  });
+
+  dialog.render(true);
+}
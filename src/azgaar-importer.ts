@@ -0,0 +1,676 @@
+/**
+ * AzgaarImporter - Create realms from Azgaar's Fantasy Map Generator maps
+ *
+ * Reads a saved `.map` file (biome, state and province outlines from its
+ * embedded SVG), a full JSON export (pack cells and vertices) or a cells
+ * GeoJSON export. Cells are merged into one realm per biome, state and
+ * province, scaled to the scene, and tagged through a configurable table.
+ */
+
+import { RealmManager } from './realm-manager';
+import { TagSystem, TagVocabulary } from './tag-system';
+import { ringsToShapes } from './path-geometry';
+import { createRealmExport } from './export-format';
+
+export type AzgaarLayer = 'biomes' | 'states' | 'provinces';
+
+/**
+ * One biome, state or province, with its outline rings in map coordinates
+ */
+export interface AzgaarArea {
+  id: number;
+  name: string;
+  color?: string;
+  rings: number[][]; // Flat [x1, y1, x2, y2, ...] rings; nesting decides holes
+}
+
+/**
+ * Map contents read from any supported FMG format
+ */
+export interface AzgaarMapData {
+  width: number;
+  height: number;
+  biomes: AzgaarArea[];
+  states: AzgaarArea[];
+  provinces: AzgaarArea[];
+}
+
+export interface AzgaarImportOptions {
+  sceneId?: string;
+  layers?: AzgaarLayer[]; // Default: all three
+  biomeTags?: Record<string, string[]>; // FMG biome ID to realm tags; [] skips the biome
+  stateNamespace?: string; // Tag prefix for states (default 'state')
+  provinceNamespace?: string; // Tag prefix for provinces (default 'province')
+  replace?: boolean; // Delete the scene's realms first
+}
+
+/**
+ * A realm ready to import
+ */
+export interface AzgaarRealm {
+  name: string;
+  color?: string;
+  shapes: any[];
+  tags: string[];
+  priority: number;
+}
+
+/**
+ * Names of FMG's default biomes, by ID
+ */
+export const AZGAAR_BIOME_NAMES = [
+  'Marine',
+  'Hot desert',
+  'Cold desert',
+  'Savanna',
+  'Grassland',
+  'Tropical seasonal forest',
+  'Temperate deciduous forest',
+  'Tropical rainforest',
+  'Temperate rainforest',
+  'Taiga',
+  'Tundra',
+  'Glacier',
+  'Wetland'
+];
+
+/**
+ * Default tags for FMG's biome IDs; marine cells are not imported
+ */
+export const DEFAULT_AZGAAR_BIOME_TAGS: Record<string, string[]> = {
+  0: [],
+  1: ['biome:desert', 'climate:arid'],
+  2: ['biome:desert', 'climate:dry'],
+  3: ['biome:grassland', 'climate:tropical'],
+  4: ['biome:grassland', 'climate:temperate'],
+  5: ['biome:forest', 'climate:tropical'],
+  6: ['biome:forest', 'climate:temperate'],
+  7: ['biome:jungle', 'climate:tropical'],
+  8: ['biome:forest', 'climate:wet'],
+  9: ['biome:forest', 'climate:arctic'],
+  10: ['biome:tundra', 'climate:arctic'],
+  11: ['biome:tundra', 'climate:arctic', 'terrain:rugged'],
+  12: ['biome:swamp', 'terrain:marshy']
+};
+
+const LAYER_PRIORITY: Record<AzgaarLayer, number> = { biomes: 0, states: 1, provinces: 2 };
+
+interface CellVertex {
+  key: string;
+  x: number;
+  y: number;
+}
+
+/**
+ * Turn a name into a tag value
+ */
+export function toTagValue(name: string): string {
+  return name
+    .toLowerCase()
+    .normalize('NFD')
+    .replace(/[\u0300-\u036f]/g, '')
+    .replace(/[^a-z0-9_.-]+/g, '_')
+    .replace(/^_+|_+$/g, '');
+}
+
+/**
+ * Signed area of a flat point ring
+ */
+function ringArea(points: { x: number; y: number }[]): number {
+  let area = 0;
+  for (let i = 0; i < points.length; i++) {
+    const a = points[i];
+    const b = points[(i + 1) % points.length];
+    area += a.x * b.y - b.x * a.y;
+  }
+  return area / 2;
+}
+
+/**
+ * Parse an SVG path into flat point rings, sampling curves
+ * @param curveSteps - Points added per curve segment
+ */
+export function parseSvgPath(d: string, curveSteps = 4): number[][] {
+  const tokens = d.match(/[a-z]|-?(?:\d+\.?\d*|\.\d+)(?:e[-+]?\d+)?/gi) || [];
+  const arity: Record<string, number> = {
+    m: 2,
+    l: 2,
+    t: 2,
+    h: 1,
+    v: 1,
+    c: 6,
+    s: 4,
+    q: 4,
+    a: 7,
+    z: 0
+  };
+
+  const rings: number[][] = [];
+  let ring: number[] = [];
+  let x = 0;
+  let y = 0;
+  let startX = 0;
+  let startY = 0;
+  let control: [number, number] | null = null;
+  let command = '';
+  let i = 0;
+
+  const closeRing = () => {
+    if (ring.length >= 6) rings.push(ring);
+    ring = [];
+  };
+
+  const bezier = (points: number[][]) => {
+    for (let step = 1; step <= curveSteps; step++) {
+      const t = step / curveSteps;
+      let level = points;
+      while (level.length > 1) {
+        level = level
+          .slice(1)
+          .map((p, j) => [
+            level[j][0] + (p[0] - level[j][0]) * t,
+            level[j][1] + (p[1] - level[j][1]) * t
+          ]);
+      }
+      ring.push(level[0][0], level[0][1]);
+    }
+  };
+
+  while (i < tokens.length) {
+    if (/[a-z]/i.test(tokens[i])) {
+      command = tokens[i++];
+    } else if (!command) {
+      i++;
+      continue;
+    }
+
+    const lower = command.toLowerCase();
+    const relative = command !== command.toUpperCase();
+    if (lower === 'z') {
+      closeRing();
+      x = startX;
+      y = startY;
+      command = '';
+      continue;
+    }
+
+    const args = tokens.slice(i, i + arity[lower]).map(Number);
+    if (args.length < arity[lower] || args.some(n => !Number.isFinite(n))) break;
+    i += arity[lower];
+
+    const ox = relative ? x : 0;
+    const oy = relative ? y : 0;
+    let nextControl: [number, number] | null = null;
+
+    switch (lower) {
+      case 'm':
+        closeRing();
+        x = startX = args[0] + ox;
+        y = startY = args[1] + oy;
+        ring.push(x, y);
+        command = relative ? 'l' : 'L'; // Extra pairs are line-tos
+        break;
+      case 'l':
+      case 'a': // Arcs are rare in FMG output; keep the end point
+        x = args[arity[lower] - 2] + ox;
+        y = args[arity[lower] - 1] + oy;
+        ring.push(x, y);
+        break;
+      case 'h':
+        x = args[0] + ox;
+        ring.push(x, y);
+        break;
+      case 'v':
+        y = args[0] + oy;
+        ring.push(x, y);
+        break;
+      case 'c':
+      case 's': {
+        const c1: [number, number] =
+          lower === 'c'
+            ? [args[0] + ox, args[1] + oy]
+            : control
+              ? [2 * x - control[0], 2 * y - control[1]]
+              : [x, y];
+        const rest = lower === 'c' ? args.slice(2) : args;
+        const c2: [number, number] = [rest[0] + ox, rest[1] + oy];
+        const end: [number, number] = [rest[2] + ox, rest[3] + oy];
+        bezier([[x, y], c1, c2, end]);
+        nextControl = c2;
+        [x, y] = end;
+        break;
+      }
+      case 'q':
+      case 't': {
+        const c: [number, number] =
+          lower === 'q'
+            ? [args[0] + ox, args[1] + oy]
+            : control
+              ? [2 * x - control[0], 2 * y - control[1]]
+              : [x, y];
+        const end: [number, number] =
+          lower === 'q' ? [args[2] + ox, args[3] + oy] : [args[0] + ox, args[1] + oy];
+        bezier([[x, y], c, end]);
+        nextControl = c;
+        [x, y] = end;
+        break;
+      }
+    }
+    control = nextControl;
+  }
+
+  closeRing();
+  return rings;
+}
+
+/**
+ * Merge adjacent cells into outline rings
+ *
+ * Cells are wound the same way, so an edge shared by two cells appears once
+ * in each direction and cancels out; the edges left over form the outlines.
+ */
+export function dissolveCells(cells: CellVertex[][]): number[][] {
+  const edges = new Map<string, { from: CellVertex; to: CellVertex }>();
+
+  for (const cell of cells) {
+    if (cell.length < 3) continue;
+    const ring = ringArea(cell) < 0 ? [...cell].reverse() : cell;
+
+    for (let i = 0; i < ring.length; i++) {
+      const from = ring[i];
+      const to = ring[(i + 1) % ring.length];
+      if (from.key === to.key) continue;
+
+      const reverse = `${to.key}>${from.key}`;
+      if (edges.has(reverse)) {
+        edges.delete(reverse);
+      } else {
+        edges.set(`${from.key}>${to.key}`, { from, to });
+      }
+    }
+  }
+
+  const outgoing = new Map<string, { from: CellVertex; targets: CellVertex[] }>();
+  for (const { from, to } of edges.values()) {
+    let entry = outgoing.get(from.key);
+    if (!entry) {
+      entry = { from, targets: [] };
+      outgoing.set(from.key, entry);
+    }
+    entry.targets.push(to);
+  }
+
+  const rings: number[][] = [];
+  for (const entry of outgoing.values()) {
+    while (entry.targets.length > 0) {
+      const points = [entry.from.x, entry.from.y];
+      let current: CellVertex | undefined = entry.targets.pop();
+      let guard = edges.size;
+
+      while (current && current.key !== entry.from.key && guard-- > 0) {
+        points.push(current.x, current.y);
+        current = outgoing.get(current.key)?.targets.pop();
+      }
+      if (points.length >= 6) rings.push(points);
+    }
+  }
+
+  return rings;
+}
+
+/**
+ * Find a JSON array line in a .map file whose entries have every given key
+ */
+function findJsonList(lines: string[], keys: string[]): any[] {
+  for (const line of lines) {
+    if (!line.startsWith('[{') && !line.startsWith('[0,{')) continue;
+    try {
+      const list = JSON.parse(line);
+      const matches = (entry: any) =>
+        entry && typeof entry === 'object' && keys.every(key => key in entry);
+      if (Array.isArray(list) && list.some(matches)) return list;
+    } catch {
+      // Not JSON; keep looking
+    }
+  }
+  return [];
+}
+
+/**
+ * Look up a state or province name and colour by ID
+ */
+function describeEntry(
+  list: any[],
+  id: number,
+  fallback: string
+): { name: string; color?: string } {
+  const entry = list.find(item => item?.i === id);
+  return {
+    name: entry?.fullName || entry?.name || `${fallback} ${id}`,
+    color: entry?.color
+  };
+}
+
+/**
+ * Group cells by a property and dissolve each group into rings
+ */
+function groupCells(
+  cells: { id: number; vertices: CellVertex[] }[],
+  describeArea: (id: number) => { name: string; color?: string }
+): AzgaarArea[] {
+  const groups = new Map<number, CellVertex[][]>();
+  for (const cell of cells) {
+    if (!Number.isFinite(cell.id)) continue;
+    if (!groups.has(cell.id)) groups.set(cell.id, []);
+    groups.get(cell.id)!.push(cell.vertices);
+  }
+
+  return Array.from(groups.entries())
+    .sort(([a], [b]) => a - b)
+    .map(([id, group]) => ({ id, ...describeArea(id), rings: dissolveCells(group) }));
+}
+
+/**
+ * AzgaarImporter reads FMG maps and creates realms from them
+ */
+export class AzgaarImporter {
+  private static instance: AzgaarImporter;
+
+  static getInstance(): AzgaarImporter {
+    if (!AzgaarImporter.instance) {
+      AzgaarImporter.instance = new AzgaarImporter();
+    }
+    return AzgaarImporter.instance;
+  }
+
+  /**
+   * Read map data from a .map file's text, or a JSON/GeoJSON export
+   */
+  parse(content: string | object): AzgaarMapData {
+    if (typeof content === 'string') {
+      const trimmed = content.trimStart();
+      if (!trimmed.startsWith('{')) return this.parseMapFile(content);
+      content = JSON.parse(trimmed);
+    }
+
+    const data = content as any;
+    if (data?.type === 'FeatureCollection') return this.parseGeoJSON(data);
+    if (data?.pack?.cells || data?.cells) return this.parseJSON(data);
+    throw new Error('Unrecognised Azgaar map format');
+  }
+
+  /**
+   * Read the outlines drawn in a saved .map file's SVG
+   */
+  parseMapFile(text: string): AzgaarMapData {
+    const lines = text.split(/\r?\n/);
+    const svg = lines.find(line => line.startsWith('<svg'));
+    if (!svg) throw new Error('No map SVG found in .map file');
+
+    // params: version|license|date|seed|width|height|mapId
+    const params = lines[0].split('|');
+    const svgSize = (name: string) =>
+      Number(svg.match(new RegExp(`<svg[^>]*\\s${name}="([\\d.]+)`))?.[1]);
+    const width = Number(params[4]) || svgSize('width');
+    const height = Number(params[5]) || svgSize('height');
+
+    // biomes: colours|habitability|names
+    const biomeLine = lines[3]?.split('|') || [];
+    const biomeColors = biomeLine[0]?.split(',') || [];
+    const biomeNames = biomeLine[2]?.split(',') || AZGAAR_BIOME_NAMES;
+
+    const states = findJsonList(lines, ['expansionism']);
+    const provinces = findJsonList(lines, ['formName', 'state']);
+
+    const readGroup = (groupId: string, prefix: string) => {
+      const start = svg.indexOf(`<g id="${groupId}"`);
+      if (start < 0) return [];
+      const end = svg.indexOf('</g>', start);
+      const group = svg.slice(start, end < 0 ? undefined : end);
+
+      const areas: { id: number; color?: string; rings: number[][] }[] = [];
+      for (const [, attributes] of group.matchAll(/<path\b([^>]*)>/g)) {
+        const id = attributes.match(new RegExp(`\\sid="${prefix}(\\d+)"`))?.[1];
+        const d = attributes.match(/\sd="([^"]*)"/)?.[1];
+        if (id === undefined || !d) continue;
+        const color = attributes.match(/\sfill="([^"]*)"/)?.[1];
+        areas.push({ id: Number(id), color, rings: parseSvgPath(d) });
+      }
+      return areas;
+    };
+
+    return {
+      width,
+      height,
+      biomes: readGroup('biomes', 'biome').map(area => ({
+        ...area,
+        name: biomeNames[area.id] || `Biome ${area.id}`,
+        color: biomeColors[area.id] || area.color
+      })),
+      states: readGroup('statesBody', 'state').map(area => {
+        const entry = describeEntry(states, area.id, 'State');
+        return { ...area, name: entry.name, color: entry.color || area.color };
+      }),
+      provinces: readGroup('provincesBody', 'province').map(area => {
+        const entry = describeEntry(provinces, area.id, 'Province');
+        return { ...area, name: entry.name, color: entry.color || area.color };
+      })
+    };
+  }
+
+  /**
+   * Read a full JSON export, merging pack cells by biome, state and province
+   */
+  parseJSON(data: any): AzgaarMapData {
+    const pack = data.pack || data;
+    const cells: any[] = Array.isArray(pack.cells) ? pack.cells : [];
+    const vertices: any[] = Array.isArray(pack.vertices) ? pack.vertices : [];
+    if (cells.length === 0 || vertices.length === 0) {
+      throw new Error('Azgaar JSON has no cells; use the full JSON export');
+    }
+
+    const cellVertices = cells.map(cell =>
+      (cell.v || [])
+        .map((index: number) => {
+          const p = vertices[index]?.p;
+          return p ? { key: String(index), x: p[0], y: p[1] } : null;
+        })
+        .filter((vertex: CellVertex | null) => vertex !== null)
+    );
+
+    let width = Number(data.info?.width);
+    let height = Number(data.info?.height);
+    if (!width || !height) {
+      width = Math.max(...vertices.map(vertex => vertex.p?.[0] || 0));
+      height = Math.max(...vertices.map(vertex => vertex.p?.[1] || 0));
+    }
+
+    const biomeNames: string[] = data.biomesData?.name || AZGAAR_BIOME_NAMES;
+    const biomeColors: string[] = data.biomesData?.color || [];
+    const byProperty = (property: string) =>
+      cells.map((cell, index) => ({ id: Number(cell[property]), vertices: cellVertices[index] }));
+
+    return {
+      width,
+      height,
+      biomes: groupCells(byProperty('biome'), id => ({
+        name: biomeNames[id] || `Biome ${id}`,
+        color: biomeColors[id]
+      })),
+      states: groupCells(byProperty('state'), id => describeEntry(pack.states || [], id, 'State')),
+      provinces: groupCells(byProperty('province'), id =>
+        describeEntry(pack.provinces || [], id, 'Province')
+      )
+    };
+  }
+
+  /**
+   * Read a cells GeoJSON export
+   *
+   * Coordinates are longitude/latitude, so the map is the features' extent
+   * with north up.
+   */
+  parseGeoJSON(data: any): AzgaarMapData {
+    const features: any[] = (data.features || []).filter(
+      (feature: any) => feature?.geometry?.type === 'Polygon'
+    );
+    if (features.length === 0) throw new Error('Azgaar GeoJSON has no cell polygons');
+
+    let minX = Infinity;
+    let minY = Infinity;
+    let maxX = -Infinity;
+    let maxY = -Infinity;
+    for (const feature of features) {
+      for (const [x, y] of feature.geometry.coordinates[0]) {
+        minX = Math.min(minX, x);
+        maxX = Math.max(maxX, x);
+        minY = Math.min(minY, y);
+        maxY = Math.max(maxY, y);
+      }
+    }
+
+    const cellVertices = features.map(feature => {
+      const ring: number[][] = feature.geometry.coordinates[0];
+      const last = ring[ring.length - 1];
+      const closed = ring.length > 1 && ring[0][0] === last[0] && ring[0][1] === last[1];
+      return (closed ? ring.slice(0, -1) : ring).map(([x, y]) => ({
+        key: `${x},${y}`,
+        x: x - minX,
+        y: maxY - y
+      }));
+    });
+
+    const byProperty = (property: string) =>
+      features.map((feature, index) => ({
+        id: Number(feature.properties?.[property]),
+        vertices: cellVertices[index]
+      }));
+
+    return {
+      width: maxX - minX,
+      height: maxY - minY,
+      biomes: groupCells(byProperty('biome'), id => ({
+        name: AZGAAR_BIOME_NAMES[id] || `Biome ${id}`
+      })),
+      states: groupCells(byProperty('state'), id => ({ name: `State ${id}` })),
+      provinces: groupCells(byProperty('province'), id => ({ name: `Province ${id}` }))
+    };
+  }
+
+  /**
+   * Get the tags for an area, or null to skip it
+   */
+  getAreaTags(
+    layer: AzgaarLayer,
+    area: AzgaarArea,
+    options: AzgaarImportOptions = {}
+  ): string[] | null {
+    if (layer === 'biomes') {
+      const tags = options.biomeTags?.[area.id] ??
+        DEFAULT_AZGAAR_BIOME_TAGS[area.id] ?? [`biome:${toTagValue(area.name)}`];
+      return tags.length > 0 ? tags : null;
+    }
+
+    // ID 0 is FMG's "Neutrals" state and the no-province placeholder
+    if (area.id === 0) return null;
+    const namespace =
+      layer === 'states'
+        ? options.stateNamespace || 'state'
+        : options.provinceNamespace || 'province';
+    const value = toTagValue(area.name);
+    return value ? [`${namespace}:${value}`] : null;
+  }
+
+  /**
+   * Build realms from map data, scaled into the given scene rectangle
+   */
+  buildRealms(
+    map: AzgaarMapData,
+    bounds: { x: number; y: number; width: number; height: number },
+    options: AzgaarImportOptions = {}
+  ): AzgaarRealm[] {
+    const scaleX = bounds.width / (map.width || 1);
+    const scaleY = bounds.height / (map.height || 1);
+    const layers = options.layers || ['biomes', 'states', 'provinces'];
+
+    const realms: AzgaarRealm[] = [];
+    for (const layer of layers) {
+      for (const area of map[layer]) {
+        const tags = this.getAreaTags(layer, area, options);
+        if (!tags) continue;
+
+        const rings = area.rings.map(ring =>
+          ring.map((value, i) =>
+            Math.round(i % 2 === 0 ? bounds.x + value * scaleX : bounds.y + value * scaleY)
+          )
+        );
+        const shapes = ringsToShapes(rings);
+        if (!shapes.some(shape => !shape.hole)) continue;
+
+        realms.push({
+          name: area.name,
+          color: area.color?.startsWith('#') ? area.color : undefined,
+          shapes,
+          tags,
+          priority: LAYER_PRIORITY[layer]
+        });
+      }
+    }
+    return realms;
+  }
+
+  /**
+   * Import an FMG map as realms on a scene
+   * @returns The number of realms created
+   */
+  async import(content: string | object, options: AzgaarImportOptions = {}): Promise<number> {
+    const scene = options.sceneId ? game.scenes?.get(options.sceneId) : canvas?.scene;
+    if (!scene) throw new Error('No scene to import into');
+
+    const map = this.parse(content);
+    const dimensions = (scene as any).dimensions;
+    const realms = this.buildRealms(
+      map,
+      {
+        x: dimensions?.sceneX ?? 0,
+        y: dimensions?.sceneY ?? 0,
+        width: scene.width,
+        height: scene.height
+      },
+      options
+    );
+
+    const report = await RealmManager.getInstance(scene.id).importData(
+      createRealmExport([{ id: scene.id, name: scene.name, realms }]),
+      { replace: options.replace, merge: true }
+    );
+    await this.addNamespaces(realms);
+    return report.accepted.length;
+  }
+
+  /**
+   * Add unknown state and province namespaces to the world tag vocabulary
+   */
+  private async addNamespaces(realms: AzgaarRealm[]): Promise<void> {
+    const tagSystem = TagSystem.getInstance();
+    const added: TagVocabulary = {};
+
+    for (const realm of realms.filter(realm => realm.priority > 0)) {
+      for (const tag of realm.tags) {
+        const [prefix, value] = tag.split(':');
+        if (tagSystem.getNamespaceByPrefix(prefix) && !added[prefix]) continue;
+
+        added[prefix] ??= {
+          label: prefix.charAt(0).toUpperCase() + prefix.slice(1),
+          suggestions: [],
+          singleValue: true
+        };
+        added[prefix].suggestions!.push(value);
+      }
+    }
+
+    if (Object.keys(added).length === 0) return;
+    const vocabulary = game.settings.get('realms-and-reaches', 'tagVocabulary') || {};
+    await game.settings.set('realms-and-reaches', 'tagVocabulary', { ...vocabulary, ...added });
+  }
+}
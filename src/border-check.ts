@@ -0,0 +1,292 @@
+/**
+ * Border Check - Find gaps and overlaps between neighbouring realms
+ *
+ * Samples the area covered by realms on a regular grid. Ground outside every
+ * realm with realm borders close by on opposite sides is a gap; ground inside
+ * two or more realms is an overlap. Neighbouring samples with the same
+ * problem and the same realms are merged into one problem area. Overlaps that
+ * cover nearly all of one realm are treated as deliberate nesting (a town
+ * inside a kingdom) and left out.
+ */
+
+import { RealmDataCompat, RealmManager } from './realm-manager';
+import { PathPoint, nearestOutlinePoint, pointInShapes } from './path-geometry';
+import { SpatialIndex } from './spatial-index';
+
+// Share of a realm an overlap must cover to count as the realm being nested
+const NESTED_FRACTION = 0.9;
+
+/**
+ * A gap or overlap between realms
+ */
+export interface BorderProblem {
+  type: 'gap' | 'overlap';
+  realmIds: string[]; // The realms around the gap, or the overlapping realms
+  center: PathPoint; // A sampled point inside the problem area
+  bounds: { x: number; y: number; width: number; height: number };
+  area: number; // Scene units squared
+}
+
+/**
+ * Options for a border check
+ */
+export interface BorderCheckOptions {
+  resolution?: number; // Sample spacing in pixels (default: a quarter grid square)
+  gapTolerance?: number; // Furthest a gap may be from each realm's border, in pixels (default: two samples)
+  unitsPerPixel?: number; // Scene units per pixel, for areas (default: 1)
+}
+
+interface Sample {
+  key: string | null;
+  x: number;
+  y: number;
+}
+
+/**
+ * Whether a point lies between outlines on opposite sides of it, rather than
+ * outside a corner where they meet
+ */
+function isBetween(x: number, y: number, points: PathPoint[]): boolean {
+  for (let i = 0; i < points.length; i++) {
+    for (let j = i + 1; j < points.length; j++) {
+      const dot = (points[i].x - x) * (points[j].x - x) + (points[i].y - y) * (points[j].y - y);
+      if (dot < 0) return true;
+    }
+  }
+  return false;
+}
+
+/**
+ * Find the gaps and overlaps between some realms, largest first
+ */
+export function findBorderProblems(
+  realms: RealmDataCompat[],
+  options: BorderCheckOptions = {}
+): BorderProblem[] {
+  if (realms.length < 2) return [];
+
+  const resolution = Math.max(1, options.resolution ?? 25);
+  const gapTolerance = options.gapTolerance ?? resolution * 2;
+  const unitsPerPixel = options.unitsPerPixel ?? 1;
+
+  const entries = realms.map(realm => ({
+    id: realm.id,
+    shapes: (realm._region.shapes || []) as any[],
+    bounds: realm.getBounds()
+  }));
+
+  // Only test the realms whose bounds come within the gap tolerance of a sample,
+  // in the order they were given so problem keys match between samples
+  const index = new SpatialIndex();
+  const order = new Map(entries.map((entry, i) => [entry.id, i]));
+  entries.forEach(entry => index.insert(entry.id, entry.bounds));
+  const candidatesAt = (x: number, y: number) =>
+    index
+      .queryBounds({
+        x: x - gapTolerance,
+        y: y - gapTolerance,
+        width: gapTolerance * 2,
+        height: gapTolerance * 2
+      })
+      .map(id => order.get(id)!)
+      .sort((a, b) => a - b)
+      .map(i => entries[i]);
+  const minX = Math.min(...entries.map(entry => entry.bounds.x));
+  const minY = Math.min(...entries.map(entry => entry.bounds.y));
+  const maxX = Math.max(...entries.map(entry => entry.bounds.x + entry.bounds.width));
+  const maxY = Math.max(...entries.map(entry => entry.bounds.y + entry.bounds.height));
+  const cols = Math.ceil((maxX - minX) / resolution);
+  const rows = Math.ceil((maxY - minY) / resolution);
+
+  const near = (bounds: BorderProblem['bounds'], x: number, y: number, margin: number) =>
+    x >= bounds.x - margin &&
+    x <= bounds.x + bounds.width + margin &&
+    y >= bounds.y - margin &&
+    y <= bounds.y + bounds.height + margin;
+
+  // Classify each sample by the realms it is in, or the realms it lies between
+  const samples: Sample[] = [];
+  const realmSamples = new Map<string, number>();
+  for (let row = 0; row < rows; row++) {
+    for (let col = 0; col < cols; col++) {
+      const x = minX + (col + 0.5) * resolution;
+      const y = minY + (row + 0.5) * resolution;
+
+      const candidates = candidatesAt(x, y);
+      const inside = candidates.filter(
+        entry => near(entry.bounds, x, y, 0) && pointInShapes(x, y, entry.shapes)
+      );
+      for (const entry of inside) {
+        realmSamples.set(entry.id, (realmSamples.get(entry.id) || 0) + 1);
+      }
+
+      let key: string | null = null;
+      if (inside.length >= 2) {
+        key = `overlap:${inside.map(entry => entry.id).join('|')}`;
+      } else if (inside.length === 0) {
+        const around = candidates.flatMap(entry => {
+          if (!near(entry.bounds, x, y, gapTolerance)) return [];
+          const point = nearestOutlinePoint(x, y, entry.shapes);
+          return point && point.distance <= gapTolerance ? [{ id: entry.id, point }] : [];
+        });
+        if (
+          isBetween(
+            x,
+            y,
+            around.map(entry => entry.point)
+          )
+        ) {
+          key = `gap:${around.map(entry => entry.id).join('|')}`;
+        }
+      }
+      samples.push({ key, x, y });
+    }
+  }
+
+  // Merge touching samples with the same key into problem areas
+  const problems: BorderProblem[] = [];
+  const visited = new Uint8Array(samples.length);
+  for (let start = 0; start < samples.length; start++) {
+    const key = samples[start].key;
+    if (!key || visited[start]) continue;
+
+    const area: Sample[] = [];
+    const queue = [start];
+    visited[start] = 1;
+    while (queue.length > 0) {
+      const index = queue.pop()!;
+      area.push(samples[index]);
+      const col = index % cols;
+      const neighbours = [
+        col > 0 ? index - 1 : -1,
+        col < cols - 1 ? index + 1 : -1,
+        index - cols,
+        index + cols
+      ];
+      for (const next of neighbours) {
+        if (next < 0 || next >= samples.length || visited[next]) continue;
+        if (samples[next].key !== key) continue;
+        visited[next] = 1;
+        queue.push(next);
+      }
+    }
+
+    const [type, ids] = key.split(':') as ['gap' | 'overlap', string];
+    const realmIds = ids.split('|');
+    if (
+      type === 'overlap' &&
+      realmIds.some(id => area.length >= NESTED_FRACTION * (realmSamples.get(id) || 0))
+    ) {
+      continue;
+    }
+
+    const xs = area.map(sample => sample.x);
+    const ys = area.map(sample => sample.y);
+    const x = Math.min(...xs) - resolution / 2;
+    const y = Math.min(...ys) - resolution / 2;
+    problems.push({
+      type,
+      realmIds,
+      center: { x: area[0].x, y: area[0].y },
+      bounds: {
+        x,
+        y,
+        width: Math.max(...xs) + resolution / 2 - x,
+        height: Math.max(...ys) + resolution / 2 - y
+      },
+      area: area.length * (resolution * unitsPerPixel) ** 2
+    });
+  }
+
+  return problems.sort((a, b) => b.area - a.area);
+}
+
+/**
+ * Check the borders of every realm in a scene (default: the current scene)
+ */
+export function checkSceneBorders(
+  sceneId?: string,
+  options: BorderCheckOptions = {}
+): BorderProblem[] {
+  const manager = RealmManager.getInstance(sceneId);
+  const scene = game.scenes?.get(sceneId || canvas?.scene?.id || '');
+  const gridSize = Number(scene?.grid?.size) || 100;
+  const gridDistance = Number(scene?.grid?.distance);
+
+  return findBorderProblems(manager.getAllRealms(), {
+    resolution: gridSize / 4,
+    unitsPerPixel: gridDistance > 0 ? gridDistance / gridSize : 1,
+    ...options
+  });
+}
+
+/**
+ * Render the list of problems found by a border check
+ */
+export function renderBorderProblems(
+  problems: BorderProblem[],
+  getName: (realmId: string) => string,
+  units = ''
+): string {
+  if (problems.length === 0) {
+    return '<p class="border-check-empty">No gaps or overlaps between realms</p>';
+  }
+
+  const escape = (foundry.utils as any).escapeHTML;
+
+  return `
+    <ul class="border-check-list">
+      ${problems
+        .map((problem, index) => {
+          const names = problem.realmIds.map(id => escape(getName(id))).join(', ');
+          const label = problem.type === 'gap' ? 'Gap between' : 'Overlap of';
+          const area = `${Math.round(problem.area)}${units ? ` ${units}²` : ''}`;
+          return `
+            <li class="border-check-problem border-check-${problem.type}" data-index="${index}">
+              <i class="fas ${problem.type === 'gap' ? 'fa-grip-lines-vertical' : 'fa-clone'}"></i>
+              <span>${label} ${names}</span>
+              <span class="border-check-area">${area}</span>
+            </li>
+          `;
+        })
+        .join('')}
+    </ul>
+  `;
+}
+
+/**
+ * Check the current scene's realm borders and list the problems found
+ */
+export function openBorderCheckDialog(): void {
+  const manager = RealmManager.getInstance();
+  const problems = checkSceneBorders();
+  const getName = (realmId: string) => manager.getRealm(realmId)?.name || realmId;
+
+  const dialog = new Dialog({
+    title: 'Check Realm Borders',
+    content: `
+      <div class="border-check">
+        <p class="notes">
+          Gaps are unclaimed ground between realms; overlaps are ground claimed by more than one.
+          Click a problem to show it on the map.
+        </p>
+        ${renderBorderProblems(problems, getName, canvas?.scene?.grid?.units || '')}
+      </div>
+    `,
+    buttons: {
+      close: { label: 'Close' }
+    },
+    default: 'close',
+    render: (html: JQuery) => {
+      html.on('click', '.border-check-problem', (event: any) => {
+        const problem = problems[Number($(event.currentTarget).data('index'))];
+        if (!problem) return;
+
+        canvas?.animatePan({ x: problem.center.x, y: problem.center.y });
+        canvas?.ping?.(problem.center);
+      });
+    }
+  });
+
+  dialog.render(true);
+}
@@ -0,0 +1,324 @@
+/**
+ * Export Format - The versioned file format for sharing realms
+ *
+ * Every export is a `realms-and-reaches` document with an integer `version`
+ * and a list of scenes, each holding its realm records. Older files are
+ * upgraded by the migration pipeline before they are validated against
+ * REALM_EXPORT_SCHEMA, so import code only ever sees the current version.
+ */
+
+export const REALM_EXPORT_FORMAT = 'realms-and-reaches';
+export const REALM_EXPORT_VERSION = 2;
+
+/**
+ * A realm as stored in an export
+ */
+export interface RealmRecord {
+  id?: string;
+  name: string;
+  color?: string | number | null;
+  shapes: any[];
+  tags: string[];
+  priority?: number;
+  metadata?: any;
+}
+
+export interface RealmExportScene {
+  id?: string;
+  name?: string;
+  bounds?: { width: number; height: number } | null;
+  realms: RealmRecord[];
+}
+
+export interface RealmExport {
+  format: typeof REALM_EXPORT_FORMAT;
+  version: number;
+  metadata: {
+    author?: string;
+    created?: string;
+    moduleVersion?: string;
+    description?: string;
+    [key: string]: any;
+  };
+  scenes: RealmExportScene[];
+}
+
+export interface RealmImportReportEntry {
+  id?: string;
+  name?: string;
+  reason?: string; // Why a realm was skipped
+  errors?: string[]; // Why a realm is invalid
+}
+
+/**
+ * Outcome of an import, realm by realm
+ */
+export interface RealmImportReport {
+  sourceVersion: number; // Version of the file before migration
+  accepted: RealmImportReportEntry[];
+  skipped: RealmImportReportEntry[];
+  invalid: RealmImportReportEntry[];
+}
+
+/**
+ * JSON Schema (draft 2020-12) for the current export version
+ */
+export const REALM_EXPORT_SCHEMA = {
+  $schema: 'https://json-schema.org/draft/2020-12/schema',
+  $id: 'https://github.com/rayners/fvtt-realms-and-reaches/schemas/export.json',
+  title: 'Realms & Reaches export',
+  type: 'object',
+  required: ['format', 'version', 'metadata', 'scenes'],
+  properties: {
+    format: { const: REALM_EXPORT_FORMAT },
+    version: { const: REALM_EXPORT_VERSION },
+    metadata: { type: 'object' },
+    scenes: { type: 'array', items: { $ref: '#/$defs/scene' } }
+  },
+  $defs: {
+    scene: {
+      type: 'object',
+      required: ['realms'],
+      properties: {
+        id: { type: 'string' },
+        name: { type: 'string' },
+        bounds: {
+          type: ['object', 'null'],
+          required: ['width', 'height'],
+          properties: { width: { type: 'number' }, height: { type: 'number' } }
+        },
+        realms: { type: 'array', items: { $ref: '#/$defs/realm' } }
+      }
+    },
+    realm: {
+      type: 'object',
+      required: ['name', 'shapes', 'tags'],
+      properties: {
+        id: { type: 'string' },
+        name: { type: 'string', minLength: 1 },
+        color: { type: ['string', 'number', 'null'] },
+        shapes: { type: 'array', minItems: 1, items: { $ref: '#/$defs/shape' } },
+        tags: { type: 'array', items: { type: 'string', pattern: '^[^:]+:.+$' } },
+        priority: { type: 'number' },
+        metadata: { type: ['object', 'null'] }
+      }
+    },
+    shape: {
+      type: 'object',
+      required: ['type'],
+      properties: {
+        type: { enum: ['polygon', 'rectangle', 'ellipse', 'circle'] },
+        points: { type: 'array', items: { type: 'number' } },
+        hole: { type: 'boolean' }
+      }
+    }
+  }
+};
+
+/**
+ * A schema validation failure at a JSON pointer path
+ */
+export interface SchemaError {
+  path: string;
+  message: string;
+}
+
+function typeOf(value: any): string {
+  if (value === null) return 'null';
+  if (Array.isArray(value)) return 'array';
+  return typeof value;
+}
+
+/**
+ * Validate a value against the JSON Schema keywords the export schema uses:
+ * type, const, enum, required, properties, items, minItems, minLength,
+ * pattern and local `#/$defs/` references.
+ */
+export function validateSchema(
+  value: any,
+  schema: any,
+  root: any = schema,
+  path = ''
+): SchemaError[] {
+  if (schema.$ref) {
+    const name = String(schema.$ref).replace('#/$defs/', '');
+    return validateSchema(value, root.$defs[name], root, path);
+  }
+
+  const errors: SchemaError[] = [];
+  const at = path || '/';
+  const type = typeOf(value);
+
+  if (schema.type) {
+    const allowed: string[] = Array.isArray(schema.type) ? schema.type : [schema.type];
+    if (!allowed.includes(type)) {
+      return [{ path: at, message: `must be ${allowed.join(' or ')}` }];
+    }
+  }
+  if ('const' in schema && value !== schema.const) {
+    errors.push({ path: at, message: `must be ${JSON.stringify(schema.const)}` });
+  }
+  if (schema.enum && !schema.enum.includes(value)) {
+    errors.push({ path: at, message: `must be one of ${schema.enum.join(', ')}` });
+  }
+
+  if (type === 'string') {
+    if (schema.minLength !== undefined && value.length < schema.minLength) {
+      errors.push({ path: at, message: 'must not be empty' });
+    }
+    if (schema.pattern && !new RegExp(schema.pattern).test(value)) {
+      errors.push({ path: at, message: `must match ${schema.pattern}` });
+    }
+  }
+
+  if (type === 'object') {
+    for (const key of schema.required || []) {
+      if (value[key] === undefined) {
+        errors.push({ path: `${path}/${key}`, message: 'is required' });
+      }
+    }
+    for (const [key, propertySchema] of Object.entries(schema.properties || {})) {
+      if (value[key] === undefined) continue;
+      errors.push(...validateSchema(value[key], propertySchema, root, `${path}/${key}`));
+    }
+  }
+
+  if (type === 'array') {
+    if (schema.minItems !== undefined && value.length < schema.minItems) {
+      errors.push({ path: at, message: `must have at least ${schema.minItems} items` });
+    }
+    if (schema.items) {
+      value.forEach((item: any, index: number) => {
+        errors.push(...validateSchema(item, schema.items, root, `${path}/${index}`));
+      });
+    }
+  }
+
+  return errors;
+}
+
+/**
+ * Upgrades from one version to the next, keyed by the version they upgrade from
+ */
+export const REALM_EXPORT_MIGRATIONS: Record<number, (data: any) => any> = {
+  // v1 had two layouts: exportData's single `realms` list and exportScene's
+  // `scenes` object keyed by scene ID
+  1: data => {
+    const metadata = { ...data.metadata };
+    delete metadata.version;
+    delete metadata.sceneId;
+    delete metadata.sceneName;
+
+    let scenes: RealmExportScene[] = [];
+    if (Array.isArray(data.realms)) {
+      scenes = [
+        {
+          id: data.metadata?.sceneId,
+          name: data.metadata?.sceneName,
+          bounds: data.bounds ?? null,
+          realms: data.realms
+        }
+      ];
+    } else if (data.scenes && typeof data.scenes === 'object') {
+      scenes = Object.entries(data.scenes).map(([id, scene]: [string, any]) => ({
+        id,
+        bounds: scene?.bounds ?? null,
+        realms: scene?.realms
+      }));
+    }
+
+    return { format: REALM_EXPORT_FORMAT, version: 2, metadata, scenes };
+  }
+};
+
+/**
+ * Get the version of an export, or null if it is not a realm export
+ */
+export function getExportVersion(data: any): number | null {
+  if (data?.format === 'realms-and-reaches-v1') return 1;
+  if (data?.format === REALM_EXPORT_FORMAT && Number.isInteger(data.version)) {
+    return data.version;
+  }
+  return null;
+}
+
+/**
+ * Upgrade an export of any known version to the current version
+ */
+export function migrateExport(data: any): RealmExport {
+  let version = getExportVersion(data);
+  if (version === null) {
+    throw new Error('Unsupported data format');
+  }
+  if (version > REALM_EXPORT_VERSION) {
+    throw new Error(
+      `Export version ${version} is newer than this module supports (${REALM_EXPORT_VERSION})`
+    );
+  }
+
+  let migrated = data;
+  while (version < REALM_EXPORT_VERSION) {
+    const migrate = REALM_EXPORT_MIGRATIONS[version];
+    if (!migrate) {
+      throw new Error(`No migration from export version ${version}`);
+    }
+    migrated = migrate(migrated);
+    version++;
+  }
+  return migrated;
+}
+
+/**
+ * Migrate and validate an export
+ *
+ * Errors outside realm records reject the whole file; errors inside a realm
+ * record are returned so that realm alone can be reported as invalid.
+ * @returns The migrated export and schema errors by scene and realm index
+ */
+export function parseRealmExport(data: any): {
+  data: RealmExport;
+  sourceVersion: number;
+  realmErrors: Map<string, string[]>;
+} {
+  const sourceVersion = getExportVersion(data) ?? 0;
+  const migrated = migrateExport(data);
+  const realmErrors = new Map<string, string[]>();
+  const fileErrors: string[] = [];
+
+  for (const error of validateSchema(migrated, REALM_EXPORT_SCHEMA)) {
+    const match = error.path.match(/^\/scenes\/(\d+)\/realms\/(\d+)(\/.*)?$/);
+    if (!match) {
+      fileErrors.push(`${error.path} ${error.message}`);
+      continue;
+    }
+    const key = `${match[1]}/${match[2]}`;
+    const errors = realmErrors.get(key) || [];
+    errors.push(`${match[3] || '/'} ${error.message}`);
+    realmErrors.set(key, errors);
+  }
+
+  if (fileErrors.length > 0) {
+    throw new Error(`Invalid realm export: ${fileErrors.join('; ')}`);
+  }
+  return { data: migrated, sourceVersion, realmErrors };
+}
+
+/**
+ * Build a current-version export
+ */
+export function createRealmExport(
+  scenes: RealmExportScene[],
+  metadata: RealmExport['metadata'] = {}
+): RealmExport {
+  return {
+    format: REALM_EXPORT_FORMAT,
+    version: REALM_EXPORT_VERSION,
+    metadata: {
+      author: game.user?.name || 'Unknown',
+      created: new Date().toISOString(),
+      moduleVersion: (game.modules?.get('realms-and-reaches') as any)?.version,
+      ...metadata
+    },
+    scenes
+  };
+}
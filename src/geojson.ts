@@ -0,0 +1,248 @@
+/**
+ * GeoJSON - Convert realms to and from GeoJSON FeatureCollections
+ *
+ * Realm shapes become Polygon or MultiPolygon geometries in scene pixel
+ * coordinates, optionally passed through an affine transform so maps line up
+ * with GIS tools. Ellipses are approximated by polygons, and holes become
+ * interior rings of the shape that contains them.
+ */
+
+import { shapeToPolygon, pointInPolygon } from './path-geometry';
+
+/**
+ * Affine transform from scene pixels to output coordinates:
+ * x' = a·x + b·y + c, y' = d·x + e·y + f
+ */
+export interface AffineTransform {
+  a: number;
+  b: number;
+  c: number;
+  d: number;
+  e: number;
+  f: number;
+}
+
+export const IDENTITY_TRANSFORM: AffineTransform = { a: 1, b: 0, c: 0, d: 0, e: 1, f: 0 };
+
+export type GeoJSONPosition = number[];
+
+export type GeoJSONGeometry =
+  | { type: 'Polygon'; coordinates: GeoJSONPosition[][] }
+  | { type: 'MultiPolygon'; coordinates: GeoJSONPosition[][][] };
+
+export interface GeoJSONFeature {
+  type: 'Feature';
+  id?: string | number;
+  geometry: GeoJSONGeometry | null;
+  properties: Record<string, any> | null;
+}
+
+export interface GeoJSONFeatureCollection {
+  type: 'FeatureCollection';
+  features: GeoJSONFeature[];
+  [member: string]: any;
+}
+
+/**
+ * Realm fields carried in a feature, matching the realm export format
+ */
+export interface GeoJSONRealmRecord {
+  id?: string;
+  name: string;
+  color?: string;
+  shapes: any[];
+  tags: string[];
+  priority?: number;
+  metadata?: any;
+}
+
+export interface GeoJSONExportOptions {
+  transform?: AffineTransform; // Scene pixels to output coordinates
+  segments?: number; // Vertices used to approximate ellipses (default 32)
+}
+
+export interface GeoJSONImportOptions {
+  transform?: AffineTransform; // The transform the data was exported with
+  preserveIds?: boolean; // Reuse feature IDs for the new regions where possible
+  replace?: boolean; // Delete existing realms first
+}
+
+/**
+ * Apply a transform to a point
+ */
+export function applyTransform(transform: AffineTransform, x: number, y: number): [number, number] {
+  const { a, b, c, d, e, f } = transform;
+  return [a * x + b * y + c, d * x + e * y + f];
+}
+
+/**
+ * Get the inverse of a transform
+ */
+export function invertTransform(transform: AffineTransform): AffineTransform {
+  const { a, b, c, d, e, f } = transform;
+  const det = a * e - b * d;
+  if (!det || !Number.isFinite(det)) {
+    throw new Error('Transform cannot be inverted');
+  }
+  return {
+    a: e / det,
+    b: -b / det,
+    c: (b * f - c * e) / det,
+    d: -d / det,
+    e: a / det,
+    f: (c * d - a * f) / det
+  };
+}
+
+/**
+ * Signed area of a closed ring; positive when counterclockwise in y-up axes
+ */
+function ringArea(ring: GeoJSONPosition[]): number {
+  let area = 0;
+  for (let i = 0; i < ring.length - 1; i++) {
+    area += ring[i][0] * ring[i + 1][1] - ring[i + 1][0] * ring[i][1];
+  }
+  return area / 2;
+}
+
+/**
+ * Build a closed, transformed GeoJSON ring from flat polygon points
+ * @param outer - Outer rings wind counterclockwise and holes clockwise (RFC 7946)
+ */
+function toRing(points: number[], transform: AffineTransform, outer: boolean): GeoJSONPosition[] {
+  const ring: GeoJSONPosition[] = [];
+  for (let i = 0; i < points.length - 1; i += 2) {
+    ring.push(applyTransform(transform, points[i], points[i + 1]));
+  }
+  ring.push([...ring[0]]);
+
+  const counterclockwise = ringArea(ring) > 0;
+  return counterclockwise === outer ? ring : ring.reverse();
+}
+
+/**
+ * Convert Region shapes to a Polygon or MultiPolygon geometry
+ * @returns null if there are no usable shapes
+ */
+export function shapesToGeometry(
+  shapes: any[],
+  options: GeoJSONExportOptions = {}
+): GeoJSONGeometry | null {
+  const transform = options.transform || IDENTITY_TRANSFORM;
+  const segments = options.segments || 32;
+
+  const outlines = shapes
+    .filter(shape => !shape.hole)
+    .map(shape => shapeToPolygon(shape, segments))
+    .filter(points => points.length >= 6);
+  if (outlines.length === 0) return null;
+
+  const polygons = outlines.map(points => [toRing(points, transform, true)]);
+
+  // A hole belongs to the first shape containing it; holes outside every shape are dropped
+  for (const shape of shapes.filter(shape => shape.hole)) {
+    const points = shapeToPolygon(shape, segments);
+    if (points.length < 6) continue;
+
+    const index = outlines.findIndex(outline => pointInPolygon(points[0], points[1], outline));
+    if (index >= 0) polygons[index].push(toRing(points, transform, false));
+  }
+
+  return polygons.length === 1
+    ? { type: 'Polygon', coordinates: polygons[0] }
+    : { type: 'MultiPolygon', coordinates: polygons };
+}
+
+/**
+ * Convert a Polygon or MultiPolygon geometry to Region polygon shapes
+ * @param inverse - Transform from the data's coordinates back to scene pixels
+ */
+export function geometryToShapes(
+  geometry: GeoJSONGeometry | null,
+  inverse: AffineTransform = IDENTITY_TRANSFORM
+): any[] {
+  let polygons: GeoJSONPosition[][][];
+  if (geometry?.type === 'Polygon') {
+    polygons = [geometry.coordinates];
+  } else if (geometry?.type === 'MultiPolygon') {
+    polygons = geometry.coordinates;
+  } else {
+    return [];
+  }
+
+  const shapes: any[] = [];
+  for (const rings of polygons) {
+    rings.forEach((ring, index) => {
+      const positions = [...ring];
+      const first = positions[0];
+      const last = positions[positions.length - 1];
+      if (positions.length > 1 && first[0] === last[0] && first[1] === last[1]) positions.pop();
+      if (positions.length < 3) return;
+
+      const points = positions.flatMap(([x, y]) => applyTransform(inverse, x, y));
+      shapes.push(
+        index === 0 ? { type: 'polygon', points } : { type: 'polygon', points, hole: true }
+      );
+    });
+  }
+  return shapes;
+}
+
+/**
+ * Convert a realm record to a GeoJSON feature
+ */
+export function realmToFeature(
+  realm: GeoJSONRealmRecord,
+  options: GeoJSONExportOptions = {}
+): GeoJSONFeature {
+  return {
+    type: 'Feature',
+    id: realm.id,
+    geometry: shapesToGeometry(realm.shapes, options),
+    properties: {
+      id: realm.id,
+      name: realm.name,
+      color: realm.color,
+      priority: realm.priority ?? 0,
+      tags: realm.tags,
+      metadata: realm.metadata
+    }
+  };
+}
+
+/**
+ * Convert a GeoJSON feature to a realm record
+ *
+ * Features from other tools may give tags as a comma-separated string and a
+ * `title` instead of a `name`.
+ * @returns null if the feature has no polygon geometry
+ */
+export function featureToRealm(
+  feature: GeoJSONFeature,
+  inverse: AffineTransform = IDENTITY_TRANSFORM
+): GeoJSONRealmRecord | null {
+  const shapes = geometryToShapes(feature.geometry, inverse);
+  if (!shapes.some(shape => !shape.hole)) return null;
+
+  const properties = feature.properties || {};
+  const rawTags = properties.tags;
+  const tags = Array.isArray(rawTags)
+    ? rawTags.filter((tag: any) => typeof tag === 'string')
+    : typeof rawTags === 'string'
+      ? rawTags
+          .split(',')
+          .map(tag => tag.trim())
+          .filter(tag => tag.length > 0)
+      : [];
+
+  const id = properties.id ?? feature.id;
+  return {
+    id: id !== undefined && id !== null ? String(id) : undefined,
+    name: properties.name || properties.title || 'Imported Realm',
+    color: properties.color,
+    shapes,
+    tags,
+    priority: Number(properties.priority) || 0,
+    metadata: properties.metadata
+  };
+}
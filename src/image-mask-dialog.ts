@@ -0,0 +1,197 @@
+/**
+ * Image Mask Dialogs - Choose a mask image, preview its realms, then create them
+ */
+
+import {
+  ImageMaskImporter,
+  ImageMaskMapping,
+  ImageMaskOptions,
+  ImageMaskRealm
+} from './image-mask-importer';
+
+/**
+ * Parse `#rrggbb: tag, tag` lines into colour mappings
+ */
+export function parseColorMappings(text: string): ImageMaskMapping[] {
+  const mappings: ImageMaskMapping[] = [];
+  for (const line of text.split('\n')) {
+    const match = line.match(/^\s*(#[0-9a-f]{3}(?:[0-9a-f]{3})?)\s*:(.*)$/i);
+    if (!match) continue;
+    const tags = match[2]
+      .split(',')
+      .map(tag => tag.trim().toLowerCase())
+      .filter(tag => tag.includes(':'));
+    if (tags.length > 0) mappings.push({ color: match[1].toLowerCase(), tags });
+  }
+  return mappings;
+}
+
+/**
+ * Render an SVG preview of vectorised realms over the mask image
+ */
+export function renderMaskPreview(
+  realms: ImageMaskRealm[],
+  bounds: { x: number; y: number; width: number; height: number },
+  imageUrl?: string
+): string {
+  const paths = realms
+    .map(realm => {
+      const d = realm.shapes
+        .map(shape => {
+          const points: number[] = shape.points;
+          const coordinates = [];
+          for (let i = 0; i < points.length; i += 2)
+            coordinates.push(`${points[i]},${points[i + 1]}`);
+          return `M${coordinates.join('L')}Z`;
+        })
+        .join('');
+      return `<path d="${d}" fill="${realm.color}" fill-opacity="0.5" fill-rule="evenodd" stroke="${realm.color}" vector-effect="non-scaling-stroke"><title>${realm.name}</title></path>`;
+    })
+    .join('');
+
+  const { x, y, width, height } = bounds;
+  const image = imageUrl
+    ? `<image href="${imageUrl}" x="${x}" y="${y}" width="${width}" height="${height}" opacity="0.4" preserveAspectRatio="none"/>`
+    : '';
+
+  const rows = realms
+    .map(
+      realm => `
+        <li>
+          <span class="realm-mask-swatch" style="background: ${realm.color}"></span>
+          <strong>${realm.name}</strong>
+          <span class="realm-mask-count">${realm.shapes.filter(shape => !shape.hole).length} areas,
+            ${realm.shapes.reduce((sum, shape) => sum + shape.points.length / 2, 0)} vertices</span>
+          <span class="realm-mask-tags">${realm.tags.join(', ')}</span>
+        </li>
+      `
+    )
+    .join('');
+
+  return `
+    <div class="realm-mask-preview">
+      <svg viewBox="${x} ${y} ${width} ${height}" preserveAspectRatio="xMidYMid meet">${image}${paths}</svg>
+      ${rows ? `<ul class="realm-mask-list">${rows}</ul>` : '<p>No mapped colours were found in the image.</p>'}
+    </div>
+  `;
+}
+
+/**
+ * Show the vectorised realms and create them on confirmation
+ */
+function openMaskPreviewDialog(
+  realms: ImageMaskRealm[],
+  bounds: { x: number; y: number; width: number; height: number },
+  imageUrl: string
+): void {
+  const dialog = new Dialog(
+    {
+      title: 'Preview Mask Realms',
+      content: renderMaskPreview(realms, bounds, imageUrl),
+      buttons: {
+        create: {
+          icon: '<i class="fas fa-check"></i>',
+          label: `Create ${realms.length} Realms`,
+          callback: async () => {
+            try {
+              const created = await ImageMaskImporter.getInstance().createRealms(realms);
+              ui.notifications?.info(`Created ${created.length} realms from the mask`);
+            } catch (error) {
+              console.error('Realms & Reaches | Mask import failed:', error);
+              ui.notifications?.error(
+                'Failed to create realms: ' +
+                  (error instanceof Error ? error.message : String(error))
+              );
+            }
+          }
+        },
+        cancel: {
+          label: 'Cancel'
+        }
+      },
+      default: 'create',
+      close: () => URL.revokeObjectURL(imageUrl)
+    },
+    { width: 600 }
+  );
+
+  dialog.render(true);
+}
+
+/**
+ * Open the mask import dialog for the current scene
+ */
+export function openImageMaskDialog(): void {
+  const dialog = new Dialog({
+    title: 'Import Realms from Image Mask',
+    content: `
+      <form class="realm-mask-import" autocomplete="off">
+        <div class="form-group">
+          <label>Mask Image</label>
+          <input type="file" name="file" accept="image/*">
+        </div>
+        <p class="notes">The image is stretched over the whole scene.</p>
+        <div class="form-group stacked">
+          <label>Colours</label>
+          <textarea name="mappings" rows="6" placeholder="#2e7d32: biome:forest, terrain:dense"></textarea>
+          <p class="notes">One <code>#rrggbb: tags</code> line per colour to import.</p>
+        </div>
+        <div class="form-group">
+          <label>Colour Tolerance</label>
+          <input type="number" name="tolerance" value="24" min="0" max="255">
+        </div>
+        <div class="form-group">
+          <label>Pixels per Cell</label>
+          <input type="number" name="step" placeholder="Auto" min="1">
+        </div>
+        <div class="form-group">
+          <label>Simplification</label>
+          <input type="number" name="simplify" value="1" min="0" step="0.25">
+        </div>
+      </form>
+    `,
+    buttons: {
+      preview: {
+        icon: '<i class="fas fa-eye"></i>',
+        label: 'Preview',
+        callback: async (html: JQuery) => {
+          const form = html.find('form')[0] as HTMLFormElement;
+          const field = (name: string) => form.elements.namedItem(name) as HTMLInputElement;
+          const file = field('file').files?.[0];
+          const mappings = parseColorMappings(field('mappings').value);
+
+          if (!file || mappings.length === 0) {
+            ui.notifications?.warn('Choose an image and map at least one colour to tags');
+            return;
+          }
+
+          const options: ImageMaskOptions = {
+            tolerance: Number(field('tolerance').value) || 0,
+            step: Number(field('step').value) || undefined,
+            simplify: Number(field('simplify').value) || 0
+          };
+
+          try {
+            const importer = ImageMaskImporter.getInstance();
+            const bounds = importer.getSceneBounds();
+            const image = await importer.loadImage(file);
+            const realms = importer.vectorize(image, mappings, bounds, options);
+            openMaskPreviewDialog(realms, bounds, URL.createObjectURL(file));
+          } catch (error) {
+            console.error('Realms & Reaches | Mask vectorising failed:', error);
+            ui.notifications?.error(
+              'Failed to read the image: ' +
+                (error instanceof Error ? error.message : String(error))
+            );
+          }
+        }
+      },
+      cancel: {
+        label: 'Cancel'
+      }
+    },
+    default: 'preview'
+  });
+
+  dialog.render(true);
+}
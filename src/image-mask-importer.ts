@@ -0,0 +1,272 @@
+/**
+ * ImageMaskImporter - Create realms from a painted colour mask
+ *
+ * Each mapped colour in the image is traced into outlines with marching
+ * squares, simplified with Douglas-Peucker, scaled onto the scene and
+ * created as a tagged realm. Vectorising and creating are separate steps so
+ * the result can be previewed first.
+ */
+
+import { RealmManager, RealmDataCompat } from './realm-manager';
+import { polygonArea, ringsToShapes, simplifyPolygon } from './path-geometry';
+
+/**
+ * Pixel data as returned by CanvasRenderingContext2D.getImageData
+ */
+export interface ImageMaskData {
+  width: number;
+  height: number;
+  data: Uint8ClampedArray | number[]; // RGBA, row by row
+}
+
+/**
+ * One colour of the mask and the realm it becomes
+ */
+export interface ImageMaskMapping {
+  color: string; // '#rrggbb'
+  tags: string[];
+  name?: string; // Defaults to the first tag's value
+}
+
+export interface ImageMaskOptions {
+  tolerance?: number; // RGB distance still counted as the colour (default 24)
+  step?: number; // Image pixels per traced cell (default: about 400 cells across)
+  simplify?: number; // Douglas-Peucker tolerance in cells (default 1)
+  minArea?: number; // Outlines smaller than this many cells are dropped (default 4)
+}
+
+/**
+ * A vectorised colour region, in scene coordinates once placed
+ */
+export interface ImageMaskRealm {
+  name: string;
+  color: string;
+  tags: string[];
+  shapes: any[];
+}
+
+/**
+ * Parse a '#rgb' or '#rrggbb' colour
+ */
+export function parseHexColor(color: string): [number, number, number] | null {
+  let hex = color.trim().replace(/^#/, '');
+  if (hex.length === 3) hex = hex.replace(/./g, c => c + c);
+  if (!/^[0-9a-f]{6}$/i.test(hex)) return null;
+  const value = parseInt(hex, 16);
+  return [(value >> 16) & 255, (value >> 8) & 255, value & 255];
+}
+
+/**
+ * Sample an image into a grid of cells matching a colour
+ *
+ * The grid has a one-cell empty border so every traced outline closes.
+ */
+export function buildMask(
+  image: ImageMaskData,
+  color: [number, number, number],
+  tolerance: number,
+  step: number
+): { mask: Uint8Array; columns: number; rows: number } {
+  const columns = Math.ceil(image.width / step) + 2;
+  const rows = Math.ceil(image.height / step) + 2;
+  const mask = new Uint8Array(columns * rows);
+  const limit = tolerance * tolerance;
+
+  for (let row = 1; row < rows - 1; row++) {
+    const py = Math.min(image.height - 1, Math.floor((row - 0.5) * step));
+    for (let column = 1; column < columns - 1; column++) {
+      const px = Math.min(image.width - 1, Math.floor((column - 0.5) * step));
+      const i = (py * image.width + px) * 4;
+      if (image.data[i + 3] < 128) continue;
+
+      const dr = image.data[i] - color[0];
+      const dg = image.data[i + 1] - color[1];
+      const db = image.data[i + 2] - color[2];
+      if (dr * dr + dg * dg + db * db <= limit) mask[row * columns + column] = 1;
+    }
+  }
+
+  return { mask, columns, rows };
+}
+
+/**
+ * Trace the outlines of a mask with marching squares
+ *
+ * Grid points are cell centres; outline points sit halfway along the grid
+ * edges where the mask changes. Each square joins every crossing where the
+ * outline enters to the next crossing clockwise, so neighbouring squares
+ * always agree and saddles keep diagonal cells apart.
+ * @returns Closed rings in grid coordinates
+ */
+export function traceContours(mask: Uint8Array, columns: number, rows: number): number[][] {
+  const next = new Map<string, string>();
+  const positions = new Map<string, [number, number]>();
+  const inside = (x: number, y: number) => mask[y * columns + x] === 1;
+
+  for (let y = 0; y < rows - 1; y++) {
+    for (let x = 0; x < columns - 1; x++) {
+      // Corners and the edges between them, clockwise from the top left
+      const corners = [inside(x, y), inside(x + 1, y), inside(x + 1, y + 1), inside(x, y + 1)];
+      if (corners.every(c => c === corners[0])) continue;
+
+      const edges: [string, number, number][] = [
+        [`h${x},${y}`, x + 0.5, y],
+        [`v${x + 1},${y}`, x + 1, y + 0.5],
+        [`h${x},${y + 1}`, x + 0.5, y + 1],
+        [`v${x},${y}`, x, y + 0.5]
+      ];
+
+      const crossings: { key: string; entry: boolean }[] = [];
+      edges.forEach(([key, px, py], i) => {
+        const from = corners[i];
+        const to = corners[(i + 1) % 4];
+        if (from === to) return;
+        positions.set(key, [px, py]);
+        crossings.push({ key, entry: to });
+      });
+
+      crossings.forEach((crossing, i) => {
+        if (crossing.entry) next.set(crossing.key, crossings[(i + 1) % crossings.length].key);
+      });
+    }
+  }
+
+  const rings: number[][] = [];
+  const visited = new Set<string>();
+  for (const start of next.keys()) {
+    if (visited.has(start)) continue;
+
+    const ring: number[] = [];
+    let key: string | undefined = start;
+    while (key && !visited.has(key)) {
+      visited.add(key);
+      ring.push(...positions.get(key)!);
+      key = next.get(key);
+    }
+    if (ring.length >= 6) rings.push(ring);
+  }
+
+  return rings;
+}
+
+/**
+ * ImageMaskImporter turns colour masks into realms
+ */
+export class ImageMaskImporter {
+  private static instance: ImageMaskImporter;
+
+  static getInstance(): ImageMaskImporter {
+    if (!ImageMaskImporter.instance) {
+      ImageMaskImporter.instance = new ImageMaskImporter();
+    }
+    return ImageMaskImporter.instance;
+  }
+
+  /**
+   * Vectorise each mapped colour into realm outlines
+   * @param bounds - Scene rectangle the image is stretched over
+   */
+  vectorize(
+    image: ImageMaskData,
+    mappings: ImageMaskMapping[],
+    bounds: { x: number; y: number; width: number; height: number },
+    options: ImageMaskOptions = {}
+  ): ImageMaskRealm[] {
+    const step = Math.max(1, Math.round(options.step || Math.max(image.width, image.height) / 400));
+    const tolerance = options.tolerance ?? 24;
+    const simplify = options.simplify ?? 1;
+    const minArea = options.minArea ?? 4;
+
+    // Grid point (x, y) is the centre of image cell (x - 1, y - 1)
+    const scaleX = (bounds.width / image.width) * step;
+    const scaleY = (bounds.height / image.height) * step;
+    const toScene = (ring: number[]) =>
+      ring.map((value, i) =>
+        Math.round(
+          i % 2 === 0 ? bounds.x + (value - 0.5) * scaleX : bounds.y + (value - 0.5) * scaleY
+        )
+      );
+
+    const realms: ImageMaskRealm[] = [];
+    for (const mapping of mappings) {
+      const rgb = parseHexColor(mapping.color);
+      if (!rgb) continue;
+
+      const { mask, columns, rows } = buildMask(image, rgb, tolerance, step);
+      const rings = traceContours(mask, columns, rows)
+        .filter(ring => Math.abs(polygonArea(ring)) >= minArea)
+        .map(ring => simplifyPolygon(ring, simplify))
+        .filter(ring => ring.length >= 6)
+        .map(toScene);
+
+      const shapes = ringsToShapes(rings);
+      if (!shapes.some(shape => !shape.hole)) continue;
+
+      const fallbackName = mapping.tags[0]?.split(':')[1]?.replace(/_/g, ' ') || mapping.color;
+      realms.push({
+        name: mapping.name || fallbackName.charAt(0).toUpperCase() + fallbackName.slice(1),
+        color: mapping.color,
+        tags: mapping.tags,
+        shapes
+      });
+    }
+
+    return realms;
+  }
+
+  /**
+   * Get the scene rectangle, excluding padding, that masks are stretched over
+   */
+  getSceneBounds(sceneId?: string): { x: number; y: number; width: number; height: number } {
+    const scene: any = sceneId ? game.scenes?.get(sceneId) : canvas?.scene;
+    if (!scene) {
+      throw new Error('No scene found for the mask import');
+    }
+    return {
+      x: scene.dimensions?.sceneX ?? 0,
+      y: scene.dimensions?.sceneY ?? 0,
+      width: scene.width,
+      height: scene.height
+    };
+  }
+
+  /**
+   * Read an image file's pixels
+   */
+  async loadImage(file: Blob): Promise<ImageMaskData> {
+    const url = URL.createObjectURL(file);
+    try {
+      const image = new Image();
+      image.src = url;
+      await image.decode();
+
+      const canvas = document.createElement('canvas');
+      canvas.width = image.naturalWidth;
+      canvas.height = image.naturalHeight;
+      const context = canvas.getContext('2d')!;
+      context.drawImage(image, 0, 0);
+      return context.getImageData(0, 0, canvas.width, canvas.height);
+    } finally {
+      URL.revokeObjectURL(url);
+    }
+  }
+
+  /**
+   * Create the previewed realms through the RealmManager
+   */
+  async createRealms(realms: ImageMaskRealm[], sceneId?: string): Promise<RealmDataCompat[]> {
+    const manager = RealmManager.getInstance(sceneId);
+    const created: RealmDataCompat[] = [];
+    for (const realm of realms) {
+      created.push(
+        await manager.createRealm({
+          name: realm.name,
+          color: realm.color,
+          shapes: realm.shapes,
+          tags: realm.tags
+        })
+      );
+    }
+    return created;
+  }
+}
@@ -0,0 +1,182 @@
+/**
+ * Import Diff - Compare an export with a scene's realms before importing
+ *
+ * Incoming realms are matched to existing ones by ID, then by name. Each
+ * match becomes a new, changed, unchanged or deleted item the GM can accept
+ * or reject, and changed realms get a proposed tag merge.
+ */
+
+import { TagSystem } from './tag-system';
+import { RealmRecord } from './export-format';
+
+export type RealmDiffKind = 'new' | 'changed' | 'unchanged' | 'deleted';
+export type RealmDiffField = 'name' | 'shapes' | 'tags' | 'color' | 'priority';
+
+export interface RealmDiffItem {
+  kind: RealmDiffKind;
+  id?: string; // The existing realm's ID, or the incoming ID for new realms
+  name: string;
+  incoming?: RealmRecord;
+  existing?: RealmRecord;
+  fields: RealmDiffField[]; // What differs, for changed realms
+  addedTags: string[]; // Incoming tags the existing realm lacks
+  removedTags: string[]; // Existing tags the incoming realm lacks
+  mergedTags: string[]; // Proposed tags for a changed realm
+}
+
+/**
+ * Whether to apply one diff item, and the tags to give a changed realm
+ */
+export interface RealmDiffDecision {
+  accept: boolean;
+  tags?: string[];
+}
+
+/**
+ * What applying a diff did; rejected items are listed by name
+ */
+export interface RealmDiffResult {
+  created: string[];
+  updated: string[];
+  deleted: string[];
+  rejected: string[];
+}
+
+function normalizeColor(color: any): string | null {
+  if (color === null || color === undefined || color === '') return null;
+  if (typeof color === 'number' || color instanceof Number) {
+    return '#' + Number(color).toString(16).padStart(6, '0');
+  }
+  return String(color).toLowerCase();
+}
+
+/**
+ * Stable JSON for comparing shapes, ignoring key order and `hole: false`
+ */
+function shapeKey(shapes: any[] = []): string {
+  const sortKeys = (value: any): any => {
+    if (Array.isArray(value)) return value.map(sortKeys);
+    if (value && typeof value === 'object') {
+      return Object.keys(value)
+        .filter(key => value[key] !== undefined && !(key === 'hole' && value[key] === false))
+        .sort()
+        .reduce((sorted: any, key) => ({ ...sorted, [key]: sortKeys(value[key]) }), {});
+    }
+    return value;
+  };
+  return JSON.stringify(sortKeys(shapes));
+}
+
+/**
+ * Propose tags for a realm changed by an import
+ *
+ * Keeps every tag from both sides, except that an incoming value replaces the
+ * existing one in single-value namespaces.
+ */
+export function mergeRealmTags(existing: string[], incoming: string[]): string[] {
+  const tagSystem = TagSystem.getInstance();
+  const replaced = new Set(
+    incoming.map(tag => tag.split(':')[0]).filter(key => tagSystem.isSingleValue(key))
+  );
+
+  const merged = existing.filter(tag => !replaced.has(tag.split(':')[0]));
+  for (const tag of incoming) {
+    if (!merged.includes(tag)) merged.push(tag);
+  }
+  return merged;
+}
+
+/**
+ * Compare incoming realms with a scene's current realms
+ */
+export function diffRealms(existing: RealmRecord[], incoming: RealmRecord[]): RealmDiffItem[] {
+  const unmatched = new Set(existing);
+  const items: RealmDiffItem[] = [];
+  const normalizeName = (name?: string) => (name || '').trim().toLowerCase();
+
+  const pairs = incoming.map(realm => {
+    const match = realm.id ? existing.find(other => other.id === realm.id) : undefined;
+    if (match) unmatched.delete(match);
+    return { realm, match };
+  });
+
+  // Realms without an ID match fall back to their name
+  for (const pair of pairs.filter(pair => !pair.match)) {
+    const match = [...unmatched].find(
+      other => normalizeName(other.name) === normalizeName(pair.realm.name)
+    );
+    if (match) {
+      pair.match = match;
+      unmatched.delete(match);
+    }
+  }
+
+  for (const { realm, match } of pairs) {
+    if (!match) {
+      items.push({
+        kind: 'new',
+        id: realm.id,
+        name: realm.name,
+        incoming: realm,
+        fields: [],
+        addedTags: [...realm.tags],
+        removedTags: [],
+        mergedTags: [...realm.tags]
+      });
+      continue;
+    }
+
+    const fields: RealmDiffField[] = [];
+    const addedTags = realm.tags.filter(tag => !match.tags.includes(tag));
+    const removedTags = match.tags.filter(tag => !realm.tags.includes(tag));
+
+    if (realm.name !== match.name) fields.push('name');
+    if (shapeKey(realm.shapes) !== shapeKey(match.shapes)) fields.push('shapes');
+    if (addedTags.length > 0 || removedTags.length > 0) fields.push('tags');
+    if (
+      normalizeColor(realm.color) !== null &&
+      normalizeColor(realm.color) !== normalizeColor(match.color)
+    ) {
+      fields.push('color');
+    }
+    if ((realm.priority ?? 0) !== (match.priority ?? 0)) fields.push('priority');
+
+    items.push({
+      kind: fields.length > 0 ? 'changed' : 'unchanged',
+      id: match.id,
+      name: match.name,
+      incoming: realm,
+      existing: match,
+      fields,
+      addedTags,
+      removedTags,
+      mergedTags: mergeRealmTags(match.tags, realm.tags)
+    });
+  }
+
+  for (const realm of unmatched) {
+    items.push({
+      kind: 'deleted',
+      id: realm.id,
+      name: realm.name,
+      existing: realm,
+      fields: [],
+      addedTags: [],
+      removedTags: [...realm.tags],
+      mergedTags: []
+    });
+  }
+
+  return items;
+}
+
+/**
+ * Default decisions: add new realms and apply changes, but keep realms the
+ * import lacks
+ */
+export function defaultDiffDecisions(items: RealmDiffItem[]): RealmDiffDecision[] {
+  return items.map(item => ({
+    accept: item.kind === 'new' || item.kind === 'changed',
+    tags: item.kind === 'changed' ? item.mergedTags : undefined
+  }));
+}
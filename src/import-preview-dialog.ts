@@ -0,0 +1,207 @@
+/**
+ * Import Preview Dialog - Review the differences an import would make
+ *
+ * Lists new, changed and deleted realms with a checkbox each. Changed realms
+ * show every tag from both sides so the GM can pick the merged tag list.
+ */
+
+import { RealmManager } from './realm-manager';
+import { RealmImportReportEntry } from './export-format';
+import { RealmDiffDecision, RealmDiffItem, defaultDiffDecisions } from './import-diff';
+
+const SECTIONS: { kind: RealmDiffItem['kind']; title: string }[] = [
+  { kind: 'new', title: 'New Realms' },
+  { kind: 'changed', title: 'Changed Realms' },
+  { kind: 'deleted', title: 'Missing From Import (Delete)' }
+];
+
+/**
+ * Render one diff item
+ */
+function renderDiffItem(item: RealmDiffItem, index: number, accept: boolean): string {
+  const escape = (foundry.utils as any).escapeHTML;
+  let details = '';
+
+  if (item.kind === 'new') {
+    details = `<div class="realm-diff-tags">${escape(item.mergedTags.join(', '))}</div>`;
+  } else if (item.kind === 'changed') {
+    const changes = item.fields
+      .map(field =>
+        field === 'name'
+          ? `name (${escape(item.existing!.name)} → ${escape(item.incoming!.name)})`
+          : field
+      )
+      .join(', ');
+    const tags = [...item.existing!.tags, ...item.addedTags]
+      .map(tag => {
+        const change = item.addedTags.includes(tag)
+          ? 'added'
+          : item.removedTags.includes(tag)
+            ? 'removed'
+            : 'kept';
+        const checked = item.mergedTags.includes(tag) ? 'checked' : '';
+        return `<label class="realm-diff-tag ${change}"><input type="checkbox" name="tags-${index}" value="${escape(tag)}" ${checked}> ${escape(tag)}</label>`;
+      })
+      .join('');
+    details = `
+      <div class="realm-diff-fields">Changes: ${changes}</div>
+      <div class="realm-diff-tags">${tags}</div>
+    `;
+  }
+
+  return `
+    <li class="realm-diff-item ${item.kind}">
+      <label class="checkbox">
+        <input type="checkbox" name="accept-${index}" ${accept ? 'checked' : ''}>
+        <strong>${escape(item.name)}</strong>
+      </label>
+      ${details}
+    </li>
+  `;
+}
+
+/**
+ * Render the preview form
+ */
+export function renderImportPreview(
+  items: RealmDiffItem[],
+  invalid: RealmImportReportEntry[] = []
+): string {
+  const escape = (foundry.utils as any).escapeHTML;
+  const decisions = defaultDiffDecisions(items);
+
+  const sections = SECTIONS.map(({ kind, title }) => {
+    const rows = items
+      .map((item, index) =>
+        item.kind === kind ? renderDiffItem(item, index, decisions[index].accept) : ''
+      )
+      .join('');
+    return rows ? `<h3>${title}</h3><ul class="realm-diff-list">${rows}</ul>` : '';
+  }).join('');
+
+  const unchanged = items.filter(item => item.kind === 'unchanged').length;
+  const invalidRows = invalid
+    .map(
+      entry =>
+        `<li><strong>${escape(entry.name || entry.id || 'Unnamed')}</strong>: ${escape(entry.errors?.join('; ') ?? '')}</li>`
+    )
+    .join('');
+
+  return `
+    <form class="realm-import-preview" autocomplete="off">
+      ${sections || '<p>The import matches the current realms.</p>'}
+      ${unchanged > 0 ? `<p class="notes">${unchanged} realms are unchanged.</p>` : ''}
+      ${invalidRows ? `<h3>Invalid Realms (Ignored)</h3><ul class="realm-diff-invalid">${invalidRows}</ul>` : ''}
+    </form>
+  `;
+}
+
+/**
+ * Read the preview form back into one decision per item
+ */
+export function parseImportPreview(
+  form: HTMLFormElement,
+  items: RealmDiffItem[]
+): RealmDiffDecision[] {
+  return items.map((item, index) => {
+    const accept = form.querySelector<HTMLInputElement>(`input[name="accept-${index}"]`);
+    const tags =
+      item.kind === 'changed'
+        ? Array.from(
+            form.querySelectorAll<HTMLInputElement>(`input[name="tags-${index}"]:checked`)
+          ).map(input => input.value)
+        : undefined;
+    return { accept: accept?.checked ?? false, tags };
+  });
+}
+
+/**
+ * Preview an export against the current scene and apply the accepted items
+ */
+export function openImportPreviewDialog(data: any): void {
+  const manager = RealmManager.getInstance();
+  const { items, invalid } = manager.previewImport(data);
+
+  const dialog = new Dialog(
+    {
+      title: 'Import Realms',
+      content: renderImportPreview(items, invalid),
+      buttons: {
+        apply: {
+          icon: '<i class="fas fa-check"></i>',
+          label: 'Apply',
+          callback: async (html: JQuery) => {
+            const form = html.find('form')[0] as HTMLFormElement;
+            try {
+              const result = await manager.applyImportDiff(items, parseImportPreview(form, items));
+              ui.notifications?.info(
+                `Created ${result.created.length}, updated ${result.updated.length} and deleted ${result.deleted.length} realms`
+              );
+            } catch (error) {
+              console.error('Realms & Reaches | Import failed:', error);
+              ui.notifications?.error(
+                'Failed to import realms: ' +
+                  (error instanceof Error ? error.message : String(error))
+              );
+            }
+          }
+        },
+        cancel: {
+          label: 'Cancel'
+        }
+      },
+      default: 'apply'
+    },
+    { width: 520, height: 600, resizable: true }
+  );
+
+  dialog.render(true);
+}
+
+/**
+ * Choose a realm file to preview and import into the current scene
+ */
+export function openRealmImportDialog(): void {
+  const dialog = new Dialog({
+    title: 'Import Realms',
+    content: `
+      <form autocomplete="off">
+        <div class="form-group">
+          <label>Realm File</label>
+          <input type="file" name="file" accept=".json">
+        </div>
+        <p class="notes">You can review every change before it is applied.</p>
+      </form>
+    `,
+    buttons: {
+      preview: {
+        icon: '<i class="fas fa-eye"></i>',
+        label: 'Preview',
+        callback: async (html: JQuery) => {
+          const form = html.find('form')[0] as HTMLFormElement;
+          const file = (form.elements.namedItem('file') as HTMLInputElement).files?.[0];
+          if (!file) {
+            ui.notifications?.warn('Choose a realm file to import');
+            return;
+          }
+
+          try {
+            openImportPreviewDialog(JSON.parse(await file.text()));
+          } catch (error) {
+            console.error('Realms & Reaches | Import failed:', error);
+            ui.notifications?.error(
+              'Failed to read realm file: ' +
+                (error instanceof Error ? error.message : String(error))
+            );
+          }
+        }
+      },
+      cancel: {
+        label: 'Cancel'
+      }
+    },
+    default: 'preview'
+  });
+
+  dialog.render(true);
+}
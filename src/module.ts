@@ -19,9 +19,35 @@ declare global {
 }
 
 import { registerSettings } from './settings';
-import { RealmManager } from './realm-manager';
+import { RealmDataCompat, RealmManager } from './realm-manager';
 import * as API from './api';
 import { TagSystem } from './tag-system';
+import { TravelCalculator } from './travel-calculator';
+import { cancelWaypoints, openTravelTimeDialog } from './travel-time-dialog';
+import { RoutePlanner } from './route-planner';
+import { TOKEN_ENTER_REALM_HOOK, TokenTracker } from './token-tracker';
+import { registerRealmBehaviors } from './realm-behaviors';
+import { TagQuery } from './tag-query';
+import { openRealmSearchDialog } from './realm-search';
+import { AzgaarImporter } from './azgaar-importer';
+import { openAzgaarImportDialog } from './azgaar-import-dialog';
+import { ImageMaskImporter } from './image-mask-importer';
+import { openImageMaskDialog } from './image-mask-dialog';
+import { WorldTransfer } from './world-transfer';
+import { downloadWorldExport, openWorldImportDialog } from './world-transfer-dialog';
+import { openRealmImportDialog } from './import-preview-dialog';
+import { RealmLabels } from './realm-labels';
+import { ThematicOverlay, openThematicOverlayDialog } from './thematic-overlay';
+import { RealmTooltip } from './realm-tooltip';
+import { PlayerRealmMap } from './player-realm-map';
+import { RealmDiscovery } from './realm-discovery';
+import { openDiscoveryDialog } from './realm-discovery-dialog';
+import { openBorderCheckDialog } from './border-check';
+import {
+  RealmOperation,
+  openRealmOperationDialog,
+  openSplitRealmDialog
+} from './realm-shape-dialog';
 
 // Import styles
 import '../styles/realms-and-reaches.scss';
@@ -37,6 +63,9 @@ Hooks.once('init', async () => {
   // Register module settings
   registerSettings();
 
+  // Register realm-aware Region behaviors (sub-types declared in module.json)
+  registerRealmBehaviors();
+
   // Note: Realm document types are automatically registered by Foundry
   // via the documentTypes field in module.json
 
@@ -44,7 +73,15 @@ Hooks.once('init', async () => {
   const moduleAPI = {
     ...API,
     RealmManager,
-    TagSystem
+    TagSystem,
+    TravelCalculator,
+    RoutePlanner,
+    TokenTracker,
+    TagQuery,
+    AzgaarImporter,
+    ImageMaskImporter,
+    WorldTransfer,
+    RealmDiscovery
   };
   (game.modules.get('realms-and-reaches') as any).api = moduleAPI;
 
@@ -57,6 +94,9 @@ Hooks.once('init', async () => {
 Hooks.once('ready', async () => {
   console.log('Realms & Reaches | Module ready');
 
+  // Apply the world tag vocabulary
+  TagSystem.getInstance().setVocabulary(game.settings.get('realms-and-reaches', 'tagVocabulary'));
+
   // Initialize realm manager for current scene
   if (canvas?.scene) {
     RealmManager.getInstance().initialize(canvas.scene.id);
@@ -74,7 +114,89 @@ Hooks.on('canvasReady', canvas => {
   // Load realm data for current scene
   if (canvas?.scene) {
     RealmManager.getInstance().initialize(canvas.scene.id);
+    TokenTracker.getInstance().trackScene(canvas.scene);
   }
+  PlayerRealmMap.getInstance().draw();
+  ThematicOverlay.getInstance().draw();
+  RealmLabels.getInstance().draw();
+  RealmTooltip.getInstance().activate();
+});
+
+Hooks.on('canvasTearDown', () => {
+  PlayerRealmMap.getInstance().tearDown();
+  ThematicOverlay.getInstance().tearDown();
+  RealmLabels.getInstance().tearDown();
+  RealmTooltip.getInstance().deactivate();
+  cancelWaypoints();
+});
+
+/**
+ * Hide the realm tooltip when another control group is chosen
+ */
+Hooks.on('renderSceneControls', (controls: any) => {
+  if (controls.control?.name !== 'realms-travel') RealmTooltip.getInstance().hide();
+});
+
+/**
+ * Keep realm labels a readable size as the canvas zooms
+ */
+Hooks.on('canvasPan', (_canvas: any, position: { scale?: number }) => {
+  if (position.scale !== undefined) RealmLabels.getInstance().updateScale(position.scale);
+});
+
+/**
+ * Keep each scene's realm spatial index, labels and overlays in sync with Region changes
+ */
+Hooks.on('createRegion', (region: any) => {
+  if (region.parent) RealmManager.getInstance(region.parent.id).refreshRegion(region);
+  RealmLabels.getInstance().refresh(region);
+  if (region.parent?.id === canvas?.scene?.id) {
+    PlayerRealmMap.getInstance().draw();
+    ThematicOverlay.getInstance().draw();
+  }
+});
+
+Hooks.on('updateRegion', (region: any, changes: any) => {
+  if (region.parent) RealmManager.getInstance(region.parent.id).refreshRegion(region);
+  RealmLabels.getInstance().refresh(region);
+  if (region.parent?.id === canvas?.scene?.id) {
+    PlayerRealmMap.getInstance().draw();
+    ThematicOverlay.getInstance().draw();
+  }
+  RealmDiscovery.getInstance().handleRegionUpdate(region, changes);
+});
+
+Hooks.on('deleteRegion', (region: any) => {
+  if (region.parent) RealmManager.getInstance(region.parent.id).removeRegion(region.id);
+  RealmLabels.getInstance().remove(region.id);
+  if (region.parent?.id === canvas?.scene?.id) {
+    PlayerRealmMap.getInstance().draw();
+    ThematicOverlay.getInstance().draw();
+  }
+});
+
+/**
+ * Track token realm membership and fire enter/exit hooks as tokens move
+ */
+Hooks.on('createToken', (token: any) => {
+  TokenTracker.getInstance().track(token);
+});
+
+Hooks.on('updateToken', (token: any, changes: any, options: any) => {
+  if (!('x' in changes || 'y' in changes)) return;
+  TokenTracker.getInstance().handleTokenMove(token, options);
+  RealmDiscovery.getInstance().discoverNearToken(token);
+});
+
+Hooks.on('deleteToken', (token: any) => {
+  TokenTracker.getInstance().forget(token);
+});
+
+/**
+ * Explore realms as party tokens enter them
+ */
+Hooks.on(TOKEN_ENTER_REALM_HOOK, (token: any, realm: RealmDataCompat) => {
+  RealmDiscovery.getInstance().exploreFromToken(token, [realm]);
 });
 
 /**
@@ -151,9 +273,6 @@ function detectTravelScale(scene: Scene): 'realm' | 'region' | 'none' {
  * Add intelligent travel controls based on scene scale detection
  */
 Hooks.on('getSceneControlButtons', (controls: Record<string, any>) => {
-  // Only show controls if user is GM
-  if (!game.user?.isGM) return;
-
   // Get current scene
   const currentScene = canvas.scene;
   if (!currentScene) return;
@@ -165,7 +284,14 @@ Hooks.on('getSceneControlButtons', (controls: Record<string, any>) => {
 
   const tools: any[] = [];
 
-  if (travelScale === 'realm') {
+  if (!game.user?.isGM) {
+    // Players only get the hover tooltip for the realms under the cursor
+    tools.push({
+      name: 'realm-info',
+      title: 'Realm Info',
+      icon: 'fas fa-info-circle'
+    });
+  } else if (travelScale === 'realm') {
     tools.push(
       {
         name: 'realm-select',
@@ -186,8 +312,83 @@ Hooks.on('getSceneControlButtons', (controls: Record<string, any>) => {
         icon: 'fas fa-plus',
         onClick: () => openRealmCreationDialog(),
         button: true
+      },
+      {
+        name: 'realm-search',
+        title: 'Search Realms',
+        icon: 'fas fa-search',
+        onClick: () => openRealmSearchDialog(),
+        button: true
+      },
+      {
+        name: 'realm-theme',
+        title: 'Thematic Map',
+        icon: 'fas fa-palette',
+        onClick: () => openThematicOverlayDialog(),
+        button: true
+      },
+      {
+        name: 'realm-discovery',
+        title: 'Realm Discovery',
+        icon: 'fas fa-eye',
+        onClick: () => openDiscoveryDialog(),
+        button: true
+      },
+      {
+        name: 'realm-borders',
+        title: 'Check Realm Borders',
+        icon: 'fas fa-border-all',
+        onClick: () => openBorderCheckDialog(),
+        button: true
+      },
+      {
+        name: 'realm-travel-time',
+        title: 'Travel Time',
+        icon: 'fas fa-route',
+        onClick: () => openTravelTimeDialog(),
+        button: true
       }
     );
+
+    if (game.user?.isGM) {
+      tools.push(
+        {
+          name: 'realm-import',
+          title: 'Import Realms',
+          icon: 'fas fa-file-upload',
+          onClick: () => openRealmImportDialog(),
+          button: true
+        },
+        {
+          name: 'realm-import-azgaar',
+          title: 'Import Azgaar Map',
+          icon: 'fas fa-globe',
+          onClick: () => openAzgaarImportDialog(),
+          button: true
+        },
+        {
+          name: 'realm-import-mask',
+          title: 'Import Image Mask',
+          icon: 'fas fa-image',
+          onClick: () => openImageMaskDialog(),
+          button: true
+        },
+        {
+          name: 'realm-export-world',
+          title: 'Export World Realms',
+          icon: 'fas fa-file-export',
+          onClick: () => downloadWorldExport(),
+          button: true
+        },
+        {
+          name: 'realm-import-world',
+          title: 'Import World Realms',
+          icon: 'fas fa-file-import',
+          onClick: () => openWorldImportDialog(),
+          button: true
+        }
+      );
+    }
   } else if (travelScale === 'region') {
     tools.push(
       {
@@ -692,6 +893,31 @@ Hooks.on('getRegionContextOptions', (html: JQuery, options: any[]) => {
         }
       }
     });
+
+    // Add shape operations for realms
+    const isRealm = (li: JQuery) => {
+      const region = canvas?.scene?.regions.get(li.data('document-id'));
+      return region?.flags?.['realms-and-reaches']?.isRealm === true;
+    };
+    const operations: { name: string; icon: string; operation: RealmOperation }[] = [
+      { name: 'Merge With Realm', icon: 'fa-object-group', operation: 'merge' },
+      { name: 'Subtract Realm', icon: 'fa-minus-square', operation: 'subtract' },
+      { name: 'Intersect With Realm', icon: 'fa-crop-alt', operation: 'intersect' }
+    ];
+    for (const { name, icon, operation } of operations) {
+      options.push({
+        name,
+        icon: `<i class="fas ${icon}"></i>`,
+        condition: isRealm,
+        callback: (li: JQuery) => openRealmOperationDialog(li.data('document-id'), operation)
+      });
+    }
+    options.push({
+      name: 'Split Realm',
+      icon: '<i class="fas fa-cut"></i>',
+      condition: isRealm,
+      callback: (li: JQuery) => openSplitRealmDialog(li.data('document-id'))
+    });
   }
 });
 
@@ -791,8 +1017,11 @@ Hooks.on('renderRegionLegend', (app: any, html: any, _data: any) => {
   }
 });
 
+// Tab ID of the realm tag editor in RegionConfig
+const REALM_TAGS_TAB = 'realm-tags';
+
 /**
- * Replace Behaviors tab for realm regions with realm tag editing
+ * Add a Realm Tags tab to realm regions, next to the standard Behaviors tab
  */
 Hooks.on('renderRegionConfig', (app: any, html: any, _data: any) => {
   console.log('Realms & Reaches | renderRegionConfig hook called');
@@ -838,8 +1067,7 @@ Hooks.on('renderRegionConfig', (app: any, html: any, _data: any) => {
       }
     });
 
-    // Replace the Behaviors tab content with realm tag editing
-    // Try both 'behavior' and 'behaviors' since the debug shows 'behaviors'
+    // Add a Realm Tags tab alongside the standard Behaviors tab
     let behaviorsTab = $html.find('.tab[data-tab="behaviors"]');
     if (!behaviorsTab.length) {
       behaviorsTab = $html.find('.tab[data-tab="behavior"]');
@@ -850,221 +1078,169 @@ Hooks.on('renderRegionConfig', (app: any, html: any, _data: any) => {
     if (!behaviorsTab.length) {
       behaviorsTab = $html.find('div[data-tab="behaviors"]');
     }
-    if (behaviorsTab.length) {
-      console.log('Realms & Reaches | Found behaviors tab, replacing content');
-      const tags = region.flags['realms-and-reaches']?.tags || [];
-
-      // Create realm tag editing interface
-      const realmTagsHtml = `
-        <div class="realm-tags-editor">
-          <div class="form-group">
-            <label>Realm Tags</label>
-            <p class="notes">Tags define biome, terrain, and travel properties for this realm.</p>
-            
-            <!-- Existing Tags -->
-            <div class="tag-list">
-              ${tags
-                .map(
-                  (tag: string) => `
-                <div class="tag-item" data-tag="${tag}">
-                  <span class="tag-text">${tag}</span>
-                  <button type="button" class="tag-remove" data-tag="${tag}" title="Remove Tag">
-                    <i class="fas fa-times"></i>
-                  </button>
-                </div>
-              `
-                )
-                .join('')}
-            </div>
-            
-            <!-- Add New Tag Section -->
-            <div class="tag-input-section">
-              <label class="input-label">Add New Tag</label>
-              <div class="tag-input-group">
-                <input type="text" id="new-realm-tag" placeholder="key:value (e.g., biome:forest)" list="realm-tag-suggestions">
-                <button type="button" id="add-realm-tag" title="Add Tag">
-                  <i class="fas fa-plus"></i>
-                </button>
-              </div>
-            </div>
-            
-            <!-- Tag Suggestions -->
-            <datalist id="realm-tag-suggestions">
-              <!-- Options populated dynamically -->
-            </datalist>
-          </div>
-        </div>
-      `;
 
-      // Replace the tab content
-      behaviorsTab.empty().append(realmTagsHtml);
+    let tabNavigation = $html.find('nav.sheet-tabs.tabs');
+    if (!tabNavigation.length) {
+      tabNavigation = $html.find('nav.sheet-navigation');
+    }
+    if (!tabNavigation.length) {
+      tabNavigation = $html.find('.sheet-navigation');
+    }
+    if (!tabNavigation.length) {
+      tabNavigation = $html.find('nav');
+    }
+    if (!tabNavigation.length) {
+      console.warn('Realms & Reaches | No tab navigation found for Realm Tags tab');
+      return;
+    }
 
-      // Update tab label to "Realm Tags" with mountain icon
-      let behaviorsTabNav = $html.find('nav.sheet-tabs.tabs a[data-tab="behaviors"]');
-      if (!behaviorsTabNav.length) {
-        behaviorsTabNav = $html.find('nav.sheet-tabs.tabs a[data-tab="behavior"]');
-      }
-      // Fallback to old selector structure
-      if (!behaviorsTabNav.length) {
-        behaviorsTabNav = $html.find('nav.sheet-navigation a[data-tab="behaviors"]');
-      }
-      if (!behaviorsTabNav.length) {
-        behaviorsTabNav = $html.find('nav.sheet-navigation a[data-tab="behavior"]');
-      }
-      if (behaviorsTabNav.length) {
-        behaviorsTabNav.html(
-          '<i class="fas fa-mountain" style="color: #ff6b35; margin-right: 4px;"></i>Realm Tags'
-        );
-        behaviorsTabNav.addClass('realm-tab');
-        console.log('Realms & Reaches | Updated tab navigation label to "Realm Tags" with icon');
-      }
+    // Join the sheet's tab group so the application switches tabs for us
+    const group =
+      behaviorsTab.data('group') ||
+      tabNavigation.find('[data-group]').first().data('group') ||
+      'sheet';
+    const active = app.tabGroups?.[group] === REALM_TAGS_TAB;
+
+    const navItem = `<a class="item realm-tab${active ? ' active' : ''}" data-action="tab" data-group="${group}" data-tab="${REALM_TAGS_TAB}"><i class="fas fa-mountain" style="color: #ff6b35; margin-right: 4px;"></i>Realm Tags</a>`;
+    const behaviorsTabNav = tabNavigation
+      .find('[data-tab="behaviors"], [data-tab="behavior"]')
+      .first();
+    if (behaviorsTabNav.length) {
+      behaviorsTabNav.after(navItem);
+    } else {
+      tabNavigation.append(navItem);
+    }
 
-      // Update dialog title from localized "Region" to "Realm"
-      const windowTitle = $html.closest('.window').find('.window-title');
-      if (windowTitle.length) {
-        const regionText = game.i18n.localize('DOCUMENT.Region');
-        const currentTitle = windowTitle.text();
-        if (currentTitle.includes(regionText)) {
-          const newTitle = currentTitle.replace(regionText, 'Realm');
-          windowTitle.text(newTitle);
-          console.log(
-            'Realms & Reaches | Updated dialog title from:',
-            currentTitle,
-            'to:',
-            newTitle
-          );
-        }
+    const tabContent = `
+      <div class="tab${active ? ' active' : ''}" data-group="${group}" data-tab="${REALM_TAGS_TAB}">
+        ${renderRealmTagsEditor(region)}
+      </div>
+    `;
+    if (behaviorsTab.length) {
+      behaviorsTab.after(tabContent);
+    } else {
+      const tabContainer = $html.find('.tab-content, .window-content').first();
+      if (!tabContainer.length) {
+        console.warn('Realms & Reaches | Could not find tab container for Realm Tags tab');
+        return;
       }
+      tabContainer.append(tabContent);
+    }
 
-      // Update buttons that contain localized "Region" text
-      const regionText = game.i18n.localize('DOCUMENT.Region');
-      const updateText = game.i18n.localize('DOCUMENT.Update');
-
-      // Look for buttons with "Update Region" pattern
-      $html.find('button').each(function () {
-        const $btn = $(this);
-        const currentText = $btn.text().trim();
-        const currentHtml = $btn.html();
-
-        // Check if button contains the localized region text
-        if (currentText.includes(regionText)) {
-          const newText = currentText.replace(regionText, 'Realm');
-          $btn.text(newText);
-          console.log('Realms & Reaches | Updated button text from:', currentText, 'to:', newText);
-        }
-
-        // Also handle HTML content (for buttons with icons)
-        if (currentHtml.includes(regionText)) {
-          const newHtml = currentHtml.replace(regionText, 'Realm');
-          $btn.html(newHtml);
-          console.log('Realms & Reaches | Updated button HTML content');
-        }
-      });
-
-      // Bind event handlers for tag management
-      bindRealmTagHandlers($html, region, app);
-    } else {
-      console.warn(
-        'Realms & Reaches | No behaviors tab found! Available tabs:',
-        $html
-          .find('.tab')
-          .map((i, el) => $(el).attr('data-tab'))
-          .get()
-      );
+    // Keep the Realm Tags tab open when the sheet re-renders after a tag change
+    if (active) {
+      $html
+        .find(`.tab[data-group="${group}"]`)
+        .not(`[data-tab="${REALM_TAGS_TAB}"]`)
+        .removeClass('active');
+      tabNavigation.find(`[data-tab]`).not(`[data-tab="${REALM_TAGS_TAB}"]`).removeClass('active');
+    }
 
-      // As a fallback, try to add realm tags as a new tab
-      let tabNavigation = $html.find('nav.sheet-tabs.tabs');
-      if (!tabNavigation.length) {
-        tabNavigation = $html.find('nav.sheet-navigation');
+    // Update dialog title from localized "Region" to "Realm"
+    const windowTitle = $html.closest('.window').find('.window-title');
+    if (windowTitle.length) {
+      const regionText = game.i18n.localize('DOCUMENT.Region');
+      const currentTitle = windowTitle.text();
+      if (currentTitle.includes(regionText)) {
+        const newTitle = currentTitle.replace(regionText, 'Realm');
+        windowTitle.text(newTitle);
+        console.log('Realms & Reaches | Updated dialog title from:', currentTitle, 'to:', newTitle);
       }
-      if (!tabNavigation.length) {
-        tabNavigation = $html.find('.sheet-navigation');
+    }
+
+    // Update buttons that contain localized "Region" text
+    const regionText = game.i18n.localize('DOCUMENT.Region');
+    const updateText = game.i18n.localize('DOCUMENT.Update');
+
+    // Look for buttons with "Update Region" pattern
+    $html.find('button').each(function () {
+      const $btn = $(this);
+      const currentText = $btn.text().trim();
+      const currentHtml = $btn.html();
+
+      // Check if button contains the localized region text
+      if (currentText.includes(regionText)) {
+        const newText = currentText.replace(regionText, 'Realm');
+        $btn.text(newText);
+        console.log('Realms & Reaches | Updated button text from:', currentText, 'to:', newText);
       }
-      if (!tabNavigation.length) {
-        tabNavigation = $html.find('nav');
+
+      // Also handle HTML content (for buttons with icons)
+      if (currentHtml.includes(regionText)) {
+        const newHtml = currentHtml.replace(regionText, 'Realm');
+        $btn.html(newHtml);
+        console.log('Realms & Reaches | Updated button HTML content');
       }
-      console.log('Realms & Reaches | Navigation debug:', {
-        navSelectors: [
-          $html.find('nav.sheet-tabs.tabs').length,
-          $html.find('nav.sheet-navigation').length,
-          $html.find('.sheet-navigation').length,
-          $html.find('nav').length
-        ],
-        foundNav: tabNavigation.length > 0
-      });
-      if (tabNavigation.length) {
-        const realmTagTabId = `realm-tags-${region.id}`;
+    });
 
-        // Add navigation tab with realm styling
-        tabNavigation.append(
-          `<a class="item realm-tab" data-tab="${realmTagTabId}"><i class="fas fa-mountain" style="color: #ff6b35; margin-right: 4px;"></i>Realm Tags</a>`
-        );
+    // Bind event handlers for tag management
+    bindRealmTagHandlers($html, region, app);
+  } catch (error) {
+    console.error('Realms & Reaches | Error in renderRegionConfig hook:', error);
+  }
+});
 
-        // Add tab content
-        const tags = region.flags['realms-and-reaches']?.tags || [];
-        const realmTagsHtml = `
-          <div class="tab" data-tab="${realmTagTabId}">
-            <div class="realm-tags-editor">
-              <div class="form-group">
-                <label>Realm Tags</label>
-                <p class="notes">Tags define biome, terrain, and travel properties for this realm.</p>
-                
-                <!-- Existing Tags -->
-                <div class="tag-list">
-                  ${tags
-                    .map(
-                      (tag: string) => `
-                    <div class="tag-item" data-tag="${tag}">
-                      <span class="tag-text">${tag}</span>
-                      <button type="button" class="tag-remove" data-tag="${tag}" title="Remove Tag">
-                        <i class="fas fa-times"></i>
-                      </button>
-                    </div>
-                  `
-                    )
-                    .join('')}
-                </div>
-                
-                <!-- Add New Tag Section -->
-                <div class="tag-input-section">
-                  <label class="input-label">Add New Tag</label>
-                  <div class="tag-input-group">
-                    <input type="text" id="new-realm-tag" placeholder="key:value (e.g., biome:forest)" list="realm-tag-suggestions">
-                    <button type="button" id="add-realm-tag" title="Add Tag">
-                      <i class="fas fa-plus"></i>
-                    </button>
-                  </div>
-                </div>
-                
-                <!-- Tag Suggestions -->
-                <datalist id="realm-tag-suggestions">
-                  <!-- Options populated dynamically -->
-                </datalist>
-              </div>
+/**
+ * Render the realm tag editor shown in the Realm Tags tab
+ */
+function renderRealmTagsEditor(region: any): string {
+  const tags = region.flags['realms-and-reaches']?.tags || [];
+  return `
+    <div class="realm-tags-editor">
+      <div class="form-group">
+        <label>Realm Tags</label>
+        <p class="notes">Tags define biome, terrain, and travel properties for this realm.</p>
+
+        <!-- Existing Tags -->
+        <div class="tag-list">
+          ${tags
+            .map(
+              (tag: string) => `
+            <div class="tag-item" data-tag="${tag}">
+              <span class="tag-text">${tag}</span>
+              <button type="button" class="tag-remove" data-tag="${tag}" title="Remove Tag">
+                <i class="fas fa-times"></i>
+              </button>
             </div>
-          </div>
-        `;
+          `
+            )
+            .join('')}
+        </div>
 
-        // Insert the tab content
-        const tabContainer = $html.find('.tab-content, .window-content').first();
-        if (tabContainer.length) {
-          tabContainer.append(realmTagsHtml);
+        <!-- Add New Tag Section -->
+        <div class="tag-input-section">
+          <label class="input-label">Add New Tag</label>
+          <div class="tag-input-group">
+            <input type="text" id="new-realm-tag" placeholder="key:value (e.g., biome:forest)" list="realm-tag-suggestions">
+            <button type="button" id="add-realm-tag" title="Add Tag">
+              <i class="fas fa-plus"></i>
+            </button>
+          </div>
+        </div>
 
-          // Bind event handlers for tag management
-          bindRealmTagHandlers($html, region, app);
+        <!-- Tag Suggestions -->
+        <datalist id="realm-tag-suggestions">
+          <!-- Options populated dynamically -->
+        </datalist>
+      </div>
+      ${renderRealmPriorityField(region)}
+    </div>
+  `;
+}
 
-          console.log('Realms & Reaches | Added Realm Tags tab as fallback');
-        } else {
-          console.warn('Realms & Reaches | Could not find tab container for fallback');
-        }
-      } else {
-        console.warn('Realms & Reaches | No tab navigation found for fallback');
-      }
-    }
-  } catch (error) {
-    console.error('Realms & Reaches | Error in renderRegionConfig hook:', error);
-  }
-});
+/**
+ * Render the overlap priority input for the realm tab
+ */
+function renderRealmPriorityField(region: any): string {
+  const priority = Number(region.flags['realms-and-reaches']?.priority) || 0;
+  return `
+    <div class="form-group realm-priority">
+      <label>Priority</label>
+      <input type="number" id="realm-priority" value="${priority}" step="1">
+      <p class="notes">Where realms overlap, the realm with the highest priority wins.</p>
+    </div>
+  `;
+}
 
 /**
  * Bind event handlers for realm tag management in region config
@@ -1103,6 +1279,17 @@ function bindRealmTagHandlers($html: any, region: any, _app: any) {
     validateRealmTagInput(tagInput);
   });
 
+  // Priority handler
+  $html.find('#realm-priority').on('change', async (event: any) => {
+    const priority = parseInt($(event.currentTarget).val() as string, 10);
+    try {
+      await region.setFlag('realms-and-reaches', 'priority', Number.isNaN(priority) ? 0 : priority);
+    } catch (error) {
+      console.error('Failed to update realm priority:', error);
+      ui.notifications?.error(`Failed to update priority: ${error}`);
+    }
+  });
+
   // Initial setup
   updateRealmTagSuggestions('', region, $html);
 }
@@ -1196,6 +1383,41 @@ function renderRealmTagItem(tag: string, tagList: any): void {
   tagList.append(tagHtml);
 }
 
+// Common tags offered by the realm tag editor, also matched by value
+const COMMON_REALM_TAGS = [
+  'biome:forest',
+  'biome:desert',
+  'biome:mountain',
+  'biome:swamp',
+  'biome:grassland',
+  'terrain:dense',
+  'terrain:sparse',
+  'terrain:rocky',
+  'terrain:smooth',
+  'climate:temperate',
+  'climate:arctic',
+  'climate:tropical',
+  'climate:arid',
+  'settlement:village',
+  'settlement:town',
+  'settlement:city',
+  'travel_speed:0.5',
+  'travel_speed:0.75',
+  'travel_speed:1.0',
+  'travel_speed:1.25',
+  'travel_speed:1.5',
+  'resources:timber',
+  'resources:game',
+  'resources:minerals',
+  'resources:freshwater',
+  'elevation:lowland',
+  'elevation:highland',
+  'elevation:mountain',
+  'custom:haunted',
+  'custom:magical',
+  'custom:dangerous'
+];
+
 /**
  * Update tag suggestions based on current input
  */
@@ -1209,46 +1431,18 @@ function updateRealmTagSuggestions(partial: string, region: any, $html: any): vo
   // Clear all existing options
   datalist.empty();
 
-  // If no partial input, show common suggestions
+  // If no partial input, show common suggestions from the tag vocabulary
   if (!partial?.trim()) {
-    const commonTags = [
-      'biome:forest',
-      'biome:desert',
-      'biome:mountain',
-      'biome:swamp',
-      'biome:grassland',
-      'terrain:dense',
-      'terrain:sparse',
-      'terrain:rocky',
-      'terrain:smooth',
-      'climate:temperate',
-      'climate:arctic',
-      'climate:tropical',
-      'climate:arid',
-      'settlement:village',
-      'settlement:town',
-      'settlement:city',
-      'travel_speed:0.5',
-      'travel_speed:0.75',
-      'travel_speed:1.0',
-      'travel_speed:1.25',
-      'travel_speed:1.5',
-      'resources:timber',
-      'resources:game',
-      'resources:minerals',
-      'resources:freshwater',
-      'elevation:lowland',
-      'elevation:highland',
-      'elevation:mountain',
-      'custom:haunted',
-      'custom:magical',
-      'custom:dangerous'
-    ];
+    const tagSystem = TagSystem.getInstance();
+    const tags = tagSystem.getCommonTags(existingTags);
 
-    commonTags.forEach(tag => {
-      if (!existingTags.includes(tag)) {
-        datalist.append(`<option value="${tag}">`);
-      }
+    // Common tags outside the vocabulary (e.g. settlement:*) are still offered
+    for (const tag of COMMON_REALM_TAGS) {
+      if (!tagSystem.getNamespace(tag) && !existingTags.includes(tag)) tags.push(tag);
+    }
+
+    tags.forEach(tag => {
+      datalist.append(`<option value="${tag}">`);
     });
   } else {
     // Get suggestions from TagSystem for partial input
@@ -1262,44 +1456,11 @@ function updateRealmTagSuggestions(partial: string, region: any, $html: any): vo
     });
 
     // Also search for tags by their values (e.g., typing "swamp" should find "biome:swamp")
-    const commonTags = [
-      'biome:forest',
-      'biome:desert',
-      'biome:mountain',
-      'biome:swamp',
-      'biome:grassland',
-      'terrain:dense',
-      'terrain:sparse',
-      'terrain:rocky',
-      'terrain:smooth',
-      'climate:temperate',
-      'climate:arctic',
-      'climate:tropical',
-      'climate:arid',
-      'settlement:village',
-      'settlement:town',
-      'settlement:city',
-      'travel_speed:0.5',
-      'travel_speed:0.75',
-      'travel_speed:1.0',
-      'travel_speed:1.25',
-      'travel_speed:1.5',
-      'resources:timber',
-      'resources:game',
-      'resources:minerals',
-      'resources:freshwater',
-      'elevation:lowland',
-      'elevation:highland',
-      'elevation:mountain',
-      'custom:haunted',
-      'custom:magical',
-      'custom:dangerous'
-    ];
 
     const partialLower = partial.toLowerCase();
 
     // Find tags where the value portion matches the partial input
-    const valueMatches = commonTags.filter(tag => {
+    const valueMatches = COMMON_REALM_TAGS.filter(tag => {
       const colonIndex = tag.indexOf(':');
       if (colonIndex === -1) return false;
 
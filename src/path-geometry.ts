@@ -0,0 +1,569 @@
+/**
+ * Path Geometry - Segment intersection helpers for Region shapes
+ *
+ * Pure geometry used to work out where a route enters and leaves a realm.
+ * Shapes follow Foundry's Region shape data: rectangles are positioned by
+ * their top-left corner, ellipses by their center, and rotations are in
+ * degrees about the shape's center.
+ */
+
+export interface PathPoint {
+  x: number;
+  y: number;
+}
+
+/**
+ * A stretch of a single path segment, as fractions (0-1) of the segment
+ */
+export interface SegmentInterval {
+  start: number;
+  end: number;
+}
+
+/**
+ * Convert a rectangle shape to its (possibly rotated) corner points
+ */
+export function rectangleToPoints(shape: any): number[] {
+  const { x = 0, y = 0, width = 0, height = 0, rotation = 0 } = shape;
+  const corners = [x, y, x + width, y, x + width, y + height, x, y + height];
+  if (!rotation) return corners;
+
+  const cx = x + width / 2;
+  const cy = y + height / 2;
+  const angle = (rotation * Math.PI) / 180;
+  const cos = Math.cos(angle);
+  const sin = Math.sin(angle);
+
+  const rotated: number[] = [];
+  for (let i = 0; i < corners.length; i += 2) {
+    const dx = corners[i] - cx;
+    const dy = corners[i + 1] - cy;
+    rotated.push(cx + dx * cos - dy * sin, cy + dx * sin + dy * cos);
+  }
+  return rotated;
+}
+
+/**
+ * Convert any Region shape to a flat polygon point array
+ *
+ * Ellipses and circles are approximated with evenly spaced vertices.
+ * @param segments - Vertices used for ellipses and circles
+ */
+export function shapeToPolygon(shape: any, segments = 32): number[] {
+  switch (shape.type) {
+    case 'polygon':
+      return [...(shape.points || [])];
+    case 'rectangle':
+      return rectangleToPoints(shape);
+    case 'ellipse':
+    case 'circle': {
+      const ellipse = getEllipse(shape);
+      const cos = Math.cos(ellipse.angle);
+      const sin = Math.sin(ellipse.angle);
+      const points: number[] = [];
+      for (let i = 0; i < segments; i++) {
+        const t = (i / segments) * Math.PI * 2;
+        const dx = Math.cos(t) * ellipse.rx;
+        const dy = Math.sin(t) * ellipse.ry;
+        points.push(ellipse.x + dx * cos - dy * sin, ellipse.y + dx * sin + dy * cos);
+      }
+      return points;
+    }
+    default:
+      return [];
+  }
+}
+
+/**
+ * Get the ellipse parameters of an ellipse or circle shape
+ */
+function getEllipse(shape: any): { x: number; y: number; rx: number; ry: number; angle: number } {
+  if (shape.type === 'circle') {
+    return {
+      x: shape.x || 0,
+      y: shape.y || 0,
+      rx: shape.radius || 0,
+      ry: shape.radius || 0,
+      angle: 0
+    };
+  }
+  return {
+    x: shape.x || 0,
+    y: shape.y || 0,
+    rx: shape.radiusX || 0,
+    ry: shape.radiusY || 0,
+    angle: ((shape.rotation || 0) * Math.PI) / 180
+  };
+}
+
+/**
+ * Map a point into the unit-circle space of an ellipse
+ */
+function toUnitCircle(
+  point: PathPoint,
+  ellipse: { x: number; y: number; rx: number; ry: number; angle: number }
+): PathPoint {
+  const dx = point.x - ellipse.x;
+  const dy = point.y - ellipse.y;
+  const cos = Math.cos(-ellipse.angle);
+  const sin = Math.sin(-ellipse.angle);
+  return {
+    x: (dx * cos - dy * sin) / ellipse.rx,
+    y: (dx * sin + dy * cos) / ellipse.ry
+  };
+}
+
+/**
+ * Even-odd point-in-polygon test on a flat [x1, y1, x2, y2, ...] array
+ */
+export function pointInPolygon(x: number, y: number, points: number[]): boolean {
+  if (points.length < 6) return false;
+
+  let inside = false;
+  const numPoints = points.length / 2;
+
+  for (let i = 0, j = numPoints - 1; i < numPoints; j = i++) {
+    const xi = points[i * 2];
+    const yi = points[i * 2 + 1];
+    const xj = points[j * 2];
+    const yj = points[j * 2 + 1];
+
+    if (yi > y !== yj > y && x < ((xj - xi) * (y - yi)) / (yj - yi) + xi) {
+      inside = !inside;
+    }
+  }
+
+  return inside;
+}
+
+/**
+ * Test if a point is inside a single Region shape
+ */
+export function pointInShape(x: number, y: number, shape: any): boolean {
+  switch (shape.type) {
+    case 'polygon':
+      return pointInPolygon(x, y, shape.points || []);
+    case 'rectangle':
+      return pointInPolygon(x, y, rectangleToPoints(shape));
+    case 'ellipse':
+    case 'circle': {
+      const ellipse = getEllipse(shape);
+      if (ellipse.rx <= 0 || ellipse.ry <= 0) return false;
+      const local = toUnitCircle({ x, y }, ellipse);
+      return local.x * local.x + local.y * local.y <= 1;
+    }
+    default:
+      return false;
+  }
+}
+
+/**
+ * Test if a point is inside a set of Region shapes (holes subtract)
+ */
+export function pointInShapes(x: number, y: number, shapes: any[]): boolean {
+  let inside = false;
+  for (const shape of shapes) {
+    if (shape.hole) {
+      if (pointInShape(x, y, shape)) return false;
+    } else if (!inside && pointInShape(x, y, shape)) {
+      inside = true;
+    }
+  }
+  return inside;
+}
+
+/**
+ * Get the fractions along segment a→b where it crosses a polygon outline
+ */
+function polygonCrossings(a: PathPoint, b: PathPoint, points: number[]): number[] {
+  const crossings: number[] = [];
+  const dx = b.x - a.x;
+  const dy = b.y - a.y;
+  const numPoints = points.length / 2;
+
+  for (let i = 0; i < numPoints; i++) {
+    const px = points[i * 2];
+    const py = points[i * 2 + 1];
+    const qx = points[((i + 1) % numPoints) * 2];
+    const qy = points[((i + 1) % numPoints) * 2 + 1];
+    const ex = qx - px;
+    const ey = qy - py;
+
+    const denom = dx * ey - dy * ex;
+    if (denom === 0) continue; // Parallel or collinear
+
+    const t = ((px - a.x) * ey - (py - a.y) * ex) / denom;
+    const u = ((px - a.x) * dy - (py - a.y) * dx) / denom;
+    if (t >= 0 && t <= 1 && u >= 0 && u <= 1) {
+      crossings.push(t);
+    }
+  }
+
+  return crossings;
+}
+
+/**
+ * Get the fractions along segment a→b where it crosses an ellipse outline
+ */
+function ellipseCrossings(a: PathPoint, b: PathPoint, shape: any): number[] {
+  const ellipse = getEllipse(shape);
+  if (ellipse.rx <= 0 || ellipse.ry <= 0) return [];
+
+  const p = toUnitCircle(a, ellipse);
+  const q = toUnitCircle(b, ellipse);
+  const dx = q.x - p.x;
+  const dy = q.y - p.y;
+
+  // Solve |p + t(q - p)|² = 1
+  const qa = dx * dx + dy * dy;
+  const qb = 2 * (p.x * dx + p.y * dy);
+  const qc = p.x * p.x + p.y * p.y - 1;
+  const discriminant = qb * qb - 4 * qa * qc;
+  if (qa === 0 || discriminant < 0) return [];
+
+  const root = Math.sqrt(discriminant);
+  return [(-qb - root) / (2 * qa), (-qb + root) / (2 * qa)].filter(t => t >= 0 && t <= 1);
+}
+
+/**
+ * Get the fractions along segment a→b where it crosses a shape outline
+ */
+export function shapeCrossings(a: PathPoint, b: PathPoint, shape: any): number[] {
+  switch (shape.type) {
+    case 'polygon':
+      return polygonCrossings(a, b, shape.points || []);
+    case 'rectangle':
+      return polygonCrossings(a, b, rectangleToPoints(shape));
+    case 'ellipse':
+    case 'circle':
+      return ellipseCrossings(a, b, shape);
+    default:
+      return [];
+  }
+}
+
+/**
+ * Get the parts of segment a→b that lie inside a set of Region shapes
+ *
+ * Splits the segment at every outline crossing and tests the midpoint of
+ * each piece, so overlapping shapes and holes are handled uniformly.
+ * @returns Inside intervals as fractions of the segment, in order
+ */
+export function getInsideIntervals(a: PathPoint, b: PathPoint, shapes: any[]): SegmentInterval[] {
+  const cuts = [0, 1];
+  for (const shape of shapes) {
+    cuts.push(...shapeCrossings(a, b, shape));
+  }
+  cuts.sort((m, n) => m - n);
+
+  const intervals: SegmentInterval[] = [];
+  for (let i = 0; i < cuts.length - 1; i++) {
+    const start = cuts[i];
+    const end = cuts[i + 1];
+    if (end - start <= 1e-9) continue;
+
+    const mid = (start + end) / 2;
+    const inside = pointInShapes(a.x + (b.x - a.x) * mid, a.y + (b.y - a.y) * mid, shapes);
+    if (!inside) continue;
+
+    // Merge with the previous interval when they touch
+    const last = intervals[intervals.length - 1];
+    if (last && Math.abs(last.end - start) <= 1e-9) {
+      last.end = end;
+    } else {
+      intervals.push({ start, end });
+    }
+  }
+
+  return intervals;
+}
+
+/**
+ * Convert outline rings to Region polygon shapes
+ *
+ * Rings nested an odd number of times are holes. Shapes are ordered from the
+ * outside in, so islands inside holes are added back after the hole.
+ */
+export function ringsToShapes(rings: number[][]): any[] {
+  const usable = rings.filter(points => points.length >= 6);
+  return usable
+    .map((points, index) => ({
+      points,
+      depth: usable.filter((other, j) => j !== index && pointInPolygon(points[0], points[1], other))
+        .length
+    }))
+    .sort((a, b) => a.depth - b.depth)
+    .map(({ points, depth }) =>
+      depth % 2 ? { type: 'polygon', points, hole: true } : { type: 'polygon', points }
+    );
+}
+
+/**
+ * Get the closest point to p on the segment a→b
+ */
+export function closestPointOnSegment(p: PathPoint, a: PathPoint, b: PathPoint): PathPoint {
+  const dx = b.x - a.x;
+  const dy = b.y - a.y;
+  const lengthSq = dx * dx + dy * dy;
+  const t = lengthSq
+    ? Math.max(0, Math.min(1, ((p.x - a.x) * dx + (p.y - a.y) * dy) / lengthSq))
+    : 0;
+  return { x: a.x + t * dx, y: a.y + t * dy };
+}
+
+/**
+ * Find the nearest point on the outlines of a set of Region shapes
+ *
+ * Ellipses are measured against their polygon approximation.
+ * @returns null if the shapes have no outline
+ */
+export function nearestOutlinePoint(
+  x: number,
+  y: number,
+  shapes: any[]
+): { x: number; y: number; distance: number } | null {
+  let nearest: { x: number; y: number; distance: number } | null = null;
+  for (const shape of shapes) {
+    const ring = shapeToPolygon(shape);
+    if (ring.length < 4) continue;
+    for (let i = 0; i < ring.length; i += 2) {
+      const j = (i + 2) % ring.length;
+      const point = closestPointOnSegment(
+        { x, y },
+        { x: ring[i], y: ring[i + 1] },
+        { x: ring[j], y: ring[j + 1] }
+      );
+      const distance = Math.hypot(point.x - x, point.y - y);
+      if (!nearest || distance < nearest.distance) nearest = { ...point, distance };
+    }
+  }
+  return nearest;
+}
+
+/**
+ * Distance from a point to the nearest outline of a set of Region shapes
+ * @returns 0 if the point is inside the shapes
+ */
+export function distanceToShapes(x: number, y: number, shapes: any[]): number {
+  if (pointInShapes(x, y, shapes)) return 0;
+  return nearestOutlinePoint(x, y, shapes)?.distance ?? Infinity;
+}
+
+/**
+ * Signed area of a flat [x1, y1, x2, y2, ...] ring
+ */
+export function polygonArea(points: number[]): number {
+  let area = 0;
+  const n = points.length;
+  for (let i = 0; i < n; i += 2) {
+    const j = (i + 2) % n;
+    area += points[i] * points[j + 1] - points[j] * points[i + 1];
+  }
+  return area / 2;
+}
+
+/**
+ * Distance from a point to the segment a→b
+ */
+function distanceToSegment(
+  px: number,
+  py: number,
+  ax: number,
+  ay: number,
+  bx: number,
+  by: number
+): number {
+  const dx = bx - ax;
+  const dy = by - ay;
+  const lengthSq = dx * dx + dy * dy;
+  const t = lengthSq ? Math.max(0, Math.min(1, ((px - ax) * dx + (py - ay) * dy) / lengthSq)) : 0;
+  return Math.hypot(px - (ax + t * dx), py - (ay + t * dy));
+}
+
+/**
+ * Douglas-Peucker simplification of an open polyline's flat points
+ */
+function simplifyPolyline(points: number[], tolerance: number): number[] {
+  const count = points.length / 2;
+  if (count <= 2) return points;
+
+  const keep = new Uint8Array(count);
+  keep[0] = keep[count - 1] = 1;
+  const stack: [number, number][] = [[0, count - 1]];
+
+  while (stack.length > 0) {
+    const [first, last] = stack.pop()!;
+    let farthest = -1;
+    let maxDistance = tolerance;
+
+    for (let i = first + 1; i < last; i++) {
+      const distance = distanceToSegment(
+        points[i * 2],
+        points[i * 2 + 1],
+        points[first * 2],
+        points[first * 2 + 1],
+        points[last * 2],
+        points[last * 2 + 1]
+      );
+      if (distance > maxDistance) {
+        farthest = i;
+        maxDistance = distance;
+      }
+    }
+
+    if (farthest >= 0) {
+      keep[farthest] = 1;
+      stack.push([first, farthest], [farthest, last]);
+    }
+  }
+
+  const result: number[] = [];
+  for (let i = 0; i < count; i++) {
+    if (keep[i]) result.push(points[i * 2], points[i * 2 + 1]);
+  }
+  return result;
+}
+
+/**
+ * Simplify a closed ring with Douglas-Peucker
+ *
+ * The ring is split at its first point and the point farthest from it, and
+ * each half is simplified separately.
+ * @param tolerance - Largest distance a removed point may lie from the outline
+ */
+export function simplifyPolygon(points: number[], tolerance: number): number[] {
+  const count = points.length / 2;
+  if (count <= 3 || tolerance <= 0) return points;
+
+  let split = 1;
+  let maxDistance = -1;
+  for (let i = 1; i < count; i++) {
+    const distance = Math.hypot(points[i * 2] - points[0], points[i * 2 + 1] - points[1]);
+    if (distance > maxDistance) {
+      split = i;
+      maxDistance = distance;
+    }
+  }
+
+  const first = simplifyPolyline(points.slice(0, split * 2 + 2), tolerance);
+  const second = simplifyPolyline([...points.slice(split * 2), points[0], points[1]], tolerance);
+  return [...first.slice(0, -2), ...second.slice(0, -2)];
+}
+
+/**
+ * Distance from a point to the nearest edge of any ring; negative outside
+ * the first ring or inside any of the others
+ */
+function signedEdgeDistance(x: number, y: number, rings: number[][]): number {
+  let inside = pointInPolygon(x, y, rings[0]);
+  let distance = Infinity;
+
+  rings.forEach((ring, index) => {
+    if (index > 0 && inside && pointInPolygon(x, y, ring)) inside = false;
+    for (let i = 0; i < ring.length; i += 2) {
+      const j = (i + 2) % ring.length;
+      distance = Math.min(
+        distance,
+        distanceToSegment(x, y, ring[i], ring[i + 1], ring[j], ring[j + 1])
+      );
+    }
+  });
+
+  return inside ? distance : -distance;
+}
+
+/**
+ * Find the point of a realm farthest from its edges (its pole of inaccessibility)
+ *
+ * Searches the largest outline, minus the holes inside it, with the quadtree
+ * method of Mapbox's polylabel. Unlike the centroid, the result is always
+ * inside, even for concave shapes.
+ * @param precision - Stop refining once no cell can beat the best by this many pixels
+ * @returns null if the shapes have no outline
+ */
+export function poleOfInaccessibility(
+  shapes: any[],
+  precision = 1
+): { x: number; y: number; distance: number } | null {
+  const outline = shapes
+    .filter(shape => !shape.hole)
+    .map(shape => shapeToPolygon(shape))
+    .filter(points => points.length >= 6)
+    .sort((a, b) => Math.abs(polygonArea(b)) - Math.abs(polygonArea(a)))[0];
+  if (!outline) return null;
+
+  const holes = shapes
+    .filter(shape => shape.hole)
+    .map(shape => shapeToPolygon(shape))
+    .filter(points => points.length >= 6 && pointInPolygon(points[0], points[1], outline));
+  const rings = [outline, ...holes];
+
+  let minX = Infinity;
+  let minY = Infinity;
+  let maxX = -Infinity;
+  let maxY = -Infinity;
+  for (let i = 0; i < outline.length; i += 2) {
+    minX = Math.min(minX, outline[i]);
+    minY = Math.min(minY, outline[i + 1]);
+    maxX = Math.max(maxX, outline[i]);
+    maxY = Math.max(maxY, outline[i + 1]);
+  }
+
+  type Cell = { x: number; y: number; h: number; distance: number; max: number };
+  const cell = (x: number, y: number, h: number): Cell => {
+    const distance = signedEdgeDistance(x, y, rings);
+    return { x, y, h, distance, max: distance + h * Math.SQRT2 };
+  };
+
+  const size = Math.min(maxX - minX, maxY - minY);
+  if (size <= 0) return { x: outline[0], y: outline[1], distance: 0 };
+
+  // Start from the area centroid, then cover the bounds with square cells
+  let centroidX = 0;
+  let centroidY = 0;
+  const area = polygonArea(outline);
+  for (let i = 0; i < outline.length; i += 2) {
+    const j = (i + 2) % outline.length;
+    const cross = outline[i] * outline[j + 1] - outline[j] * outline[i + 1];
+    centroidX += (outline[i] + outline[j]) * cross;
+    centroidY += (outline[i + 1] + outline[j + 1]) * cross;
+  }
+  let best = area
+    ? cell(centroidX / (6 * area), centroidY / (6 * area), 0)
+    : cell(outline[0], outline[1], 0);
+
+  // Cells stay sorted by their best possible distance, most promising last
+  const queue: Cell[] = [];
+  const enqueue = (next: Cell) => {
+    let low = 0;
+    let high = queue.length;
+    while (low < high) {
+      const mid = (low + high) >> 1;
+      if (queue[mid].max < next.max) low = mid + 1;
+      else high = mid;
+    }
+    queue.splice(low, 0, next);
+  };
+
+  const h = size / 2;
+  for (let x = minX; x < maxX; x += size) {
+    for (let y = minY; y < maxY; y += size) {
+      enqueue(cell(x + h, y + h, h));
+    }
+  }
+
+  while (queue.length > 0) {
+    const current = queue.pop()!;
+    if (current.distance > best.distance) best = current;
+    // No remaining cell can beat the best by more than the precision
+    if (current.max - best.distance <= precision) break;
+
+    const half = current.h / 2;
+    enqueue(cell(current.x - half, current.y - half, half));
+    enqueue(cell(current.x + half, current.y - half, half));
+    enqueue(cell(current.x - half, current.y + half, half));
+    enqueue(cell(current.x + half, current.y + half, half));
+  }
+
+  return { x: best.x, y: best.y, distance: best.distance };
+}
@@ -0,0 +1,90 @@
+/**
+ * Player Realm Map - Draw the realms a player has discovered
+ *
+ * Players do not see the Region layer, so this overlay shows them what they
+ * know: explored realms are filled in their colour and rumoured realms are
+ * only outlined. Undiscovered realms are not drawn at all.
+ */
+
+import { getDiscoveryState } from './realm-discovery';
+import { DEFAULT_REALM_COLOR, drawRealmShapes } from './thematic-overlay';
+
+const EXPLORED_FILL_ALPHA = 0.2;
+
+/**
+ * Get a region's colour as a number
+ */
+function getRegionColor(region: any): number {
+  const color = region.color;
+  if (color === null || color === undefined || color === '') return DEFAULT_REALM_COLOR;
+  if (typeof color === 'string') {
+    const value = parseInt(color.replace('#', ''), 16);
+    return Number.isNaN(value) ? DEFAULT_REALM_COLOR : value;
+  }
+  return Number(color);
+}
+
+/**
+ * Whether the player realm map is drawn for the current user
+ */
+export function showsPlayerRealmMap(): boolean {
+  return (
+    game.user?.isGM !== true &&
+    game.settings.get('realms-and-reaches', 'showDiscoveredRealms') === true
+  );
+}
+
+/**
+ * PlayerRealmMap draws the current player's discovered realms
+ */
+export class PlayerRealmMap {
+  private static instance: PlayerRealmMap;
+
+  private container: PIXI.Container | null = null;
+
+  static getInstance(): PlayerRealmMap {
+    if (!PlayerRealmMap.instance) {
+      PlayerRealmMap.instance = new PlayerRealmMap();
+    }
+    return PlayerRealmMap.instance;
+  }
+
+  /**
+   * Redraw the discovered realms of the current scene
+   */
+  draw(): void {
+    this.tearDown();
+    if (!canvas?.scene || !canvas.interface || !showsPlayerRealmMap()) return;
+
+    this.container = new PIXI.Container();
+    this.container.eventMode = 'none';
+    canvas.interface.addChildAt(this.container, 0);
+
+    for (const region of canvas.scene.regions as any) {
+      if (region.flags?.['realms-and-reaches']?.isRealm !== true) continue;
+      const state = getDiscoveryState(region);
+      if (state === 'undiscovered') continue;
+
+      const color = getRegionColor(region);
+      const graphics = new PIXI.Graphics();
+      if (state === 'explored') {
+        graphics.lineStyle(3, color, 0.9);
+        graphics.beginFill(color, EXPLORED_FILL_ALPHA);
+        drawRealmShapes(graphics, region.shapes || []);
+        graphics.endFill();
+      } else {
+        graphics.lineStyle(2, color, 0.5);
+        drawRealmShapes(graphics, region.shapes || []);
+      }
+      this.container.addChild(graphics);
+    }
+  }
+
+  /**
+   * Remove the overlay
+   */
+  tearDown(): void {
+    this.container?.destroy({ children: true });
+    this.container = null;
+  }
+}
@@ -0,0 +1,267 @@
+/**
+ * Realm Behaviors - Realm-aware RegionBehavior types
+ *
+ * Behaviors that read the tags of the realm they are attached to. The
+ * sub-types are declared in module.json; their data models are built at
+ * runtime because the Foundry base classes only exist once Foundry loads.
+ */
+
+// Access Foundry classes at runtime
+declare const foundry: any;
+
+const MODULE_ID = 'realms-and-reaches';
+
+/**
+ * Sub-type names as registered with CONFIG.RegionBehavior
+ */
+export const REALM_BEHAVIOR_TYPES = {
+  travelSpeed: `${MODULE_ID}.travelSpeed`,
+  description: `${MODULE_ID}.realmDescription`,
+  macro: `${MODULE_ID}.realmMacro`
+};
+
+/**
+ * Get the travel_speed tag value of a realm region
+ */
+export function getRealmTravelSpeed(region: any): number | null {
+  const tags: string[] = region?.flags?.[MODULE_ID]?.tags || [];
+  const tag = tags.find(t => t.startsWith('travel_speed:'));
+  if (!tag) return null;
+
+  const speed = parseFloat(tag.slice('travel_speed:'.length));
+  return Number.isFinite(speed) && speed >= 0 ? speed : null;
+}
+
+/**
+ * Get the speed set by a region's travel speed behavior
+ *
+ * A behavior without a fixed speed uses the realm's travel_speed tag.
+ * @returns The speed modifier, or null without an enabled travel speed behavior
+ */
+export function getBehaviorTravelSpeed(region: any): number | null {
+  for (const behavior of region?.behaviors ?? []) {
+    if (behavior.type !== REALM_BEHAVIOR_TYPES.travelSpeed || behavior.disabled) continue;
+    return behavior.system?.speed ?? getRealmTravelSpeed(region);
+  }
+  return null;
+}
+
+/**
+ * Get the travel speed applied to a token by travel speed behaviors
+ *
+ * Where the token stands in several regions, the highest-priority one wins.
+ * @returns The speed modifier, or 1 when no behavior applies
+ */
+export function getTokenTravelSpeed(token: any): number {
+  const speeds: Record<string, number> = token?.flags?.[MODULE_ID]?.travelSpeed || {};
+  const regions = token?.parent?.regions;
+
+  let best: { speed: number; priority: number } | null = null;
+  for (const [regionId, speed] of Object.entries(speeds)) {
+    const priority = Number(regions?.get(regionId)?.flags?.[MODULE_ID]?.priority) || 0;
+    if (!best || priority > best.priority) best = { speed, priority };
+  }
+  return best ? best.speed : 1;
+}
+
+/**
+ * Get the realm tags given to a token or its actor
+ */
+export function getTokenTags(token: any): string[] {
+  const tokenTags: string[] = token?.flags?.[MODULE_ID]?.tags || [];
+  const actorTags: string[] = token?.actor?.flags?.[MODULE_ID]?.tags || [];
+  return Array.from(new Set([...tokenTags, ...actorTags]));
+}
+
+/**
+ * Parse a comma-separated tag list from a behavior field
+ */
+export function parseTagList(value: string | undefined): string[] {
+  return (value || '')
+    .split(',')
+    .map(tag => tag.trim().toLowerCase())
+    .filter(tag => tag.length > 0);
+}
+
+/**
+ * Test if a token has every required tag
+ */
+export function tokenHasTags(token: any, required: string[]): boolean {
+  const tags = getTokenTags(token);
+  return required.every(tag => tags.includes(tag));
+}
+
+/**
+ * Build the chat card posted when a token enters a realm
+ * @param region - The realm region
+ * @param description - Text entered on the behavior; falls back to realm metadata
+ */
+export function renderRealmDescription(region: any, description?: string): string {
+  const flags = region?.flags?.[MODULE_ID] || {};
+  const text = description?.trim() || flags.metadata?.description || '';
+  const tags: string[] = (flags.tags || []).filter(
+    (tag: string) => tag.startsWith('biome:') || tag.startsWith('terrain:')
+  );
+
+  return `
+    <div class="realm-description-card">
+      <h3><i class="fas fa-mountain"></i> ${region?.name || 'Unknown Realm'}</h3>
+      ${text ? `<div class="realm-description">${text}</div>` : ''}
+      ${
+        tags.length
+          ? `<div class="realm-description-tags">${tags
+              .map(tag => `<span class="tag" data-tag="${tag}">${tag}</span>`)
+              .join('')}</div>`
+          : ''
+      }
+    </div>
+  `;
+}
+
+/**
+ * Create the RegionBehaviorType data models for realm behaviors
+ */
+export function createRealmBehaviorTypes() {
+  const RegionBehaviorType = foundry.data.regionBehaviors.RegionBehaviorType;
+  const fields = foundry.data.fields;
+  const REGION_EVENTS = foundry.CONST.REGION_EVENTS;
+
+  /**
+   * Apply the realm's travel_speed to tokens inside it
+   */
+  class TravelSpeedBehaviorType extends RegionBehaviorType {
+    static defineSchema() {
+      return {
+        speed: new fields.NumberField({
+          required: false,
+          nullable: true,
+          min: 0,
+          initial: null,
+          label: 'Travel Speed',
+          hint: "Speed modifier for tokens in this region. Leave blank to use the realm's travel_speed tag."
+        })
+      };
+    }
+
+    static events = {
+      [REGION_EVENTS.TOKEN_ENTER]: TravelSpeedBehaviorType.onTokenEnter,
+      [REGION_EVENTS.TOKEN_EXIT]: TravelSpeedBehaviorType.onTokenExit
+    };
+
+    static async onTokenEnter(this: any, event: any): Promise<void> {
+      if (!event.user.isSelf) return;
+      const speed = this.speed ?? getRealmTravelSpeed(this.region);
+      if (speed === null) return;
+
+      await event.data.token.update({
+        [`flags.${MODULE_ID}.travelSpeed.${this.region.id}`]: speed
+      });
+    }
+
+    static async onTokenExit(this: any, event: any): Promise<void> {
+      if (!event.user.isSelf) return;
+      await event.data.token.update({
+        [`flags.${MODULE_ID}.travelSpeed.-=${this.region.id}`]: null
+      });
+    }
+  }
+
+  /**
+   * Post the realm's description to chat when a token enters
+   */
+  class RealmDescriptionBehaviorType extends RegionBehaviorType {
+    static defineSchema() {
+      return {
+        description: new fields.HTMLField({
+          label: 'Description',
+          hint: "Posted to chat when a token enters. Leave blank to use the realm's name and tags."
+        }),
+        gmOnly: new fields.BooleanField({
+          initial: false,
+          label: 'Whisper to GM',
+          hint: 'Only show the description to Game Masters.'
+        })
+      };
+    }
+
+    static events = {
+      [REGION_EVENTS.TOKEN_ENTER]: RealmDescriptionBehaviorType.onTokenEnter
+    };
+
+    static async onTokenEnter(this: any, event: any): Promise<void> {
+      if (!event.user.isSelf) return;
+      const token = event.data.token;
+
+      await ChatMessage.create({
+        content: renderRealmDescription(this.region, this.description),
+        speaker: ChatMessage.getSpeaker({ token }),
+        whisper: this.gmOnly
+          ? ChatMessage.getWhisperRecipients('GM').map((user: any) => user.id)
+          : []
+      });
+    }
+  }
+
+  /**
+   * Execute a macro when a token with the given tags enters the realm
+   */
+  class RealmMacroBehaviorType extends RegionBehaviorType {
+    static defineSchema() {
+      return {
+        uuid: new fields.DocumentUUIDField({
+          type: 'Macro',
+          label: 'Macro',
+          hint: 'The macro to execute.'
+        }),
+        tokenTags: new fields.StringField({
+          initial: '',
+          label: 'Token Tags',
+          hint: 'Comma-separated tags the token (or its actor) must all have. Leave blank for every token.'
+        })
+      };
+    }
+
+    static events = {
+      [REGION_EVENTS.TOKEN_ENTER]: RealmMacroBehaviorType.onTokenEnter
+    };
+
+    static async onTokenEnter(this: any, event: any): Promise<void> {
+      if (!event.user.isSelf || !this.uuid) return;
+      const token = event.data.token;
+      if (!tokenHasTags(token, parseTagList(this.tokenTags))) return;
+
+      const macro = await fromUuid(this.uuid);
+      if (!macro) {
+        console.warn(`Realms & Reaches | Macro ${this.uuid} not found for ${this.parent?.name}`);
+        return;
+      }
+
+      await macro.execute({
+        speaker: ChatMessage.getSpeaker({ token }),
+        actor: token.actor,
+        token: token.object,
+        region: this.region,
+        behavior: this.parent,
+        event
+      });
+    }
+  }
+
+  return {
+    [REALM_BEHAVIOR_TYPES.travelSpeed]: TravelSpeedBehaviorType,
+    [REALM_BEHAVIOR_TYPES.description]: RealmDescriptionBehaviorType,
+    [REALM_BEHAVIOR_TYPES.macro]: RealmMacroBehaviorType
+  };
+}
+
+/**
+ * Register the realm behavior data models and icons
+ */
+export function registerRealmBehaviors(): void {
+  Object.assign(CONFIG.RegionBehavior.dataModels, createRealmBehaviorTypes());
+  Object.assign(CONFIG.RegionBehavior.typeIcons, {
+    [REALM_BEHAVIOR_TYPES.travelSpeed]: 'fa-solid fa-person-hiking',
+    [REALM_BEHAVIOR_TYPES.description]: 'fa-solid fa-scroll',
+    [REALM_BEHAVIOR_TYPES.macro]: 'fa-solid fa-code'
+  });
+}
@@ -4,6 +4,8 @@
  * Manages realm geometry, tags, and metadata with efficient tag-based queries.
  */
 
+import { TagSystem } from './tag-system';
+
 export interface RealmGeometry {
   type: 'polygon' | 'rectangle' | 'circle';
   points?: number[]; // [x1, y1, x2, y2, ...] for polygons
@@ -125,9 +127,8 @@ export class RealmData {
 
     // For single-value namespaces, remove existing tag with same key
     const [key] = tag.split(':', 2);
-    const singleValueKeys = ['biome', 'climate', 'travel_speed', 'elevation'];
 
-    if (singleValueKeys.includes(key)) {
+    if (TagSystem.getInstance().isSingleValue(key)) {
       this.removeTagByKey(key);
     }
 
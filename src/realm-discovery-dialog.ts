@@ -0,0 +1,175 @@
+/**
+ * Realm Discovery Dialog - Set what the party and each player know
+ *
+ * One row per realm, with a discovery state for the whole party and one for
+ * each player. A player's effective state is the further of the two.
+ */
+
+import { RealmManager } from './realm-manager';
+import {
+  DISCOVERY_STATES,
+  DiscoveryChange,
+  DiscoveryRecord,
+  DiscoveryState,
+  PARTY_DISCOVERY,
+  RealmDiscovery,
+  getDiscoveryRecord,
+  getRealmDiscovery
+} from './realm-discovery';
+
+/**
+ * A realm row of the discovery form
+ */
+export interface DiscoveryRealmRow {
+  id: string;
+  name: string;
+  discovery: Record<string, DiscoveryState>;
+  discoveredBy?: DiscoveryRecord | null;
+}
+
+/**
+ * A player column of the discovery form
+ */
+export interface DiscoveryPlayer {
+  id: string;
+  name: string;
+}
+
+const STATE_LABELS: Record<DiscoveryState, string> = {
+  undiscovered: 'Undiscovered',
+  rumoured: 'Rumoured',
+  explored: 'Explored'
+};
+
+function renderStateSelect(name: string, current: DiscoveryState): string {
+  const options = DISCOVERY_STATES.map(
+    state =>
+      `<option value="${state}" ${state === current ? 'selected' : ''}>${STATE_LABELS[state]}</option>`
+  ).join('');
+  return `<select name="${name}">${options}</select>`;
+}
+
+/**
+ * Render the discovery form
+ */
+export function renderDiscoveryForm(
+  realms: DiscoveryRealmRow[],
+  players: DiscoveryPlayer[]
+): string {
+  if (realms.length === 0) {
+    return '<p>This scene has no realms.</p>';
+  }
+
+  const targets = [PARTY_DISCOVERY, ...players.map(player => player.id)];
+  const rows = realms
+    .map(realm => {
+      const cells = targets
+        .map(
+          target =>
+            `<td>${renderStateSelect(`discovery.${realm.id}.${target}`, realm.discovery[target] || 'undiscovered')}</td>`
+        )
+        .join('');
+      const found = realm.discoveredBy
+        ? `<div class="notes">Found by ${realm.discoveredBy.tokenName || 'a token'}, ${new Date(realm.discoveredBy.timestamp).toLocaleString()}</div>`
+        : '';
+      return `<tr><th>${realm.name}${found}</th>${cells}</tr>`;
+    })
+    .join('');
+
+  return `
+    <form class="realm-discovery" autocomplete="off">
+      <p class="notes">
+        Players see a realm once the party or they themselves have rumoured or explored it.
+        Rumoured realms show only their name; explored realms also show player-visible tags.
+      </p>
+      <table class="realm-discovery-table">
+        <thead>
+          <tr>
+            <th>Realm</th>
+            <th>Party</th>
+            ${players.map(player => `<th>${player.name}</th>`).join('')}
+          </tr>
+        </thead>
+        <tbody>${rows}</tbody>
+      </table>
+    </form>
+  `;
+}
+
+/**
+ * Read the form back into the discovery states that changed
+ */
+export function parseDiscoveryForm(
+  form: HTMLFormElement,
+  realms: DiscoveryRealmRow[],
+  players: DiscoveryPlayer[]
+): DiscoveryChange[] {
+  const targets = [PARTY_DISCOVERY, ...players.map(player => player.id)];
+  const changes: DiscoveryChange[] = [];
+
+  for (const realm of realms) {
+    for (const target of targets) {
+      const select = form.elements.namedItem(
+        `discovery.${realm.id}.${target}`
+      ) as HTMLSelectElement | null;
+      const state = select?.value as DiscoveryState | undefined;
+      if (!state || state === (realm.discovery[target] || 'undiscovered')) continue;
+      changes.push({ realmId: realm.id, target, state });
+    }
+  }
+
+  return changes;
+}
+
+/**
+ * Edit the discovery states of the current scene's realms
+ */
+export function openDiscoveryDialog(): void {
+  const realms: DiscoveryRealmRow[] = RealmManager.getInstance()
+    .getAllRealms()
+    .map(realm => ({
+      id: realm.id,
+      name: realm.name,
+      discovery: getRealmDiscovery(realm._region),
+      discoveredBy: getDiscoveryRecord(realm._region)
+    }));
+  const players: DiscoveryPlayer[] = (game.users?.filter((user: any) => !user.isGM) || []).map(
+    (user: any) => ({ id: user.id, name: user.name })
+  );
+
+  const dialog = new Dialog(
+    {
+      title: 'Realm Discovery',
+      content: renderDiscoveryForm(realms, players),
+      buttons: {
+        save: {
+          icon: '<i class="fas fa-save"></i>',
+          label: 'Save',
+          callback: async (html: JQuery) => {
+            const form = html.find('form')[0] as HTMLFormElement | undefined;
+            if (!form) return;
+            try {
+              const updated = await RealmDiscovery.getInstance().applyChanges(
+                parseDiscoveryForm(form, realms, players)
+              );
+              ui.notifications?.info(`Updated discovery for ${updated} realms`);
+            } catch (error) {
+              console.error('Realms & Reaches | Discovery update failed:', error);
+              ui.notifications?.error(
+                'Failed to update discovery: ' +
+                  (error instanceof Error ? error.message : String(error))
+              );
+            }
+          }
+        },
+        cancel: {
+          label: 'Cancel'
+        }
+      },
+      default: 'save'
+    },
+    { width: 640, resizable: true }
+  );
+
+  dialog.render(true);
+}
@@ -0,0 +1,296 @@
+/**
+ * Realm Discovery - What each player knows about each realm
+ *
+ * Discovery state is stored in a realm's `discovery` flag, keyed by user ID or
+ * by 'party' for every player. A player's state is the further of their own
+ * entry and the party's. GMs see every realm; players see rumoured realms by
+ * name only and explored realms with their player-visible tags.
+ *
+ * With automatic discovery on, the active GM's client marks realms explored
+ * for the party as player-owned tokens enter them or come within the
+ * discovery radius, and records which token found each realm and when. Every
+ * client announces the discovery when it receives that update.
+ */
+
+import { RealmDataCompat, RealmManager } from './realm-manager';
+import { TagSystem } from './tag-system';
+import { TokenTracker } from './token-tracker';
+import { distanceToShapes } from './path-geometry';
+
+export type DiscoveryState = 'undiscovered' | 'rumoured' | 'explored';
+
+// Ordered from least to most known
+export const DISCOVERY_STATES: DiscoveryState[] = ['undiscovered', 'rumoured', 'explored'];
+
+// Discovery key shared by every player
+export const PARTY_DISCOVERY = 'party';
+
+export const REALM_DISCOVERED_HOOK = 'realmsAndReaches.realmDiscovered';
+
+/**
+ * The user whose view of the realms is being checked
+ */
+export type DiscoveryViewer = { id?: string | null; isGM?: boolean } | null | undefined;
+
+/**
+ * One discovery state to store, for a user ID or the party
+ */
+export interface DiscoveryChange {
+  realmId: string;
+  target: string;
+  state: DiscoveryState;
+}
+
+/**
+ * Which token first explored a realm, and when
+ */
+export interface DiscoveryRecord {
+  tokenId: string;
+  tokenName: string;
+  actorId: string | null;
+  timestamp: number; // Real time, in milliseconds since the epoch
+  worldTime: number; // Game time, in seconds
+}
+
+/**
+ * Get a realm region's stored discovery states, keyed by user ID or 'party'
+ */
+export function getRealmDiscovery(region: any): Record<string, DiscoveryState> {
+  return region?.flags?.['realms-and-reaches']?.discovery || {};
+}
+
+/**
+ * Get the token that automatically discovered a realm region, if any
+ */
+export function getDiscoveryRecord(region: any): DiscoveryRecord | null {
+  return region?.flags?.['realms-and-reaches']?.discoveredBy || null;
+}
+
+/**
+ * Get how much a user knows about a realm region
+ */
+export function getDiscoveryState(region: any, userId = game.user?.id): DiscoveryState {
+  const discovery = getRealmDiscovery(region);
+  const rank = (state?: DiscoveryState) => Math.max(0, DISCOVERY_STATES.indexOf(state!));
+  const party = rank(discovery[PARTY_DISCOVERY]);
+  const own = userId ? rank(discovery[userId]) : 0;
+  return DISCOVERY_STATES[Math.max(party, own)];
+}
+
+/**
+ * Whether a user may see a realm region at all
+ */
+export function canSeeRealm(region: any, user: DiscoveryViewer = game.user): boolean {
+  return user?.isGM === true || getDiscoveryState(region, user?.id) !== 'undiscovered';
+}
+
+/**
+ * Get what a user may see of some realms
+ *
+ * GMs get the realms unchanged. Players lose undiscovered realms, and the
+ * rest only report the tags their discovery state allows.
+ */
+export function getVisibleRealms(
+  realms: RealmDataCompat[],
+  user: DiscoveryViewer = game.user
+): RealmDataCompat[] {
+  if (user?.isGM) return realms;
+
+  const tagSystem = TagSystem.getInstance();
+  return realms.flatMap(realm => {
+    const state = getDiscoveryState(realm._region, user?.id);
+    if (state === 'undiscovered') return [];
+    const tags =
+      state === 'explored' ? realm.getTags().filter(tag => tagSystem.isPlayerVisible(tag)) : [];
+    return [new RealmDataCompat(realm._region, tags)];
+  });
+}
+
+/**
+ * Whether this client stores automatic discoveries, so only one client does
+ */
+function isDiscoveryClient(): boolean {
+  const activeGM = (game.users as any)?.activeGM;
+  return activeGM ? activeGM.isSelf === true : game.user?.isGM === true;
+}
+
+/**
+ * RealmDiscovery stores discovery states on realm regions
+ */
+export class RealmDiscovery {
+  private static instance: RealmDiscovery;
+
+  // Realms being explored, keyed by scene and realm ID, so overlapping moves update them once
+  private exploring = new Set<string>();
+
+  static getInstance(): RealmDiscovery {
+    if (!RealmDiscovery.instance) {
+      RealmDiscovery.instance = new RealmDiscovery();
+    }
+    return RealmDiscovery.instance;
+  }
+
+  /**
+   * Set one realm's discovery state for a user or the whole party
+   */
+  async setDiscoveryState(
+    realmId: string,
+    state: DiscoveryState,
+    target = PARTY_DISCOVERY,
+    sceneId?: string
+  ): Promise<void> {
+    await this.applyChanges([{ realmId, target, state }], sceneId);
+  }
+
+  /**
+   * Store several discovery states, one update per realm
+   * @returns The number of realms updated
+   */
+  async applyChanges(changes: DiscoveryChange[], sceneId?: string): Promise<number> {
+    const manager = RealmManager.getInstance(sceneId);
+    const updates = new Map<string, { realm: RealmDataCompat; data: Record<string, any> }>();
+
+    for (const { realmId, target, state } of changes) {
+      if (!DISCOVERY_STATES.includes(state)) {
+        throw new Error(`Invalid discovery state: "${state}"`);
+      }
+      const realm = manager.getRealm(realmId);
+      if (!realm) throw new Error(`Realm ${realmId} not found`);
+
+      const update = updates.get(realmId) || { realm, data: {} };
+      if (state === 'undiscovered') {
+        update.data[`flags.realms-and-reaches.discovery.-=${target}`] = null;
+        if (target === PARTY_DISCOVERY) {
+          update.data['flags.realms-and-reaches.-=discoveredBy'] = null;
+        }
+      } else {
+        update.data[`flags.realms-and-reaches.discovery.${target}`] = state;
+      }
+      updates.set(realmId, update);
+    }
+
+    for (const { realm, data } of updates.values()) {
+      await realm._region.update(data);
+    }
+    return updates.size;
+  }
+
+  /**
+   * Whether a token belongs to the party
+   */
+  static isPartyToken(token: any): boolean {
+    return token?.actor?.hasPlayerOwner === true;
+  }
+
+  /**
+   * Get the realms within a distance of a token's center
+   * @param radius - Distance in scene units; 0 finds the realms the token is inside
+   */
+  getRealmsNearToken(token: any, radius: number): RealmDataCompat[] {
+    const scene = token.parent;
+    if (!scene?.id) return [];
+
+    const gridSize = Number(scene.grid?.size);
+    const gridDistance = Number(scene.grid?.distance);
+    const pixels = radius * (gridSize > 0 && gridDistance > 0 ? gridSize / gridDistance : 1);
+    const center = TokenTracker.getTokenCenter(token);
+
+    return RealmManager.getInstance(scene.id)
+      .getRealmsInBounds({
+        x: center.x - pixels,
+        y: center.y - pixels,
+        width: pixels * 2,
+        height: pixels * 2
+      })
+      .filter(realm => distanceToShapes(center.x, center.y, realm._region.shapes || []) <= pixels);
+  }
+
+  /**
+   * Explore the realms within the discovery radius of a token that just moved
+   */
+  async discoverNearToken(token: any): Promise<RealmDataCompat[]> {
+    const radius = Number(game.settings.get('realms-and-reaches', 'discoveryRadius')) || 0;
+    if (radius <= 0) return [];
+    return this.exploreFromToken(token, this.getRealmsNearToken(token, radius));
+  }
+
+  /**
+   * Mark realms explored for the party because a party token found them
+   *
+   * Does nothing unless automatic discovery is on and this is the active GM's
+   * client. Realms the party has already explored are skipped.
+   * @returns The newly explored realms
+   */
+  async exploreFromToken(token: any, realms: RealmDataCompat[]): Promise<RealmDataCompat[]> {
+    if (
+      game.settings.get('realms-and-reaches', 'autoDiscovery') !== true ||
+      !RealmDiscovery.isPartyToken(token) ||
+      !isDiscoveryClient()
+    ) {
+      return [];
+    }
+
+    const discovered: RealmDataCompat[] = [];
+    for (const realm of realms) {
+      const key = `${token.parent?.id}.${realm.id}`;
+      if (getRealmDiscovery(realm._region)[PARTY_DISCOVERY] === 'explored') continue;
+      if (this.exploring.has(key)) continue;
+
+      const record: DiscoveryRecord = {
+        tokenId: token.id,
+        tokenName: token.name || '',
+        actorId: token.actor?.id || null,
+        timestamp: Date.now(),
+        worldTime: game.time?.worldTime || 0
+      };
+
+      this.exploring.add(key);
+      try {
+        await realm._region.update({
+          [`flags.realms-and-reaches.discovery.${PARTY_DISCOVERY}`]: 'explored',
+          'flags.realms-and-reaches.discoveredBy': record
+        });
+      } finally {
+        this.exploring.delete(key);
+      }
+
+      discovered.push(realm);
+    }
+    return discovered;
+  }
+
+  /**
+   * Announce a discovery when a realm region update records one
+   *
+   * Runs on every client, so players get the hook with their view of the realm.
+   * @param changes - The changes passed to the updateRegion hook
+   */
+  handleRegionUpdate(region: any, changes: any): void {
+    const record: DiscoveryRecord | undefined =
+      changes?.flags?.['realms-and-reaches']?.discoveredBy;
+    if (!record || !region.parent) return;
+
+    const realm = RealmManager.getInstance(region.parent.id).getRealm(region.id);
+    const [visible] = realm ? getVisibleRealms([realm]) : [];
+    if (!visible) return;
+
+    const token = region.parent.tokens?.get(record.tokenId) ?? null;
+    this.announce(visible, record, token, region.parent.id);
+  }
+
+  /**
+   * Fire the hook and RealmManager event for a discovery
+   */
+  private announce(
+    realm: RealmDataCompat,
+    record: DiscoveryRecord,
+    token: any,
+    sceneId: string
+  ): void {
+    Hooks.callAll(REALM_DISCOVERED_HOOK, realm, record, token);
+
+    RealmManager.getInstance(sceneId).dispatchEvent(
+      new CustomEvent('realmDiscovered', { detail: { realm, record, token, sceneId } })
+    );
+  }
+}
@@ -0,0 +1,171 @@
+/**
+ * RealmLabels - Draw realm names on the canvas
+ *
+ * Each realm's name is drawn at its pole of inaccessibility, so labels of
+ * concave realms stay inside them. Labels keep a readable size on screen as
+ * the canvas zooms, take their colour and font style from the realm's biome,
+ * and are shown to the GM, everyone or no one per each user's 'showLabels'
+ * client setting.
+ * Players only see labels for realms they have discovered.
+ */
+
+import { RealmDataCompat } from './realm-manager';
+import { poleOfInaccessibility } from './path-geometry';
+import { canSeeRealm } from './realm-discovery';
+
+export type LabelVisibility = 'gm' | 'everyone' | 'hidden';
+
+/**
+ * Text style for a realm label
+ */
+export interface RealmLabelStyle {
+  fill: string;
+  fontSize: number;
+  fontStyle: 'normal' | 'italic';
+  fontWeight: 'normal' | 'bold';
+  letterSpacing: number;
+}
+
+export const DEFAULT_LABEL_STYLE: RealmLabelStyle = {
+  fill: '#ffffff',
+  fontSize: 24,
+  fontStyle: 'normal',
+  fontWeight: 'bold',
+  letterSpacing: 1
+};
+
+/**
+ * Per-biome changes to the default label style
+ */
+export const BIOME_LABEL_STYLES: Record<string, Partial<RealmLabelStyle>> = {
+  forest: { fill: '#b8e6a0', fontStyle: 'italic' },
+  jungle: { fill: '#8fd36b', fontStyle: 'italic' },
+  grassland: { fill: '#e8f5a8' },
+  desert: { fill: '#f5d98b', letterSpacing: 4 },
+  mountain: { fill: '#e0e0e0', fontSize: 28, letterSpacing: 6 },
+  hills: { fill: '#d9c9a3', letterSpacing: 3 },
+  swamp: { fill: '#b5c48a', fontStyle: 'italic' },
+  tundra: { fill: '#d6ecf5' },
+  arctic: { fill: '#e6f7ff', letterSpacing: 3 },
+  coast: { fill: '#a8dcf0', fontStyle: 'italic' },
+  ocean: { fill: '#8ec9f0', fontStyle: 'italic', letterSpacing: 8 },
+  lake: { fill: '#a8dcf0', fontStyle: 'italic' },
+  urban: { fill: '#ffffff', fontWeight: 'normal', letterSpacing: 2 }
+};
+
+// Label scale relative to the canvas, so text neither vanishes nor swamps the map
+const MIN_LABEL_SCALE = 0.5;
+const MAX_LABEL_SCALE = 4;
+
+/**
+ * Get the label style for a realm's biome
+ */
+export function getLabelStyle(biome: string | null): RealmLabelStyle {
+  return { ...DEFAULT_LABEL_STYLE, ...(biome ? BIOME_LABEL_STYLES[biome] : undefined) };
+}
+
+/**
+ * Get the label scale that keeps text the same size on screen at a zoom level
+ */
+export function getLabelScale(zoom: number): number {
+  return Math.min(MAX_LABEL_SCALE, Math.max(MIN_LABEL_SCALE, 1 / (zoom || 1)));
+}
+
+/**
+ * Whether the current user should see realm labels
+ */
+export function canSeeLabels(): boolean {
+  const visibility = game.settings.get('realms-and-reaches', 'showLabels') as LabelVisibility;
+  if (visibility === 'everyone') return true;
+  if (visibility === 'gm') return game.user?.isGM === true;
+  return false;
+}
+
+/**
+ * RealmLabels keeps one text object per realm in the current scene
+ */
+export class RealmLabels {
+  private static instance: RealmLabels;
+
+  private container: PIXI.Container | null = null;
+  private labels = new Map<string, PIXI.Text>(); // regionId -> label
+
+  static getInstance(): RealmLabels {
+    if (!RealmLabels.instance) {
+      RealmLabels.instance = new RealmLabels();
+    }
+    return RealmLabels.instance;
+  }
+
+  /**
+   * Draw labels for every realm in the viewed scene
+   */
+  draw(): void {
+    this.tearDown();
+    if (!canvas?.scene || !canvas.interface || !canSeeLabels()) return;
+
+    this.container = new PIXI.Container();
+    this.container.eventMode = 'none';
+    canvas.interface.addChild(this.container);
+
+    for (const region of canvas.scene.regions) {
+      this.refresh(region);
+    }
+    this.updateScale(canvas.stage?.scale?.x ?? 1);
+  }
+
+  /**
+   * Redraw one realm's label after it is created, renamed or reshaped
+   */
+  refresh(region: any): void {
+    if (!this.container || region.parent?.id !== canvas?.scene?.id) return;
+    this.remove(region.id);
+    if (region.flags?.['realms-and-reaches']?.isRealm !== true || !region.name) return;
+    if (!canSeeRealm(region)) return;
+
+    const pole = poleOfInaccessibility(region.shapes || [], 2);
+    if (!pole) return;
+
+    const style = getLabelStyle(new RealmDataCompat(region).getTag('biome'));
+    const label = new PIXI.Text(region.name, {
+      ...style,
+      fontFamily: 'Signika',
+      stroke: '#111111',
+      strokeThickness: 4,
+      align: 'center'
+    });
+    label.anchor.set(0.5, 0.5);
+    label.position.set(pole.x, pole.y);
+    label.scale.set(getLabelScale(canvas?.stage?.scale?.x ?? 1));
+
+    this.labels.set(region.id, label);
+    this.container.addChild(label);
+  }
+
+  /**
+   * Remove a realm's label
+   */
+  remove(regionId: string): void {
+    const label = this.labels.get(regionId);
+    if (!label) return;
+    label.destroy();
+    this.labels.delete(regionId);
+  }
+
+  /**
+   * Rescale labels for a new zoom level
+   */
+  updateScale(zoom: number): void {
+    const scale = getLabelScale(zoom);
+    this.labels.forEach(label => label.scale.set(scale));
+  }
+
+  /**
+   * Remove all labels
+   */
+  tearDown(): void {
+    this.labels.clear();
+    this.container?.destroy({ children: true });
+    this.container = null;
+  }
+}
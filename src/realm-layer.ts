@@ -4,10 +4,37 @@
  * Extends Foundry's PlaceablesLayer to provide spatial editing tools for realms.
  * Inherits all the drawing functionality from RegionLayer but stores data in scene flags.
  * Integrates with RealmManager for data persistence and spatial queries.
+ *
+ * Not registered with the canvas yet: module.ts uses the built-in Region layer,
+ * so shape editing, neighbour snapping and shared borders here are unreachable.
  */
 
-import { RealmManager } from './realm-manager';
+import { RealmDataCompat, RealmManager } from './realm-manager';
 import { RealmData } from './realm-data';
+import {
+  DEFAULT_REALM_COLOR,
+  RealmTheme,
+  ThematicOverlay,
+  buildTheme,
+  drawRealmShapes,
+  getThemeColor
+} from './thematic-overlay';
+import {
+  RealmVertex,
+  ShapeHandle,
+  deleteVertex,
+  findEdge,
+  findHandle,
+  findSharedVertices,
+  getRotateHandle,
+  getShapeVertices,
+  insertVertex,
+  moveVertex,
+  rotateRectangle,
+  snapToRings,
+  translateShape
+} from './shape-editor';
+import { shapeToPolygon } from './path-geometry';
 
 // RegionLayer access - will be available at runtime
 declare const _RegionLayer: any;
@@ -23,6 +50,23 @@ enum DrawingState {
   EDITING = 'editing'
 }
 
+// Screen radius of vertex handles, and how close a click must be to pick one
+const HANDLE_RADIUS = 6;
+
+// Rotation step while Shift is held
+const ROTATE_SNAP_DEGREES = 15;
+
+// Screen distance within which points snap to neighbouring realm outlines
+const REALM_SNAP_DISTANCE = 10;
+
+// A shape edit in progress, with the neighbouring realms that share a dragged vertex
+interface EditDrag {
+  handle: ShapeHandle;
+  origin: PIXI.Point;
+  shapes: any[];
+  linked: { realm: RealmDataCompat; shapes: any[]; vertices: RealmVertex[] }[];
+}
+
 // Drawing tools available
 enum DrawingTool {
   SELECT = 'select',
@@ -51,7 +95,14 @@ export class RealmLayer extends (globalThis.foundry?.canvas?.layers?.RegionLayer
   private drawingState: DrawingState = DrawingState.IDLE;
   private activeTool: DrawingTool = DrawingTool.SELECT;
   private currentPolygon: number[] = []; // [x1, y1, x2, y2, ...]
-  private selectedRealm: RealmData | null = null;
+  private selectedRealm: RealmDataCompat | null = null;
+
+  // Shape editing: working copy of the selected realm's shapes, the drag in
+  // progress, the vertex Delete removes, and previews of linked neighbours
+  private editShapes: any[] = [];
+  private editDrag: EditDrag | null = null;
+  private activeVertex: { shape: number; index: number } | null = null;
+  private linkedShapes = new Map<string, any[]>();
 
   // PIXI graphics objects for realm rendering
   private realmGraphics = new Map<string, PIXI.Graphics>(); // realmId -> graphics
@@ -162,6 +213,9 @@ export class RealmLayer extends (globalThis.foundry?.canvas?.layers?.RegionLayer
   cancelDrawing(): void {
     this.drawingState = DrawingState.IDLE;
     this.currentPolygon = [];
+    this.editShapes = [];
+    this.editDrag = null;
+    this.activeVertex = null;
     this.clearPreview();
     this.updateCursor();
   }
@@ -199,11 +253,158 @@ export class RealmLayer extends (globalThis.foundry?.canvas?.layers?.RegionLayer
     }
   }
 
+  /**
+   * Start editing the selected realm's shapes
+   */
+  startEditing(): void {
+    const region = this.selectedRealm?._region;
+    if (!region) return;
+
+    this.drawingState = DrawingState.EDITING;
+    this.editShapes = (region.shapes || []).map((shape: any) => ({ ...shape }));
+    this.editDrag = null;
+    this.activeVertex = null;
+    this.updateCursor();
+    this.refresh();
+  }
+
+  /**
+   * Stop editing, keeping the realm selected
+   */
+  stopEditing(): void {
+    if (this.drawingState !== DrawingState.EDITING) return;
+
+    this.drawingState = this.selectedRealm ? DrawingState.SELECTING : DrawingState.IDLE;
+    this.editShapes = [];
+    this.editDrag = null;
+    this.activeVertex = null;
+    this.updateCursor();
+    this.refresh();
+  }
+
+  /**
+   * Save edited shapes to the selected realm, and to neighbours sharing a moved vertex
+   */
+  private async commitEdit(
+    shapes: any[],
+    linked: { realm: RealmDataCompat; shapes: any[] }[] = []
+  ): Promise<void> {
+    const region = this.selectedRealm?._region;
+    if (!region) return;
+
+    this.editShapes = shapes;
+    this.linkedShapes.clear();
+    this.refresh();
+
+    try {
+      await this.realmManager.updateRealm(region, { shapes });
+      for (const neighbour of linked) {
+        await this.realmManager.updateRealm(neighbour.realm._region, { shapes: neighbour.shapes });
+      }
+    } catch (error) {
+      console.error('Failed to update realm shape:', error);
+      ui.notifications?.error('Failed to update realm shape');
+    }
+  }
+
+  /**
+   * Work out the shapes for a drag that has reached a position
+   */
+  private applyDrag(drag: EditDrag, position: PIXI.Point, snapRotation: boolean): any[] {
+    const { handle, origin, shapes } = drag;
+    switch (handle.kind) {
+      case 'vertex':
+        return moveVertex(shapes, handle.shape, handle.index, position.x, position.y);
+      case 'rotate':
+        return rotateRectangle(
+          shapes,
+          handle.shape,
+          position.x,
+          position.y,
+          snapRotation ? ROTATE_SNAP_DEGREES : 0
+        );
+      case 'body':
+        return translateShape(shapes, handle.shape, position.x - origin.x, position.y - origin.y);
+    }
+  }
+
+  /**
+   * Move the neighbours' copies of a dragged shared vertex
+   */
+  private applyLinkedDrag(
+    drag: EditDrag,
+    position: PIXI.Point
+  ): { realm: RealmDataCompat; shapes: any[] }[] {
+    return drag.linked.map(({ realm, shapes, vertices }) => ({
+      realm,
+      shapes: vertices.reduce(
+        (moved, vertex) => moveVertex(moved, vertex.shape, vertex.index, position.x, position.y),
+        shapes
+      )
+    }));
+  }
+
+  /**
+   * Find the neighbouring realms that share a vertex of the edited shapes
+   */
+  private getLinkedVertices(shape: number, index: number): EditDrag['linked'] {
+    const points = this.editShapes[shape]?.points || [];
+    const x = points[index * 2];
+    const y = points[index * 2 + 1];
+
+    const neighbours = this.realmManager
+      .getRealmsInBounds({ x: x - 1, y: y - 1, width: 2, height: 2 })
+      .filter(realm => realm.id !== this.selectedRealm?.id);
+    const shared = findSharedVertices(
+      neighbours.map(realm => ({ id: realm.id, shapes: realm._region.shapes || [] })),
+      x,
+      y
+    );
+
+    return neighbours
+      .map(realm => ({
+        realm,
+        shapes: [...(realm._region.shapes || [])],
+        vertices: shared.filter(vertex => vertex.realmId === realm.id)
+      }))
+      .filter(neighbour => neighbour.vertices.length > 0);
+  }
+
+  /**
+   * Remove the active vertex
+   */
+  private deleteActiveVertex(): void {
+    if (!this.activeVertex) return;
+
+    try {
+      const shapes = deleteVertex(
+        this.editShapes,
+        this.activeVertex.shape,
+        this.activeVertex.index
+      );
+      this.activeVertex = null;
+      this.commitEdit(shapes);
+    } catch (error) {
+      ui.notifications?.warn(error instanceof Error ? error.message : String(error));
+    }
+  }
+
+  /**
+   * Get the pick distance for handles in canvas pixels at the current zoom
+   */
+  private getHandleTolerance(): number {
+    return HANDLE_RADIUS / (canvas?.stage?.scale?.x || 1);
+  }
+
   // Event Handlers
 
   /** @override */
   _onClickLeft(event: PIXI.InteractionEvent): boolean | void {
-    const position = this.getSnappedPoint(event.data.global);
+    // Picking handles while editing uses the exact pointer position
+    const position =
+      this.drawingState === DrawingState.EDITING
+        ? this.getCanvasPoint(event.data.global)
+        : this.getSnappedPoint(event.data.global);
 
     switch (this.drawingState) {
       case DrawingState.IDLE:
@@ -215,13 +416,29 @@ export class RealmLayer extends (globalThis.foundry?.canvas?.layers?.RegionLayer
       case DrawingState.SELECTING:
         this.handleSelectingClick(position, event);
         break;
+      case DrawingState.EDITING:
+        this.handleEditingClick(position, event);
+        break;
     }
 
     return true;
   }
 
   /** @override */
-  _onClickRight(_event: PIXI.InteractionEvent): boolean | void {
+  _onClickRight(event: PIXI.InteractionEvent): boolean | void {
+    // Right-click a vertex to delete it, or elsewhere to stop editing
+    if (this.drawingState === DrawingState.EDITING) {
+      const position = this.getCanvasPoint(event.data.global);
+      const handle = findHandle(this.editShapes, position.x, position.y, this.getHandleTolerance());
+      if (handle?.kind === 'vertex') {
+        this.activeVertex = { shape: handle.shape, index: handle.index };
+        this.deleteActiveVertex();
+      } else {
+        this.stopEditing();
+      }
+      return true;
+    }
+
     // Right-click to complete drawing or cancel
     if (this.drawingState === DrawingState.DRAWING) {
       if (this.currentPolygon.length >= 6) {
@@ -263,7 +480,11 @@ export class RealmLayer extends (globalThis.foundry?.canvas?.layers?.RegionLayer
   _onKeyDown(event: KeyboardEvent): boolean | void {
     switch (event.key) {
       case 'Escape':
-        this.cancelDrawing();
+        if (this.drawingState === DrawingState.EDITING) {
+          this.stopEditing();
+        } else {
+          this.cancelDrawing();
+        }
         return false;
       case 'Enter':
         if (this.drawingState === DrawingState.DRAWING) {
@@ -273,6 +494,10 @@ export class RealmLayer extends (globalThis.foundry?.canvas?.layers?.RegionLayer
         break;
       case 'Delete':
       case 'Backspace':
+        if (this.drawingState === DrawingState.EDITING) {
+          this.deleteActiveVertex();
+          return false;
+        }
         if (this.selectedRealm) {
           this.deleteSelectedRealm();
           return false;
@@ -332,20 +557,47 @@ export class RealmLayer extends (globalThis.foundry?.canvas?.layers?.RegionLayer
   }
 
   private handleSelectingClick(position: PIXI.Point, _event: PIXI.InteractionEvent): void {
-    // Check if clicking on the selected realm
+    // Clicking the selected realm again edits its shapes
     if (this.selectedRealm && this.selectedRealm.containsPoint(position.x, position.y)) {
-      // Start editing mode (future enhancement)
-      // this.startEditing();
-    } else {
-      // Select different realm or deselect
-      const realm = this.realmManager.getRealmAt(position.x, position.y);
-      this.selectedRealm = realm;
-      this.drawingState = realm ? DrawingState.SELECTING : DrawingState.IDLE;
+      this.startEditing();
+      return;
     }
 
+    // Select different realm or deselect
+    const realm = this.realmManager.getRealmAt(position.x, position.y);
+    this.selectedRealm = realm;
+    this.drawingState = realm ? DrawingState.SELECTING : DrawingState.IDLE;
     this.refresh();
   }
 
+  private handleEditingClick(position: PIXI.Point, event: PIXI.InteractionEvent): void {
+    const tolerance = this.getHandleTolerance();
+    const handle = findHandle(this.editShapes, position.x, position.y, tolerance);
+
+    // Pick a vertex for Delete
+    if (handle?.kind === 'vertex') {
+      this.activeVertex = { shape: handle.shape, index: handle.index };
+      this.refresh();
+      return;
+    }
+
+    // Insert a vertex on a polygon edge
+    const edge = findEdge(this.editShapes, position.x, position.y, tolerance);
+    if (edge) {
+      this.activeVertex = { shape: edge.shape, index: edge.index };
+      this.commitEdit(
+        insertVertex(this.editShapes, edge.shape, edge.index, edge.point.x, edge.point.y)
+      );
+      return;
+    }
+
+    // Clicking away from the shapes stops editing and selects whatever is there
+    if (!handle) {
+      this.stopEditing();
+      this.handleSelectingClick(position, event);
+    }
+  }
+
   // Geometry Creation
 
   private createGeometryFromTool(): any {
@@ -397,21 +649,23 @@ export class RealmLayer extends (globalThis.foundry?.canvas?.layers?.RegionLayer
     this.realmGraphics.clear();
 
     // Draw each realm
+    const theme = this.buildRealmTheme();
     const realms = this.realmManager.getAllRealms();
     for (const realm of realms) {
-      this.drawRealm(realm);
+      this.drawRealm(realm, theme);
     }
   }
 
   /**
    * Draw a single realm
+   * @param theme - Colour theme shared by the realms drawn together
    */
-  private drawRealm(realm: RealmData): void {
+  private drawRealm(realm: RealmData, theme = this.buildRealmTheme()): void {
     const graphics = new PIXI.Graphics();
 
     // Determine colors based on selection state
     const isSelected = this.selectedRealm?.id === realm.id;
-    const fillColor = this.getRealmColor(realm);
+    const fillColor = getThemeColor(theme, realm.getTag(theme.namespace)) ?? DEFAULT_REALM_COLOR;
     const fillAlpha = isSelected ? 0.4 : 0.2;
     const strokeColor = isSelected ? 0xffd700 : 0x4a90e2; // Gold if selected, blue otherwise
     const strokeWidth = isSelected ? 3 : 2;
@@ -420,15 +674,47 @@ export class RealmLayer extends (globalThis.foundry?.canvas?.layers?.RegionLayer
     graphics.lineStyle(strokeWidth, strokeColor, 1);
     graphics.beginFill(fillColor, fillAlpha);
 
-    this.drawGeometry(graphics, realm.geometry);
+    const editing = isSelected && this.drawingState === DrawingState.EDITING;
+    const linked = this.linkedShapes.get(realm.id);
+    if (editing || linked) {
+      drawRealmShapes(graphics, editing ? this.editShapes : linked!);
+    } else {
+      this.drawGeometry(graphics, realm.geometry);
+    }
 
     graphics.endFill();
+    if (editing) this.drawEditHandles(graphics);
 
     // Store and add to layer
     this.realmGraphics.set(realm.id, graphics);
     this.addChild(graphics);
   }
 
+  /**
+   * Draw vertex and rotation handles over the shapes being edited
+   */
+  private drawEditHandles(graphics: PIXI.Graphics): void {
+    const radius = this.getHandleTolerance();
+
+    this.editShapes.forEach((shape, shapeIndex) => {
+      getShapeVertices(shape).forEach((vertex, index) => {
+        const active = this.activeVertex?.shape === shapeIndex && this.activeVertex.index === index;
+        graphics.lineStyle(1, 0x000000, 1);
+        graphics.beginFill(active ? 0xff4500 : 0xffffff, 1);
+        graphics.drawCircle(vertex.x, vertex.y, radius);
+        graphics.endFill();
+      });
+
+      if (shape.type === 'rectangle') {
+        const handle = getRotateHandle(shape);
+        graphics.lineStyle(1, 0x000000, 1);
+        graphics.beginFill(0xffd700, 1);
+        graphics.drawCircle(handle.x, handle.y, radius);
+        graphics.endFill();
+      }
+    });
+  }
+
   /**
    * Draw geometry on a graphics object
    */
@@ -456,27 +742,16 @@ export class RealmLayer extends (globalThis.foundry?.canvas?.layers?.RegionLayer
   }
 
   /**
-   * Get color for a realm based on its biome
+   * Build the realm colours from the thematic overlay's namespace, or biome,
+   * with the values on this scene
    */
-  private getRealmColor(realm: RealmData): number {
-    const biome = realm.getTag('biome');
-
-    switch (biome) {
-      case 'forest':
-        return 0x228b22; // Forest green
-      case 'desert':
-        return 0xdaa520; // Goldenrod
-      case 'mountain':
-        return 0x696969; // Dim gray
-      case 'swamp':
-        return 0x556b2f; // Dark olive green
-      case 'grassland':
-        return 0x9acd32; // Yellow green
-      case 'arctic':
-        return 0x87ceeb; // Sky blue
-      default:
-        return 0x4a90e2; // Default blue
-    }
+  private buildRealmTheme(): RealmTheme {
+    const prefix = ThematicOverlay.getInstance().getNamespace() || 'biome';
+    const values = this.realmManager
+      .getAllRealms()
+      .map(realm => realm.getTag(prefix))
+      .filter((value): value is string => !!value);
+    return buildTheme(prefix, [...new Set(values)]);
   }
 
   /**
@@ -492,7 +767,10 @@ export class RealmLayer extends (globalThis.foundry?.canvas?.layers?.RegionLayer
    * Get snapped position for drawing
    */
   private getSnappedPoint(global: PIXI.Point): PIXI.Point {
-    const local = this.toLocal(global);
+    const local = this.getCanvasPoint(global);
+
+    const outline = this.snapToNeighbours(local);
+    if (outline) return new PIXI.Point(outline.x, outline.y);
 
     if (canvas?.grid?.type && this.options.snapToGrid) {
       const snapped = canvas.grid.getSnappedPosition(local.x, local.y);
@@ -502,6 +780,46 @@ export class RealmLayer extends (globalThis.foundry?.canvas?.layers?.RegionLayer
     return local;
   }
 
+  /**
+   * Get the canvas position of a pointer, without snapping
+   */
+  private getCanvasPoint(global: PIXI.Point): PIXI.Point {
+    return this.toLocal(global);
+  }
+
+  /**
+   * Snap a point to the outlines of nearby realms while drawing or moving a vertex
+   *
+   * The realm being edited, and neighbours whose shared vertex is being
+   * dragged along with it, are not snap targets.
+   */
+  private snapToNeighbours(point: PIXI.Point): { x: number; y: number } | null {
+    const placing =
+      this.drawingState === DrawingState.DRAWING ||
+      (this.drawingState === DrawingState.EDITING && this.editDrag?.handle.kind === 'vertex');
+    if (!placing || game.settings.get('realms-and-reaches', 'snapToRealms') !== true) {
+      return null;
+    }
+
+    const tolerance = REALM_SNAP_DISTANCE / (canvas?.stage?.scale?.x || 1);
+    const excluded = new Set(this.editDrag?.linked.map(neighbour => neighbour.realm.id));
+    if (this.drawingState === DrawingState.EDITING && this.selectedRealm) {
+      excluded.add(this.selectedRealm.id);
+    }
+
+    const rings = this.realmManager
+      .getRealmsInBounds({
+        x: point.x - tolerance,
+        y: point.y - tolerance,
+        width: tolerance * 2,
+        height: tolerance * 2
+      })
+      .filter(realm => !excluded.has(realm.id))
+      .flatMap(realm => (realm._region.shapes || []).map((shape: any) => shapeToPolygon(shape)));
+
+    return snapToRings(point.x, point.y, rings, tolerance);
+  }
+
   /**
    * Update cursor based on current state
    */
@@ -509,9 +827,11 @@ export class RealmLayer extends (globalThis.foundry?.canvas?.layers?.RegionLayer
     const cursor =
       this.drawingState === DrawingState.DRAWING
         ? 'crosshair'
-        : this.activeTool === DrawingTool.SELECT
-          ? 'pointer'
-          : 'crosshair';
+        : this.drawingState === DrawingState.EDITING
+          ? 'move'
+          : this.activeTool === DrawingTool.SELECT
+            ? 'pointer'
+            : 'crosshair';
 
     if (canvas?.app?.view) {
       canvas.app.view.style.cursor = cursor;
@@ -606,14 +926,17 @@ export class RealmLayer extends (globalThis.foundry?.canvas?.layers?.RegionLayer
   /**
    * Get the currently selected realm
    */
-  getSelectedRealm(): RealmData | null {
+  getSelectedRealm(): RealmDataCompat | null {
     return this.selectedRealm;
   }
 
   /**
    * Select a specific realm
    */
-  selectRealm(realm: RealmData | null): void {
+  selectRealm(realm: RealmDataCompat | null): void {
+    this.editShapes = [];
+    this.editDrag = null;
+    this.activeVertex = null;
     this.selectedRealm = realm;
     this.drawingState = realm ? DrawingState.SELECTING : DrawingState.IDLE;
     this.refresh();
@@ -639,6 +962,60 @@ export class RealmLayer extends (globalThis.foundry?.canvas?.layers?.RegionLayer
     RealmPropertiesDialog.open(realm);
   }
 
+  // Shape editing drags
+
+  /** @override */
+  _onDragLeftStart(event: any) {
+    if (this.drawingState !== DrawingState.EDITING) return super._onDragLeftStart?.(event);
+
+    const origin = this.getCanvasPoint(event.data.global);
+    const handle = findHandle(this.editShapes, origin.x, origin.y, this.getHandleTolerance());
+    if (!handle) return;
+
+    const sharing =
+      handle.kind === 'vertex' && game.settings.get('realms-and-reaches', 'sharedBorders') === true;
+    this.editDrag = {
+      handle,
+      origin,
+      shapes: this.editShapes,
+      linked: sharing ? this.getLinkedVertices(handle.shape, handle.index) : []
+    };
+    if (handle.kind === 'vertex') {
+      this.activeVertex = { shape: handle.shape, index: handle.index };
+    }
+  }
+
+  /**
+   * Get where a drag has reached; only vertex drags snap
+   */
+  private getDragPosition(event: any): PIXI.Point {
+    return this.editDrag?.handle.kind === 'vertex'
+      ? this.getSnappedPoint(event.data.global)
+      : this.getCanvasPoint(event.data.global);
+  }
+
+  /** @override */
+  _onDragLeftMove(event: any) {
+    if (!this.editDrag) return super._onDragLeftMove?.(event);
+
+    const position = this.getDragPosition(event);
+    this.editShapes = this.applyDrag(this.editDrag, position, event.shiftKey === true);
+    this.linkedShapes = new Map(
+      this.applyLinkedDrag(this.editDrag, position).map(({ realm, shapes }) => [realm.id, shapes])
+    );
+    this.refresh();
+  }
+
+  /** @override */
+  _onDragLeftCancel(event: any) {
+    if (!this.editDrag) return super._onDragLeftCancel?.(event);
+
+    this.editShapes = this.editDrag.shapes;
+    this.editDrag = null;
+    this.linkedShapes.clear();
+    this.refresh();
+  }
+
   // Override RegionLayer methods to use RealmManager instead of documents
 
   /**
@@ -646,6 +1023,18 @@ export class RealmLayer extends (globalThis.foundry?.canvas?.layers?.RegionLayer
    */
   /** @override */
   _onDragLeftDrop(event: any) {
+    // Finish a shape edit drag
+    if (this.editDrag) {
+      const drag = this.editDrag;
+      const position = this.getDragPosition(event);
+      this.editDrag = null;
+      this.commitEdit(
+        this.applyDrag(drag, position, event.shiftKey === true),
+        this.applyLinkedDrag(drag, position)
+      );
+      return;
+    }
+
     // Get the shape data from RegionLayer's drawing functionality
     const shape = this._getShapeFromEvent?.(event);
     if (!shape) return;
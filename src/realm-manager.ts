@@ -6,12 +6,47 @@
  */
 
 import { RealmGeometry } from './realm-data';
+import { SpatialIndex } from './spatial-index';
+import { TagSystem, EffectiveTagResult } from './tag-system';
+import { PathPoint, getInsideIntervals } from './path-geometry';
+import { booleanShapes, splitShapes } from './shape-boolean';
+import { TagQuery } from './tag-query';
+import {
+  GeoJSONExportOptions,
+  GeoJSONFeature,
+  GeoJSONFeatureCollection,
+  GeoJSONImportOptions,
+  featureToRealm,
+  invertTransform,
+  realmToFeature
+} from './geojson';
+import {
+  RealmExport,
+  RealmExportScene,
+  RealmImportReport,
+  RealmImportReportEntry,
+  createRealmExport,
+  parseRealmExport
+} from './export-format';
+import {
+  RealmDiffDecision,
+  RealmDiffItem,
+  RealmDiffResult,
+  defaultDiffDecisions,
+  diffRealms
+} from './import-diff';
 
 /**
  * Wrapper class to make RegionDocument behave like RealmData for compatibility
  */
-class RealmDataCompat {
-  constructor(private region: RealmRegion) {}
+export class RealmDataCompat {
+  /**
+   * @param visibleTags - Tags to report instead of the region's own, for a player's view
+   */
+  constructor(
+    private region: RealmRegion,
+    private visibleTags?: string[]
+  ) {}
   
   get id(): string {
     return this.region.id;
@@ -29,16 +64,24 @@ class RealmDataCompat {
     };
   }
   
+  get priority(): number {
+    return RealmHelpers.getPriority(this.region);
+  }
+
   getTag(key: string): string | null {
+    if (this.visibleTags) {
+      const tag = this.visibleTags.find(t => t.startsWith(key + ':'));
+      return tag ? tag.split(':', 2)[1] : null;
+    }
     return RealmHelpers.getTag(this.region, key);
   }
   
   getTags(): string[] {
-    return RealmHelpers.getTags(this.region);
+    return this.visibleTags ? [...this.visibleTags] : RealmHelpers.getTags(this.region);
   }
   
   hasTag(tag: string): boolean {
-    return RealmHelpers.hasTag(this.region, tag);
+    return this.getTags().includes(tag);
   }
   
   containsPoint(x: number, y: number): boolean {
@@ -62,6 +105,15 @@ type RealmRegion = RegionDocument & {
     'realms-and-reaches'?: {
       isRealm?: boolean;
       tags?: string[];
+      priority?: number;
+      discovery?: Record<string, 'undiscovered' | 'rumoured' | 'explored'>;
+      discoveredBy?: {
+        tokenId: string;
+        tokenName: string;
+        actorId: string | null;
+        timestamp: number;
+        worldTime: number;
+      };
       metadata?: {
         created: string;
         modified: string;
@@ -78,10 +130,39 @@ type RealmRegion = RegionDocument & {
 export interface RealmQueryOptions {
   sceneId?: string;
   tags?: string[];
+  query?: string | TagQuery; // Boolean tag query, e.g. 'biome:forest AND travel_speed < 0.75'
   bounds?: { x: number; y: number; width: number; height: number };
   limit?: number;
 }
 
+/**
+ * One continuous stretch of a path inside a realm
+ */
+export interface RealmPathCrossing {
+  realmId: string;
+  realmName: string;
+  entry: { x: number; y: number; distance: number };
+  exit: { x: number; y: number; distance: number };
+  length: number; // Scene units
+}
+
+/**
+ * Total distance a path spends inside a realm
+ */
+export interface RealmPathSummary {
+  realmId: string;
+  realmName: string;
+  length: number; // Scene units
+  crossings: number;
+}
+
+export interface RealmPathResult {
+  totalLength: number; // Scene units
+  units: string;
+  crossings: RealmPathCrossing[]; // Ordered by entry distance
+  realms: RealmPathSummary[]; // Ordered by first entry
+}
+
 /**
  * Helper functions for working with realm regions
  */
@@ -129,6 +210,14 @@ class RealmHelpers {
     return tag ? tag.split(':', 2)[1] : null;
   }
 
+  /**
+   * Get the overlap priority of a realm region (higher wins, default 0)
+   */
+  static getPriority(region: RealmRegion): number {
+    const priority = Number(region.flags['realms-and-reaches']?.priority);
+    return Number.isFinite(priority) ? priority : 0;
+  }
+
   /**
    * Convert geometry to Region shapes format
    */
@@ -196,17 +285,31 @@ class RealmHelpers {
     for (const shape of region.shapes) {
       switch (shape.type) {
         case 'rectangle':
+          if (shape.rotation) {
+            // Rotated rectangles turn about their center; use the enclosing circle
+            const cx = shape.x + shape.width / 2;
+            const cy = shape.y + shape.height / 2;
+            const r = Math.hypot(shape.width, shape.height) / 2;
+            minX = Math.min(minX, cx - r);
+            minY = Math.min(minY, cy - r);
+            maxX = Math.max(maxX, cx + r);
+            maxY = Math.max(maxY, cy + r);
+            break;
+          }
           minX = Math.min(minX, shape.x);
           minY = Math.min(minY, shape.y);
           maxX = Math.max(maxX, shape.x + shape.width);
           maxY = Math.max(maxY, shape.y + shape.height);
           break;
-        case 'ellipse':
-          minX = Math.min(minX, shape.x - shape.radiusX);
-          minY = Math.min(minY, shape.y - shape.radiusY);
-          maxX = Math.max(maxX, shape.x + shape.radiusX);
-          maxY = Math.max(maxY, shape.y + shape.radiusY);
+        case 'ellipse': {
+          const rx = shape.rotation ? Math.max(shape.radiusX, shape.radiusY) : shape.radiusX;
+          const ry = shape.rotation ? rx : shape.radiusY;
+          minX = Math.min(minX, shape.x - rx);
+          minY = Math.min(minY, shape.y - ry);
+          maxX = Math.max(maxX, shape.x + rx);
+          maxY = Math.max(maxY, shape.y + ry);
           break;
+        }
         case 'polygon':
           for (let i = 0; i < shape.points.length; i += 2) {
             minX = Math.min(minX, shape.points[i]);
@@ -245,6 +348,9 @@ export class RealmManager extends EventTarget {
 
   private sceneId: string;
 
+  // Grid index over realm bounds, built lazily on the first spatial query
+  private spatialIndex: SpatialIndex | null = null;
+
   private constructor(sceneId: string) {
     super();
     this.sceneId = sceneId;
@@ -283,6 +389,7 @@ export class RealmManager extends EventTarget {
     geometry?: RealmGeometry;
     tags?: string[];
     color?: string;
+    priority?: number;
     id?: string;
   } | any): Promise<RealmDataCompat> {
     const scene = game.scenes?.get(this.sceneId);
@@ -296,9 +403,12 @@ export class RealmManager extends EventTarget {
       shapes = RealmHelpers.convertGeometryToShapes(realmData.geometry);
     }
     
+    // Keep a requested ID only if it is a valid Foundry ID no region uses
+    const keepId = this.isFreeRegionId(scene, realmData.id);
+
     // Create Region document with realm flag
     const regionData = {
-      _id: realmData.id,
+      _id: keepId ? realmData.id : undefined,
       name: realmData.name || 'New Realm',
       color: realmData.color || '#ff0000',
       shapes: shapes || [],
@@ -306,6 +416,7 @@ export class RealmManager extends EventTarget {
         'realms-and-reaches': {
           isRealm: true,
           tags: realmData.tags || [],
+          priority: realmData.priority ?? 0,
           metadata: {
             created: new Date().toISOString(),
             modified: new Date().toISOString(),
@@ -315,8 +426,11 @@ export class RealmManager extends EventTarget {
       }
     };
 
-    const realm = (await scene.createEmbeddedDocuments('Region', [regionData])) as RealmRegion[];
+    const realm = (await scene.createEmbeddedDocuments('Region', [regionData], {
+      keepId
+    })) as RealmRegion[];
     const createdRealm = realm[0];
+    this.refreshRegion(createdRealm);
 
     // Dispatch event
     this.dispatchEvent(
@@ -328,6 +442,13 @@ export class RealmManager extends EventTarget {
     return new RealmDataCompat(createdRealm);
   }
 
+  /**
+   * Check if an ID can be kept for a new region: a valid Foundry ID no region uses
+   */
+  private isFreeRegionId(scene: Scene, id: string | undefined): id is string {
+    return !!id && /^[a-zA-Z0-9]{16}$/.test(id) && !scene.regions.has(id);
+  }
+
   /**
    * Update an existing realm
    */
@@ -338,6 +459,7 @@ export class RealmManager extends EventTarget {
       shapes?: any[];
       tags?: string[];
       color?: string;
+      priority?: number;
     }
   ): Promise<void> {
     // If no updates provided, just touch the metadata
@@ -359,9 +481,14 @@ export class RealmManager extends EventTarget {
       updateData['flags.realms-and-reaches.tags'] = updates.tags;
     }
 
+    if (updates.priority !== undefined) {
+      updateData['flags.realms-and-reaches.priority'] = updates.priority;
+    }
+
     if (Object.keys(updateData).length > 0) {
       await realm.update(updateData);
     }
+    this.refreshRegion(realm);
 
     // Dispatch event
     this.dispatchEvent(
@@ -380,6 +507,7 @@ export class RealmManager extends EventTarget {
 
     // Delete the region document
     await realm._region.delete();
+    this.removeRegion(realmId);
 
     // Dispatch event
     this.dispatchEvent(
@@ -391,6 +519,122 @@ export class RealmManager extends EventTarget {
     return true;
   }
 
+  // Shape Operations
+
+  /**
+   * Get a realm that an operation needs
+   * @throws Error if the realm does not exist
+   */
+  private requireRealm(realmId: string): RealmDataCompat {
+    const realm = this.getRealm(realmId);
+    if (!realm) throw new Error(`Realm ${realmId} not found`);
+    return realm;
+  }
+
+  /**
+   * Merge realms into the first of them
+   *
+   * The first realm takes the combined shapes and tags (see
+   * TagSystem.combineTags) and keeps its name, color and other settings. The
+   * other realms are deleted.
+   * @returns The merged realm
+   */
+  async mergeRealms(realmIds: string[]): Promise<RealmDataCompat> {
+    const realms = [...new Set(realmIds)].map(id => this.requireRealm(id));
+    if (realms.length < 2) {
+      throw new Error('Merging needs at least two realms');
+    }
+
+    const [target, ...others] = realms;
+    const shapes = others.reduce(
+      (merged, realm) => booleanShapes(merged, realm._region.shapes || [], 'union'),
+      target._region.shapes || []
+    );
+
+    await this.updateRealm(target._region, {
+      shapes,
+      tags: TagSystem.getInstance().combineTags(realms)
+    });
+    for (const realm of others) {
+      await this.deleteRealm(realm.id);
+    }
+    return target;
+  }
+
+  /**
+   * Cut the area of another realm out of a realm, leaving the other realm as it is
+   * @throws Error if nothing of the realm would be left
+   */
+  async subtractRealm(realmId: string, otherId: string): Promise<RealmDataCompat> {
+    const realm = this.requireRealm(realmId);
+    const other = this.requireRealm(otherId);
+
+    const shapes = booleanShapes(
+      realm._region.shapes || [],
+      other._region.shapes || [],
+      'difference'
+    );
+    if (shapes.length === 0) {
+      throw new Error(`Subtracting ${other.name} would leave nothing of ${realm.name}`);
+    }
+
+    await this.updateRealm(realm._region, { shapes });
+    return realm;
+  }
+
+  /**
+   * Trim a realm to the area it shares with another realm, leaving the other realm as it is
+   * @throws Error if the realms do not overlap
+   */
+  async intersectRealm(realmId: string, otherId: string): Promise<RealmDataCompat> {
+    const realm = this.requireRealm(realmId);
+    const other = this.requireRealm(otherId);
+
+    const shapes = booleanShapes(
+      realm._region.shapes || [],
+      other._region.shapes || [],
+      'intersection'
+    );
+    if (shapes.length === 0) {
+      throw new Error(`${realm.name} does not overlap ${other.name}`);
+    }
+
+    await this.updateRealm(realm._region, { shapes });
+    return realm;
+  }
+
+  /**
+   * Cut a realm in two or more along a line
+   *
+   * The realm keeps the largest piece. Each other piece becomes a new realm
+   * with the same tags, color and priority, numbered after the original name.
+   * @param line - Points of the cutting line, which must cross the realm completely
+   * @returns The realm and the new realms, largest first
+   * @throws Error if the line does not cut the realm
+   */
+  async splitRealm(realmId: string, line: PathPoint[]): Promise<RealmDataCompat[]> {
+    const realm = this.requireRealm(realmId);
+    const pieces = splitShapes(realm._region.shapes || [], line);
+    if (pieces.length < 2) {
+      throw new Error(`The line does not cut ${realm.name} in two`);
+    }
+
+    await this.updateRealm(realm._region, { shapes: pieces[0] });
+    const results = [realm];
+    for (let i = 1; i < pieces.length; i++) {
+      results.push(
+        await this.createRealm({
+          name: `${realm.name} ${i + 1}`,
+          shapes: pieces[i],
+          tags: realm.getTags(),
+          color: realm._region.color ? String(realm._region.color) : undefined,
+          priority: realm.priority
+        })
+      );
+    }
+    return results;
+  }
+
   // Query Operations
 
   /**
@@ -408,7 +652,7 @@ export class RealmManager extends EventTarget {
   }
 
   /**
-   * Get the first realm at a specific point
+   * Get the highest-priority realm at a specific point
    */
   getRealmAt(x: number, y: number): RealmDataCompat | null {
     const realms = this.getRealmsAt(x, y);
@@ -416,7 +660,7 @@ export class RealmManager extends EventTarget {
   }
 
   /**
-   * Get all realms at a specific point
+   * Get all realms at a specific point, highest priority first
    */
   getRealmsAt(x: number, y: number): RealmDataCompat[] {
     const scene = game.scenes?.get(this.sceneId);
@@ -424,16 +668,152 @@ export class RealmManager extends EventTarget {
 
     const results: RealmDataCompat[] = [];
 
-    for (const region of scene.regions) {
-      if (region.flags?.['realms-and-reaches']?.isRealm === true) {
-        const contains = RealmHelpers.containsPoint(region as RealmRegion, x, y);
-        if (contains) {
-          results.push(new RealmDataCompat(region as RealmRegion));
+    // Only test the realms whose bounds share a grid cell with the point
+    for (const id of this.getSpatialIndex().queryPoint(x, y)) {
+      const region = scene.regions.get(id) as RealmRegion | undefined;
+      if (region?.flags?.['realms-and-reaches']?.isRealm === true) {
+        if (RealmHelpers.containsPoint(region, x, y)) {
+          results.push(new RealmDataCompat(region));
         }
       }
     }
 
-    return results;
+    // Index buckets follow edit history, so restore scene order before the
+    // stable priority sort keeps it among realms with equal priority
+    if (results.length > 1) {
+      const order = new Map<string, number>();
+      scene.regions.contents.forEach((region: RegionDocument, index: number) =>
+        order.set(region.id!, index)
+      );
+      results.sort((a, b) => order.get(a.id)! - order.get(b.id)!);
+    }
+    return results.sort((a, b) => b.priority - a.priority);
+  }
+
+  /**
+   * Get the realms a path passes through and the distance spent in each
+   * @param points - Waypoints in scene pixels; consecutive points form segments
+   * @returns Entry/exit crossings and per-realm lengths in scene units
+   */
+  getRealmsAlongPath(points: PathPoint[]): RealmPathResult {
+    const scene = game.scenes?.get(this.sceneId);
+    const gridSize = Number(scene?.grid?.size);
+    const gridDistance = Number(scene?.grid?.distance);
+    const unitsPerPixel = gridSize > 0 && gridDistance > 0 ? gridDistance / gridSize : 1;
+    const units = scene?.grid?.units || '';
+
+    const result: RealmPathResult = { totalLength: 0, units, crossings: [], realms: [] };
+    if (!scene || points.length < 2) return result;
+
+    // Cumulative pixel distance at each waypoint
+    const cumulative = [0];
+    for (let i = 1; i < points.length; i++) {
+      const length = Math.hypot(points[i].x - points[i - 1].x, points[i].y - points[i - 1].y);
+      cumulative.push(cumulative[i - 1] + length);
+    }
+    result.totalLength = cumulative[cumulative.length - 1] * unitsPerPixel;
+
+    // Candidate realms from the index, segment by segment
+    const candidates = new Map<string, RealmDataCompat>();
+    for (let i = 1; i < points.length; i++) {
+      const a = points[i - 1];
+      const b = points[i];
+      const segmentBounds = {
+        x: Math.min(a.x, b.x),
+        y: Math.min(a.y, b.y),
+        width: Math.abs(b.x - a.x),
+        height: Math.abs(b.y - a.y)
+      };
+      for (const realm of this.getRealmsInBounds(segmentBounds)) {
+        candidates.set(realm.id, realm);
+      }
+    }
+
+    const pointAt = (segment: number, t: number, distance: number) => {
+      const a = points[segment - 1];
+      const b = points[segment];
+      return {
+        x: a.x + (b.x - a.x) * t,
+        y: a.y + (b.y - a.y) * t,
+        distance: distance * unitsPerPixel
+      };
+    };
+
+    for (const realm of candidates.values()) {
+      const shapes = (realm._region.shapes || []) as any[];
+      let open: { entry: RealmPathCrossing['entry']; exit: RealmPathCrossing['exit'] } | null =
+        null;
+      let openEndPixels = -1;
+
+      const close = () => {
+        if (!open) return;
+        result.crossings.push({
+          realmId: realm.id,
+          realmName: realm.name,
+          entry: open.entry,
+          exit: open.exit,
+          length: open.exit.distance - open.entry.distance
+        });
+        open = null;
+      };
+
+      for (let i = 1; i < points.length; i++) {
+        const segmentLength = cumulative[i] - cumulative[i - 1];
+        if (segmentLength === 0) continue;
+
+        for (const interval of getInsideIntervals(points[i - 1], points[i], shapes)) {
+          const startPixels = cumulative[i - 1] + interval.start * segmentLength;
+          const endPixels = cumulative[i - 1] + interval.end * segmentLength;
+
+          // Continue a crossing that runs over a waypoint
+          if (!open || Math.abs(startPixels - openEndPixels) > 1e-6) {
+            close();
+            open = {
+              entry: pointAt(i, interval.start, startPixels),
+              exit: pointAt(i, interval.end, endPixels)
+            };
+          } else {
+            open.exit = pointAt(i, interval.end, endPixels);
+          }
+          openEndPixels = endPixels;
+        }
+      }
+      close();
+    }
+
+    // Order by entry, highest priority first on ties
+    const priorities = new Map(Array.from(candidates.values()).map(r => [r.id, r.priority]));
+    result.crossings.sort(
+      (a, b) =>
+        a.entry.distance - b.entry.distance ||
+        (priorities.get(b.realmId) || 0) - (priorities.get(a.realmId) || 0)
+    );
+
+    const summaries = new Map<string, RealmPathSummary>();
+    for (const crossing of result.crossings) {
+      const summary = summaries.get(crossing.realmId);
+      if (summary) {
+        summary.length += crossing.length;
+        summary.crossings++;
+      } else {
+        summaries.set(crossing.realmId, {
+          realmId: crossing.realmId,
+          realmName: crossing.realmName,
+          length: crossing.length,
+          crossings: 1
+        });
+      }
+    }
+    result.realms = Array.from(summaries.values());
+
+    return result;
+  }
+
+  /**
+   * Get the merged tags of every realm at a specific point
+   */
+  getEffectiveTagsAt(x: number, y: number): EffectiveTagResult {
+    return TagSystem.getInstance().resolveEffectiveTags(this.getRealmsAt(x, y));
   }
 
   /**
@@ -450,9 +830,19 @@ export class RealmManager extends EventTarget {
 
   /**
    * Find realms matching specific criteria
+   * @throws TagQueryError if options.query is malformed
    */
   findRealms(options: RealmQueryOptions): RealmDataCompat[] {
-    let results = this.getAllRealms();
+    const realms = options.bounds ? this.getRealmsInBounds(options.bounds) : this.getAllRealms();
+    return this.filterRealms(realms, options);
+  }
+
+  /**
+   * Apply the tag, query and limit criteria of query options to some realms
+   * @throws TagQueryError if options.query is malformed
+   */
+  filterRealms(realms: RealmDataCompat[], options: RealmQueryOptions): RealmDataCompat[] {
+    let results = realms;
 
     // Filter by tags
     if (options.tags && options.tags.length > 0) {
@@ -461,12 +851,11 @@ export class RealmManager extends EventTarget {
       });
     }
 
-    // Filter by bounds
-    if (options.bounds) {
-      results = results.filter(realm => {
-        const realmBounds = realm.getBounds();
-        return this.boundsIntersect(options.bounds!, realmBounds);
-      });
+    // Filter by tag query
+    const query = typeof options.query === 'string' ? options.query.trim() : options.query;
+    if (query) {
+      const parsed = typeof query === 'string' ? TagQuery.parse(query) : query;
+      results = results.filter(realm => parsed.matches(realm.getTags()));
     }
 
     // Apply limit
@@ -477,6 +866,79 @@ export class RealmManager extends EventTarget {
     return results;
   }
 
+  /**
+   * Get realms whose bounding boxes intersect an area
+   */
+  getRealmsInBounds(bounds: {
+    x: number;
+    y: number;
+    width: number;
+    height: number;
+  }): RealmDataCompat[] {
+    const scene = game.scenes?.get(this.sceneId);
+    if (!scene) return [];
+
+    const results: RealmDataCompat[] = [];
+
+    for (const id of this.getSpatialIndex().queryBounds(bounds)) {
+      const region = scene.regions.get(id) as RealmRegion | undefined;
+      if (region?.flags?.['realms-and-reaches']?.isRealm !== true) continue;
+
+      const realm = new RealmDataCompat(region);
+      if (this.boundsIntersect(bounds, realm.getBounds())) {
+        results.push(realm);
+      }
+    }
+
+    return results;
+  }
+
+  // Spatial Index
+
+  /**
+   * Get the spatial index for this scene, building it on first use
+   */
+  private getSpatialIndex(): SpatialIndex {
+    if (!this.spatialIndex) {
+      this.spatialIndex = new SpatialIndex();
+      for (const realm of this.getAllRealms()) {
+        this.spatialIndex.insert(realm.id, realm.getBounds());
+      }
+    }
+    return this.spatialIndex;
+  }
+
+  /**
+   * Re-index a created or updated region
+   *
+   * Called from the Region document hooks so the index follows changes made
+   * outside of this manager. Regions that are not realms are dropped.
+   */
+  refreshRegion(region: RegionDocument): void {
+    if (!this.spatialIndex) return;
+
+    const realmRegion = region as RealmRegion;
+    if (realmRegion.flags?.['realms-and-reaches']?.isRealm === true) {
+      this.spatialIndex.insert(realmRegion.id, RealmHelpers.getBounds(realmRegion));
+    } else {
+      this.spatialIndex.remove(realmRegion.id);
+    }
+  }
+
+  /**
+   * Drop a deleted region from the index
+   */
+  removeRegion(regionId: string): void {
+    this.spatialIndex?.remove(regionId);
+  }
+
+  /**
+   * Discard the index so it is rebuilt on the next spatial query
+   */
+  invalidateIndex(): void {
+    this.spatialIndex = null;
+  }
+
   /**
    * Check if two bounding boxes intersect
    */
@@ -539,39 +1001,77 @@ export class RealmManager extends EventTarget {
   /**
    * Export realm data for sharing
    */
-  exportData(): any {
-    const realms = this.getAllRealms();
+  exportData(): RealmExport {
+    return createRealmExport([this.getExportScene()]);
+  }
+
+  /**
+   * Import realm data from an export of any supported version
+   *
+   * Uses the export's scene with this scene's ID, or else its first scene.
+   * Realms with conflicting IDs are skipped unless merging or replacing.
+   */
+  async importData(
+    data: any,
+    options: { replace?: boolean; merge?: boolean } = {}
+  ): Promise<RealmImportReport> {
+    return this.importExport(data, options);
+  }
+
+  /**
+   * Export realms as a GeoJSON FeatureCollection
+   *
+   * Coordinates are scene pixels unless a transform is given. Tags, priority
+   * and metadata are stored in each feature's properties.
+   */
+  exportGeoJSON(options: GeoJSONExportOptions = {}): GeoJSONFeatureCollection {
     const scene = game.scenes?.get(this.sceneId);
 
     return {
-      format: 'realms-and-reaches-v1',
+      type: 'FeatureCollection',
+      features: this.getAllRealms()
+        .map(realm =>
+          realmToFeature(
+            {
+              id: realm.id,
+              name: realm.name,
+              color: realm._region.color,
+              shapes: realm._region.shapes,
+              tags: realm.getTags(),
+              priority: realm.priority,
+              metadata: realm.metadata
+            },
+            options
+          )
+        )
+        .filter(feature => feature.geometry !== null),
       metadata: {
         author: game.user?.name || 'Unknown',
         created: new Date().toISOString(),
-        version: '1.0.0',
         sceneId: this.sceneId,
-        sceneName: scene?.name || 'Unknown Scene'
-      },
-      realms: realms.map(realm => ({
-        id: realm.id,
-        name: realm.name,
-        color: realm._region.color,
-        shapes: realm._region.shapes,
-        tags: realm.getTags(),
-        metadata: realm.metadata
-      })),
-      bounds: scene ? { width: scene.width, height: scene.height } : null
+        sceneName: scene?.name || 'Unknown Scene',
+        bounds: scene ? { width: scene.width, height: scene.height } : null,
+        transform: options.transform || null
+      }
     };
   }
 
   /**
-   * Import realm data from export format
+   * Import realms from a GeoJSON FeatureCollection or Feature
+   *
+   * Features without Polygon or MultiPolygon geometry are skipped.
+   * @returns The number of realms created
    */
-  async importData(
-    data: any,
-    options: { replace?: boolean; merge?: boolean } = {}
+  async importGeoJSON(
+    data: GeoJSONFeatureCollection | GeoJSONFeature,
+    options: GeoJSONImportOptions = {}
   ): Promise<number> {
-    if (data.format !== 'realms-and-reaches-v1') {
+    let features: GeoJSONFeature[];
+    if (data?.type === 'FeatureCollection' && Array.isArray(data.features)) {
+      features = data.features;
+    } else if (data?.type === 'Feature') {
+      features = [data as GeoJSONFeature];
+    } else {
       throw new Error('Unsupported data format');
     }
 
@@ -580,8 +1080,9 @@ export class RealmManager extends EventTarget {
       throw new Error(`Scene ${this.sceneId} not found`);
     }
 
+    const inverse = options.transform ? invertTransform(options.transform) : undefined;
+
     if (options.replace) {
-      // Delete all existing realm regions
       const existingRealms = this.getAllRealms();
       if (existingRealms.length > 0) {
         await scene.deleteEmbeddedDocuments(
@@ -591,59 +1092,63 @@ export class RealmManager extends EventTarget {
       }
     }
 
-    let importedCount = 0;
+    const usedIds = new Set<string>();
     const regionData = [];
 
-    for (const realmObj of data.realms) {
-      try {
-        // Check for ID conflicts
-        let id = realmObj.id;
-        if (!options.replace && this.getRealm(id)) {
-          if (!options.merge) {
-            continue; // Skip conflicting IDs
-          }
-          // Generate new ID for merge
-          id = foundry.utils.randomID();
-        }
+    for (const feature of features) {
+      const realm = featureToRealm(feature, inverse);
+      if (!realm) {
+        console.warn('Realms & Reaches | Skipping GeoJSON feature without polygons:', feature.id);
+        continue;
+      }
+
+      // Foundry IDs are 16 alphanumeric characters, unique among all regions;
+      // anything else gets a fresh ID
+      let id = foundry.utils.randomID();
+      const requested = realm.id;
+      if (
+        options.preserveIds &&
+        requested &&
+        /^[a-zA-Z0-9]{16}$/.test(requested) &&
+        !usedIds.has(requested) &&
+        !scene.regions.has(requested)
+      ) {
+        id = requested;
+      }
+      usedIds.add(id);
 
-        const regionDocData = {
-          _id: id,
-          name: realmObj.name || 'Imported Realm',
-          color: realmObj.color || '#ff0000',
-          shapes: realmObj.shapes || [],
-          flags: {
-            'realms-and-reaches': {
-              isRealm: true,
-              tags: realmObj.tags || [],
-              metadata: realmObj.metadata || {
-                created: new Date().toISOString(),
-                modified: new Date().toISOString(),
-                author: game.user?.name || 'Unknown'
-              }
+      regionData.push({
+        _id: id,
+        name: realm.name,
+        color: realm.color || '#ff0000',
+        shapes: realm.shapes,
+        flags: {
+          'realms-and-reaches': {
+            isRealm: true,
+            tags: realm.tags,
+            priority: realm.priority ?? 0,
+            metadata: realm.metadata || {
+              created: new Date().toISOString(),
+              modified: new Date().toISOString(),
+              author: game.user?.name || 'Unknown'
             }
           }
-        };
-
-        regionData.push(regionDocData);
-        importedCount++;
-      } catch (error) {
-        console.warn(`Failed to import realm ${realmObj.id}:`, error);
-      }
+        }
+      });
     }
 
-    // Create all regions at once
     if (regionData.length > 0) {
-      await scene.createEmbeddedDocuments('Region', regionData);
+      await scene.createEmbeddedDocuments('Region', regionData, { keepId: true });
     }
+    this.invalidateIndex();
 
-    // Dispatch event
     this.dispatchEvent(
       new CustomEvent('realmsImported', {
-        detail: { sceneId: this.sceneId, count: importedCount }
+        detail: { sceneId: this.sceneId, count: regionData.length }
       })
     );
 
-    return importedCount;
+    return regionData.length;
   }
 
   // Utility Methods - simplified since Region documents handle persistence
@@ -685,6 +1190,7 @@ export class RealmManager extends EventTarget {
         );
       }
     }
+    this.invalidateIndex();
 
     // Dispatch event
     this.dispatchEvent(
@@ -699,6 +1205,7 @@ export class RealmManager extends EventTarget {
    */
   async initialize(sceneId: string): Promise<void> {
     this.sceneId = sceneId;
+    this.invalidateIndex();
 
     // Load existing realm data - now automatic with Region documents
     await this.loadFromScene();
@@ -714,94 +1221,208 @@ export class RealmManager extends EventTarget {
   /**
    * Export scene realm data for sharing
    */
-  exportScene(): any {
-    const realms = this.getAllRealms();
+  exportScene(): RealmExport {
+    return createRealmExport([this.getExportScene()], {
+      description: `Realm data for scene ${this.sceneId}`
+    });
+  }
+
+  /**
+   * Import realm data to current scene, giving every realm a new ID
+   */
+  async importScene(data: any): Promise<RealmImportReport> {
+    return this.importExport(data, { newIds: true });
+  }
+
+  /**
+   * Build this scene's entry in an export
+   */
+  getExportScene(): RealmExportScene {
+    const scene = game.scenes?.get(this.sceneId);
 
     return {
-      format: 'realms-and-reaches-v1',
-      metadata: {
-        author: game.user?.name || 'Unknown',
-        created: new Date().toISOString(),
-        version: '1.0.0',
-        description: `Realm data for scene ${this.sceneId}`
-      },
-      scenes: {
-        [this.sceneId]: {
-          realms: realms.map(realm => ({
-            id: realm.id,
-            name: realm.name,
-            color: realm._region.color,
-            shapes: realm._region.shapes,
-            tags: realm.getTags(),
-            metadata: realm.metadata
-          })),
-          bounds: { width: canvas?.scene?.width || 4000, height: canvas?.scene?.height || 4000 }
-        }
-      }
+      id: this.sceneId,
+      name: scene?.name || 'Unknown Scene',
+      bounds: scene ? { width: scene.width, height: scene.height } : null,
+      realms: this.getAllRealms().map(realm => ({
+        id: realm.id,
+        name: realm.name,
+        color: realm._region.color,
+        shapes: realm._region.shapes,
+        tags: realm.getTags(),
+        priority: realm.priority,
+        metadata: realm.metadata
+      }))
     };
   }
 
   /**
-   * Import realm data to current scene
+   * Find the export scene to import here - use first scene if current not found
    */
-  async importScene(data: any): Promise<void> {
-    if (data.format !== 'realms-and-reaches-v1') {
-      throw new Error('Unsupported data format');
+  private findImportScene(parsed: RealmExport): number {
+    const sceneIndex = parsed.scenes.findIndex(scene => scene.id === this.sceneId);
+    if (parsed.scenes.length === 0) {
+      throw new Error('No scene data found in import');
     }
+    return Math.max(sceneIndex, 0);
+  }
 
-    // Find scene data - use first scene if current not found
-    const sceneData = data.scenes[this.sceneId] || Object.values(data.scenes)[0];
-    if (!sceneData) {
-      throw new Error('No scene data found in import');
+  /**
+   * Compare an export with this scene's realms without changing anything
+   * @returns Diff items for the valid realms, and the invalid ones
+   */
+  previewImport(data: any): { items: RealmDiffItem[]; invalid: RealmImportReportEntry[] } {
+    const { data: parsed, realmErrors } = parseRealmExport(data);
+    const sceneIndex = this.findImportScene(parsed);
+    const invalid: RealmImportReportEntry[] = [];
+
+    const incoming = parsed.scenes[sceneIndex].realms.filter((realm, index) => {
+      const errors = realmErrors.get(`${sceneIndex}/${index}`);
+      if (errors) invalid.push({ id: realm?.id, name: realm?.name, errors });
+      return !errors;
+    });
+
+    return { items: diffRealms(this.getExportScene().realms, incoming), invalid };
+  }
+
+  /**
+   * Apply the accepted items of an import preview
+   * @param decisions - One per item; defaults accept new and changed realms
+   */
+  async applyImportDiff(
+    items: RealmDiffItem[],
+    decisions: RealmDiffDecision[] = defaultDiffDecisions(items)
+  ): Promise<RealmDiffResult> {
+    const result: RealmDiffResult = { created: [], updated: [], deleted: [], rejected: [] };
+
+    for (const [index, item] of items.entries()) {
+      const decision = decisions[index];
+      if (item.kind === 'unchanged') continue;
+      if (!decision?.accept) {
+        result.rejected.push(item.name);
+        continue;
+      }
+
+      if (item.kind === 'new' && item.incoming) {
+        const realm = item.incoming;
+        const created = await this.createRealm({
+          id: realm.id,
+          name: realm.name,
+          color: realm.color ?? undefined,
+          shapes: realm.shapes,
+          tags: decision.tags ?? realm.tags,
+          priority: realm.priority
+        });
+        result.created.push(created.id);
+      } else if (item.kind === 'changed' && item.incoming) {
+        const existing = this.getRealm(item.id!);
+        if (!existing) continue;
+        await this.updateRealm(existing._region, {
+          name: item.incoming.name,
+          shapes: item.incoming.shapes,
+          color: item.fields.includes('color') ? String(item.incoming.color) : undefined,
+          tags: decision.tags ?? item.mergedTags,
+          priority: item.incoming.priority
+        });
+        result.updated.push(existing.id);
+      } else if (item.kind === 'deleted' && (await this.deleteRealm(item.id!))) {
+        result.deleted.push(item.id!);
+      }
     }
 
+    return result;
+  }
+
+  /**
+   * Migrate, validate and create the realms of an export
+   */
+  private async importExport(
+    data: any,
+    options: { replace?: boolean; merge?: boolean; newIds?: boolean }
+  ): Promise<RealmImportReport> {
+    const { data: parsed, sourceVersion, realmErrors } = parseRealmExport(data);
+    const sceneIndex = this.findImportScene(parsed);
+    const sceneData = parsed.scenes[sceneIndex];
+
     const scene = game.scenes?.get(this.sceneId);
     if (!scene) {
       throw new Error(`Scene ${this.sceneId} not found`);
     }
 
-    const regionData = [];
+    if (options.replace) {
+      // Delete all existing realm regions
+      const existingRealms = this.getAllRealms();
+      if (existingRealms.length > 0) {
+        await scene.deleteEmbeddedDocuments(
+          'Region',
+          existingRealms.map(r => r.id)
+        );
+      }
+    }
 
-    // Import realms
-    for (const realmObj of (sceneData as any).realms) {
-      try {
-        // Generate new ID to avoid conflicts
-        const id = foundry.utils.randomID();
-
-        const regionDocData = {
-          _id: id,
-          name: realmObj.name || 'Imported Realm',
-          color: realmObj.color || '#ff0000',
-          shapes: realmObj.shapes || [],
-          flags: {
-            'realms-and-reaches': {
-              isRealm: true,
-              tags: realmObj.tags || [],
-              metadata: realmObj.metadata || {
-                created: new Date().toISOString(),
-                modified: new Date().toISOString(),
-                author: game.user?.name || 'Unknown'
-              }
-            }
-          }
-        };
+    const report: RealmImportReport = { sourceVersion, accepted: [], skipped: [], invalid: [] };
+    const regionData: any[] = [];
+    const usedIds = new Set<string>();
 
-        regionData.push(regionDocData);
-      } catch (error) {
-        console.warn('Failed to import realm:', error);
+    sceneData.realms.forEach((realmObj, index) => {
+      const entry = { id: realmObj?.id, name: realmObj?.name };
+      const errors = realmErrors.get(`${sceneIndex}/${index}`);
+      if (errors) {
+        report.invalid.push({ ...entry, errors });
+        return;
+      }
+
+      // Check for ID conflicts
+      let id = options.newIds ? foundry.utils.randomID() : realmObj.id;
+      if (!options.replace && id && this.getRealm(id)) {
+        if (!options.merge) {
+          report.skipped.push({ ...entry, reason: 'A realm with this ID already exists' });
+          return;
+        }
+        // Generate new ID for merge
+        id = foundry.utils.randomID();
       }
-    }
+
+      // Kept IDs must be valid Foundry IDs, and free among all regions
+      if (!this.isFreeRegionId(scene, id) || usedIds.has(id)) {
+        id = foundry.utils.randomID();
+      }
+      usedIds.add(id);
+
+      regionData.push({
+        _id: id,
+        name: realmObj.name,
+        color: realmObj.color || '#ff0000',
+        shapes: realmObj.shapes,
+        flags: {
+          'realms-and-reaches': {
+            isRealm: true,
+            tags: realmObj.tags,
+            priority: realmObj.priority ?? 0,
+            metadata: realmObj.metadata || {
+              created: new Date().toISOString(),
+              modified: new Date().toISOString(),
+              author: game.user?.name || 'Unknown'
+            }
+          }
+        }
+      });
+      report.accepted.push({ ...entry, id });
+    });
 
     // Create all regions at once
     if (regionData.length > 0) {
-      await scene.createEmbeddedDocuments('Region', regionData);
+      await scene.createEmbeddedDocuments('Region', regionData, { keepId: true });
     }
+    this.invalidateIndex();
 
     // Dispatch event
     this.dispatchEvent(
       new CustomEvent('realmsImported', {
-        detail: { sceneId: this.sceneId, count: regionData.length }
+        detail: { sceneId: this.sceneId, count: report.accepted.length, report }
       })
     );
+
+    return report;
   }
 }
@@ -0,0 +1,102 @@
+/**
+ * Realm Search - Dialog for finding realms with a tag query
+ *
+ * Results update as the query is typed; clicking a result pans to the realm
+ * and opens its configuration sheet.
+ */
+
+import { RealmManager, RealmDataCompat } from './realm-manager';
+
+/**
+ * Run a search, returning either the matches or the query error
+ */
+export function searchRealms(
+  query: string,
+  manager = RealmManager.getInstance()
+): { realms: RealmDataCompat[]; error: string | null } {
+  try {
+    return { realms: manager.findRealms({ query }), error: null };
+  } catch (error) {
+    return { realms: [], error: error instanceof Error ? error.message : String(error) };
+  }
+}
+
+/**
+ * Render the result list for a search
+ */
+export function renderRealmSearchResults(realms: RealmDataCompat[], error: string | null): string {
+  const escape = (foundry.utils as any).escapeHTML;
+  if (error) {
+    return `<p class="realm-search-error"><i class="fas fa-exclamation-triangle"></i> ${escape(error)}</p>`;
+  }
+  if (realms.length === 0) {
+    return '<p class="realm-search-empty">No realms match this query</p>';
+  }
+
+  return `
+    <ul class="realm-search-list">
+      ${realms
+        .map(
+          realm => `
+            <li class="realm-search-result" data-realm-id="${realm.id}">
+              <strong>${escape(realm.name)}</strong>
+              <span class="realm-search-tags">${escape(realm.getTags().join(', '))}</span>
+            </li>
+          `
+        )
+        .join('')}
+    </ul>
+  `;
+}
+
+/**
+ * Open the realm search dialog for the current scene
+ */
+export function openRealmSearchDialog(initialQuery = ''): void {
+  const manager = RealmManager.getInstance();
+
+  const update = (html: JQuery) => {
+    const query = String(html.find('input[name="query"]').val() || '').trim();
+    const { realms, error } = query
+      ? searchRealms(query, manager)
+      : { realms: manager.getAllRealms(), error: null };
+    html.find('.realm-search-results').html(renderRealmSearchResults(realms, error));
+  };
+
+  const dialog = new Dialog({
+    title: 'Search Realms',
+    content: `
+      <form class="realm-search" autocomplete="off">
+        <div class="form-group">
+          <input type="text" name="query" value="${initialQuery}"
+                 placeholder="biome:forest AND NOT terrain:dense, travel_speed < 0.75">
+        </div>
+        <p class="notes">
+          Combine tags with AND, OR, NOT and parentheses. A bare key such as
+          <code>elevation</code> matches any tag in that namespace.
+        </p>
+        <div class="realm-search-results"></div>
+      </form>
+    `,
+    buttons: {
+      close: { label: 'Close' }
+    },
+    default: 'close',
+    render: (html: JQuery) => {
+      html.find('input[name="query"]').on('input', () => update(html));
+      html.find('form').on('submit', (event: any) => event.preventDefault());
+      html.on('click', '.realm-search-result', (event: any) => {
+        const realmId = $(event.currentTarget).data('realm-id');
+        const realm = manager.getRealm(realmId);
+        if (!realm) return;
+
+        const bounds = realm.getBounds();
+        canvas?.animatePan({ x: bounds.x + bounds.width / 2, y: bounds.y + bounds.height / 2 });
+        canvas?.scene?.regions.get(realmId)?.sheet?.render(true);
+      });
+      update(html);
+    }
+  });
+
+  dialog.render(true);
+}
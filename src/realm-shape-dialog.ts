@@ -0,0 +1,205 @@
+/**
+ * Realm Shape Dialogs - Merge, subtract, intersect and split realms from the canvas
+ *
+ * Opened from the region context menu. Merge, subtract and intersect ask for
+ * the other realm, offering the realms that touch or overlap this one. Split
+ * cuts along a line or freehand drawing on the scene.
+ */
+
+import { RealmDataCompat, RealmManager } from './realm-manager';
+import { PathPoint } from './path-geometry';
+
+/**
+ * A shape operation between two realms
+ */
+export type RealmOperation = 'merge' | 'subtract' | 'intersect';
+
+const OPERATIONS: Record<RealmOperation, { title: string; label: string; icon: string }> = {
+  merge: { title: 'Merge Realms', label: 'Merge into this realm', icon: 'fa-object-group' },
+  subtract: { title: 'Subtract Realm', label: 'Cut out of this realm', icon: 'fa-minus-square' },
+  intersect: { title: 'Intersect Realms', label: 'Trim this realm to', icon: 'fa-crop-alt' }
+};
+
+/**
+ * Get the points of a line, polygon or freehand drawing in scene coordinates
+ * @returns An empty array for other drawing shapes
+ */
+export function drawingToLine(drawing: any): PathPoint[] {
+  const shape = drawing.shape || {};
+  const points: number[] = shape.points || [];
+  if (shape.type !== 'p' || points.length < 4) return [];
+
+  const x = drawing.x || 0;
+  const y = drawing.y || 0;
+  const cx = x + (shape.width || 0) / 2;
+  const cy = y + (shape.height || 0) / 2;
+  const angle = ((drawing.rotation || 0) * Math.PI) / 180;
+  const cos = Math.cos(angle);
+  const sin = Math.sin(angle);
+
+  const line: PathPoint[] = [];
+  for (let i = 0; i < points.length - 1; i += 2) {
+    const dx = x + points[i] - cx;
+    const dy = y + points[i + 1] - cy;
+    line.push({ x: cx + dx * cos - dy * sin, y: cy + dx * sin + dy * cos });
+  }
+  return line;
+}
+
+/**
+ * Get the realms touching or overlapping a realm, in name order
+ */
+function getNeighbours(realm: RealmDataCompat): RealmDataCompat[] {
+  const bounds = realm.getBounds();
+  const margin = Number(canvas?.scene?.grid?.size) || 100;
+  return RealmManager.getInstance()
+    .getRealmsInBounds({
+      x: bounds.x - margin,
+      y: bounds.y - margin,
+      width: bounds.width + margin * 2,
+      height: bounds.height + margin * 2
+    })
+    .filter(other => other.id !== realm.id)
+    .sort((a, b) => a.name.localeCompare(b.name));
+}
+
+/**
+ * Report a failed realm operation
+ */
+function reportError(action: string, error: unknown): void {
+  console.error(`Realms & Reaches | Failed to ${action}:`, error);
+  ui.notifications?.error(
+    `Failed to ${action}: ` + (error instanceof Error ? error.message : String(error))
+  );
+}
+
+/**
+ * Ask for the other realm of a merge, subtract or intersect, then apply it
+ */
+export function openRealmOperationDialog(realmId: string, operation: RealmOperation): void {
+  const manager = RealmManager.getInstance();
+  const realm = manager.getRealm(realmId);
+  if (!realm) return;
+
+  const neighbours = getNeighbours(realm);
+  if (neighbours.length === 0) {
+    ui.notifications?.warn(`No other realms touch ${realm.name}`);
+    return;
+  }
+
+  const { title, label, icon } = OPERATIONS[operation];
+  const dialog = new Dialog({
+    title,
+    content: `
+      <form class="realm-shape-dialog">
+        <div class="form-group">
+          <label>${label}</label>
+          <select name="other">
+            ${neighbours
+              .map(other => `<option value="${other.id}">${other.name}</option>`)
+              .join('')}
+          </select>
+        </div>
+        ${
+          operation === 'merge'
+            ? '<p class="notes">The other realm is deleted. Tags are combined; where a namespace allows one value, the higher-priority realm wins.</p>'
+            : '<p class="notes">Only this realm changes; the other realm is left as it is.</p>'
+        }
+      </form>
+    `,
+    buttons: {
+      apply: {
+        icon: `<i class="fas ${icon}"></i>`,
+        label: title,
+        callback: async (html: JQuery) => {
+          const otherId = String(html.find('[name="other"]').val() || '');
+          try {
+            if (operation === 'merge') {
+              await manager.mergeRealms([realmId, otherId]);
+            } else if (operation === 'subtract') {
+              await manager.subtractRealm(realmId, otherId);
+            } else {
+              await manager.intersectRealm(realmId, otherId);
+            }
+            ui.notifications?.info(`Updated "${realm.name}"`);
+          } catch (error) {
+            reportError(title.toLowerCase(), error);
+          }
+        }
+      },
+      cancel: { label: 'Cancel' }
+    },
+    default: 'apply'
+  });
+
+  dialog.render(true);
+}
+
+/**
+ * Ask for the drawing to cut a realm along, then split it
+ */
+export function openSplitRealmDialog(realmId: string): void {
+  const manager = RealmManager.getInstance();
+  const realm = manager.getRealm(realmId);
+  if (!realm) return;
+
+  const drawings = (canvas?.scene?.drawings?.contents || []).filter(
+    (drawing: any) => drawingToLine(drawing).length >= 2
+  );
+  if (drawings.length === 0) {
+    ui.notifications?.warn(
+      'Draw a line or freehand drawing across the realm first, then split along it'
+    );
+    return;
+  }
+
+  const dialog = new Dialog({
+    title: 'Split Realm',
+    content: `
+      <form class="realm-shape-dialog">
+        <div class="form-group">
+          <label>Cut along drawing</label>
+          <select name="drawing">
+            ${drawings
+              .map(
+                (drawing: any, index: number) =>
+                  `<option value="${drawing.id}">${drawing.text || `Drawing ${index + 1}`}</option>`
+              )
+              .join('')}
+          </select>
+        </div>
+        <div class="form-group">
+          <label>Delete the drawing afterwards</label>
+          <input type="checkbox" name="deleteDrawing" checked>
+        </div>
+        <p class="notes">
+          The line must cross ${realm.name} completely. ${realm.name} keeps the largest piece;
+          every other piece becomes a new realm with the same tags.
+        </p>
+      </form>
+    `,
+    buttons: {
+      split: {
+        icon: '<i class="fas fa-cut"></i>',
+        label: 'Split',
+        callback: async (html: JQuery) => {
+          const drawing = canvas?.scene?.drawings?.get(
+            String(html.find('[name="drawing"]').val() || '')
+          );
+          if (!drawing) return;
+          try {
+            const pieces = await manager.splitRealm(realmId, drawingToLine(drawing));
+            if (html.find('[name="deleteDrawing"]').is(':checked')) await drawing.delete();
+            ui.notifications?.info(`Split "${realm.name}" into ${pieces.length} realms`);
+          } catch (error) {
+            reportError('split realm', error);
+          }
+        }
+      },
+      cancel: { label: 'Cancel' }
+    },
+    default: 'split'
+  });
+
+  dialog.render(true);
+}
@@ -0,0 +1,184 @@
+/**
+ * Realm Tooltip - Show the realms under the cursor
+ *
+ * While the realm travel controls are active, hovering the canvas lists each
+ * realm under the cursor with colour-coded tag chips. GMs see every tag;
+ * players only see discovered realms and tags from namespaces marked
+ * player-visible.
+ */
+
+import { RealmDataCompat, RealmManager } from './realm-manager';
+import { TagSystem } from './tag-system';
+import { getVisibleRealms } from './realm-discovery';
+
+// Minimum time between realm lookups while the pointer moves
+export const TOOLTIP_THROTTLE_MS = 100;
+
+const TOOLTIP_OFFSET = 16;
+
+/**
+ * Wrap a function so it runs at most once per interval, always finishing with
+ * the latest call
+ */
+export function throttle<T extends any[]>(fn: (...args: T) => void, wait: number) {
+  let last = 0;
+  let timer: ReturnType<typeof setTimeout> | null = null;
+  let pending: T | null = null;
+
+  const throttled = (...args: T) => {
+    const remaining = wait - (Date.now() - last);
+    if (remaining <= 0) {
+      last = Date.now();
+      fn(...args);
+      return;
+    }
+
+    pending = args;
+    if (!timer) {
+      timer = setTimeout(() => {
+        timer = null;
+        last = Date.now();
+        const latest = pending!;
+        pending = null;
+        fn(...latest);
+      }, remaining);
+    }
+  };
+
+  throttled.cancel = () => {
+    if (timer) clearTimeout(timer);
+    timer = null;
+    pending = null;
+  };
+
+  return throttled;
+}
+
+/**
+ * Get the tags of a realm the current user may see
+ */
+export function getVisibleTags(realm: RealmDataCompat, isGM = game.user?.isGM === true): string[] {
+  const tags = realm.getTags();
+  if (isGM) return tags;
+  const tagSystem = TagSystem.getInstance();
+  return tags.filter(tag => tagSystem.isPlayerVisible(tag));
+}
+
+/**
+ * Render the tooltip contents for the realms under the cursor
+ */
+export function renderRealmTooltip(
+  realms: RealmDataCompat[],
+  isGM = game.user?.isGM === true
+): string {
+  const tagSystem = TagSystem.getInstance();
+  const escape = (foundry.utils as any).escapeHTML;
+
+  return realms
+    .map(realm => {
+      const chips = getVisibleTags(realm, isGM)
+        .map(tag => {
+          const color = tagSystem.getNamespace(tag)?.color || '#6c757d';
+          return `<span class="realm-tooltip-tag" style="border-color: ${color}; background: ${color}40">${escape(tag)}</span>`;
+        })
+        .join('');
+      return `
+        <div class="realm-tooltip-realm">
+          <strong>${escape(realm.name)}</strong>
+          ${chips ? `<div class="realm-tooltip-tags">${chips}</div>` : ''}
+        </div>
+      `;
+    })
+    .join('');
+}
+
+/**
+ * Whether the realm travel controls are the active control group
+ */
+function isRealmControlActive(): boolean {
+  return (ui as any).controls?.control?.name === 'realms-travel';
+}
+
+/**
+ * RealmTooltip follows the pointer over the canvas
+ */
+export class RealmTooltip {
+  private static instance: RealmTooltip;
+
+  private element: HTMLElement | null = null;
+  private stage: any = null;
+  private update = throttle(
+    (x: number, y: number, clientX: number, clientY: number) => this.show(x, y, clientX, clientY),
+    TOOLTIP_THROTTLE_MS
+  );
+
+  static getInstance(): RealmTooltip {
+    if (!RealmTooltip.instance) {
+      RealmTooltip.instance = new RealmTooltip();
+    }
+    return RealmTooltip.instance;
+  }
+
+  /**
+   * Start following the pointer on the current canvas
+   */
+  activate(): void {
+    this.deactivate();
+    if (!canvas?.stage) return;
+    this.stage = canvas.stage;
+    this.stage.on('pointermove', this.onPointerMove);
+  }
+
+  /**
+   * Stop following the pointer and hide the tooltip
+   */
+  deactivate(): void {
+    this.stage?.off('pointermove', this.onPointerMove);
+    this.stage = null;
+    this.hide();
+  }
+
+  private onPointerMove = (event: any): void => {
+    if (!isRealmControlActive()) {
+      this.hide();
+      return;
+    }
+    const point = event.getLocalPosition(canvas!.stage);
+    this.update(point.x, point.y, event.clientX, event.clientY);
+  };
+
+  /**
+   * List the realms at a canvas point, with the tooltip placed near the cursor
+   */
+  show(x: number, y: number, clientX: number, clientY: number): void {
+    if (!canvas?.scene || !isRealmControlActive()) {
+      this.hide();
+      return;
+    }
+
+    const realms = getVisibleRealms(RealmManager.getInstance(canvas.scene.id).getRealmsAt(x, y));
+    if (realms.length === 0) {
+      this.hide();
+      return;
+    }
+
+    if (!this.element) {
+      this.element = document.createElement('aside');
+      this.element.id = 'realm-tooltip';
+      this.element.className = 'realm-tooltip';
+      document.body.appendChild(this.element);
+    }
+    this.element.innerHTML = renderRealmTooltip(realms);
+    this.element.style.left = `${clientX + TOOLTIP_OFFSET}px`;
+    this.element.style.top = `${clientY + TOOLTIP_OFFSET}px`;
+  }
+
+  /**
+   * Hide the tooltip
+   */
+  hide(): void {
+    this.update.cancel();
+    this.element?.remove();
+    this.element = null;
+  }
+}
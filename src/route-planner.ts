@@ -0,0 +1,436 @@
+/**
+ * RoutePlanner - Least-cost routes across the realm layer
+ *
+ * Runs A* over the scene grid (square or hex; gridless scenes use a square
+ * lattice of the grid size). Each cell costs the distance travelled times a
+ * multiplier derived from the effective realm tags at its center.
+ */
+
+import { RealmManager, RealmPathSummary } from './realm-manager';
+import { EffectiveTag, TagSource, TagSystem } from './tag-system';
+import { RealmFilter, applyTravelSpeedBehaviors } from './travel-calculator';
+import { PathPoint } from './path-geometry';
+
+/**
+ * Cost multipliers keyed by full tag (e.g. 'terrain:rocky'); Infinity is impassable
+ */
+export type RouteWeights = Record<string, number>;
+
+export interface RouteOptions {
+  sceneId?: string;
+  weights?: RouteWeights; // Merged over DEFAULT_ROUTE_WEIGHTS
+  useTravelSpeed?: boolean; // Divide cost by travel_speed (default: true)
+  maxNodes?: number; // Give up after expanding this many cells
+}
+
+export interface RouteResult {
+  found: boolean;
+  points: PathPoint[]; // Waypoints in scene pixels, start and end included
+  distance: number; // Scene units
+  cost: number; // Weighted distance in scene units
+  units: string;
+  realms: RealmPathSummary[];
+}
+
+/**
+ * Default cost multipliers for core tags
+ */
+export const DEFAULT_ROUTE_WEIGHTS: RouteWeights = {
+  'terrain:dense': 1.5,
+  'terrain:rocky': 1.25,
+  'terrain:marshy': 1.5,
+  'terrain:rugged': 1.5,
+  'terrain:steep': 2,
+  'terrain:broken': 1.25,
+  'terrain:wild': 1.25,
+  'custom:dangerous': 2
+};
+
+const DEFAULT_MAX_NODES = 50000;
+const DEFAULT_GRID_SIZE = 100;
+
+// Foundry CONST.GRID_TYPES
+const GRID_SQUARE = 1;
+const GRID_HEXODDR = 2;
+const GRID_HEXEVENR = 3;
+const GRID_HEXODDQ = 4;
+const GRID_HEXEVENQ = 5;
+
+interface Cell {
+  i: number; // Column
+  j: number; // Row
+}
+
+/**
+ * Cell layout of a scene grid, in scene pixels
+ */
+class RouteGrid {
+  readonly columns: number;
+  readonly rows: number;
+
+  private readonly hex: boolean;
+  private readonly columnar: boolean; // Hex columns (flat-top) rather than rows
+  private readonly evenOffset: boolean; // Even rows/columns are shifted
+  private readonly step: number; // Spacing along the offset axis
+  private readonly lane: number; // Spacing across the offset axis
+
+  constructor(type: number, size: number, width: number, height: number) {
+    this.hex = type >= GRID_HEXODDR && type <= GRID_HEXEVENQ;
+    this.columnar = type === GRID_HEXODDQ || type === GRID_HEXEVENQ;
+    this.evenOffset = type === GRID_HEXEVENR || type === GRID_HEXEVENQ;
+    this.step = size;
+    this.lane = this.hex ? (size * Math.sqrt(3)) / 2 : size;
+
+    const [across, along] = this.columnar ? [height, width] : [width, height];
+    const alongCount = Math.max(1, Math.ceil(along / this.lane));
+    const acrossCount = Math.max(1, Math.ceil(across / this.step));
+    this.columns = this.columnar ? alongCount : acrossCount;
+    this.rows = this.columnar ? acrossCount : alongCount;
+  }
+
+  key(cell: Cell): number {
+    return cell.j * this.columns + cell.i;
+  }
+
+  fromKey(key: number): Cell {
+    return { i: key % this.columns, j: Math.floor(key / this.columns) };
+  }
+
+  contains(cell: Cell): boolean {
+    return cell.i >= 0 && cell.j >= 0 && cell.i < this.columns && cell.j < this.rows;
+  }
+
+  center(cell: Cell): PathPoint {
+    // Work in (offset axis, lane axis) and swap for columnar hexes
+    const [a, b] = this.columnar ? [cell.j, cell.i] : [cell.i, cell.j];
+    const u = (a + this.shift(b) + 0.5) * this.step;
+    const v = b * this.lane + this.lane / 2;
+    return this.columnar ? { x: v, y: u } : { x: u, y: v };
+  }
+
+  /**
+   * Get the cell whose center is nearest to a point
+   */
+  cellAt(point: PathPoint): Cell {
+    const [u, v] = this.columnar ? [point.y, point.x] : [point.x, point.y];
+    const b = Math.floor(v / this.lane);
+
+    let best: Cell = this.clamp(this.toCell(Math.floor(u / this.step - this.shift(b)), b));
+    let bestDistance = Infinity;
+    for (const lane of [b - 1, b, b + 1]) {
+      const a = Math.floor(u / this.step - this.shift(lane));
+      for (const candidate of [a - 1, a, a + 1]) {
+        const cell = this.toCell(candidate, lane);
+        if (!this.contains(cell)) continue;
+        const center = this.center(cell);
+        const distance = Math.hypot(center.x - point.x, center.y - point.y);
+        if (distance < bestDistance) {
+          best = cell;
+          bestDistance = distance;
+        }
+      }
+    }
+    return best;
+  }
+
+  neighbors(cell: Cell): Cell[] {
+    const [a, b] = this.columnar ? [cell.j, cell.i] : [cell.i, cell.j];
+    const offsets: [number, number][] = [];
+
+    if (this.hex) {
+      offsets.push([-1, 0], [1, 0]);
+      for (const db of [-1, 1]) {
+        // Neighbours in the adjacent lanes straddle this cell's position
+        const base = Math.round(this.shift(b) - this.shift(b + db) - 0.5);
+        offsets.push([base, db], [base + 1, db]);
+      }
+    } else {
+      for (let da = -1; da <= 1; da++) {
+        for (let db = -1; db <= 1; db++) {
+          if (da !== 0 || db !== 0) offsets.push([da, db]);
+        }
+      }
+    }
+
+    return offsets
+      .map(([da, db]) => this.toCell(a + da, b + db))
+      .filter(neighbor => this.contains(neighbor));
+  }
+
+  private shift(lane: number): number {
+    if (!this.hex) return 0;
+    const odd = Math.abs(lane % 2) === 1;
+    return odd !== this.evenOffset ? 0.5 : 0;
+  }
+
+  private toCell(a: number, b: number): Cell {
+    return this.columnar ? { i: b, j: a } : { i: a, j: b };
+  }
+
+  private clamp(cell: Cell): Cell {
+    return {
+      i: Math.min(Math.max(cell.i, 0), this.columns - 1),
+      j: Math.min(Math.max(cell.j, 0), this.rows - 1)
+    };
+  }
+}
+
+/**
+ * Binary min-heap of cell keys ordered by priority
+ */
+class CellQueue {
+  private keys: number[] = [];
+  private priorities: number[] = [];
+
+  get size(): number {
+    return this.keys.length;
+  }
+
+  push(key: number, priority: number): void {
+    this.keys.push(key);
+    this.priorities.push(priority);
+
+    let index = this.keys.length - 1;
+    while (index > 0) {
+      const parent = (index - 1) >> 1;
+      if (this.priorities[parent] <= this.priorities[index]) break;
+      this.swap(index, parent);
+      index = parent;
+    }
+  }
+
+  pop(): number | undefined {
+    if (this.keys.length === 0) return undefined;
+    const top = this.keys[0];
+    const lastKey = this.keys.pop()!;
+    const lastPriority = this.priorities.pop()!;
+
+    if (this.keys.length > 0) {
+      this.keys[0] = lastKey;
+      this.priorities[0] = lastPriority;
+
+      let index = 0;
+      for (;;) {
+        const left = index * 2 + 1;
+        const right = left + 1;
+        let smallest = index;
+        if (left < this.keys.length && this.priorities[left] < this.priorities[smallest]) {
+          smallest = left;
+        }
+        if (right < this.keys.length && this.priorities[right] < this.priorities[smallest]) {
+          smallest = right;
+        }
+        if (smallest === index) break;
+        this.swap(index, smallest);
+        index = smallest;
+      }
+    }
+
+    return top;
+  }
+
+  private swap(a: number, b: number): void {
+    [this.keys[a], this.keys[b]] = [this.keys[b], this.keys[a]];
+    [this.priorities[a], this.priorities[b]] = [this.priorities[b], this.priorities[a]];
+  }
+}
+
+/**
+ * RoutePlanner finds the cheapest route between two points
+ */
+export class RoutePlanner {
+  private static instance: RoutePlanner;
+
+  static getInstance(): RoutePlanner {
+    if (!RoutePlanner.instance) {
+      RoutePlanner.instance = new RoutePlanner();
+    }
+    return RoutePlanner.instance;
+  }
+
+  /**
+   * Get the cost multiplier for a set of effective tags
+   * @returns Multiplier (>= 0), or Infinity when the tags are impassable
+   */
+  getCostMultiplier(tags: EffectiveTag[], options: RouteOptions = {}): number {
+    const weights = { ...DEFAULT_ROUTE_WEIGHTS, ...options.weights };
+    let multiplier = 1;
+
+    for (const tag of tags) {
+      if (tag.key === 'travel_speed' && options.useTravelSpeed !== false) {
+        const speed = parseFloat(tag.value);
+        if (speed === 0) return Infinity;
+        if (speed > 0) multiplier /= speed;
+      }
+
+      const weight = weights[tag.tag];
+      if (weight !== undefined) multiplier *= weight;
+    }
+
+    return multiplier;
+  }
+
+  /**
+   * Find the least-cost route between two points
+   * @param start - Start point in scene pixels
+   * @param end - End point in scene pixels
+   * @param options - Cost weights and search limits
+   * @param filter - Realms to take into account (default: all)
+   * @returns The route and the realms it traverses (found is false when unreachable)
+   */
+  findRoute(
+    start: PathPoint,
+    end: PathPoint,
+    options: RouteOptions = {},
+    filter: RealmFilter = realms => realms
+  ): RouteResult {
+    const sceneId = options.sceneId || canvas?.scene?.id;
+    const scene = sceneId ? game.scenes?.get(sceneId) : null;
+    const manager = RealmManager.getInstance(sceneId);
+
+    const gridSize = Number(scene?.grid?.size) || DEFAULT_GRID_SIZE;
+    const gridDistance = Number(scene?.grid?.distance);
+    const unitsPerPixel = gridDistance > 0 ? gridDistance / gridSize : 1;
+    const units = scene?.grid?.units || '';
+
+    const empty: RouteResult = {
+      found: false,
+      points: [],
+      distance: 0,
+      cost: 0,
+      units,
+      realms: []
+    };
+    if (!scene) return empty;
+
+    const grid = new RouteGrid(
+      Number(scene.grid?.type) || GRID_SQUARE,
+      gridSize,
+      Number(scene.dimensions?.width ?? scene.width) || gridSize,
+      Number(scene.dimensions?.height ?? scene.height) || gridSize
+    );
+
+    // Cell multipliers are cached for the duration of one search
+    const tagSystem = TagSystem.getInstance();
+    const cellCosts = new Map<number, number>();
+    const cellCost = (key: number): number => {
+      let cost = cellCosts.get(key);
+      if (cost === undefined) {
+        const center = grid.center(grid.fromKey(key));
+        const realms = applyTravelSpeedBehaviors(filter(manager.getRealmsAt(center.x, center.y)));
+        cost = this.getCostMultiplier(tagSystem.resolveEffectiveTags(realms).tags, options);
+        cellCosts.set(key, cost);
+      }
+      return cost;
+    };
+
+    const startKey = grid.key(grid.cellAt(start));
+    const endKey = grid.key(grid.cellAt(end));
+    if (!isFinite(cellCost(startKey)) || !isFinite(cellCost(endKey))) return empty;
+
+    // Keep the heuristic admissible when some realms are cheaper than open ground
+    const included = applyTravelSpeedBehaviors(filter(manager.getAllRealms()));
+    const minMultiplier = this.getMinimumMultiplier(included, options);
+    const endCenter = grid.center(grid.fromKey(endKey));
+    const heuristic = (point: PathPoint): number =>
+      Math.hypot(endCenter.x - point.x, endCenter.y - point.y) * minMultiplier;
+
+    const costs = new Map<number, number>([[startKey, 0]]);
+    const previous = new Map<number, number>();
+    const closed = new Set<number>();
+    const queue = new CellQueue();
+    queue.push(startKey, heuristic(grid.center(grid.fromKey(startKey))));
+
+    const maxNodes = options.maxNodes ?? DEFAULT_MAX_NODES;
+    let found = false;
+
+    while (queue.size > 0 && closed.size < maxNodes) {
+      const key = queue.pop()!;
+      if (closed.has(key)) continue;
+      if (key === endKey) {
+        found = true;
+        break;
+      }
+      closed.add(key);
+
+      const cell = grid.fromKey(key);
+      const center = grid.center(cell);
+      for (const neighbor of grid.neighbors(cell)) {
+        const neighborKey = grid.key(neighbor);
+        if (closed.has(neighborKey)) continue;
+
+        const neighborCost = cellCost(neighborKey);
+        if (!isFinite(neighborCost)) continue;
+
+        // Each half of the step is charged at its own cell's rate
+        const neighborCenter = grid.center(neighbor);
+        const length = Math.hypot(neighborCenter.x - center.x, neighborCenter.y - center.y);
+        const cost = costs.get(key)! + (length * (cellCost(key) + neighborCost)) / 2;
+
+        if (cost < (costs.get(neighborKey) ?? Infinity)) {
+          costs.set(neighborKey, cost);
+          previous.set(neighborKey, key);
+          queue.push(neighborKey, cost + heuristic(neighborCenter));
+        }
+      }
+    }
+
+    if (!found) return empty;
+
+    const centers: PathPoint[] = [];
+    for (let key: number | undefined = endKey; key !== undefined; key = previous.get(key)) {
+      centers.unshift(grid.center(grid.fromKey(key)));
+    }
+
+    // Replace the end cells' centers with the exact start and end points
+    const points = this.simplify([start, ...centers.slice(1, -1), end]);
+    const path = manager.getRealmsAlongPath(points);
+
+    return {
+      found: true,
+      points,
+      distance: path.totalLength,
+      cost: costs.get(endKey)! * unitsPerPixel,
+      units,
+      realms: path.realms.filter(realm => included.some(other => other.id === realm.realmId))
+    };
+  }
+
+  /**
+   * Lowest multiplier any cell in the scene could have
+   */
+  private getMinimumMultiplier(realms: TagSource[], options: RouteOptions): number {
+    const weights = { ...DEFAULT_ROUTE_WEIGHTS, ...options.weights };
+    let minimum = Object.values(weights).reduce((product, w) => product * Math.min(1, w), 1);
+
+    if (options.useTravelSpeed !== false) {
+      let fastest = 1;
+      for (const realm of realms) {
+        const tag = realm.getTags().find(t => t.startsWith('travel_speed:'));
+        const speed = parseFloat(tag?.slice('travel_speed:'.length) || '');
+        if (speed > fastest) fastest = speed;
+      }
+      minimum /= fastest;
+    }
+
+    return minimum;
+  }
+
+  /**
+   * Drop waypoints that lie on a straight line between their neighbours
+   */
+  private simplify(points: PathPoint[]): PathPoint[] {
+    if (points.length < 3) return points;
+
+    const result = [points[0]];
+    for (let i = 1; i < points.length - 1; i++) {
+      const a = result[result.length - 1];
+      const b = points[i];
+      const c = points[i + 1];
+      const cross = (b.x - a.x) * (c.y - a.y) - (b.y - a.y) * (c.x - a.x);
+      if (Math.abs(cross) > 1e-6) result.push(b);
+    }
+    result.push(points[points.length - 1]);
+    return result;
+  }
+}
@@ -2,6 +2,12 @@
  * Module Settings Registration
  */
 
+import { TagSystem } from './tag-system';
+import { TagVocabularyConfig } from './tag-vocabulary-config';
+import { RealmLabels } from './realm-labels';
+import { ThematicOverlay } from './thematic-overlay';
+import { PlayerRealmMap } from './player-realm-map';
+
 export function registerSettings(): void {
   // Auto-save realms when modified
   game.settings.register('realms-and-reaches', 'autoSave', {
@@ -32,4 +38,111 @@ export function registerSettings(): void {
     type: Boolean,
     default: true
   });
+
+  // Snap realm drawing and editing to nearby realm outlines. Hidden until the
+  // realm layer that reads it is registered with the canvas
+  game.settings.register('realms-and-reaches', 'snapToRealms', {
+    name: 'Snap to Neighbouring Realms',
+    hint: 'Snap realm drawing and editing to the vertices and edges of nearby realms, so borders line up without gaps',
+    scope: 'client',
+    config: false,
+    type: Boolean,
+    default: true
+  });
+
+  // Move vertices shared with neighbouring realms together. Hidden until the
+  // realm layer that reads it is registered with the canvas
+  game.settings.register('realms-and-reaches', 'sharedBorders', {
+    name: 'Shared Border Editing',
+    hint: 'Dragging a vertex that a neighbouring realm also uses moves it in both realms',
+    scope: 'client',
+    config: false,
+    type: Boolean,
+    default: false
+  });
+
+  // Who sees realm names drawn on the canvas, chosen on each user's client
+  game.settings.register('realms-and-reaches', 'showLabels', {
+    name: 'REALMS_AND_REACHES.Settings.ShowLabels.Name',
+    hint: 'REALMS_AND_REACHES.Settings.ShowLabels.Hint',
+    scope: 'client',
+    config: true,
+    type: String,
+    choices: {
+      gm: 'REALMS_AND_REACHES.Settings.ShowLabels.GM',
+      everyone: 'REALMS_AND_REACHES.Settings.ShowLabels.Everyone',
+      hidden: 'REALMS_AND_REACHES.Settings.ShowLabels.Hidden'
+    },
+    default: 'gm',
+    onChange: () => RealmLabels.getInstance().draw()
+  });
+
+  // Draw discovered realms on players' canvases
+  game.settings.register('realms-and-reaches', 'showDiscoveredRealms', {
+    name: 'Show Discovered Realms to Players',
+    hint: 'Fill explored realms and outline rumoured ones on player canvases',
+    scope: 'world',
+    config: true,
+    type: Boolean,
+    default: true,
+    onChange: () => PlayerRealmMap.getInstance().draw()
+  });
+
+  // Explore realms as party tokens move
+  game.settings.register('realms-and-reaches', 'autoDiscovery', {
+    name: 'Discover Realms from Token Movement',
+    hint: 'Mark realms explored for the party when a player-owned token enters them or comes within the discovery radius',
+    scope: 'world',
+    config: true,
+    type: Boolean,
+    default: false
+  });
+
+  // Sight radius for automatic discovery, in scene distance units
+  game.settings.register('realms-and-reaches', 'discoveryRadius', {
+    name: 'Discovery Radius',
+    hint: 'How far from a party token realms are discovered, in scene distance units. At 0 a token must enter a realm.',
+    scope: 'world',
+    config: true,
+    type: Number,
+    default: 0
+  });
+
+  // Namespace shown by the thematic overlay ('' when off)
+  game.settings.register('realms-and-reaches', 'thematicNamespace', {
+    name: 'Thematic Overlay Namespace',
+    scope: 'client',
+    config: false,
+    type: String,
+    default: '',
+    onChange: () => ThematicOverlay.getInstance().draw()
+  });
+
+  // World tag vocabulary (namespace labels, colours, suggestions and ranges)
+  game.settings.register('realms-and-reaches', 'tagVocabulary', {
+    name: 'Tag Vocabulary',
+    scope: 'world',
+    config: false,
+    type: Object,
+    default: {},
+    onChange: (value: any) => TagSystem.getInstance().setVocabulary(value)
+  });
+
+  // Biome ID to tag table used by the Azgaar map importer
+  game.settings.register('realms-and-reaches', 'azgaarBiomeTags', {
+    name: 'Azgaar Biome Tags',
+    scope: 'world',
+    config: false,
+    type: Object,
+    default: {}
+  });
+
+  game.settings.registerMenu('realms-and-reaches', 'tagVocabularyMenu', {
+    name: 'Tag Vocabulary',
+    label: 'Edit Tag Vocabulary',
+    hint: 'Add namespaces and edit the suggestions, colours and value ranges used for realm tags',
+    icon: 'fas fa-tags',
+    type: TagVocabularyConfig,
+    restricted: true
+  });
 }
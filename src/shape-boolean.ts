@@ -0,0 +1,359 @@
+/**
+ * Shape Boolean - Union, difference, intersection and splitting of Region shapes
+ *
+ * Works on whole shape sets: every outline edge is cut where it crosses
+ * another, each piece is kept if the result is filled on one side of it but
+ * not the other, and the kept pieces are walked into rings. Ellipses and
+ * circles are converted to polygons first, so results are always polygon
+ * shapes, with holes marked.
+ */
+
+import {
+  PathPoint,
+  pointInPolygon,
+  pointInShapes,
+  polygonArea,
+  shapeToPolygon
+} from './path-geometry';
+
+export type BooleanOperation = 'union' | 'difference' | 'intersection';
+
+// Coordinates are rounded to this fraction of a pixel so shared points match
+const PRECISION = 1000;
+
+// Distance either side of an edge tested to see which side is filled, in pixels
+const SIDE_OFFSET = 0.01;
+
+// Rings smaller than this many square pixels are dropped
+const MIN_AREA = 0.01;
+
+interface Edge {
+  a: PathPoint;
+  b: PathPoint;
+  cut?: boolean; // Part of a split line rather than a shape outline
+}
+
+interface EdgeHit {
+  t: number; // Fraction along the edge
+  point: PathPoint;
+}
+
+const snap = (value: number) => Math.round(value * PRECISION) / PRECISION;
+const keyOf = (point: PathPoint) => `${point.x},${point.y}`;
+const cross = (ax: number, ay: number, bx: number, by: number) => ax * by - ay * bx;
+
+/**
+ * Convert shapes to polygon shapes on the shared coordinate grid
+ */
+function toPolygons(shapes: any[]): any[] {
+  return shapes
+    .map(shape => ({
+      type: 'polygon',
+      points: shapeToPolygon(shape).map(snap),
+      ...(shape.hole ? { hole: true } : {})
+    }))
+    .filter(shape => shape.points.length >= 6);
+}
+
+/**
+ * Get the edges of a flat [x1, y1, x2, y2, ...] ring
+ */
+function ringEdges(points: number[], closed = true, cut = false): Edge[] {
+  const edges: Edge[] = [];
+  const count = points.length / 2;
+  for (let i = 0; i < (closed ? count : count - 1); i++) {
+    const j = (i + 1) % count;
+    const a = { x: points[i * 2], y: points[i * 2 + 1] };
+    const b = { x: points[j * 2], y: points[j * 2 + 1] };
+    if (keyOf(a) !== keyOf(b)) edges.push(cut ? { a, b, cut } : { a, b });
+  }
+  return edges;
+}
+
+/**
+ * Find where two edges touch, as points along each of them
+ *
+ * Only points strictly inside an edge are returned, since edges are never
+ * split at their own ends. Collinear edges split each other at their ends.
+ */
+function intersectEdges(p: Edge, q: Edge): { onP: EdgeHit[]; onQ: EdgeHit[] } {
+  const onP: EdgeHit[] = [];
+  const onQ: EdgeHit[] = [];
+  const dx = p.b.x - p.a.x;
+  const dy = p.b.y - p.a.y;
+  const ex = q.b.x - q.a.x;
+  const ey = q.b.y - q.a.y;
+  const pLength = Math.hypot(dx, dy);
+  const qLength = Math.hypot(ex, ey);
+  const denom = cross(dx, dy, ex, ey);
+  const inside = (t: number) => t > 1e-9 && t < 1 - 1e-9;
+
+  if (Math.abs(denom) < 1e-10 * pLength * qLength) {
+    // Parallel: only collinear edges touch
+    if (Math.abs(cross(q.a.x - p.a.x, q.a.y - p.a.y, dx, dy)) / pLength > 1 / PRECISION) {
+      return { onP, onQ };
+    }
+    for (const point of [q.a, q.b]) {
+      const t = ((point.x - p.a.x) * dx + (point.y - p.a.y) * dy) / (pLength * pLength);
+      if (inside(t)) onP.push({ t, point });
+    }
+    for (const point of [p.a, p.b]) {
+      const t = ((point.x - q.a.x) * ex + (point.y - q.a.y) * ey) / (qLength * qLength);
+      if (inside(t)) onQ.push({ t, point });
+    }
+    return { onP, onQ };
+  }
+
+  const t = cross(q.a.x - p.a.x, q.a.y - p.a.y, ex, ey) / denom;
+  const u = cross(q.a.x - p.a.x, q.a.y - p.a.y, dx, dy) / denom;
+  const epsilon = 1e-9;
+  if (t < -epsilon || t > 1 + epsilon || u < -epsilon || u > 1 + epsilon) {
+    return { onP, onQ };
+  }
+
+  // Reuse existing vertices where the edges meet at one, so the keys match
+  let point: PathPoint;
+  if (t <= epsilon) point = p.a;
+  else if (t >= 1 - epsilon) point = p.b;
+  else if (u <= epsilon) point = q.a;
+  else if (u >= 1 - epsilon) point = q.b;
+  else point = { x: snap(p.a.x + t * dx), y: snap(p.a.y + t * dy) };
+
+  if (inside(t)) onP.push({ t, point });
+  if (inside(u)) onQ.push({ t: u, point });
+  return { onP, onQ };
+}
+
+/**
+ * Cut every edge at the points where it touches another edge
+ */
+function splitEdges(edges: Edge[]): Edge[] {
+  const hits: EdgeHit[][] = edges.map(() => []);
+  for (let i = 0; i < edges.length; i++) {
+    for (let j = i + 1; j < edges.length; j++) {
+      const { onP, onQ } = intersectEdges(edges[i], edges[j]);
+      hits[i].push(...onP);
+      hits[j].push(...onQ);
+    }
+  }
+
+  const pieces: Edge[] = [];
+  edges.forEach((edge, index) => {
+    const points = [edge.a, ...hits[index].sort((a, b) => a.t - b.t).map(hit => hit.point), edge.b];
+    for (let i = 0; i < points.length - 1; i++) {
+      if (keyOf(points[i]) === keyOf(points[i + 1])) continue;
+      pieces.push({ ...edge, a: points[i], b: points[i + 1] });
+    }
+  });
+  return pieces;
+}
+
+/**
+ * Test whether the points just left and right of an edge are filled
+ *
+ * Left is the side with a positive cross product, so outer rings traced with
+ * the filled area on their left have a positive polygonArea.
+ */
+function edgeSides(edge: Edge, inside: (x: number, y: number) => boolean): [boolean, boolean] {
+  const dx = edge.b.x - edge.a.x;
+  const dy = edge.b.y - edge.a.y;
+  const length = Math.hypot(dx, dy);
+  const offset = Math.min(SIDE_OFFSET, length / 4) / length;
+  const mx = (edge.a.x + edge.b.x) / 2;
+  const my = (edge.a.y + edge.b.y) / 2;
+  return [inside(mx - dy * offset, my + dx * offset), inside(mx + dy * offset, my - dx * offset)];
+}
+
+/**
+ * Keep the edges on the border of a filled area, turned so it is on their left
+ */
+function borderEdges(edges: Edge[], inside: (x: number, y: number) => boolean): Edge[] {
+  const kept = new Map<string, Edge>();
+  for (const edge of edges) {
+    const [left, right] = edgeSides(edge, inside);
+    if (left === right) continue;
+    const turned = left ? edge : { a: edge.b, b: edge.a };
+    kept.set(`${keyOf(turned.a)}>${keyOf(turned.b)}`, turned);
+  }
+  return Array.from(kept.values());
+}
+
+/**
+ * Walk directed edges into closed rings
+ *
+ * Where several edges leave a vertex, the sharpest left turn is taken so each
+ * ring follows one filled area and rings touching at a point stay apart.
+ */
+function traceRings(edges: Edge[]): number[][] {
+  const outgoing = new Map<string, Edge[]>();
+  for (const edge of edges) {
+    const key = keyOf(edge.a);
+    if (!outgoing.has(key)) outgoing.set(key, []);
+    outgoing.get(key)!.push(edge);
+  }
+
+  const turn = (from: Edge, to: Edge) => {
+    const dx = from.b.x - from.a.x;
+    const dy = from.b.y - from.a.y;
+    const ex = to.b.x - to.a.x;
+    const ey = to.b.y - to.a.y;
+    const side = cross(dx, dy, ex, ey);
+    const ahead = dx * ex + dy * ey;
+    // Turning straight back is the last resort
+    return side === 0 && ahead < 0 ? -Math.PI : Math.atan2(side, ahead);
+  };
+
+  const used = new Set<Edge>();
+  const rings: number[][] = [];
+  for (const start of edges) {
+    if (used.has(start)) continue;
+
+    const ring: number[] = [];
+    let edge = start;
+    while (true) {
+      used.add(edge);
+      ring.push(edge.a.x, edge.a.y);
+
+      const candidates = (outgoing.get(keyOf(edge.b)) || []).filter(
+        next => next === start || !used.has(next)
+      );
+      if (candidates.length === 0) break;
+      const from = edge;
+      const next = candidates.reduce((best, candidate) =>
+        turn(from, candidate) > turn(from, best) ? candidate : best
+      );
+      if (next === start) {
+        rings.push(removeCollinear(ring));
+        break;
+      }
+      edge = next;
+    }
+  }
+
+  return rings.filter(ring => ring.length >= 6 && Math.abs(polygonArea(ring)) >= MIN_AREA);
+}
+
+/**
+ * Drop vertices in the middle of straight runs
+ */
+function removeCollinear(ring: number[]): number[] {
+  let points = ring;
+  let changed = true;
+  while (changed && points.length > 6) {
+    changed = false;
+    const count = points.length / 2;
+    for (let i = 0; i < count; i++) {
+      const h = (i + count - 1) % count;
+      const j = (i + 1) % count;
+      const ax = points[i * 2] - points[h * 2];
+      const ay = points[i * 2 + 1] - points[h * 2 + 1];
+      const bx = points[j * 2] - points[i * 2];
+      const by = points[j * 2 + 1] - points[i * 2 + 1];
+      const length = Math.hypot(ax, ay) * Math.hypot(bx, by);
+      if (Math.abs(cross(ax, ay, bx, by)) <= 1e-9 * length && ax * bx + ay * by > 0) {
+        points = [...points.slice(0, i * 2), ...points.slice(i * 2 + 2)];
+        changed = true;
+        break;
+      }
+    }
+  }
+  return points;
+}
+
+/**
+ * Convert traced rings to Region shapes, outlines before holes
+ */
+function ringsToPolygons(rings: number[][]): any[] {
+  const outlines = rings.filter(ring => polygonArea(ring) > 0);
+  const holes = rings.filter(ring => polygonArea(ring) < 0);
+  return [
+    ...outlines.map(points => ({ type: 'polygon', points })),
+    ...holes.map(points => ({ type: 'polygon', points, hole: true }))
+  ];
+}
+
+/**
+ * Combine two sets of Region shapes
+ * @param operation - union (either), difference (a but not b) or intersection (both)
+ * @returns Polygon shapes covering the result, empty if nothing is left
+ */
+export function booleanShapes(a: any[], b: any[], operation: BooleanOperation): any[] {
+  const first = toPolygons(a);
+  const second = toPolygons(b);
+  const combine = {
+    union: (inA: boolean, inB: boolean) => inA || inB,
+    difference: (inA: boolean, inB: boolean) => inA && !inB,
+    intersection: (inA: boolean, inB: boolean) => inA && inB
+  }[operation];
+
+  const edges = [...first, ...second].flatMap(shape => ringEdges(shape.points));
+  const inside = (x: number, y: number) =>
+    combine(pointInShapes(x, y, first), pointInShapes(x, y, second));
+  return ringsToPolygons(traceRings(borderEdges(splitEdges(edges), inside)));
+}
+
+/**
+ * Remove cut edges leading to vertices nothing else touches
+ */
+function pruneDeadEnds(edges: Edge[]): Edge[] {
+  let remaining = edges;
+  while (true) {
+    const neighbours = new Map<string, Set<string>>();
+    for (const edge of remaining) {
+      const a = keyOf(edge.a);
+      if (!neighbours.has(a)) neighbours.set(a, new Set());
+      neighbours.get(a)!.add(keyOf(edge.b));
+    }
+    const deadEnd = (point: PathPoint) => (neighbours.get(keyOf(point))?.size ?? 0) < 2;
+    const kept = remaining.filter(edge => !edge.cut || (!deadEnd(edge.a) && !deadEnd(edge.b)));
+    if (kept.length === remaining.length) return kept;
+    remaining = kept;
+  }
+}
+
+/**
+ * Cut a set of Region shapes into pieces along a line
+ *
+ * The line must cross the shapes completely to cut them; parts of it that
+ * end inside the shapes are ignored.
+ * @param line - The points of the cutting line, in order
+ * @returns The shapes of each piece, largest first; a single piece if the line cuts nothing
+ */
+export function splitShapes(shapes: any[], line: PathPoint[]): any[][] {
+  const polygons = toPolygons(shapes);
+  const inside = (x: number, y: number) => pointInShapes(x, y, polygons);
+  const outline = polygons.flatMap(shape => ringEdges(shape.points));
+  const cut = ringEdges(
+    line.flatMap(point => [snap(point.x), snap(point.y)]),
+    false,
+    true
+  );
+
+  // Outline edges bound the pieces on one side; cut edges inside bound one piece on each side
+  const pieces = splitEdges([...outline, ...cut]);
+  const edges = borderEdges(
+    pieces.filter(edge => !edge.cut),
+    inside
+  );
+  for (const edge of pieces.filter(edge => edge.cut)) {
+    const [left, right] = edgeSides(edge, inside);
+    if (left && right) edges.push(edge, { a: edge.b, b: edge.a, cut: true });
+  }
+
+  const rings = traceRings(pruneDeadEnds(edges));
+  const outlines = rings
+    .filter(ring => polygonArea(ring) > 0)
+    .sort((a, b) => polygonArea(b) - polygonArea(a));
+  const holes = rings.filter(ring => polygonArea(ring) < 0);
+
+  // Each hole belongs to the smallest piece around it
+  const result: any[][] = outlines.map(points => [{ type: 'polygon', points }]);
+  for (const hole of holes) {
+    let owner = -1;
+    outlines.forEach((points, index) => {
+      if (pointInPolygon(hole[0], hole[1], points)) owner = index;
+    });
+    if (owner >= 0) result[owner].push({ type: 'polygon', points: hole, hole: true });
+  }
+  return result;
+}
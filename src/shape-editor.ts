@@ -0,0 +1,286 @@
+/**
+ * Shape Editor - Vertex-level edits of Region shape data
+ *
+ * Pure helpers behind the realm layer's editing mode, including snapping to
+ * neighbouring realms. Every edit returns a new shapes array and leaves the
+ * input untouched, so a drag can always be replayed from the shapes it
+ * started with.
+ */
+
+import { PathPoint, closestPointOnSegment, pointInShape } from './path-geometry';
+
+// Distance of the rotation handle beyond a rectangle's top edge, in pixels
+export const ROTATE_HANDLE_OFFSET = 30;
+
+/**
+ * A part of a shape that can be picked up and dragged
+ */
+export type ShapeHandle =
+  | { kind: 'vertex'; shape: number; index: number }
+  | { kind: 'rotate'; shape: number }
+  | { kind: 'body'; shape: number };
+
+/**
+ * A point on a polygon edge where a vertex can be inserted
+ */
+export interface ShapeEdge {
+  shape: number;
+  index: number; // Index the new vertex will take
+  point: PathPoint;
+}
+
+/**
+ * Get the position of a rectangle's rotation handle
+ */
+export function getRotateHandle(shape: any): PathPoint {
+  const { x = 0, y = 0, width = 0, height = 0, rotation = 0 } = shape;
+  const angle = (rotation * Math.PI) / 180;
+  const reach = height / 2 + ROTATE_HANDLE_OFFSET;
+  return {
+    x: x + width / 2 + Math.sin(angle) * reach,
+    y: y + height / 2 - Math.cos(angle) * reach
+  };
+}
+
+/**
+ * Find the handle under a point
+ *
+ * Vertices and rotation handles win over shape bodies, and later shapes win
+ * over earlier ones, so holes can be picked inside the shape they cut.
+ * @param tolerance - How far from a vertex or handle still picks it, in pixels
+ */
+export function findHandle(
+  shapes: any[],
+  x: number,
+  y: number,
+  tolerance: number
+): ShapeHandle | null {
+  const near = (point: PathPoint) => Math.hypot(point.x - x, point.y - y) <= tolerance;
+
+  for (let shape = shapes.length - 1; shape >= 0; shape--) {
+    const data = shapes[shape];
+    if (data.type === 'polygon') {
+      const points: number[] = data.points || [];
+      for (let index = 0; index < points.length / 2; index++) {
+        if (near({ x: points[index * 2], y: points[index * 2 + 1] })) {
+          return { kind: 'vertex', shape, index };
+        }
+      }
+    } else if (data.type === 'rectangle' && near(getRotateHandle(data))) {
+      return { kind: 'rotate', shape };
+    }
+  }
+
+  for (let shape = shapes.length - 1; shape >= 0; shape--) {
+    if (pointInShape(x, y, shapes[shape])) return { kind: 'body', shape };
+  }
+  return null;
+}
+
+/**
+ * Find the polygon edge nearest a point
+ * @param tolerance - Furthest the point may be from the edge, in pixels
+ */
+export function findEdge(shapes: any[], x: number, y: number, tolerance: number): ShapeEdge | null {
+  let best: ShapeEdge | null = null;
+  let bestDistance = tolerance;
+
+  shapes.forEach((data, shape) => {
+    if (data.type !== 'polygon') return;
+    const points: number[] = data.points || [];
+    const count = points.length / 2;
+
+    for (let i = 0; i < count; i++) {
+      const j = (i + 1) % count;
+      const point = closestPointOnSegment(
+        { x, y },
+        { x: points[i * 2], y: points[i * 2 + 1] },
+        { x: points[j * 2], y: points[j * 2 + 1] }
+      );
+      const distance = Math.hypot(point.x - x, point.y - y);
+      if (distance <= bestDistance) {
+        best = { shape, index: i + 1, point };
+        bestDistance = distance;
+      }
+    }
+  });
+
+  return best;
+}
+
+/**
+ * Replace one shape of a shapes array
+ */
+function replaceShape(shapes: any[], index: number, shape: any): any[] {
+  return shapes.map((existing, i) => (i === index ? shape : existing));
+}
+
+/**
+ * Move a polygon vertex
+ */
+export function moveVertex(
+  shapes: any[],
+  shape: number,
+  index: number,
+  x: number,
+  y: number
+): any[] {
+  const points = [...shapes[shape].points];
+  points[index * 2] = x;
+  points[index * 2 + 1] = y;
+  return replaceShape(shapes, shape, { ...shapes[shape], points });
+}
+
+/**
+ * Insert a polygon vertex so it takes the given index
+ */
+export function insertVertex(
+  shapes: any[],
+  shape: number,
+  index: number,
+  x: number,
+  y: number
+): any[] {
+  const points = [...shapes[shape].points];
+  points.splice(index * 2, 0, x, y);
+  return replaceShape(shapes, shape, { ...shapes[shape], points });
+}
+
+/**
+ * Remove a polygon vertex
+ * @throws Error if the polygon would have fewer than three vertices
+ */
+export function deleteVertex(shapes: any[], shape: number, index: number): any[] {
+  const points = [...shapes[shape].points];
+  if (points.length <= 6) {
+    throw new Error('A polygon needs at least 3 vertices');
+  }
+  points.splice(index * 2, 2);
+  return replaceShape(shapes, shape, { ...shapes[shape], points });
+}
+
+/**
+ * Move a whole shape
+ */
+export function translateShape(shapes: any[], shape: number, dx: number, dy: number): any[] {
+  const data = shapes[shape];
+  const moved =
+    data.type === 'polygon'
+      ? {
+          ...data,
+          points: (data.points || []).map((value: number, i: number) =>
+            i % 2 ? value + dy : value + dx
+          )
+        }
+      : { ...data, x: (data.x || 0) + dx, y: (data.y || 0) + dy };
+  return replaceShape(shapes, shape, moved);
+}
+
+/**
+ * Rotate a rectangle so its rotation handle points at a position
+ * @param snap - Round the rotation to multiples of this many degrees (0 for none)
+ */
+export function rotateRectangle(
+  shapes: any[],
+  shape: number,
+  x: number,
+  y: number,
+  snap = 0
+): any[] {
+  const data = shapes[shape];
+  const cx = (data.x || 0) + (data.width || 0) / 2;
+  const cy = (data.y || 0) + (data.height || 0) / 2;
+
+  let rotation = (Math.atan2(x - cx, cy - y) * 180) / Math.PI;
+  if (snap > 0) rotation = Math.round(rotation / snap) * snap;
+  rotation = ((rotation % 360) + 360) % 360;
+
+  return replaceShape(shapes, shape, { ...data, rotation });
+}
+
+/**
+ * Get the draggable vertices of a shape, for drawing handles
+ */
+export function getShapeVertices(shape: any): PathPoint[] {
+  if (shape.type !== 'polygon') return [];
+
+  const points: number[] = shape.points || [];
+  const vertices: PathPoint[] = [];
+  for (let i = 0; i < points.length; i += 2) {
+    vertices.push({ x: points[i], y: points[i + 1] });
+  }
+  return vertices;
+}
+
+/**
+ * A polygon vertex of a realm
+ */
+export interface RealmVertex {
+  realmId: string;
+  shape: number;
+  index: number;
+}
+
+/**
+ * Snap a point to the nearest vertex or edge of some outline rings
+ *
+ * Vertices within the tolerance win over edges, so corners line up exactly.
+ * @param rings - Flat [x1, y1, x2, y2, ...] outlines to snap to
+ * @returns null if nothing is within the tolerance
+ */
+export function snapToRings(
+  x: number,
+  y: number,
+  rings: number[][],
+  tolerance: number
+): PathPoint | null {
+  let vertex: PathPoint | null = null;
+  let vertexDistance = tolerance;
+  let edge: PathPoint | null = null;
+  let edgeDistance = tolerance;
+
+  for (const ring of rings) {
+    const count = ring.length / 2;
+    for (let i = 0; i < count; i++) {
+      const a = { x: ring[i * 2], y: ring[i * 2 + 1] };
+      const distance = Math.hypot(a.x - x, a.y - y);
+      if (distance <= vertexDistance) {
+        vertex = a;
+        vertexDistance = distance;
+      }
+
+      const j = (i + 1) % count;
+      const point = closestPointOnSegment({ x, y }, a, { x: ring[j * 2], y: ring[j * 2 + 1] });
+      const toEdge = Math.hypot(point.x - x, point.y - y);
+      if (toEdge <= edgeDistance) {
+        edge = point;
+        edgeDistance = toEdge;
+      }
+    }
+  }
+
+  return vertex || edge;
+}
+
+/**
+ * Find the polygon vertices of some realms that sit on a point
+ * @param epsilon - How far apart two vertices may be and still count as shared
+ */
+export function findSharedVertices(
+  realms: { id: string; shapes: any[] }[],
+  x: number,
+  y: number,
+  epsilon = 0.5
+): RealmVertex[] {
+  const shared: RealmVertex[] = [];
+  for (const realm of realms) {
+    realm.shapes.forEach((shape, index) => {
+      getShapeVertices(shape).forEach((vertex, vertexIndex) => {
+        if (Math.hypot(vertex.x - x, vertex.y - y) <= epsilon) {
+          shared.push({ realmId: realm.id, shape: index, index: vertexIndex });
+        }
+      });
+    });
+  }
+  return shared;
+}
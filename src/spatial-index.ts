@@ -0,0 +1,196 @@
+/**
+ * SpatialIndex - Uniform grid index for realm bounding boxes
+ *
+ * Buckets realm bounds into fixed-size grid cells so point and area
+ * queries only need to test the realms that share a cell with the query,
+ * instead of every region in the scene.
+ */
+
+export interface IndexBounds {
+  x: number;
+  y: number;
+  width: number;
+  height: number;
+}
+
+interface IndexEntry {
+  bounds: IndexBounds;
+  cells: string[];
+}
+
+/**
+ * Default cell edge length in scene pixels
+ */
+export const DEFAULT_CELL_SIZE = 512;
+
+/**
+ * SpatialIndex maps realm IDs to the grid cells covered by their bounds
+ */
+export class SpatialIndex {
+  private readonly cellSize: number;
+  private entries = new Map<string, IndexEntry>();
+  private cells = new Map<string, Set<string>>();
+
+  constructor(cellSize: number = DEFAULT_CELL_SIZE) {
+    this.cellSize = cellSize > 0 ? cellSize : DEFAULT_CELL_SIZE;
+  }
+
+  /**
+   * Number of indexed entries
+   */
+  get size(): number {
+    return this.entries.size;
+  }
+
+  /**
+   * Check if an ID is indexed
+   */
+  has(id: string): boolean {
+    return this.entries.has(id);
+  }
+
+  /**
+   * Add or replace an entry
+   * @param id - Realm ID
+   * @param bounds - Axis-aligned bounding box in scene pixels
+   */
+  insert(id: string, bounds: IndexBounds): void {
+    this.remove(id);
+
+    if (!this.isValidBounds(bounds)) return;
+
+    const cells = this.getCellKeys(bounds);
+    for (const key of cells) {
+      let bucket = this.cells.get(key);
+      if (!bucket) {
+        bucket = new Set();
+        this.cells.set(key, bucket);
+      }
+      bucket.add(id);
+    }
+
+    this.entries.set(id, { bounds: { ...bounds }, cells });
+  }
+
+  /**
+   * Remove an entry
+   * @returns True if the entry was indexed
+   */
+  remove(id: string): boolean {
+    const entry = this.entries.get(id);
+    if (!entry) return false;
+
+    for (const key of entry.cells) {
+      const bucket = this.cells.get(key);
+      if (!bucket) continue;
+      bucket.delete(id);
+      if (bucket.size === 0) {
+        this.cells.delete(key);
+      }
+    }
+
+    this.entries.delete(id);
+    return true;
+  }
+
+  /**
+   * Remove all entries
+   */
+  clear(): void {
+    this.entries.clear();
+    this.cells.clear();
+  }
+
+  /**
+   * Get IDs whose bounds contain a point
+   */
+  queryPoint(x: number, y: number): string[] {
+    const bucket = this.cells.get(this.cellKey(this.toCell(x), this.toCell(y)));
+    if (!bucket) return [];
+
+    const results: string[] = [];
+    for (const id of bucket) {
+      const { bounds } = this.entries.get(id)!;
+      if (
+        x >= bounds.x &&
+        x <= bounds.x + bounds.width &&
+        y >= bounds.y &&
+        y <= bounds.y + bounds.height
+      ) {
+        results.push(id);
+      }
+    }
+    return results;
+  }
+
+  /**
+   * Get IDs whose bounds intersect an area
+   */
+  queryBounds(area: IndexBounds): string[] {
+    if (!this.isValidBounds(area)) return [];
+
+    const seen = new Set<string>();
+    const results: string[] = [];
+
+    for (const key of this.getCellKeys(area)) {
+      const bucket = this.cells.get(key);
+      if (!bucket) continue;
+
+      for (const id of bucket) {
+        if (seen.has(id)) continue;
+        seen.add(id);
+
+        const { bounds } = this.entries.get(id)!;
+        if (
+          !(
+            area.x + area.width < bounds.x ||
+            bounds.x + bounds.width < area.x ||
+            area.y + area.height < bounds.y ||
+            bounds.y + bounds.height < area.y
+          )
+        ) {
+          results.push(id);
+        }
+      }
+    }
+
+    return results;
+  }
+
+  /**
+   * Get the cell keys covered by a bounding box
+   */
+  private getCellKeys(bounds: IndexBounds): string[] {
+    const minCol = this.toCell(bounds.x);
+    const maxCol = this.toCell(bounds.x + bounds.width);
+    const minRow = this.toCell(bounds.y);
+    const maxRow = this.toCell(bounds.y + bounds.height);
+
+    const keys: string[] = [];
+    for (let col = minCol; col <= maxCol; col++) {
+      for (let row = minRow; row <= maxRow; row++) {
+        keys.push(this.cellKey(col, row));
+      }
+    }
+    return keys;
+  }
+
+  private toCell(value: number): number {
+    return Math.floor(value / this.cellSize);
+  }
+
+  private cellKey(col: number, row: number): string {
+    return `${col},${row}`;
+  }
+
+  private isValidBounds(bounds: IndexBounds): boolean {
+    return (
+      Number.isFinite(bounds.x) &&
+      Number.isFinite(bounds.y) &&
+      Number.isFinite(bounds.width) &&
+      Number.isFinite(bounds.height) &&
+      bounds.width >= 0 &&
+      bounds.height >= 0
+    );
+  }
+}
@@ -0,0 +1,251 @@
+/**
+ * TagQuery - Boolean query language for realm tags
+ *
+ * Queries combine tag tests with AND, OR, NOT and parentheses:
+ *
+ *   biome:forest AND (terrain:dense OR custom:haunted) AND NOT resources:timber
+ *   travel_speed < 0.75
+ *   elevation
+ *
+ * A `key:value` term matches that exact tag, a bare key matches any tag in the
+ * namespace, and `key <op> value` compares tag values (<, <=, >, >=, =, !=).
+ * Adjacent terms without an operator are ANDed. Keywords are case-insensitive.
+ */
+
+export type TagQueryOperator = '<' | '<=' | '>' | '>=' | '=' | '!=';
+
+export type TagQueryNode =
+  | { type: 'and'; left: TagQueryNode; right: TagQueryNode }
+  | { type: 'or'; left: TagQueryNode; right: TagQueryNode }
+  | { type: 'not'; operand: TagQueryNode }
+  | { type: 'tag'; tag: string }
+  | { type: 'key'; key: string }
+  | { type: 'compare'; key: string; operator: TagQueryOperator; value: string };
+
+interface QueryToken {
+  type: 'word' | 'operator' | 'lparen' | 'rparen' | 'and' | 'or' | 'not';
+  text: string;
+  position: number;
+}
+
+/**
+ * Thrown when a query cannot be parsed
+ */
+export class TagQueryError extends Error {
+  constructor(
+    message: string,
+    public position: number
+  ) {
+    super(`${message} (at position ${position + 1})`);
+    this.name = 'TagQueryError';
+  }
+}
+
+const WORD_PATTERN = /[a-z0-9_.:*-]/i;
+const OPERATORS: TagQueryOperator[] = ['<=', '>=', '!=', '<', '>', '='];
+
+/**
+ * Split a query into tokens
+ */
+function tokenize(query: string): QueryToken[] {
+  const tokens: QueryToken[] = [];
+  let i = 0;
+
+  while (i < query.length) {
+    const char = query[i];
+
+    if (/\s/.test(char)) {
+      i++;
+    } else if (char === '(' || char === ')') {
+      tokens.push({ type: char === '(' ? 'lparen' : 'rparen', text: char, position: i });
+      i++;
+    } else if ('<>=!'.includes(char)) {
+      const operator = OPERATORS.find(op => query.startsWith(op, i));
+      if (!operator) throw new TagQueryError(`Unexpected "${char}"`, i);
+      tokens.push({ type: 'operator', text: operator, position: i });
+      i += operator.length;
+    } else if (WORD_PATTERN.test(char)) {
+      const start = i;
+      while (i < query.length && WORD_PATTERN.test(query[i])) i++;
+      const text = query.slice(start, i);
+      const keyword = text.toLowerCase();
+      const type = keyword === 'and' || keyword === 'or' || keyword === 'not' ? keyword : 'word';
+      tokens.push({ type, text, position: start });
+    } else {
+      throw new TagQueryError(`Unexpected "${char}"`, i);
+    }
+  }
+
+  return tokens;
+}
+
+/**
+ * Recursive descent parser; NOT binds tighter than AND, which binds tighter than OR
+ */
+class QueryParser {
+  private index = 0;
+
+  constructor(
+    private tokens: QueryToken[],
+    private length: number
+  ) {}
+
+  parse(): TagQueryNode {
+    if (this.tokens.length === 0) throw new TagQueryError('Query is empty', 0);
+
+    const node = this.parseOr();
+    const extra = this.peek();
+    if (extra) throw new TagQueryError(`Unexpected "${extra.text}"`, extra.position);
+    return node;
+  }
+
+  private parseOr(): TagQueryNode {
+    let left = this.parseAnd();
+    while (this.peek()?.type === 'or') {
+      this.index++;
+      left = { type: 'or', left, right: this.parseAnd() };
+    }
+    return left;
+  }
+
+  private parseAnd(): TagQueryNode {
+    let left = this.parseNot();
+    for (;;) {
+      const next = this.peek();
+      if (next?.type === 'and') {
+        this.index++;
+      } else if (!next || (next.type !== 'word' && next.type !== 'not' && next.type !== 'lparen')) {
+        return left;
+      }
+      left = { type: 'and', left, right: this.parseNot() };
+    }
+  }
+
+  private parseNot(): TagQueryNode {
+    if (this.peek()?.type === 'not') {
+      this.index++;
+      return { type: 'not', operand: this.parseNot() };
+    }
+    return this.parsePrimary();
+  }
+
+  private parsePrimary(): TagQueryNode {
+    const token = this.next();
+
+    if (token.type === 'lparen') {
+      const node = this.parseOr();
+      const close = this.next();
+      if (close.type !== 'rparen') {
+        throw new TagQueryError(`Expected ")" but found "${close.text}"`, close.position);
+      }
+      return node;
+    }
+
+    if (token.type !== 'word') {
+      throw new TagQueryError(`Expected a tag but found "${token.text}"`, token.position);
+    }
+
+    if (this.peek()?.type === 'operator') {
+      const operator = this.next().text as TagQueryOperator;
+      const value = this.next();
+      if (value.type !== 'word') {
+        throw new TagQueryError(`Expected a value after "${operator}"`, value.position);
+      }
+      if (['<', '<=', '>', '>='].includes(operator) && !Number.isFinite(Number(value.text))) {
+        throw new TagQueryError(`"${operator}" needs a number`, value.position);
+      }
+      const key = token.text.toLowerCase();
+      return { type: 'compare', key, operator, value: value.text.toLowerCase() };
+    }
+
+    const text = token.text.toLowerCase();
+    if (text.endsWith(':*')) return { type: 'key', key: text.slice(0, -2) };
+    return text.includes(':') ? { type: 'tag', tag: text } : { type: 'key', key: text };
+  }
+
+  private peek(): QueryToken | undefined {
+    return this.tokens[this.index];
+  }
+
+  private next(): QueryToken {
+    const token = this.tokens[this.index++];
+    if (!token) throw new TagQueryError('Unexpected end of query', this.length);
+    return token;
+  }
+}
+
+/**
+ * Compare one tag value against a query value
+ */
+function compareValue(tagValue: string, operator: TagQueryOperator, value: string): boolean {
+  const a = Number(tagValue);
+  const b = Number(value);
+  const numeric = tagValue !== '' && Number.isFinite(a) && Number.isFinite(b);
+
+  switch (operator) {
+    case '=':
+      return numeric ? a === b : tagValue === value;
+    case '!=':
+      return numeric ? a !== b : tagValue !== value;
+    case '<':
+      return numeric && a < b;
+    case '<=':
+      return numeric && a <= b;
+    case '>':
+      return numeric && a > b;
+    case '>=':
+      return numeric && a >= b;
+  }
+}
+
+/**
+ * A parsed tag query that can be tested against a realm's tags
+ */
+export class TagQuery {
+  private constructor(
+    public readonly source: string,
+    public readonly root: TagQueryNode
+  ) {}
+
+  /**
+   * Parse a query string
+   * @throws TagQueryError if the query is malformed
+   */
+  static parse(query: string): TagQuery {
+    return new TagQuery(query, new QueryParser(tokenize(query), query.length).parse());
+  }
+
+  /**
+   * Test if a tag list satisfies the query
+   */
+  matches(tags: string[]): boolean {
+    const normalized = tags.map(tag => tag.toLowerCase());
+    return TagQuery.evaluate(this.root, normalized);
+  }
+
+  /**
+   * Evaluate a query node against lowercase tags
+   *
+   * Comparisons match when any tag in the namespace satisfies them.
+   */
+  static evaluate(node: TagQueryNode, tags: string[]): boolean {
+    switch (node.type) {
+      case 'and':
+        return TagQuery.evaluate(node.left, tags) && TagQuery.evaluate(node.right, tags);
+      case 'or':
+        return TagQuery.evaluate(node.left, tags) || TagQuery.evaluate(node.right, tags);
+      case 'not':
+        return !TagQuery.evaluate(node.operand, tags);
+      case 'tag':
+        return tags.includes(node.tag);
+      case 'key':
+        return tags.some(tag => tag.startsWith(node.key + ':'));
+      case 'compare':
+        return tags.some(
+          tag =>
+            tag.startsWith(node.key + ':') &&
+            compareValue(tag.slice(node.key.length + 1), node.operator, node.value)
+        );
+    }
+  }
+}
@@ -5,14 +5,41 @@
  * for the flexible tag-based realm metadata system.
  */
 
+/**
+ * Kind of value a namespace accepts
+ */
+export type TagValueType =
+  | { type: 'enum'; values: string[] }
+  | { type: 'number'; min?: number; max?: number }
+  | { type: 'boolean' }
+  | { type: 'text' };
+
 export interface TagNamespace {
   prefix: string;
   name: string;
   description: string;
   color: string;
   examples: string[];
-  validation?: (value: string) => boolean;
+  validation?: (value: string) => boolean | string; // A string is the error message
+  suggestions?: string[];
+  singleValue?: boolean; // At most one value per realm
+  playerVisible?: boolean; // Shown to players, not just the GM
+  valueType?: TagValueType;
+}
+
+/**
+ * Namespace definition passed to registerTagNamespace by other modules
+ */
+export interface TagNamespaceDefinition {
+  prefix: string;
+  label: string;
+  description?: string;
+  color?: string;
   suggestions?: string[];
+  singleValue?: boolean;
+  playerVisible?: boolean;
+  valueType?: TagValueType;
+  validator?: (value: string) => boolean | string;
 }
 
 export interface TagSuggestion {
@@ -22,12 +49,60 @@ export interface TagSuggestion {
   score: number; // Relevance score for sorting
 }
 
+/**
+ * A realm contributing tags to effective tag resolution
+ */
+export interface TagSource {
+  id: string;
+  name: string;
+  priority: number;
+  getTags(): string[];
+}
+
+/**
+ * A single resolved tag and the realm(s) it came from
+ */
+export interface EffectiveTag {
+  tag: string;
+  key: string;
+  value: string;
+  sources: { realmId: string; realmName: string; priority: number }[];
+}
+
+/**
+ * Merged view of the tags of several overlapping realms
+ */
+export interface EffectiveTagResult {
+  realms: { id: string; name: string; priority: number }[];
+  tags: EffectiveTag[];
+}
+
+/**
+ * World-level edits to a namespace, made in the tag vocabulary settings menu
+ */
+export interface TagVocabularyEntry {
+  label?: string;
+  color?: string;
+  suggestions?: string[];
+  singleValue?: boolean;
+  playerVisible?: boolean;
+  min?: number;
+  max?: number;
+}
+
+/**
+ * Tag vocabulary world setting, keyed by namespace prefix
+ */
+export type TagVocabulary = Record<string, TagVocabularyEntry>;
+
 /**
  * Core tag namespaces and their conventions
  */
 export const TAG_NAMESPACES: Record<string, TagNamespace> = {
   biome: {
     prefix: 'biome',
+    singleValue: true,
+    playerVisible: true,
     name: 'Biome',
     description: 'Primary ecosystem type',
     color: '#28a745',
@@ -50,6 +125,7 @@ export const TAG_NAMESPACES: Record<string, TagNamespace> = {
 
   terrain: {
     prefix: 'terrain',
+    playerVisible: true,
     name: 'Terrain',
     description: 'Terrain difficulty and features',
     color: '#dc3545',
@@ -72,6 +148,8 @@ export const TAG_NAMESPACES: Record<string, TagNamespace> = {
 
   climate: {
     prefix: 'climate',
+    singleValue: true,
+    playerVisible: true,
     name: 'Climate',
     description: 'Weather patterns and temperature',
     color: '#17a2b8',
@@ -98,10 +176,9 @@ export const TAG_NAMESPACES: Record<string, TagNamespace> = {
     description: 'Movement speed modifier (0.1 to 2.0)',
     color: '#ffc107',
     examples: ['travel_speed:0.5', 'travel_speed:1.0', 'travel_speed:1.5'],
-    validation: (value: string) => {
-      const num = parseFloat(value);
-      return !isNaN(num) && num >= 0.1 && num <= 2.0;
-    },
+    singleValue: true,
+    playerVisible: true,
+    valueType: { type: 'number', min: 0.1, max: 2.0 },
     suggestions: ['0.25', '0.5', '0.75', '1.0', '1.25', '1.5', '2.0']
   },
 
@@ -129,6 +206,8 @@ export const TAG_NAMESPACES: Record<string, TagNamespace> = {
 
   elevation: {
     prefix: 'elevation',
+    singleValue: true,
+    playerVisible: true,
     name: 'Elevation',
     description: 'Height classification',
     color: '#6c757d',
@@ -186,6 +265,15 @@ export const TAG_NAMESPACES: Record<string, TagNamespace> = {
 export class TagSystem {
   private static instance: TagSystem;
 
+  // Core namespaces plus those registered by other modules, keyed by prefix
+  private registered = new Map<string, TagNamespace>(Object.entries(TAG_NAMESPACES));
+
+  // World vocabulary edits layered over the registered namespaces
+  private vocabulary: TagVocabulary = {};
+
+  // Registered namespaces with the vocabulary applied; used for all lookups
+  private namespaces = new Map<string, TagNamespace>(this.registered);
+
   static getInstance(): TagSystem {
     if (!TagSystem.instance) {
       TagSystem.instance = new TagSystem();
@@ -193,6 +281,179 @@ export class TagSystem {
     return TagSystem.instance;
   }
 
+  /**
+   * Register a tag namespace, replacing any existing namespace with the same prefix
+   * @param definition - Namespace prefix, label, value rules and suggestions
+   * @returns The registered namespace
+   */
+  registerNamespace(definition: TagNamespaceDefinition): TagNamespace {
+    const { prefix } = definition;
+    if (!/^[a-zA-Z0-9_-]+$/.test(prefix || '')) {
+      throw new Error(`Invalid namespace prefix: "${prefix}"`);
+    }
+    if (prefix === 'module') {
+      throw new Error('The "module" namespace is reserved');
+    }
+
+    const valueType = definition.valueType;
+    let suggestions = definition.suggestions;
+    if (!suggestions && valueType?.type === 'enum') suggestions = [...valueType.values];
+    if (!suggestions && valueType?.type === 'boolean') suggestions = ['true', 'false'];
+
+    const namespace: TagNamespace = {
+      prefix,
+      name: definition.label,
+      description: definition.description || definition.label,
+      color: definition.color || '#6c757d',
+      examples: (suggestions || []).slice(0, 3).map(value => `${prefix}:${value}`),
+      validation: definition.validator,
+      suggestions,
+      singleValue: definition.singleValue ?? valueType?.type === 'boolean',
+      playerVisible: definition.playerVisible === true,
+      valueType
+    };
+
+    this.registered.set(prefix, namespace);
+    this.applyVocabulary();
+    return this.namespaces.get(prefix)!;
+  }
+
+  /**
+   * Remove a registered namespace; core namespaces revert to their defaults
+   */
+  unregisterNamespace(prefix: string): boolean {
+    let removed: boolean;
+    if (TAG_NAMESPACES[prefix]) {
+      this.registered.set(prefix, TAG_NAMESPACES[prefix]);
+      removed = true;
+    } else {
+      removed = this.registered.delete(prefix);
+    }
+    this.applyVocabulary();
+    return removed;
+  }
+
+  /**
+   * Replace the world tag vocabulary
+   * @param vocabulary - Per-namespace edits; prefixes not yet known become new namespaces
+   */
+  setVocabulary(vocabulary: TagVocabulary | null | undefined): void {
+    this.vocabulary = { ...(vocabulary || {}) };
+    this.applyVocabulary();
+  }
+
+  /**
+   * Get the world tag vocabulary
+   */
+  getVocabulary(): TagVocabulary {
+    return { ...this.vocabulary };
+  }
+
+  /**
+   * Get tags to offer before anything is typed, a few from each namespace
+   * @param existingTags - Tags already applied to the realm
+   * @param perNamespace - Maximum suggestions taken from each namespace
+   */
+  getCommonTags(existingTags: string[] = [], perNamespace = 5): string[] {
+    const existingKeys = new Set(existingTags.map(tag => tag.split(':')[0]));
+    const tags: string[] = [];
+
+    for (const [prefix, namespace] of this.namespaces) {
+      if (namespace.singleValue && existingKeys.has(prefix)) continue;
+      for (const value of (namespace.suggestions || []).slice(0, perNamespace)) {
+        const tag = `${prefix}:${value}`;
+        if (!existingTags.includes(tag)) tags.push(tag);
+      }
+    }
+
+    return tags;
+  }
+
+  /**
+   * Rebuild the effective namespaces from the registry and vocabulary
+   */
+  private applyVocabulary(): void {
+    this.namespaces = new Map(this.registered);
+
+    for (const [prefix, entry] of Object.entries(this.vocabulary)) {
+      if (prefix === 'module' || !entry) continue;
+      const base = this.registered.get(prefix);
+
+      const namespace: TagNamespace = base
+        ? { ...base }
+        : {
+            prefix,
+            name: prefix,
+            description: entry.label || prefix,
+            color: '#6c757d',
+            examples: []
+          };
+
+      if (entry.label) namespace.name = entry.label;
+      if (entry.color) namespace.color = entry.color;
+      if (entry.singleValue !== undefined) namespace.singleValue = entry.singleValue;
+      if (entry.playerVisible !== undefined) namespace.playerVisible = entry.playerVisible;
+      if (entry.suggestions) {
+        namespace.suggestions = [...entry.suggestions];
+        if (!base?.examples.length) {
+          namespace.examples = entry.suggestions.slice(0, 3).map(value => `${prefix}:${value}`);
+        }
+        // Edited suggestions are the allowed values of enum namespaces
+        if (namespace.valueType?.type === 'enum') {
+          namespace.valueType = { type: 'enum', values: [...entry.suggestions] };
+        }
+      }
+
+      if (entry.min !== undefined || entry.max !== undefined) {
+        namespace.valueType = { type: 'number', min: entry.min, max: entry.max };
+      }
+
+      this.namespaces.set(prefix, namespace);
+    }
+  }
+
+  /**
+   * Get every known namespace
+   */
+  getNamespaces(): TagNamespace[] {
+    return Array.from(this.namespaces.values());
+  }
+
+  /**
+   * Get a namespace by its prefix
+   */
+  getNamespaceByPrefix(prefix: string): TagNamespace | null {
+    return this.namespaces.get(prefix) || null;
+  }
+
+  /**
+   * Test if a namespace is core or registered by a module, rather than vocabulary-only
+   */
+  isRegistered(prefix: string): boolean {
+    return this.registered.has(prefix);
+  }
+
+  /**
+   * Get a core or module namespace as registered, without vocabulary edits
+   */
+  getRegisteredNamespace(prefix: string): TagNamespace | null {
+    return this.registered.get(prefix) || null;
+  }
+
+  /**
+   * Test if a namespace holds at most one value per realm
+   */
+  isSingleValue(prefix: string): boolean {
+    return this.namespaces.get(prefix)?.singleValue === true;
+  }
+
+  /**
+   * Test if a tag's namespace may be shown to players
+   */
+  isPlayerVisible(tag: string): boolean {
+    return this.namespaces.get(tag.split(':')[0])?.playerVisible === true;
+  }
+
   /**
    * Validate a tag format and content
    * @param tag - The tag to validate
@@ -230,9 +491,10 @@ export class TagSystem {
 
     const value = valueParts.join(':');
     // For module tags, allow colons in the value. For other tags, don't allow colons.
-    const validValuePattern = prefix === 'module' 
-      ? /^[a-zA-Z0-9_.:/-]+$/  // Allow colons for module tags
-      : /^[a-zA-Z0-9_.-]+$/;   // No colons for other tags
+    const validValuePattern =
+      prefix === 'module'
+        ? /^[a-zA-Z0-9_.:/-]+$/ // Allow colons for module tags
+        : /^[a-zA-Z0-9_.-]+$/; // No colons for other tags
     if (!validValuePattern.test(value)) {
       return {
         valid: false,
@@ -241,16 +503,51 @@ export class TagSystem {
     }
 
     // Namespace-specific validation
-    const namespace = TAG_NAMESPACES[prefix];
-    if (namespace && namespace.validation) {
-      if (!namespace.validation(value)) {
-        return { valid: false, error: `Invalid value for ${namespace.name} tag` };
-      }
+    const namespace = this.namespaces.get(prefix);
+    if (namespace) {
+      const error = this.validateValue(namespace, value);
+      if (error) return { valid: false, error };
     }
 
     return { valid: true };
   }
 
+  /**
+   * Check a value against a namespace's value type and validator
+   * @returns An error message, or null when the value is valid
+   */
+  private validateValue(namespace: TagNamespace, value: string): string | null {
+    const invalid = `Invalid value for ${namespace.name} tag`;
+    const valueType = namespace.valueType;
+
+    if (valueType?.type === 'enum' && !valueType.values.includes(value)) {
+      return `${invalid}: expected one of ${valueType.values.join(', ')}`;
+    }
+
+    if (valueType?.type === 'number') {
+      const num = Number(value);
+      if (!Number.isFinite(num)) return `${invalid}: expected a number`;
+      if (valueType.min !== undefined && num < valueType.min) {
+        return `${invalid}: must be at least ${valueType.min}`;
+      }
+      if (valueType.max !== undefined && num > valueType.max) {
+        return `${invalid}: must be at most ${valueType.max}`;
+      }
+    }
+
+    if (valueType?.type === 'boolean' && value !== 'true' && value !== 'false') {
+      return `${invalid}: expected true or false`;
+    }
+
+    if (namespace.validation) {
+      const result = namespace.validation(value);
+      if (result === false) return invalid;
+      if (typeof result === 'string') return result;
+    }
+
+    return null;
+  }
+
   /**
    * Get tag suggestions based on partial input
    * @param partial - Partial tag input
@@ -265,7 +562,7 @@ export class TagSystem {
     if (partial.includes(':')) {
       // Suggesting values for a specific key
       const [prefix, valuePartial] = partial.split(':', 2);
-      const namespace = TAG_NAMESPACES[prefix];
+      const namespace = this.namespaces.get(prefix);
 
       if (namespace && namespace.suggestions) {
         for (const suggestion of namespace.suggestions) {
@@ -282,13 +579,13 @@ export class TagSystem {
       }
     } else {
       // Suggesting namespace prefixes and matching tag values
-      for (const [prefix, namespace] of Object.entries(TAG_NAMESPACES)) {
+      for (const [prefix, namespace] of this.namespaces) {
         // Check if namespace prefix matches
         const prefixMatches = prefix.toLowerCase().includes(partialLower);
-        
+
         if (prefixMatches) {
-          // Don't suggest if this namespace already has a tag (except resources and custom)
-          if (existingKeys.has(prefix) && !['resources', 'custom', 'module'].includes(prefix)) {
+          // Don't suggest if this single-value namespace already has a tag
+          if (existingKeys.has(prefix) && namespace.singleValue) {
             continue;
           }
 
@@ -301,17 +598,17 @@ export class TagSystem {
             });
           }
         }
-        
+
         // Also check if any tag values/examples match the input
         if (namespace.examples) {
           for (const example of namespace.examples) {
             const [, exampleValue] = example.split(':', 2);
             if (exampleValue && exampleValue.toLowerCase().includes(partialLower)) {
-              // Don't suggest if this namespace already has a tag (except resources and custom)
-              if (existingKeys.has(prefix) && !['resources', 'custom', 'module'].includes(prefix)) {
+              // Don't suggest if this single-value namespace already has a tag
+              if (existingKeys.has(prefix) && namespace.singleValue) {
                 continue;
               }
-              
+
               suggestions.push({
                 tag: example,
                 description: `${namespace.name}: ${exampleValue}`,
@@ -321,16 +618,16 @@ export class TagSystem {
             }
           }
         }
-        
+
         // Check suggestions array if it exists
         if (namespace.suggestions) {
           for (const suggestion of namespace.suggestions) {
             if (suggestion.toLowerCase().includes(partialLower)) {
-              // Don't suggest if this namespace already has a tag (except resources and custom)
-              if (existingKeys.has(prefix) && !['resources', 'custom', 'module'].includes(prefix)) {
+              // Don't suggest if this single-value namespace already has a tag
+              if (existingKeys.has(prefix) && namespace.singleValue) {
                 continue;
               }
-              
+
               const fullTag = `${prefix}:${suggestion}`;
               suggestions.push({
                 tag: fullTag,
@@ -358,7 +655,7 @@ export class TagSystem {
    */
   getNamespace(tag: string): TagNamespace | null {
     const prefix = tag.split(':')[0];
-    return TAG_NAMESPACES[prefix] || null;
+    return this.namespaces.get(prefix) || null;
   }
 
   /**
@@ -418,10 +715,8 @@ export class TagSystem {
     }
 
     // Check for conflicting values in single-value namespaces
-    const singleValueKeys = ['biome', 'climate', 'travel_speed', 'elevation'];
-    for (const key of singleValueKeys) {
-      const keyTags = tagsByKey.get(key) || [];
-      if (keyTags.length > 1) {
+    for (const [key, keyTags] of tagsByKey) {
+      if (this.isSingleValue(key) && keyTags.length > 1) {
         conflicts.push(`Multiple ${key} tags found: ${keyTags.join(', ')}`);
       }
     }
@@ -440,6 +735,86 @@ export class TagSystem {
     return conflicts;
   }
 
+  /**
+   * Merge the tags of overlapping realms into one effective tag set
+   *
+   * Single-value namespaces take the value from the highest-priority realm
+   * that has one; module properties (module:name:key) resolve the same way.
+   * All other tags are unioned across realms.
+   * @param realms - Realms covering a point, highest priority first
+   * @returns Resolved tags with the realm(s) each came from
+   */
+  resolveEffectiveTags(realms: TagSource[]): EffectiveTagResult {
+    const resolved = new Map<string, EffectiveTag>();
+    const claimedKeys = new Set<string>();
+
+    for (const realm of realms) {
+      const source = { realmId: realm.id, realmName: realm.name, priority: realm.priority };
+
+      for (const tag of realm.getTags()) {
+        const colonIndex = tag.indexOf(':');
+        if (colonIndex <= 0) continue;
+
+        const key = tag.substring(0, colonIndex);
+        const value = tag.substring(colonIndex + 1);
+        const singleKey = this.getSingleValueKey(key, value);
+
+        if (singleKey) {
+          // A higher-priority realm already decided this key
+          if (claimedKeys.has(singleKey) && !resolved.has(tag)) continue;
+          claimedKeys.add(singleKey);
+        }
+
+        const existing = resolved.get(tag);
+        if (existing) {
+          if (!existing.sources.some(s => s.realmId === realm.id)) {
+            existing.sources.push(source);
+          }
+        } else {
+          resolved.set(tag, { tag, key, value, sources: [source] });
+        }
+      }
+    }
+
+    return {
+      realms: realms.map(realm => ({ id: realm.id, name: realm.name, priority: realm.priority })),
+      tags: Array.from(resolved.values())
+    };
+  }
+
+  /**
+   * Combine the tags of realms being merged into one
+   *
+   * Uses the resolveEffectiveTags rules, so single-value namespaces keep the
+   * value of the highest-priority realm (the earliest on ties). Tags without a
+   * namespace are kept from every realm.
+   * @param realms - Realms being merged, in order of precedence
+   */
+  combineTags(realms: TagSource[]): string[] {
+    const ordered = [...realms].sort((a, b) => b.priority - a.priority);
+    const combined = this.resolveEffectiveTags(ordered).tags.map(tag => tag.tag);
+    for (const realm of ordered) {
+      for (const tag of realm.getTags()) {
+        if (tag.indexOf(':') <= 0 && !combined.includes(tag)) combined.push(tag);
+      }
+    }
+    return combined;
+  }
+
+  /**
+   * Get the key that a single-value tag resolves on, or null for multi-value tags
+   */
+  private getSingleValueKey(key: string, value: string): string | null {
+    if (this.isSingleValue(key)) return key;
+
+    if (key === 'module') {
+      const lastColon = value.lastIndexOf(':');
+      return lastColon > 0 ? `module:${value.substring(0, lastColon)}` : null;
+    }
+
+    return null;
+  }
+
   /**
    * Calculate relevance score for suggestions
    */
@@ -495,7 +870,7 @@ export class TagSystem {
    * Static method to get suggestions for a namespace
    */
   static getSuggestions(namespace: string): string[] {
-    const ns = TAG_NAMESPACES[namespace];
+    const ns = TagSystem.getInstance().getNamespaceByPrefix(namespace);
     return ns?.suggestions || [];
   }
 
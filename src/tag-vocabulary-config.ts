@@ -0,0 +1,266 @@
+/**
+ * TagVocabularyConfig - GM settings menu for the world tag vocabulary
+ *
+ * Lets the GM add namespaces and edit the labels, colours, suggestion lists,
+ * player visibility and numeric ranges of existing ones. Edits are stored in the
+ * 'tagVocabulary' world setting and layered over the registered namespaces.
+ */
+
+import { TagNamespace, TagSystem, TagVocabulary, TagVocabularyEntry } from './tag-system';
+
+/**
+ * One editable namespace row in the vocabulary form
+ */
+export interface TagVocabularyRow {
+  prefix: string;
+  label: string;
+  color: string;
+  suggestions: string;
+  singleValue: boolean;
+  playerVisible: boolean;
+  min: string;
+  max: string;
+  registered: boolean; // Core or module namespace; the row cannot be removed
+}
+
+/**
+ * Build the form rows from the current namespaces
+ */
+export function getVocabularyRows(tagSystem = TagSystem.getInstance()): TagVocabularyRow[] {
+  return tagSystem
+    .getNamespaces()
+    .filter(namespace => namespace.prefix !== 'module')
+    .map(namespace => {
+      const range = namespace.valueType?.type === 'number' ? namespace.valueType : null;
+      const registered = tagSystem.isRegistered(namespace.prefix);
+      return {
+        prefix: namespace.prefix,
+        label: namespace.name,
+        color: namespace.color,
+        suggestions: (namespace.suggestions || []).join(', '),
+        singleValue: namespace.singleValue === true,
+        playerVisible: namespace.playerVisible === true,
+        min: range?.min !== undefined ? String(range.min) : '',
+        max: range?.max !== undefined ? String(range.max) : '',
+        registered
+      };
+    });
+}
+
+/**
+ * Convert submitted form data into a tag vocabulary
+ *
+ * Registered namespaces only keep the fields that differ from their
+ * registration, so rows left as they are add nothing to the vocabulary.
+ * @param formData - Flat form data with keys like 'namespaces.0.prefix'
+ */
+export function parseVocabularyFormData(
+  formData: Record<string, any>,
+  tagSystem = TagSystem.getInstance()
+): TagVocabulary {
+  const rows = new Map<string, Record<string, any>>();
+  for (const [key, value] of Object.entries(formData)) {
+    const match = key.match(/^namespaces\.(\w+)\.(\w+)$/);
+    if (!match) continue;
+    if (!rows.has(match[1])) rows.set(match[1], {});
+    rows.get(match[1])![match[2]] = value;
+  }
+
+  const vocabulary: TagVocabulary = {};
+  for (const row of rows.values()) {
+    const prefix = String(row.prefix || '')
+      .trim()
+      .toLowerCase();
+    if (!/^[a-z0-9_-]+$/.test(prefix) || prefix === 'module') continue;
+
+    const entry: TagVocabularyEntry = {
+      label: String(row.label || '').trim() || prefix,
+      color: row.color || undefined,
+      suggestions: String(row.suggestions || '')
+        .split(',')
+        .map(value => value.trim())
+        .filter(value => value.length > 0),
+      singleValue: row.singleValue === true || row.singleValue === 'on',
+      playerVisible: row.playerVisible === true || row.playerVisible === 'on'
+    };
+
+    const min = parseFloat(row.min);
+    const max = parseFloat(row.max);
+    if (Number.isFinite(min)) entry.min = min;
+    if (Number.isFinite(max)) entry.max = max;
+
+    const base = tagSystem.getRegisteredNamespace(prefix);
+    const changes = base ? getChangedFields(entry, base) : entry;
+    if (Object.keys(changes).length > 0) vocabulary[prefix] = changes;
+  }
+
+  return vocabulary;
+}
+
+/**
+ * Keep the fields of a vocabulary entry that differ from a registered namespace
+ */
+function getChangedFields(entry: TagVocabularyEntry, base: TagNamespace): TagVocabularyEntry {
+  const changes: TagVocabularyEntry = {};
+  const range = base.valueType?.type === 'number' ? base.valueType : null;
+
+  if (entry.label !== base.name) changes.label = entry.label;
+  if (entry.color && entry.color.toLowerCase() !== base.color.toLowerCase()) {
+    changes.color = entry.color;
+  }
+  if (entry.suggestions!.join(',') !== (base.suggestions || []).join(',')) {
+    changes.suggestions = entry.suggestions;
+  }
+  if (entry.singleValue !== (base.singleValue === true)) changes.singleValue = entry.singleValue;
+  if (entry.playerVisible !== (base.playerVisible === true)) {
+    changes.playerVisible = entry.playerVisible;
+  }
+  if (entry.min !== range?.min || entry.max !== range?.max) {
+    if (entry.min !== undefined) changes.min = entry.min;
+    if (entry.max !== undefined) changes.max = entry.max;
+  }
+
+  return changes;
+}
+
+/**
+ * Render one namespace row of the vocabulary form
+ */
+function renderVocabularyRow(row: TagVocabularyRow, index: number | string): string {
+  const escape = (foundry.utils as any).escapeHTML;
+  const name = `namespaces.${index}`;
+  return `
+    <tr class="vocabulary-row" data-prefix="${escape(row.prefix)}">
+      <td>
+        <input type="text" name="${name}.prefix" value="${escape(row.prefix)}" ${row.registered ? 'readonly' : ''} placeholder="prefix">
+      </td>
+      <td><input type="text" name="${name}.label" value="${escape(row.label)}" placeholder="Label"></td>
+      <td><input type="color" name="${name}.color" value="${escape(row.color)}"></td>
+      <td>
+        <textarea name="${name}.suggestions" rows="2" placeholder="value, value, ...">${escape(row.suggestions)}</textarea>
+      </td>
+      <td class="vocabulary-single">
+        <input type="checkbox" name="${name}.singleValue" ${row.singleValue ? 'checked' : ''}>
+      </td>
+      <td class="vocabulary-players">
+        <input type="checkbox" name="${name}.playerVisible" ${row.playerVisible ? 'checked' : ''}>
+      </td>
+      <td class="vocabulary-range">
+        <input type="number" name="${name}.min" value="${row.min}" step="any" placeholder="min">
+        <input type="number" name="${name}.max" value="${row.max}" step="any" placeholder="max">
+      </td>
+      <td>
+        ${
+          row.registered
+            ? ''
+            : '<button type="button" class="vocabulary-remove" title="Remove Namespace"><i class="fas fa-trash"></i></button>'
+        }
+      </td>
+    </tr>
+  `;
+}
+
+/**
+ * Render the whole vocabulary form
+ */
+export function renderVocabularyForm(rows: TagVocabularyRow[]): string {
+  return `
+    <form class="realms-tag-vocabulary" autocomplete="off">
+      <p class="notes">
+        Edit the namespaces offered when tagging realms. Suggestions are comma-separated;
+        a range limits numeric values. Single-value namespaces allow one tag per realm, and
+        only namespaces marked for players are shown to them.
+      </p>
+      <table class="vocabulary-table">
+        <thead>
+          <tr>
+            <th>Prefix</th>
+            <th>Label</th>
+            <th>Colour</th>
+            <th>Suggestions</th>
+            <th>Single</th>
+            <th>Players</th>
+            <th>Range</th>
+            <th></th>
+          </tr>
+        </thead>
+        <tbody>
+          ${rows.map((row, index) => renderVocabularyRow(row, index)).join('')}
+        </tbody>
+      </table>
+      <div class="vocabulary-actions">
+        <button type="button" class="vocabulary-add"><i class="fas fa-plus"></i> Add Namespace</button>
+        <button type="button" class="vocabulary-reset"><i class="fas fa-undo"></i> Reset to Defaults</button>
+      </div>
+      <footer class="sheet-footer flexrow">
+        <button type="submit"><i class="fas fa-save"></i> Save Vocabulary</button>
+      </footer>
+    </form>
+  `;
+}
+
+/**
+ * Settings menu application for editing the tag vocabulary
+ */
+export class TagVocabularyConfig extends FormApplication {
+  static get defaultOptions() {
+    return foundry.utils.mergeObject(super.defaultOptions, {
+      id: 'realms-tag-vocabulary',
+      title: 'Realm Tag Vocabulary',
+      classes: ['realms-tag-vocabulary-config'],
+      width: 760,
+      height: 'auto',
+      resizable: true,
+      closeOnSubmit: true
+    });
+  }
+
+  getData() {
+    return { rows: getVocabularyRows() };
+  }
+
+  /**
+   * Build the form inline instead of from a Handlebars template
+   */
+  async _renderInner(data: { rows: TagVocabularyRow[] }) {
+    return $(renderVocabularyForm(data.rows));
+  }
+
+  activateListeners(html: JQuery) {
+    super.activateListeners(html);
+
+    html.find('.vocabulary-add').on('click', () => {
+      const row: TagVocabularyRow = {
+        prefix: '',
+        label: '',
+        color: '#6c757d',
+        suggestions: '',
+        singleValue: false,
+        playerVisible: false,
+        min: '',
+        max: '',
+        registered: false
+      };
+      html.find('.vocabulary-table tbody').append(renderVocabularyRow(row, `new${Date.now()}`));
+      this.setPosition({ height: 'auto' });
+    });
+
+    html.on('click', '.vocabulary-remove', (event: any) => {
+      $(event.currentTarget).closest('.vocabulary-row').remove();
+      this.setPosition({ height: 'auto' });
+    });
+
+    html.find('.vocabulary-reset').on('click', async () => {
+      await game.settings.set('realms-and-reaches', 'tagVocabulary', {});
+      this.render();
+    });
+  }
+
+  async _updateObject(_event: Event, formData: Record<string, any>) {
+    await game.settings.set(
+      'realms-and-reaches',
+      'tagVocabulary',
+      parseVocabularyFormData(formData)
+    );
+  }
+}
@@ -0,0 +1,346 @@
+/**
+ * Thematic Overlay - Colour realms by the value of one tag namespace
+ *
+ * Text namespaces get a categorical palette built from the namespace registry,
+ * starting at the namespace's own colour. Numeric namespaces such as
+ * `travel_speed` get a gradient across their range. A legend explains the
+ * colours while the overlay is shown.
+ */
+
+import { TagSystem } from './tag-system';
+import { RealmDataCompat } from './realm-manager';
+import { shapeToPolygon } from './path-geometry';
+import { getVisibleRealms } from './realm-discovery';
+
+export type ThemeMode = 'categorical' | 'gradient';
+
+export interface ThemeLegendEntry {
+  label: string;
+  color: number;
+}
+
+/**
+ * How to colour realms for one namespace
+ */
+export interface RealmTheme {
+  namespace: string;
+  label: string;
+  mode: ThemeMode;
+  colors: Map<string, number>; // Tag value -> colour, for categorical themes
+  min: number; // Gradient range, for gradient themes
+  max: number;
+  legend: ThemeLegendEntry[];
+}
+
+export const DEFAULT_REALM_COLOR = 0x4a90e2;
+
+// Perceptually even ramp from low (purple) to high (yellow)
+export const GRADIENT_STOPS = [0x440154, 0x3b528b, 0x21918c, 0x5ec962, 0xfde725];
+
+const GOLDEN_ANGLE = 137.508;
+const GRADIENT_LEGEND_STEPS = 5;
+const OVERLAY_ALPHA = 0.45;
+
+/**
+ * Get the hue (0-360) of a CSS hex colour
+ */
+function hexToHue(color: string): number {
+  const value = parseInt(color.replace('#', ''), 16);
+  if (Number.isNaN(value)) return 0;
+
+  const r = ((value >> 16) & 0xff) / 255;
+  const g = ((value >> 8) & 0xff) / 255;
+  const b = (value & 0xff) / 255;
+  const max = Math.max(r, g, b);
+  const delta = max - Math.min(r, g, b);
+  if (delta === 0) return 0;
+
+  const hue =
+    max === r ? ((g - b) / delta) % 6 : max === g ? (b - r) / delta + 2 : (r - g) / delta + 4;
+  return (hue * 60 + 360) % 360;
+}
+
+function hslToColor(hue: number, saturation: number, lightness: number): number {
+  const chroma = (1 - Math.abs(2 * lightness - 1)) * saturation;
+  const x = chroma * (1 - Math.abs(((hue / 60) % 2) - 1));
+  const m = lightness - chroma / 2;
+  const [r, g, b] =
+    hue < 60
+      ? [chroma, x, 0]
+      : hue < 120
+        ? [x, chroma, 0]
+        : hue < 180
+          ? [0, chroma, x]
+          : hue < 240
+            ? [0, x, chroma]
+            : hue < 300
+              ? [x, 0, chroma]
+              : [chroma, 0, x];
+  const channel = (value: number) => Math.round((value + m) * 255);
+  return (channel(r) << 16) | (channel(g) << 8) | channel(b);
+}
+
+function lerpColor(a: number, b: number, t: number): number {
+  const channel = (shift: number) => {
+    const from = (a >> shift) & 0xff;
+    const to = (b >> shift) & 0xff;
+    return Math.round(from + (to - from) * t) << shift;
+  };
+  return channel(16) | channel(8) | channel(0);
+}
+
+/**
+ * Get the gradient colour at a position between 0 (low) and 1 (high)
+ */
+export function gradientColor(t: number): number {
+  const position =
+    Math.min(1, Math.max(0, Number.isFinite(t) ? t : 0)) * (GRADIENT_STOPS.length - 1);
+  const index = Math.min(Math.floor(position), GRADIENT_STOPS.length - 2);
+  return lerpColor(GRADIENT_STOPS[index], GRADIENT_STOPS[index + 1], position - index);
+}
+
+/**
+ * Format a colour number as CSS
+ */
+export function colorToCss(color: number): string {
+  return '#' + color.toString(16).padStart(6, '0');
+}
+
+/**
+ * Build the theme for a namespace
+ *
+ * Registered values (enum values, else suggestions) keep the same colours on
+ * every scene; other values seen on the scene are appended after them.
+ * @param values - Tag values present on the scene, used for the legend and gradient range
+ */
+export function buildTheme(prefix: string, values: string[] = []): RealmTheme {
+  const namespace = TagSystem.getInstance().getNamespaceByPrefix(prefix);
+  const label = namespace?.name || prefix;
+  const valueType = namespace?.valueType;
+  const numbers = values.map(value => parseFloat(value)).filter(value => Number.isFinite(value));
+
+  const numeric =
+    valueType?.type === 'number' ||
+    (!valueType && values.length > 0 && numbers.length === values.length);
+
+  if (numeric) {
+    const range: { min?: number; max?: number } = valueType?.type === 'number' ? valueType : {};
+    const min = range.min ?? (numbers.length > 0 ? Math.min(...numbers) : 0);
+    const max = range.max ?? (numbers.length > 0 ? Math.max(...numbers) : 1);
+    const legend: ThemeLegendEntry[] = [];
+    for (let i = 0; i < GRADIENT_LEGEND_STEPS; i++) {
+      const t = i / (GRADIENT_LEGEND_STEPS - 1);
+      legend.push({
+        label: String(Number((min + (max - min) * t).toFixed(2))),
+        color: gradientColor(t)
+      });
+    }
+    return { namespace: prefix, label, mode: 'gradient', colors: new Map(), min, max, legend };
+  }
+
+  const registered = valueType?.type === 'enum' ? valueType.values : namespace?.suggestions || [];
+  const palette = [...new Set([...registered, ...[...values].sort()])];
+  const baseHue = hexToHue(namespace?.color || colorToCss(DEFAULT_REALM_COLOR));
+  const colors = new Map(
+    palette.map((value, index) => [
+      value,
+      hslToColor((baseHue + index * GOLDEN_ANGLE) % 360, 0.6, index % 2 === 0 ? 0.5 : 0.62)
+    ])
+  );
+
+  const shown = values.length > 0 ? palette.filter(value => values.includes(value)) : palette;
+  return {
+    namespace: prefix,
+    label,
+    mode: 'categorical',
+    colors,
+    min: 0,
+    max: 1,
+    legend: shown.map(value => ({ label: value, color: colors.get(value)! }))
+  };
+}
+
+/**
+ * Get the colour for a tag value, or null if it has no place in the theme
+ */
+export function getThemeColor(theme: RealmTheme, value: string | null): number | null {
+  if (value === null) return null;
+  if (theme.mode === 'categorical') return theme.colors.get(value) ?? null;
+
+  const number = parseFloat(value);
+  if (!Number.isFinite(number)) return null;
+  return gradientColor(
+    theme.max === theme.min ? 0.5 : (number - theme.min) / (theme.max - theme.min)
+  );
+}
+
+/**
+ * Render the legend for a theme
+ */
+export function renderThemeLegend(theme: RealmTheme): string {
+  const escape = (foundry.utils as any).escapeHTML;
+  const entries = theme.legend
+    .map(
+      entry => `
+        <li>
+          <span class="realm-theme-swatch" style="background: ${colorToCss(entry.color)}"></span>
+          ${escape(entry.label)}
+        </li>
+      `
+    )
+    .join('');
+
+  return `
+    <h3>${escape(theme.label)}</h3>
+    <ul class="realm-theme-entries ${theme.mode}">${entries}</ul>
+    <p class="notes">Realms without a ${escape(theme.namespace)} tag are not coloured.</p>
+  `;
+}
+
+/**
+ * Draw a realm's shapes into the current fill, cutting out its holes
+ */
+export function drawRealmShapes(graphics: PIXI.Graphics, shapes: any[]): void {
+  for (const shape of shapes) {
+    if (!shape.hole) graphics.drawPolygon(shapeToPolygon(shape));
+  }
+  for (const shape of shapes) {
+    if (!shape.hole) continue;
+    graphics.beginHole();
+    graphics.drawPolygon(shapeToPolygon(shape));
+    graphics.endHole();
+  }
+}
+
+/**
+ * ThematicOverlay draws the chosen theme over the current scene
+ */
+export class ThematicOverlay {
+  private static instance: ThematicOverlay;
+
+  private container: PIXI.Container | null = null;
+  private legend: HTMLElement | null = null;
+
+  static getInstance(): ThematicOverlay {
+    if (!ThematicOverlay.instance) {
+      ThematicOverlay.instance = new ThematicOverlay();
+    }
+    return ThematicOverlay.instance;
+  }
+
+  /**
+   * Get the namespace being visualised, or null when the overlay is off
+   */
+  getNamespace(): string | null {
+    return (game.settings.get('realms-and-reaches', 'thematicNamespace') as string) || null;
+  }
+
+  /**
+   * Visualise a namespace, or turn the overlay off with null
+   */
+  async setNamespace(prefix: string | null): Promise<void> {
+    await game.settings.set('realms-and-reaches', 'thematicNamespace', prefix || '');
+  }
+
+  /**
+   * Redraw the overlay and legend for the current scene
+   */
+  draw(): RealmTheme | null {
+    this.tearDown();
+    const prefix = this.getNamespace();
+    if (!prefix || !canvas?.scene || !canvas.interface) return null;
+
+    // Players only see the realms and tags their discovery allows
+    const regions: any[] = canvas.scene.regions.filter(
+      (region: any) => region.flags?.['realms-and-reaches']?.isRealm === true
+    );
+    const realms = getVisibleRealms(regions.map(region => new RealmDataCompat(region)));
+    const values = [
+      ...new Set(
+        realms.map(realm => realm.getTag(prefix)).filter((value): value is string => !!value)
+      )
+    ];
+    const theme = buildTheme(prefix, values);
+
+    this.container = new PIXI.Container();
+    this.container.eventMode = 'none';
+    canvas.interface.addChildAt(this.container, 0);
+
+    for (const realm of realms) {
+      const color = getThemeColor(theme, realm.getTag(prefix));
+      if (color === null) continue;
+
+      const graphics = new PIXI.Graphics();
+      graphics.beginFill(color, OVERLAY_ALPHA);
+      drawRealmShapes(graphics, realm._region.shapes || []);
+      graphics.endFill();
+      this.container.addChild(graphics);
+    }
+
+    this.legend = document.createElement('section');
+    this.legend.id = 'realm-theme-legend';
+    this.legend.className = 'realm-theme-legend';
+    this.legend.innerHTML = renderThemeLegend(theme);
+    (document.getElementById('interface') || document.body).appendChild(this.legend);
+
+    return theme;
+  }
+
+  /**
+   * Remove the overlay and legend
+   */
+  tearDown(): void {
+    this.container?.destroy({ children: true });
+    this.container = null;
+    this.legend?.remove();
+    this.legend = null;
+  }
+}
+
+/**
+ * Choose which namespace the overlay visualises
+ */
+export function openThematicOverlayDialog(): void {
+  const overlay = ThematicOverlay.getInstance();
+  const current = overlay.getNamespace();
+  const options = TagSystem.getInstance()
+    .getNamespaces()
+    .filter(namespace => namespace.prefix !== 'module')
+    .map(namespace => {
+      const kind = namespace.valueType?.type === 'number' ? ' (gradient)' : '';
+      const selected = namespace.prefix === current ? 'selected' : '';
+      return `<option value="${namespace.prefix}" ${selected}>${namespace.name}${kind}</option>`;
+    })
+    .join('');
+
+  const dialog = new Dialog({
+    title: 'Thematic Map',
+    content: `
+      <form autocomplete="off">
+        <div class="form-group">
+          <label>Colour Realms By</label>
+          <select name="namespace">
+            <option value="">None (overlay off)</option>
+            ${options}
+          </select>
+        </div>
+        <p class="notes">Numeric namespaces are shown as a gradient across their range.</p>
+      </form>
+    `,
+    buttons: {
+      apply: {
+        icon: '<i class="fas fa-palette"></i>',
+        label: 'Show',
+        callback: async (html: JQuery) => {
+          await overlay.setNamespace(String(html.find('select[name="namespace"]').val() || ''));
+        }
+      },
+      cancel: {
+        label: 'Cancel'
+      }
+    },
+    default: 'apply'
+  });
+
+  dialog.render(true);
+}
@@ -0,0 +1,259 @@
+/**
+ * TokenTracker - Tracks which realms each token is inside
+ *
+ * Follows token movement and announces every realm border crossed along the
+ * way, so other modules don't need to poll getRealmAt on every updateToken.
+ */
+
+import { RealmManager, RealmDataCompat } from './realm-manager';
+import { PathPoint } from './path-geometry';
+
+/**
+ * Movement that caused a token to enter or exit a realm
+ */
+export interface TokenRealmMovement {
+  sceneId: string;
+  from: PathPoint; // Token center before the move
+  to: PathPoint; // Token center after the move
+  point: PathPoint; // Where the border was crossed
+  distance: number; // Scene units along the path from the start of the move to the crossing
+}
+
+interface TrackedToken {
+  position: PathPoint;
+  realms: Set<string>;
+}
+
+interface RealmTransition {
+  type: 'enter' | 'exit';
+  realmId: string;
+  point: PathPoint;
+  distance: number;
+}
+
+export const TOKEN_ENTER_REALM_HOOK = 'realmsAndReaches.tokenEnterRealm';
+export const TOKEN_EXIT_REALM_HOOK = 'realmsAndReaches.tokenExitRealm';
+
+/**
+ * TokenTracker keeps each token's current realm set per scene
+ */
+export class TokenTracker {
+  private static instance: TokenTracker;
+
+  // Keyed by scene ID, then token ID
+  private scenes = new Map<string, Map<string, TrackedToken>>();
+
+  static getInstance(): TokenTracker {
+    if (!TokenTracker.instance) {
+      TokenTracker.instance = new TokenTracker();
+    }
+    return TokenTracker.instance;
+  }
+
+  /**
+   * Get the center of a token in scene pixels
+   */
+  static getTokenCenter(token: any): PathPoint {
+    const gridSize = Number(token.parent?.grid?.size) || 100;
+    return {
+      x: (token.x || 0) + ((token.width || 1) * gridSize) / 2,
+      y: (token.y || 0) + ((token.height || 1) * gridSize) / 2
+    };
+  }
+
+  /**
+   * Get the IDs of the realms a token is currently inside
+   */
+  getTokenRealms(sceneId: string, tokenId: string): string[] {
+    return Array.from(this.scenes.get(sceneId)?.get(tokenId)?.realms || []);
+  }
+
+  /**
+   * Record a token's current position and realms without firing hooks
+   */
+  track(token: any): void {
+    const sceneId = token.parent?.id;
+    if (!sceneId) return;
+
+    const position = TokenTracker.getTokenCenter(token);
+    const realms = RealmManager.getInstance(sceneId).getRealmsAt(position.x, position.y);
+    this.getSceneTokens(sceneId).set(token.id, {
+      position,
+      realms: new Set(realms.map(realm => realm.id))
+    });
+  }
+
+  /**
+   * Record every token in a scene
+   */
+  trackScene(scene: any): void {
+    this.scenes.delete(scene.id);
+    for (const token of scene.tokens || []) {
+      this.track(token);
+    }
+  }
+
+  /**
+   * Stop tracking a token
+   */
+  forget(token: any): void {
+    const sceneId = token.parent?.id;
+    if (sceneId) this.scenes.get(sceneId)?.delete(token.id);
+  }
+
+  /**
+   * Get the centres a token passed through during a move
+   *
+   * Reads the waypoints of the v13 movement data in the updateToken options,
+   * falling back to a straight line when the update has none.
+   */
+  static getMovementPath(token: any, from: PathPoint, to: PathPoint, options?: any): PathPoint[] {
+    const waypoints: any[] = options?.movement?.[token.id]?.waypoints || [];
+    const { parent, width, height } = token;
+    const centers = waypoints.map(waypoint =>
+      TokenTracker.getTokenCenter({ parent, width, height, ...waypoint })
+    );
+
+    // Waypoints are top-left positions and may repeat the start or end
+    const path = [from];
+    for (const point of [...centers, to]) {
+      const last = path[path.length - 1];
+      if (point.x !== last.x || point.y !== last.y) path.push(point);
+    }
+    return path;
+  }
+
+  /**
+   * Handle a token moving to its current position
+   *
+   * Fires exit and enter events for every border crossed along the move's
+   * waypoints from the last recorded position to the current one, in path order.
+   * @param options - The updateToken options holding the v13 movement data
+   */
+  handleTokenMove(token: any, options?: any): void {
+    const sceneId = token.parent?.id;
+    if (!sceneId) return;
+
+    const tracked = this.getSceneTokens(sceneId).get(token.id);
+    if (!tracked) {
+      this.track(token);
+      return;
+    }
+
+    const from = tracked.position;
+    const to = TokenTracker.getTokenCenter(token);
+    if (from.x === to.x && from.y === to.y) return;
+
+    const manager = RealmManager.getInstance(sceneId);
+    const path = TokenTracker.getMovementPath(token, from, to, options);
+    const transitions = this.getTransitions(manager, tracked.realms, path);
+    tracked.position = to;
+
+    for (const transition of transitions) {
+      if (transition.type === 'enter') {
+        tracked.realms.add(transition.realmId);
+      } else {
+        tracked.realms.delete(transition.realmId);
+      }
+
+      const realm = manager.getRealm(transition.realmId);
+      if (!realm) continue;
+
+      const movement: TokenRealmMovement = {
+        sceneId,
+        from,
+        to,
+        point: transition.point,
+        distance: transition.distance
+      };
+      this.announce(manager, transition.type, token, realm, movement);
+    }
+  }
+
+  /**
+   * Work out the ordered realm transitions along a movement path
+   */
+  private getTransitions(
+    manager: RealmManager,
+    current: Set<string>,
+    points: PathPoint[]
+  ): RealmTransition[] {
+    const from = points[0];
+    const path = manager.getRealmsAlongPath(points);
+    const end = path.totalLength;
+    const epsilon = 1e-6;
+
+    const transitions: RealmTransition[] = [];
+    const insideAtStart = new Set<string>();
+
+    for (const crossing of path.crossings) {
+      const startsInside = crossing.entry.distance <= epsilon;
+      if (startsInside) insideAtStart.add(crossing.realmId);
+
+      const { entry, exit } = crossing;
+      if (!startsInside || !current.has(crossing.realmId)) {
+        const point = { x: entry.x, y: entry.y };
+        transitions.push({
+          type: 'enter',
+          realmId: crossing.realmId,
+          point,
+          distance: entry.distance
+        });
+      }
+      if (exit.distance < end - epsilon) {
+        const point = { x: exit.x, y: exit.y };
+        transitions.push({
+          type: 'exit',
+          realmId: crossing.realmId,
+          point,
+          distance: exit.distance
+        });
+      }
+    }
+
+    // Realms the token was recorded in but has already left (e.g. reshaped)
+    for (const realmId of current) {
+      if (!insideAtStart.has(realmId)) {
+        transitions.push({ type: 'exit', realmId, point: { ...from }, distance: 0 });
+      }
+    }
+
+    // Path order, leaving a realm before entering the next at a shared border
+    return transitions.sort(
+      (a, b) => a.distance - b.distance || (a.type === b.type ? 0 : a.type === 'exit' ? -1 : 1)
+    );
+  }
+
+  /**
+   * Fire the hook and RealmManager event for a transition
+   */
+  private announce(
+    manager: RealmManager,
+    type: 'enter' | 'exit',
+    token: any,
+    realm: RealmDataCompat,
+    movement: TokenRealmMovement
+  ): void {
+    Hooks.callAll(
+      type === 'enter' ? TOKEN_ENTER_REALM_HOOK : TOKEN_EXIT_REALM_HOOK,
+      token,
+      realm,
+      movement
+    );
+
+    manager.dispatchEvent(
+      new CustomEvent(type === 'enter' ? 'tokenEnterRealm' : 'tokenExitRealm', {
+        detail: { token, realm, movement, sceneId: movement.sceneId }
+      })
+    );
+  }
+
+  private getSceneTokens(sceneId: string): Map<string, TrackedToken> {
+    let tokens = this.scenes.get(sceneId);
+    if (!tokens) {
+      tokens = new Map();
+      this.scenes.set(sceneId, tokens);
+    }
+    return tokens;
+  }
+}
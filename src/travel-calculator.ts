@@ -0,0 +1,258 @@
+/**
+ * TravelCalculator - Travel time estimates from realm travel_speed tags
+ *
+ * Splits a waypoint route into legs by the realms it crosses and weights
+ * each leg by the effective travel_speed at that point of the route.
+ */
+
+import { RealmDataCompat, RealmManager } from './realm-manager';
+import { TagSource, TagSystem } from './tag-system';
+import { PathPoint } from './path-geometry';
+import { getBehaviorTravelSpeed } from './realm-behaviors';
+
+export interface TravelTimeOptions {
+  speed: number; // Base party speed in scene units per time unit
+  timeUnit?: string; // Label for the time unit (default: 'hours')
+  sceneId?: string;
+}
+
+/**
+ * A stretch of the route travelled at a single speed modifier
+ */
+export interface TravelLeg {
+  realmId: string | null; // null for open ground outside any realm
+  realmName: string;
+  distance: number;
+  speedModifier: number;
+  time: number;
+}
+
+/**
+ * Route totals for one realm (or open ground)
+ */
+export interface TravelRealmBreakdown {
+  realmId: string | null;
+  realmName: string;
+  distance: number;
+  time: number;
+  speedModifier: number;
+}
+
+export interface TravelTimeResult {
+  sceneId: string;
+  units: string;
+  timeUnit: string;
+  baseSpeed: number;
+  totalDistance: number;
+  totalTime: number;
+  legs: TravelLeg[];
+  realms: TravelRealmBreakdown[];
+}
+
+const OPEN_GROUND = 'Open Ground';
+
+/**
+ * Narrows the realms a calculation may use, e.g. to what a player may see
+ */
+export type RealmFilter = (realms: RealmDataCompat[]) => RealmDataCompat[];
+
+/**
+ * Give realms with a travel speed behavior the behavior's speed as travel_speed
+ *
+ * Realms reporting no tags (rumoured, in a player's view) are left unchanged.
+ */
+export function applyTravelSpeedBehaviors(realms: RealmDataCompat[]): TagSource[] {
+  return realms.map(realm => {
+    const speed = getBehaviorTravelSpeed(realm._region);
+    const tags = realm.getTags();
+    if (speed === null || tags.length === 0) return realm;
+
+    return {
+      id: realm.id,
+      name: realm.name,
+      priority: realm.priority,
+      getTags: () => [
+        ...tags.filter(tag => !tag.startsWith('travel_speed:')),
+        `travel_speed:${speed}`
+      ]
+    };
+  });
+}
+
+/**
+ * TravelCalculator turns routes into travel time breakdowns
+ */
+export class TravelCalculator {
+  private static instance: TravelCalculator;
+
+  static getInstance(): TravelCalculator {
+    if (!TravelCalculator.instance) {
+      TravelCalculator.instance = new TravelCalculator();
+    }
+    return TravelCalculator.instance;
+  }
+
+  /**
+   * Calculate the travel time along a waypoint route
+   * @param points - Waypoints in scene pixels
+   * @param options - Base speed and time unit
+   * @param filter - Realms to take into account (default: all)
+   * @returns Total time with per-leg and per-realm breakdowns
+   */
+  calculate(
+    points: PathPoint[],
+    options: TravelTimeOptions,
+    filter: RealmFilter = realms => realms
+  ): TravelTimeResult {
+    if (!(options.speed > 0)) {
+      throw new Error('Travel speed must be a positive number');
+    }
+
+    const manager = RealmManager.getInstance(options.sceneId);
+    const path = manager.getRealmsAlongPath(points);
+    const sceneId = options.sceneId || canvas?.scene?.id || 'global';
+
+    // Every entry and exit splits the route into pieces with a fixed realm set
+    const cuts = new Set<number>([0, path.totalLength]);
+    for (const crossing of path.crossings) {
+      cuts.add(crossing.entry.distance);
+      cuts.add(crossing.exit.distance);
+    }
+    const distances = Array.from(cuts).sort((a, b) => a - b);
+
+    const legs: TravelLeg[] = [];
+    for (let i = 0; i < distances.length - 1; i++) {
+      const distance = distances[i + 1] - distances[i];
+      if (distance <= 1e-9) continue;
+
+      const mid = (distances[i] + distances[i + 1]) / 2;
+      const realmIds = new Set(
+        path.crossings
+          .filter(c => c.entry.distance <= mid && c.exit.distance >= mid)
+          .map(c => c.realmId)
+      );
+      const realms = filter(
+        Array.from(realmIds)
+          .map(id => manager.getRealm(id))
+          .filter(realm => realm !== null)
+      ).sort((a, b) => b.priority - a.priority);
+
+      // The realm whose travel_speed wins is credited with the leg
+      const effective = TagSystem.getInstance().resolveEffectiveTags(
+        applyTravelSpeedBehaviors(realms)
+      );
+      const speedTag = effective.tags.find(t => t.key === 'travel_speed');
+      const modifier = speedTag ? parseFloat(speedTag.value) : 1;
+      const speedModifier = modifier > 0 ? modifier : 1;
+      const source = speedTag?.sources[0];
+
+      const realmId = source?.realmId ?? realms[0]?.id ?? null;
+      const realmName = source?.realmName ?? realms[0]?.name ?? OPEN_GROUND;
+      const time = distance / (options.speed * speedModifier);
+
+      const previous = legs[legs.length - 1];
+      if (previous && previous.realmId === realmId && previous.speedModifier === speedModifier) {
+        previous.distance += distance;
+        previous.time += time;
+      } else {
+        legs.push({ realmId, realmName, distance, speedModifier, time });
+      }
+    }
+
+    const breakdown = new Map<string, TravelRealmBreakdown>();
+    for (const leg of legs) {
+      const key = leg.realmId ?? '';
+      const entry = breakdown.get(key);
+      if (entry) {
+        entry.distance += leg.distance;
+        entry.time += leg.time;
+      } else {
+        breakdown.set(key, {
+          realmId: leg.realmId,
+          realmName: leg.realmName,
+          distance: leg.distance,
+          time: leg.time,
+          speedModifier: leg.speedModifier
+        });
+      }
+    }
+
+    // Report the average modifier for realms crossed at more than one speed
+    for (const entry of breakdown.values()) {
+      entry.speedModifier = entry.time > 0 ? entry.distance / (entry.time * options.speed) : 1;
+    }
+
+    return {
+      sceneId,
+      units: path.units,
+      timeUnit: options.timeUnit || 'hours',
+      baseSpeed: options.speed,
+      totalDistance: path.totalLength,
+      totalTime: legs.reduce((total, leg) => total + leg.time, 0),
+      legs,
+      realms: Array.from(breakdown.values())
+    };
+  }
+
+  /**
+   * Render a travel time result as chat card HTML
+   */
+  renderChatCard(result: TravelTimeResult): string {
+    const escape = (foundry.utils as any).escapeHTML;
+    const units = result.units ? ` ${escape(result.units)}` : '';
+    const timeUnit = escape(result.timeUnit);
+    const rows = result.realms
+      .map(
+        realm => `
+          <tr>
+            <td>${escape(realm.realmName)}</td>
+            <td>${this.formatNumber(realm.distance)}${units}</td>
+            <td>×${this.formatNumber(realm.speedModifier)}</td>
+            <td>${this.formatNumber(realm.time)}</td>
+          </tr>
+        `
+      )
+      .join('');
+
+    return `
+      <div class="realm-travel-card">
+        <h3><i class="fas fa-route"></i> Travel Time</h3>
+        <p class="realm-travel-summary">
+          <strong>${this.formatNumber(result.totalTime)} ${timeUnit}</strong>
+          for ${this.formatNumber(result.totalDistance)}${units}
+          at ${this.formatNumber(result.baseSpeed)}${units} per ${escape(this.singular(result.timeUnit))}
+        </p>
+        <table class="realm-travel-breakdown">
+          <thead>
+            <tr>
+              <th>Realm</th>
+              <th>Distance</th>
+              <th>Speed</th>
+              <th>${timeUnit.charAt(0).toUpperCase() + timeUnit.slice(1)}</th>
+            </tr>
+          </thead>
+          <tbody>${rows}</tbody>
+        </table>
+      </div>
+    `;
+  }
+
+  /**
+   * Post a travel time result to chat, whispered to GMs
+   */
+  async postChatCard(result: TravelTimeResult): Promise<void> {
+    await ChatMessage.create({
+      content: this.renderChatCard(result),
+      whisper: ChatMessage.getWhisperRecipients('GM').map((user: any) => user.id),
+      speaker: { alias: 'Realms & Reaches' }
+    });
+  }
+
+  private formatNumber(value: number): string {
+    return String(Math.round(value * 100) / 100);
+  }
+
+  private singular(unit: string): string {
+    return unit.endsWith('s') ? unit.slice(0, -1) : unit;
+  }
+}
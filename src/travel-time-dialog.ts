@@ -0,0 +1,136 @@
+/**
+ * Travel Time Dialog - GM tool for posting a travel time breakdown to chat
+ *
+ * The GM enters the party's speed, then clicks waypoints on the canvas.
+ * Right-clicking ends the route and whispers the breakdown to GMs; Escape
+ * cancels it.
+ */
+
+import { TravelCalculator, TravelTimeOptions } from './travel-calculator';
+import { PathPoint } from './path-geometry';
+
+// Speed and time unit of the last estimate, offered again next time
+let lastOptions: TravelTimeOptions = { speed: 3, timeUnit: 'hours' };
+
+// Ends the waypoint collection in progress, if any
+let finishCollection: ((points: PathPoint[]) => void) | null = null;
+
+/**
+ * Render the speed and time unit form
+ */
+export function renderTravelTimeForm(options: TravelTimeOptions): string {
+  return `
+    <form class="realm-travel-time" autocomplete="off">
+      <div class="form-group">
+        <label>Party Speed</label>
+        <input type="number" name="speed" value="${options.speed}" min="0" step="any">
+        <p class="notes">Scene units travelled per time unit on open ground.</p>
+      </div>
+      <div class="form-group">
+        <label>Time Unit</label>
+        <input type="text" name="timeUnit" value="${options.timeUnit || 'hours'}">
+      </div>
+      <p class="notes">
+        After confirming, click waypoints on the canvas and right-click to finish the route.
+      </p>
+    </form>
+  `;
+}
+
+/**
+ * Read the travel time form back into calculator options
+ */
+export function parseTravelTimeForm(form: HTMLFormElement): TravelTimeOptions {
+  const value = (name: string) => (form.elements.namedItem(name) as HTMLInputElement).value;
+  return {
+    speed: parseFloat(value('speed')),
+    timeUnit: value('timeUnit').trim() || 'hours'
+  };
+}
+
+/**
+ * Cancel the waypoint collection in progress, resolving it with no waypoints
+ */
+export function cancelWaypoints(): void {
+  finishCollection?.([]);
+}
+
+/**
+ * Collect the waypoints clicked on a canvas stage until the right button is pressed
+ *
+ * Escape, or starting another collection, cancels it with no waypoints.
+ */
+export function collectWaypoints(stage: any): Promise<PathPoint[]> {
+  cancelWaypoints();
+
+  return new Promise(resolve => {
+    const points: PathPoint[] = [];
+    const finish = (result: PathPoint[]) => {
+      stage.off('pointerdown', onPointerDown);
+      document.removeEventListener('keydown', onKeyDown);
+      finishCollection = null;
+      resolve(result);
+    };
+    const onPointerDown = (event: any) => {
+      if (event.button === 2) {
+        finish(points);
+        return;
+      }
+      if (event.button !== 0) return;
+      const point = event.getLocalPosition(stage);
+      points.push({ x: point.x, y: point.y });
+    };
+    const onKeyDown = (event: KeyboardEvent) => {
+      if (event.key === 'Escape') finish([]);
+    };
+
+    stage.on('pointerdown', onPointerDown);
+    document.addEventListener('keydown', onKeyDown);
+    finishCollection = finish;
+  });
+}
+
+/**
+ * Ask for the party's speed, collect a route and post its travel time
+ */
+export function openTravelTimeDialog(): void {
+  const dialog = new Dialog({
+    title: 'Travel Time',
+    content: renderTravelTimeForm(lastOptions),
+    buttons: {
+      route: {
+        icon: '<i class="fas fa-route"></i>',
+        label: 'Choose Route',
+        callback: async (html: JQuery) => {
+          const options = parseTravelTimeForm(html.find('form')[0] as HTMLFormElement);
+          if (!(options.speed > 0) || !canvas?.stage || !canvas.scene) {
+            ui.notifications?.error('Enter a positive party speed on an active scene');
+            return;
+          }
+          lastOptions = options;
+
+          ui.notifications?.info(
+            'Click waypoints on the canvas, then right-click to finish or press Escape to cancel'
+          );
+          const points = await collectWaypoints(canvas.stage);
+          if (points.length === 0) return;
+          if (points.length < 2) {
+            ui.notifications?.warn('A route needs at least two waypoints');
+            return;
+          }
+
+          const calculator = TravelCalculator.getInstance();
+          await calculator.postChatCard(
+            calculator.calculate(points, { ...options, sceneId: canvas.scene.id })
+          );
+        }
+      },
+      cancel: {
+        label: 'Cancel'
+      }
+    },
+    default: 'route'
+  });
+
+  dialog.render(true);
+}
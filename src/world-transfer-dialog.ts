@@ -0,0 +1,221 @@
+/**
+ * World Transfer Dialogs - Download every scene's realms, or import them
+ * with a scene mapping step
+ */
+
+import {
+  SceneImportMode,
+  WorldImportReport,
+  WorldSceneImport,
+  WorldSceneMatch,
+  WorldTransfer,
+  findReplaceConflicts
+} from './world-transfer';
+
+/**
+ * Download the world's realms as a JSON file
+ */
+export function downloadWorldExport(): void {
+  const data = WorldTransfer.getInstance().exportWorld();
+  const realmCount = data.scenes.reduce((sum, scene) => sum + scene.realms.length, 0);
+  const filename = `realms-${game.world?.id || 'world'}.json`;
+
+  (foundry.utils as any).saveDataToFile(JSON.stringify(data, null, 2), 'text/json', filename);
+  ui.notifications?.info(`Exported ${realmCount} realms from ${data.scenes.length} scenes`);
+}
+
+/**
+ * Render one row per exported scene with its target scene and import mode
+ */
+export function renderSceneMappingTable(
+  matches: WorldSceneMatch[],
+  worldScenes: { id: string; name: string }[]
+): string {
+  const escape = (foundry.utils as any).escapeHTML;
+  const rows = matches
+    .map(match => {
+      const options = worldScenes
+        .map(
+          scene =>
+            `<option value="${scene.id}" ${scene.id === match.targetId ? 'selected' : ''}>${escape(scene.name)}</option>`
+        )
+        .join('');
+      const hint = match.matchedBy ? `Matched by ${match.matchedBy}` : 'No matching scene';
+
+      return `
+        <tr>
+          <td>
+            <strong>${escape(match.sourceName || match.sourceId || `Scene ${match.index + 1}`)}</strong>
+            <div class="notes">${match.realmCount} realms · ${hint}</div>
+          </td>
+          <td>
+            <select name="target-${match.index}">
+              <option value="" ${match.targetId ? '' : 'selected'}>Skip</option>
+              ${options}
+            </select>
+          </td>
+          <td>
+            <select name="mode-${match.index}">
+              <option value="merge" selected>Merge</option>
+              <option value="replace">Replace</option>
+            </select>
+          </td>
+        </tr>
+      `;
+    })
+    .join('');
+
+  return `
+    <form class="realm-world-import" autocomplete="off">
+      <table>
+        <thead>
+          <tr><th>Exported Scene</th><th>Import Into</th><th>Existing Realms</th></tr>
+        </thead>
+        <tbody>${rows}</tbody>
+      </table>
+    </form>
+  `;
+}
+
+/**
+ * Read the mapping form back into an import plan
+ */
+export function parseSceneMappingForm(
+  form: HTMLFormElement,
+  matches: WorldSceneMatch[]
+): WorldSceneImport[] {
+  const value = (name: string) => (form.elements.namedItem(name) as HTMLSelectElement).value;
+
+  return matches.map(match => {
+    const targetId = value(`target-${match.index}`) || null;
+    return {
+      index: match.index,
+      targetId,
+      mode: targetId ? (value(`mode-${match.index}`) as SceneImportMode) : 'skip'
+    };
+  });
+}
+
+/**
+ * Describe a world import in one line
+ */
+export function summarizeWorldImport(report: WorldImportReport): string {
+  const imported = report.scenes.filter(scene => scene.report);
+  const count = (key: 'accepted' | 'skipped' | 'invalid') =>
+    imported.reduce((sum, scene) => sum + scene.report![key].length, 0);
+
+  const parts = [`Imported ${count('accepted')} realms into ${imported.length} scenes`];
+  if (count('skipped') > 0) parts.push(`${count('skipped')} skipped`);
+  if (count('invalid') > 0) parts.push(`${count('invalid')} invalid`);
+  return parts.join(', ');
+}
+
+/**
+ * Choose the world scene and mode for each exported scene, then import
+ */
+function openSceneMappingDialog(data: any, matches: WorldSceneMatch[]): void {
+  const worldScenes = Array.from(game.scenes?.values() ?? []).map((scene: any) => ({
+    id: scene.id,
+    name: scene.name
+  }));
+
+  const dialog = new Dialog(
+    {
+      title: 'Map Imported Scenes',
+      content: renderSceneMappingTable(matches, worldScenes),
+      buttons: {
+        import: {
+          icon: '<i class="fas fa-file-import"></i>',
+          label: 'Import',
+          callback: async (html: JQuery) => {
+            const form = html.find('form')[0] as HTMLFormElement;
+            const plan = parseSceneMappingForm(form, matches);
+
+            // Replacing a scene's realms would wipe the other scenes imported into it
+            const conflicts = findReplaceConflicts(plan).map(
+              id => worldScenes.find(scene => scene.id === id)?.name ?? id
+            );
+            if (conflicts.length > 0) {
+              ui.notifications?.error(
+                `Only one exported scene can be imported into a scene it replaces: ${conflicts.join(', ')}`
+              );
+              return;
+            }
+
+            try {
+              const report = await WorldTransfer.getInstance().importWorld(data, plan);
+              ui.notifications?.info(summarizeWorldImport(report));
+            } catch (error) {
+              console.error('Realms & Reaches | World import failed:', error);
+              ui.notifications?.error(
+                'Failed to import realms: ' +
+                  (error instanceof Error ? error.message : String(error))
+              );
+            }
+          }
+        },
+        cancel: {
+          label: 'Cancel'
+        }
+      },
+      default: 'import'
+    },
+    { width: 600 }
+  );
+
+  dialog.render(true);
+}
+
+/**
+ * Open the world import dialog
+ */
+export function openWorldImportDialog(): void {
+  const dialog = new Dialog({
+    title: 'Import World Realms',
+    content: `
+      <form class="realm-world-import" autocomplete="off">
+        <div class="form-group">
+          <label>Realm File</label>
+          <input type="file" name="file" accept=".json">
+        </div>
+        <p class="notes">Next, choose which scene each exported scene is imported into.</p>
+      </form>
+    `,
+    buttons: {
+      next: {
+        icon: '<i class="fas fa-arrow-right"></i>',
+        label: 'Next',
+        callback: async (html: JQuery) => {
+          const form = html.find('form')[0] as HTMLFormElement;
+          const file = (form.elements.namedItem('file') as HTMLInputElement).files?.[0];
+          if (!file) {
+            ui.notifications?.warn('Choose a realm file to import');
+            return;
+          }
+
+          try {
+            const data = JSON.parse(await file.text());
+            const matches = WorldTransfer.getInstance().matchScenes(data);
+            if (matches.length === 0) {
+              ui.notifications?.warn(`${file.name} contains no scenes`);
+              return;
+            }
+            openSceneMappingDialog(data, matches);
+          } catch (error) {
+            console.error('Realms & Reaches | World import failed:', error);
+            ui.notifications?.error(
+              'Failed to read realm file: ' +
+                (error instanceof Error ? error.message : String(error))
+            );
+          }
+        }
+      },
+      cancel: {
+        label: 'Cancel'
+      }
+    },
+    default: 'next'
+  });
+
+  dialog.render(true);
+}
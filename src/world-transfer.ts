@@ -0,0 +1,182 @@
+/**
+ * WorldTransfer - Export and import the realms of every scene in a world
+ *
+ * A world export is an ordinary realm export with one entry per scene that
+ * has realms. On import each exported scene is matched to a world scene by
+ * ID, then by name, and merged into it, replaces its realms, or is skipped.
+ */
+
+import { RealmManager } from './realm-manager';
+import {
+  RealmExport,
+  RealmImportReport,
+  createRealmExport,
+  getExportVersion,
+  migrateExport
+} from './export-format';
+
+export type SceneImportMode = 'merge' | 'replace' | 'skip';
+
+/**
+ * An exported scene and the world scene it matches
+ */
+export interface WorldSceneMatch {
+  index: number; // Position in the export's scene list
+  sourceId?: string;
+  sourceName?: string;
+  realmCount: number;
+  targetId: string | null;
+  matchedBy: 'id' | 'name' | null;
+}
+
+/**
+ * Where and how to import one exported scene
+ */
+export interface WorldSceneImport {
+  index: number;
+  targetId: string | null;
+  mode: SceneImportMode;
+}
+
+export interface WorldImportReport {
+  sourceVersion: number;
+  scenes: {
+    index: number;
+    sourceName?: string;
+    targetId: string | null;
+    mode: SceneImportMode;
+    report?: RealmImportReport; // Missing for skipped scenes
+  }[];
+}
+
+/**
+ * Find world scenes that one exported scene would replace while another
+ * exported scene is also imported into them
+ * @returns The IDs of the conflicting target scenes
+ */
+export function findReplaceConflicts(plan: WorldSceneImport[]): string[] {
+  const steps = plan.filter(step => step.targetId && step.mode !== 'skip');
+  const conflicts = new Set<string>();
+
+  for (const step of steps) {
+    if (step.mode !== 'replace') continue;
+    if (steps.filter(other => other.targetId === step.targetId).length > 1) {
+      conflicts.add(step.targetId!);
+    }
+  }
+  return Array.from(conflicts);
+}
+
+/**
+ * WorldTransfer moves realms between worlds, scene by scene
+ */
+export class WorldTransfer {
+  private static instance: WorldTransfer;
+
+  static getInstance(): WorldTransfer {
+    if (!WorldTransfer.instance) {
+      WorldTransfer.instance = new WorldTransfer();
+    }
+    return WorldTransfer.instance;
+  }
+
+  /**
+   * Export the realms of every scene that has any
+   */
+  exportWorld(): RealmExport {
+    const scenes = Array.from(game.scenes?.values() ?? [])
+      .map((scene: any) => RealmManager.getInstance(scene.id).getExportScene())
+      .filter(scene => scene.realms.length > 0);
+
+    return createRealmExport(scenes, {
+      description: `Realm data for world ${game.world?.title || game.world?.id || 'Unknown'}`
+    });
+  }
+
+  /**
+   * Match each exported scene to a world scene by ID, then by name
+   */
+  matchScenes(data: any): WorldSceneMatch[] {
+    const migrated = migrateExport(data);
+    const worldScenes: any[] = Array.from(game.scenes?.values() ?? []);
+    const normalize = (name?: string) => (name || '').trim().toLowerCase();
+
+    return migrated.scenes.map((scene, index) => {
+      const match: WorldSceneMatch = {
+        index,
+        sourceId: scene.id,
+        sourceName: scene.name,
+        realmCount: Array.isArray(scene.realms) ? scene.realms.length : 0,
+        targetId: null,
+        matchedBy: null
+      };
+
+      const byId = scene.id ? worldScenes.find(world => world.id === scene.id) : undefined;
+      const byName = scene.name
+        ? worldScenes.find(world => normalize(world.name) === normalize(scene.name))
+        : undefined;
+
+      if (byId) {
+        match.targetId = byId.id;
+        match.matchedBy = 'id';
+      } else if (byName) {
+        match.targetId = byName.id;
+        match.matchedBy = 'name';
+      }
+      return match;
+    });
+  }
+
+  /**
+   * Import a world export
+   *
+   * Plans that replace a scene's realms and import another exported scene
+   * into the same scene are rejected before anything is imported.
+   * @param plan - Target scene and mode per exported scene; defaults to merging
+   *   every matched scene and skipping the rest
+   */
+  async importWorld(data: any, plan?: WorldSceneImport[]): Promise<WorldImportReport> {
+    const migrated = migrateExport(data);
+    const steps =
+      plan ??
+      this.matchScenes(migrated).map(match => ({
+        index: match.index,
+        targetId: match.targetId,
+        mode: (match.targetId ? 'merge' : 'skip') as SceneImportMode
+      }));
+
+    const conflicts = findReplaceConflicts(steps);
+    if (conflicts.length > 0) {
+      throw new Error(
+        `Several exported scenes are imported into a replaced scene: ${conflicts.join(', ')}`
+      );
+    }
+
+    const result: WorldImportReport = {
+      sourceVersion: getExportVersion(data) ?? migrated.version,
+      scenes: []
+    };
+
+    for (const step of steps) {
+      const scene = migrated.scenes[step.index];
+      if (!scene) continue;
+
+      const entry: WorldImportReport['scenes'][number] = {
+        index: step.index,
+        sourceName: scene.name,
+        targetId: step.targetId,
+        mode: step.targetId ? step.mode : 'skip'
+      };
+
+      if (entry.mode !== 'skip') {
+        entry.report = await RealmManager.getInstance(step.targetId!).importData(
+          { ...migrated, scenes: [scene] },
+          { replace: entry.mode === 'replace', merge: entry.mode === 'merge' }
+        );
+      }
+      result.scenes.push(entry);
+    }
+
+    return result;
+  }
+}
@@ -0,0 +1,219 @@
+/**
+ * Tests for the Azgaar Fantasy Map Generator importer
+ */
+
+import { describe, it, expect, afterEach, vi } from 'vitest';
+import { AzgaarImporter, dissolveCells, parseSvgPath, toTagValue } from '../src/azgaar-importer';
+import { ringsToShapes } from '../src/path-geometry';
+import { parseBiomeTagTable, formatBiomeTagTable } from '../src/azgaar-import-dialog';
+import { RealmManager } from '../src/realm-manager';
+
+/**
+ * Square cells on a 10px grid, keyed by grid vertex
+ */
+function gridCell(col: number, row: number) {
+  return [
+    [col, row],
+    [col + 1, row],
+    [col + 1, row + 1],
+    [col, row + 1]
+  ].map(([x, y]) => ({ key: `${x}_${y}`, x: x * 10, y: y * 10 }));
+}
+
+const mapFile = [
+  '1.99|license|2024-01-01|12345|1000|500|67890',
+  'settings',
+  'coords',
+  '#466eab,#fbe79f,#b5b887,#d2d082,#c8d68f|0,4,10,22,30|Marine,Hot desert,Cold desert,Savanna,Grassland',
+  '[]',
+  '<svg id="map" width="1920" height="1080"><g id="biomes"><path d="M0,0 L100,0 L100,100 L0,100 Z" fill="#fbe79f" id="biome1"></path><path d="M100,0h100v100h-100z" id="biome4"></path></g>' +
+    '<g id="statesBody"><path d="M0,0 L200,0 L200,100 L0,100 Z" fill="#ff0000" id="state1"></path><path d="M0,0 L5,0 L5,5Z" id="state-gap1"></path></g></svg>',
+  '[{"i":0,"name":"Neutrals"},{"i":1,"name":"Avaria","fullName":"Kingdom of Avaria","color":"#aa3344","expansionism":1}]'
+].join('\r\n');
+
+describe('AzgaarImporter', () => {
+  const importer = AzgaarImporter.getInstance();
+
+  afterEach(() => {
+    vi.restoreAllMocks();
+  });
+
+  describe('Geometry', () => {
+    it('should parse SVG paths into rings', () => {
+      const rings = parseSvgPath('M0,0 L10,0 10,10Z m5,5 h2 v2 z');
+      expect(rings).toEqual([
+        [0, 0, 10, 0, 10, 10],
+        [5, 5, 7, 5, 7, 7]
+      ]);
+
+      const [curve] = parseSvgPath('M0,0 C0,10 10,10 10,0 Z', 2);
+      expect(curve).toEqual([0, 0, 5, 7.5, 10, 0]);
+    });
+
+    it('should dissolve neighbouring cells into outlines', () => {
+      const cells = [];
+      for (let col = 0; col < 3; col++) {
+        for (let row = 0; row < 3; row++) {
+          if (col !== 1 || row !== 1) cells.push(gridCell(col, row));
+        }
+      }
+      // Wind one cell the other way; orientation is normalised
+      cells[0].reverse();
+
+      const rings = dissolveCells(cells);
+      expect(rings).toHaveLength(2);
+      expect(rings.map(ring => ring.length).sort((a, b) => a - b)).toEqual([8, 24]);
+
+      const shapes = ringsToShapes(rings);
+      expect(shapes[0].hole).toBeUndefined();
+      expect(shapes[0].points).toHaveLength(24);
+      expect(shapes[1].hole).toBe(true);
+    });
+
+    it('should turn names into tag values', () => {
+      expect(toTagValue('Kingdom of Ävaria')).toBe('kingdom_of_avaria');
+      expect(toTagValue('  St. Ives! ')).toBe('st._ives');
+    });
+  });
+
+  describe('Parsing', () => {
+    it('should read outlines and names from a .map file', () => {
+      const map = importer.parse(mapFile);
+
+      expect(map.width).toBe(1000);
+      expect(map.height).toBe(500);
+      expect(map.biomes.map(area => [area.id, area.name, area.color])).toEqual([
+        [1, 'Hot desert', '#fbe79f'],
+        [4, 'Grassland', '#c8d68f']
+      ]);
+      expect(map.biomes[1].rings).toEqual([[100, 0, 200, 0, 200, 100, 100, 100]]);
+      expect(map.states).toHaveLength(1);
+      expect(map.states[0]).toMatchObject({ id: 1, name: 'Kingdom of Avaria', color: '#aa3344' });
+    });
+
+    it('should merge pack cells from a full JSON export', () => {
+      const vertices = [
+        [0, 0],
+        [10, 0],
+        [20, 0],
+        [0, 10],
+        [10, 10],
+        [20, 10]
+      ].map(p => ({ p }));
+      const data = {
+        info: { width: 20, height: 10 },
+        biomesData: { name: ['Marine', 'Hot desert'], color: ['#000', '#fbe79f'] },
+        pack: {
+          vertices,
+          cells: [
+            { v: [0, 1, 4, 3], biome: 1, state: 2, province: 0 },
+            { v: [1, 2, 5, 4], biome: 1, state: 2, province: 0 }
+          ],
+          states: [{ i: 0, name: 'Neutrals' }, null, { i: 2, name: 'Brenn' }]
+        }
+      };
+
+      const map = importer.parse(JSON.stringify(data));
+      expect(map.width).toBe(20);
+      expect(map.biomes).toHaveLength(1);
+      expect(map.biomes[0].rings).toHaveLength(1);
+      expect(map.biomes[0].rings[0]).toHaveLength(12);
+      expect(map.states[0].name).toBe('Brenn');
+    });
+
+    it('should read cells GeoJSON in longitude and latitude', () => {
+      const cell = (x: number, biome: number) => ({
+        type: 'Feature',
+        geometry: {
+          type: 'Polygon',
+          coordinates: [
+            [
+              [x, 0],
+              [x + 1, 0],
+              [x + 1, 2],
+              [x, 2],
+              [x, 0]
+            ]
+          ]
+        },
+        properties: { biome, state: 1, province: 3 }
+      });
+
+      const map = importer.parse({ type: 'FeatureCollection', features: [cell(0, 6), cell(1, 9)] });
+      expect(map.width).toBe(2);
+      expect(map.height).toBe(2);
+      expect(map.biomes.map(area => area.name)).toEqual(['Temperate deciduous forest', 'Taiga']);
+      expect(map.states[0].rings[0]).toHaveLength(12);
+    });
+
+    it('should reject unknown formats', () => {
+      expect(() => importer.parse({ foo: 1 })).toThrow('Unrecognised Azgaar map format');
+    });
+  });
+
+  describe('Realms', () => {
+    it('should scale areas into the scene and tag them', () => {
+      const map = importer.parse(mapFile);
+      const realms = importer.buildRealms(
+        map,
+        { x: 100, y: 50, width: 2000, height: 1000 },
+        { biomeTags: { 4: ['biome:grassland', 'custom:farmland'] }, stateNamespace: 'custom' }
+      );
+
+      expect(realms.map(realm => realm.tags)).toEqual([
+        ['biome:desert', 'climate:arid'],
+        ['biome:grassland', 'custom:farmland'],
+        ['custom:kingdom_of_avaria']
+      ]);
+      expect(realms[0].shapes[0].points).toEqual([100, 50, 300, 50, 300, 250, 100, 250]);
+      expect(realms[2].priority).toBe(1);
+    });
+
+    it('should skip biomes mapped to no tags and only build chosen layers', () => {
+      const map = importer.parse(mapFile);
+      const realms = importer.buildRealms(
+        map,
+        { x: 0, y: 0, width: 1000, height: 500 },
+        { biomeTags: { 1: [] }, layers: ['biomes'] }
+      );
+
+      expect(realms.map(realm => realm.name)).toEqual(['Grassland']);
+    });
+
+    it('should import realms and add new namespaces to the vocabulary', async () => {
+      const importData = vi.fn().mockResolvedValue({
+        sourceVersion: 2,
+        accepted: [{}, {}, {}],
+        skipped: [],
+        invalid: []
+      });
+      vi.spyOn(RealmManager, 'getInstance').mockReturnValue({ importData } as any);
+      const scene = {
+        id: 'scene1',
+        width: 2000,
+        height: 1000,
+        dimensions: { sceneX: 0, sceneY: 0 }
+      };
+      game.scenes = new Map([['scene1', scene]]) as any;
+
+      const count = await importer.import(mapFile, { sceneId: 'scene1', replace: true });
+
+      expect(count).toBe(3);
+      const [data, options] = importData.mock.calls[0];
+      expect(data.format).toBe('realms-and-reaches');
+      expect(data.scenes[0].realms).toHaveLength(3);
+      expect(options).toEqual({ replace: true, merge: true });
+      expect(game.settings.set).toHaveBeenCalledWith('realms-and-reaches', 'tagVocabulary', {
+        state: { label: 'State', suggestions: ['kingdom_of_avaria'], singleValue: true }
+      });
+    });
+  });
+
+  describe('Biome Table', () => {
+    it('should round-trip the editable biome table', () => {
+      const table = parseBiomeTagTable('0:\n6: biome:forest, Climate:Temperate\nnot a line\n');
+      expect(table).toEqual({ 0: [], 6: ['biome:forest', 'climate:temperate'] });
+      expect(formatBiomeTagTable(table)).toBe('0: \n6: biome:forest, climate:temperate');
+    });
+  });
+});
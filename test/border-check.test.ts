@@ -0,0 +1,93 @@
+/**
+ * Tests for the realm border check
+ */
+
+import { describe, it, expect } from 'vitest';
+import { findBorderProblems, renderBorderProblems } from '../src/border-check';
+import { RealmDataCompat } from '../src/realm-manager';
+import { createMockRegion } from './foundry-mocks';
+
+function createRealm(id: string, x: number, y: number, width: number, height: number) {
+  const region = createMockRegion({
+    id,
+    name: id,
+    shapes: [{ type: 'rectangle', x, y, width, height }],
+    flags: { 'realms-and-reaches': { isRealm: true, tags: [] } }
+  });
+  return new RealmDataCompat(region as any);
+}
+
+describe('Border Check', () => {
+  it('should find nothing between realms that share a border', () => {
+    const realms = [createRealm('forest', 0, 0, 500, 500), createRealm('plains', 500, 0, 500, 500)];
+
+    expect(findBorderProblems(realms, { resolution: 20 })).toEqual([]);
+  });
+
+  it('should not report the outside corner of an L-shaped pair', () => {
+    const realms = [createRealm('forest', 0, 0, 500, 500), createRealm('plains', 500, 0, 500, 200)];
+
+    expect(findBorderProblems(realms, { resolution: 20 })).toEqual([]);
+  });
+
+  it('should report a sliver gap between neighbours', () => {
+    const realms = [createRealm('forest', 0, 0, 490, 500), createRealm('plains', 510, 0, 490, 500)];
+
+    const [gap, ...rest] = findBorderProblems(realms, { resolution: 10, unitsPerPixel: 0.05 });
+    expect(rest).toEqual([]);
+    expect(gap.type).toBe('gap');
+    expect(gap.realmIds).toEqual(['forest', 'plains']);
+    expect(gap.bounds).toMatchObject({ x: 490, width: 20, height: 500 });
+    expect(gap.area).toBeCloseTo(20 * 500 * 0.05 ** 2);
+  });
+
+  it('should report overlaps but not nested realms', () => {
+    const realms = [
+      createRealm('forest', 0, 0, 520, 500),
+      createRealm('plains', 500, 0, 500, 500),
+      createRealm('village', 100, 100, 100, 100)
+    ];
+
+    const problems = findBorderProblems(realms, { resolution: 10 });
+    expect(problems).toHaveLength(1);
+    expect(problems[0]).toMatchObject({
+      type: 'overlap',
+      realmIds: ['forest', 'plains'],
+      bounds: { x: 500, y: 0, width: 20, height: 500 }
+    });
+  });
+
+  it('should list problems with realm names and areas', () => {
+    const html = renderBorderProblems(
+      [
+        {
+          type: 'gap',
+          realmIds: ['a', 'b'],
+          center: { x: 0, y: 0 },
+          bounds: { x: 0, y: 0, width: 1, height: 1 },
+          area: 12.4
+        }
+      ],
+      id => id.toUpperCase(),
+      'ft'
+    );
+
+    expect(html).toContain('Gap between A, B');
+    expect(html).toContain('12 ft²');
+    expect(renderBorderProblems([], id => id)).toContain('No gaps or overlaps');
+  });
+
+  it('should escape realm names', () => {
+    const problem = {
+      type: 'overlap' as const,
+      realmIds: ['a'],
+      center: { x: 0, y: 0 },
+      bounds: { x: 0, y: 0, width: 1, height: 1 },
+      area: 1
+    };
+
+    const html = renderBorderProblems([problem], () => '<img src=x onerror=alert(1)>');
+    expect(html).not.toContain('<img');
+    expect(html).toContain('&lt;img');
+  });
+});
@@ -0,0 +1,105 @@
+/**
+ * Tests for the versioned export format
+ */
+
+import { describe, it, expect } from 'vitest';
+import {
+  REALM_EXPORT_SCHEMA,
+  REALM_EXPORT_VERSION,
+  createRealmExport,
+  getExportVersion,
+  migrateExport,
+  parseRealmExport,
+  validateSchema
+} from '../src/export-format';
+
+const realm = {
+  id: 'realm1',
+  name: 'Ancient Forest',
+  shapes: [{ type: 'polygon', points: [0, 0, 100, 0, 100, 100] }],
+  tags: ['biome:forest']
+};
+
+describe('Export Format', () => {
+  describe('Schema Validation', () => {
+    it('should accept a current export', () => {
+      const data = createRealmExport([{ id: 'scene1', realms: [realm] }]);
+
+      expect(data.version).toBe(REALM_EXPORT_VERSION);
+      expect(validateSchema(data, REALM_EXPORT_SCHEMA)).toEqual([]);
+    });
+
+    it('should report errors by JSON pointer path', () => {
+      const data = createRealmExport([
+        { realms: [{ ...realm, priority: 'high', shapes: [{ type: 'hexagon' }] } as any] }
+      ]);
+
+      expect(validateSchema(data, REALM_EXPORT_SCHEMA)).toEqual([
+        {
+          path: '/scenes/0/realms/0/shapes/0/type',
+          message: 'must be one of polygon, rectangle, ellipse, circle'
+        },
+        { path: '/scenes/0/realms/0/priority', message: 'must be number' }
+      ]);
+    });
+  });
+
+  describe('Migrations', () => {
+    it('should detect export versions', () => {
+      expect(getExportVersion({ format: 'realms-and-reaches-v1' })).toBe(1);
+      expect(getExportVersion({ format: 'realms-and-reaches', version: 2 })).toBe(2);
+      expect(getExportVersion({ format: 'other' })).toBeNull();
+    });
+
+    it('should upgrade single-scene version 1 exports', () => {
+      const migrated = migrateExport({
+        format: 'realms-and-reaches-v1',
+        metadata: { author: 'GM', version: '1.0.0', sceneId: 'scene1', sceneName: 'Vale' },
+        realms: [realm],
+        bounds: { width: 4000, height: 3000 }
+      });
+
+      expect(migrated).toEqual({
+        format: 'realms-and-reaches',
+        version: 2,
+        metadata: { author: 'GM' },
+        scenes: [
+          { id: 'scene1', name: 'Vale', bounds: { width: 4000, height: 3000 }, realms: [realm] }
+        ]
+      });
+    });
+
+    it('should upgrade multi-scene version 1 exports', () => {
+      const migrated = migrateExport({
+        format: 'realms-and-reaches-v1',
+        metadata: { version: '1.0.0' },
+        scenes: { scene1: { realms: [realm] }, scene2: { realms: [] } }
+      });
+
+      expect(migrated.scenes.map(scene => scene.id)).toEqual(['scene1', 'scene2']);
+      expect(migrated.scenes[0].realms).toEqual([realm]);
+    });
+
+    it('should reject unknown and newer formats', () => {
+      expect(() => migrateExport({ format: 'other' })).toThrow('Unsupported data format');
+      expect(() => migrateExport({ format: 'realms-and-reaches', version: 3 })).toThrow(
+        'newer than this module supports'
+      );
+    });
+  });
+
+  describe('Parsing', () => {
+    it('should separate realm errors from file errors', () => {
+      const { realmErrors, sourceVersion } = parseRealmExport({
+        format: 'realms-and-reaches-v1',
+        realms: [realm, { name: 'Broken', shapes: [realm.shapes[0]], tags: 'biome:forest' }]
+      });
+
+      expect(sourceVersion).toBe(1);
+      expect([...realmErrors]).toEqual([['0/1', ['/tags must be array']]]);
+      expect(() => parseRealmExport({ format: 'realms-and-reaches', version: 2 })).toThrow(
+        'Invalid realm export: /metadata is required; /scenes is required'
+      );
+    });
+  });
+});
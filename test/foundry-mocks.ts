@@ -115,6 +115,10 @@ export function createMockScene(options: Partial<MockScene> = {}): MockScene {
     }
     return results;
   };
+  Object.defineProperty(regions, 'contents', {
+    get: () => Array.from(regions.values()),
+    configurable: true
+  });
 
   return {
     id: options.id || 'test-scene',
@@ -371,7 +375,15 @@ export function setupFoundryGlobals() {
       expandObject: vi.fn(),
       flattenObject: vi.fn(),
       isNewerVersion: vi.fn(),
-      randomID: vi.fn(() => Math.random().toString(36).substr(2, 9))
+      randomID: vi.fn(() => Math.random().toString(36).substr(2, 9)),
+      escapeHTML: vi.fn((value: any) =>
+        String(value)
+          .replace(/&/g, '&amp;')
+          .replace(/</g, '&lt;')
+          .replace(/>/g, '&gt;')
+          .replace(/"/g, '&quot;')
+          .replace(/'/g, '&#x27;')
+      )
     },
     documents: {
       BaseRegion: class MockBaseRegion {
@@ -0,0 +1,160 @@
+/**
+ * Tests for GeoJSON conversion
+ */
+
+import { describe, it, expect } from 'vitest';
+import {
+  applyTransform,
+  featureToRealm,
+  geometryToShapes,
+  invertTransform,
+  realmToFeature,
+  shapesToGeometry
+} from '../src/geojson';
+
+const square = { type: 'polygon', points: [0, 0, 100, 0, 100, 100, 0, 100] };
+const hole = { type: 'rectangle', x: 40, y: 40, width: 20, height: 20, hole: true };
+
+function signedArea(ring: number[][]): number {
+  let area = 0;
+  for (let i = 0; i < ring.length - 1; i++) {
+    area += ring[i][0] * ring[i + 1][1] - ring[i + 1][0] * ring[i][1];
+  }
+  return area / 2;
+}
+
+describe('GeoJSON', () => {
+  describe('Transforms', () => {
+    it('should invert affine transforms', () => {
+      const transform = { a: 2, b: 1, c: 5, d: -1, e: 3, f: 7 };
+      const inverse = invertTransform(transform);
+      const [x, y] = applyTransform(transform, 12, -4);
+      const back = applyTransform(inverse, x, y);
+
+      expect(back[0]).toBeCloseTo(12);
+      expect(back[1]).toBeCloseTo(-4);
+      expect(() => invertTransform({ a: 1, b: 2, c: 0, d: 2, e: 4, f: 0 })).toThrow(
+        'Transform cannot be inverted'
+      );
+    });
+  });
+
+  describe('Export', () => {
+    it('should close rings and wind them per RFC 7946', () => {
+      const geometry = shapesToGeometry([square, hole]);
+
+      expect(geometry?.type).toBe('Polygon');
+      const [outer, inner] = geometry!.coordinates as number[][][];
+      expect(outer[0]).toEqual(outer[outer.length - 1]);
+      expect(outer).toHaveLength(5);
+      expect(signedArea(outer)).toBeGreaterThan(0);
+      expect(signedArea(inner)).toBeLessThan(0);
+    });
+
+    it('should keep winding order through a flipping transform', () => {
+      const flip = { a: 1, b: 0, c: 0, d: 0, e: -1, f: 1000 };
+      const [outer, inner] = shapesToGeometry([square, hole], { transform: flip })!
+        .coordinates as number[][][];
+
+      expect(outer).toContainEqual([0, 1000]);
+      expect(signedArea(outer)).toBeGreaterThan(0);
+      expect(signedArea(inner)).toBeLessThan(0);
+    });
+
+    it('should use a MultiPolygon for several shapes', () => {
+      const ellipse = { type: 'ellipse', x: 300, y: 300, radiusX: 50, radiusY: 30 };
+      const geometry = shapesToGeometry([square, ellipse, hole], { segments: 12 });
+
+      expect(geometry?.type).toBe('MultiPolygon');
+      const polygons = geometry!.coordinates as number[][][][];
+      expect(polygons).toHaveLength(2);
+      expect(polygons[0]).toHaveLength(2); // The hole sits inside the square
+      expect(polygons[1][0]).toHaveLength(13);
+    });
+
+    it('should put realm fields in the feature properties', () => {
+      const feature = realmToFeature({
+        id: 'realm1',
+        name: 'Forest',
+        color: '#00ff00',
+        shapes: [square],
+        tags: ['biome:forest'],
+        priority: 2
+      });
+
+      expect(feature.id).toBe('realm1');
+      expect(feature.properties).toMatchObject({
+        id: 'realm1',
+        name: 'Forest',
+        color: '#00ff00',
+        priority: 2,
+        tags: ['biome:forest']
+      });
+      expect(realmToFeature({ name: 'Empty', shapes: [], tags: [] }).geometry).toBeNull();
+    });
+  });
+
+  describe('Import', () => {
+    it('should turn rings into polygon and hole shapes', () => {
+      const shapes = geometryToShapes({
+        type: 'MultiPolygon',
+        coordinates: [
+          [
+            [
+              [0, 0],
+              [100, 0],
+              [100, 100],
+              [0, 0]
+            ],
+            [
+              [60, 20],
+              [80, 20],
+              [80, 40],
+              [60, 20]
+            ]
+          ],
+          [
+            [
+              [200, 200],
+              [300, 200],
+              [200, 200]
+            ]
+          ]
+        ]
+      });
+
+      expect(shapes).toEqual([
+        { type: 'polygon', points: [0, 0, 100, 0, 100, 100] },
+        { type: 'polygon', points: [60, 20, 80, 20, 80, 40], hole: true }
+      ]);
+    });
+
+    it('should read features from other tools', () => {
+      const realm = featureToRealm({
+        type: 'Feature',
+        id: 7,
+        geometry: {
+          type: 'Polygon',
+          coordinates: [
+            [
+              [0, 0],
+              [10, 0],
+              [10, 10]
+            ]
+          ]
+        },
+        properties: { title: 'Marsh', tags: 'biome:swamp, terrain:marshy', priority: '3' }
+      });
+
+      expect(realm).toMatchObject({
+        id: '7',
+        name: 'Marsh',
+        tags: ['biome:swamp', 'terrain:marshy'],
+        priority: 3
+      });
+      expect(
+        featureToRealm({ type: 'Feature', geometry: null, properties: { name: 'Point' } })
+      ).toBeNull();
+    });
+  });
+});
@@ -0,0 +1,192 @@
+/**
+ * Tests for the image mask importer
+ */
+
+import { describe, it, expect, afterEach, vi } from 'vitest';
+import {
+  ImageMaskImporter,
+  buildMask,
+  parseHexColor,
+  traceContours
+} from '../src/image-mask-importer';
+import { parseColorMappings, renderMaskPreview } from '../src/image-mask-dialog';
+import { polygonArea, ringsToShapes } from '../src/path-geometry';
+import { RealmManager } from '../src/realm-manager';
+
+const PALETTE: Record<string, number[]> = {
+  R: [255, 0, 0, 255],
+  G: [0, 128, 0, 255],
+  '.': [255, 255, 255, 0]
+};
+
+/**
+ * Build image data from rows of palette characters
+ */
+function imageFrom(rows: string[]) {
+  const data = rows.flatMap(row => [...row].flatMap(c => PALETTE[c]));
+  return { width: rows[0].length, height: rows.length, data };
+}
+
+/**
+ * Trace one colour of an image at one pixel per cell
+ */
+function trace(rows: string[], color: [number, number, number] = [255, 0, 0]) {
+  const { mask, columns, rows: count } = buildMask(imageFrom(rows), color, 0, 1);
+  return traceContours(mask, columns, count);
+}
+
+describe('ImageMaskImporter', () => {
+  afterEach(() => {
+    vi.restoreAllMocks();
+  });
+
+  describe('Masks', () => {
+    it('should parse hex colours', () => {
+      expect(parseHexColor('#ff8000')).toEqual([255, 128, 0]);
+      expect(parseHexColor('0f0')).toEqual([0, 255, 0]);
+      expect(parseHexColor('red')).toBeNull();
+    });
+
+    it('should sample matching cells inside an empty border', () => {
+      const image = imageFrom(['RG.', 'GR.']);
+      const { mask, columns, rows } = buildMask(image, [250, 5, 0], 10, 1);
+
+      expect([columns, rows]).toEqual([5, 4]);
+      expect(Array.from(mask)).toEqual([
+        0, 0, 0, 0, 0, 0, 1, 0, 0, 0, 0, 0, 1, 0, 0, 0, 0, 0, 0, 0
+      ]);
+    });
+
+    it('should ignore transparent pixels', () => {
+      const { mask } = buildMask(imageFrom(['..']), [255, 255, 255], 0, 1);
+      expect(mask.every(cell => cell === 0)).toBe(true);
+    });
+  });
+
+  describe('Contours', () => {
+    it('should trace a block into one closed ring', () => {
+      const rings = trace(['RR', 'RR']);
+
+      expect(rings).toHaveLength(1);
+      expect(rings[0]).toHaveLength(16);
+      expect(Math.abs(polygonArea(rings[0]))).toBe(3.5);
+    });
+
+    it('should trace enclosed gaps as holes', () => {
+      const rings = trace(['RRR', 'R.R', 'RRR']);
+      const shapes = ringsToShapes(rings);
+
+      expect(rings).toHaveLength(2);
+      expect(shapes.filter(shape => shape.hole)).toHaveLength(1);
+    });
+
+    it('should keep diagonal neighbours apart', () => {
+      expect(trace(['R.', '.R'])).toHaveLength(2);
+    });
+  });
+
+  describe('Vectorising', () => {
+    const image = imageFrom(['RRGG', 'RRGG', 'GGGG', 'GGGG']);
+    const bounds = { x: 100, y: 50, width: 400, height: 400 };
+    const options = { step: 1, simplify: 0, minArea: 0, tolerance: 0 };
+
+    it('should scale outlines onto the scene rectangle', () => {
+      const realms = ImageMaskImporter.getInstance().vectorize(
+        image,
+        [{ color: '#ff0000', tags: ['biome:dense_forest', 'terrain:difficult'] }],
+        bounds,
+        options
+      );
+
+      expect(realms).toHaveLength(1);
+      expect(realms[0].name).toBe('Dense forest');
+      expect(realms[0].tags).toEqual(['biome:dense_forest', 'terrain:difficult']);
+
+      const points: number[] = realms[0].shapes[0].points;
+      const xs = points.filter((_, i) => i % 2 === 0);
+      const ys = points.filter((_, i) => i % 2 === 1);
+      expect([Math.min(...xs), Math.max(...xs)]).toEqual([100, 300]);
+      expect([Math.min(...ys), Math.max(...ys)]).toEqual([50, 250]);
+    });
+
+    it('should skip colours that are absent or invalid', () => {
+      const realms = ImageMaskImporter.getInstance().vectorize(
+        image,
+        [
+          { color: '#0000ff', tags: ['biome:ocean'] },
+          { color: 'green', tags: ['biome:plains'] },
+          { color: '#008000', tags: ['biome:plains'], name: 'Green Plains' }
+        ],
+        bounds,
+        options
+      );
+
+      expect(realms.map(realm => realm.name)).toEqual(['Green Plains']);
+    });
+
+    it('should drop outlines smaller than the minimum area', () => {
+      const realms = ImageMaskImporter.getInstance().vectorize(
+        image,
+        [{ color: '#ff0000', tags: ['biome:forest'] }],
+        bounds,
+        { ...options, minArea: 4 }
+      );
+
+      expect(realms).toEqual([]);
+    });
+
+    it('should create previewed realms through the RealmManager', async () => {
+      const createRealm = vi.fn(async (data: any) => ({ id: 'created', ...data }));
+      vi.spyOn(RealmManager, 'getInstance').mockReturnValue({ createRealm } as any);
+
+      const shapes = [{ type: 'polygon', points: [0, 0, 10, 0, 10, 10] }];
+      const created = await ImageMaskImporter.getInstance().createRealms(
+        [{ name: 'Forest', color: '#00ff00', tags: ['biome:forest'], shapes }],
+        'scene-1'
+      );
+
+      expect(RealmManager.getInstance).toHaveBeenCalledWith('scene-1');
+      expect(createRealm).toHaveBeenCalledWith({
+        name: 'Forest',
+        color: '#00ff00',
+        shapes,
+        tags: ['biome:forest']
+      });
+      expect(created).toHaveLength(1);
+    });
+  });
+
+  describe('Dialog Helpers', () => {
+    it('should parse colour mapping lines', () => {
+      const mappings = parseColorMappings(
+        '#2E7D32: Biome:Forest, terrain:dense\nnot a line\n#abc: plain\n#123456: river:major'
+      );
+
+      expect(mappings).toEqual([
+        { color: '#2e7d32', tags: ['biome:forest', 'terrain:dense'] },
+        { color: '#123456', tags: ['river:major'] }
+      ]);
+    });
+
+    it('should render realms as SVG paths with a summary', () => {
+      const html = renderMaskPreview(
+        [
+          {
+            name: 'Forest',
+            color: '#00ff00',
+            tags: ['biome:forest'],
+            shapes: [{ type: 'polygon', points: [0, 0, 10, 0, 10, 10] }]
+          }
+        ],
+        { x: 0, y: 0, width: 100, height: 100 }
+      );
+
+      expect(html).toContain('viewBox="0 0 100 100"');
+      expect(html).toContain('d="M0,0L10,0L10,10Z"');
+      expect(html).toContain('1 areas');
+      expect(renderMaskPreview([], { x: 0, y: 0, width: 1, height: 1 })).toContain(
+        'No mapped colours'
+      );
+    });
+  });
+});
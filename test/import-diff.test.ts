@@ -0,0 +1,99 @@
+/**
+ * Tests for the import diff and its preview dialog
+ */
+
+import { describe, it, expect } from 'vitest';
+import { defaultDiffDecisions, diffRealms, mergeRealmTags } from '../src/import-diff';
+import { parseImportPreview, renderImportPreview } from '../src/import-preview-dialog';
+
+const triangle = [{ type: 'polygon', points: [0, 0, 100, 0, 100, 100] }];
+
+const existing = [
+  { id: 'forest', name: 'Old Forest', color: 0x00ff00, shapes: triangle, tags: ['biome:forest'] },
+  { id: 'marsh', name: 'Marsh', shapes: triangle, tags: ['biome:swamp'] },
+  { id: 'peak', name: 'Lonely Peak', shapes: triangle, tags: ['elevation:high'] },
+  { id: 'road', name: 'Old Road', shapes: triangle, tags: ['terrain:road'] }
+];
+
+const incoming = [
+  {
+    id: 'forest',
+    name: 'Ancient Forest',
+    color: '#00FF00',
+    shapes: [{ ...triangle[0], hole: false }],
+    tags: ['biome:jungle', 'climate:tropical']
+  },
+  { id: 'marsh', name: 'Marsh', shapes: triangle, tags: ['biome:swamp'], priority: 2 },
+  { id: 'other-id', name: 'Lonely Peak', shapes: triangle, tags: ['elevation:high'] },
+  { name: 'Dunes', shapes: triangle, tags: ['biome:desert'] }
+];
+
+describe('Import Diff', () => {
+  it('should classify new, changed, unchanged and deleted realms', () => {
+    const items = diffRealms(existing, incoming);
+
+    expect(items.map(item => [item.kind, item.id, item.fields])).toEqual([
+      ['changed', 'forest', ['name', 'tags']],
+      ['changed', 'marsh', ['priority']],
+      ['unchanged', 'peak', []],
+      ['new', undefined, []],
+      ['deleted', 'road', []]
+    ]);
+    expect(items[0].addedTags).toEqual(['biome:jungle', 'climate:tropical']);
+    expect(items[0].removedTags).toEqual(['biome:forest']);
+  });
+
+  it('should replace single-value namespaces when merging tags', () => {
+    expect(
+      mergeRealmTags(['biome:forest', 'terrain:dense'], ['biome:jungle', 'terrain:hills'])
+    ).toEqual(['terrain:dense', 'biome:jungle', 'terrain:hills']);
+  });
+
+  it('should accept new and changed realms by default', () => {
+    const decisions = defaultDiffDecisions(diffRealms(existing, incoming));
+
+    expect(decisions.map(decision => decision.accept)).toEqual([true, true, false, true, false]);
+    expect(decisions[0].tags).toEqual(['biome:jungle', 'climate:tropical']);
+  });
+
+  describe('Preview Dialog', () => {
+    const items = diffRealms(existing, incoming);
+
+    it('should group items and list invalid realms', () => {
+      const html = renderImportPreview(items, [{ name: 'Broken', errors: ['/tags is required'] }]);
+
+      expect(html).toContain('New Realms');
+      expect(html).toContain('name (Old Forest → Ancient Forest)');
+      expect(html).toContain('1 realms are unchanged');
+      expect(html).toContain('<strong>Broken</strong>: /tags is required');
+    });
+
+    it('should read accepted items and chosen tags', () => {
+      document.body.innerHTML = renderImportPreview(items);
+      const form = document.querySelector('form') as HTMLFormElement;
+      form.querySelector<HTMLInputElement>('input[name="accept-4"]')!.checked = true;
+      form.querySelector<HTMLInputElement>('input[value="biome:forest"]')!.checked = true;
+      form.querySelector<HTMLInputElement>('input[value="biome:jungle"]')!.checked = false;
+
+      const decisions = parseImportPreview(form, items);
+
+      expect(decisions.map(decision => decision.accept)).toEqual([true, true, false, true, true]);
+      expect(decisions[0].tags).toEqual(['biome:forest', 'climate:tropical']);
+    });
+
+    it('should escape names, tags and errors from the imported file', () => {
+      const hostile = diffRealms(existing, [
+        { ...incoming[0], name: '<img src=x>', tags: ['x:"><img src=x>'] }
+      ]);
+      const html = renderImportPreview(hostile, [{ name: '<b>Bad</b>', errors: ['<i>no</i>'] }]);
+
+      expect(html).not.toContain('<img');
+      expect(html).not.toContain('<b>Bad');
+      expect(html).toContain('value="x:&quot;&gt;&lt;img src=x&gt;"');
+
+      document.body.innerHTML = html;
+      const form = document.querySelector('form') as HTMLFormElement;
+      expect(parseImportPreview(form, hostile)[0].tags).toContain('x:"><img src=x>');
+    });
+  });
+});
@@ -0,0 +1,157 @@
+/**
+ * Tests for path geometry helpers
+ */
+
+import { describe, it, expect } from 'vitest';
+import {
+  distanceToShapes,
+  getInsideIntervals,
+  pointInShape,
+  pointInPolygon,
+  pointInShapes,
+  poleOfInaccessibility,
+  polygonArea,
+  rectangleToPoints,
+  shapeCrossings,
+  shapeToPolygon,
+  simplifyPolygon
+} from '../src/path-geometry';
+
+const square = { type: 'polygon', points: [0, 0, 100, 0, 100, 100, 0, 100] };
+
+describe('Path Geometry', () => {
+  describe('Point Tests', () => {
+    it('should test points against each shape type', () => {
+      expect(pointInShape(50, 50, square)).toBe(true);
+      expect(pointInShape(150, 50, square)).toBe(false);
+
+      const ellipse = { type: 'ellipse', x: 0, y: 0, radiusX: 100, radiusY: 50 };
+      expect(pointInShape(90, 0, ellipse)).toBe(true);
+      expect(pointInShape(0, 90, ellipse)).toBe(false);
+
+      const rect = { type: 'rectangle', x: 0, y: 0, width: 100, height: 20 };
+      expect(pointInShape(90, 10, rect)).toBe(true);
+      expect(pointInShape(50, 40, rect)).toBe(false);
+    });
+
+    it('should rotate rectangles about their center', () => {
+      const rect = { type: 'rectangle', x: 0, y: 40, width: 100, height: 20, rotation: 90 };
+      expect(pointInShape(50, 90, rect)).toBe(true);
+      expect(pointInShape(90, 50, rect)).toBe(false);
+
+      const corners = rectangleToPoints(rect).map(v => Math.round(v) + 0);
+      expect(corners).toEqual([60, 0, 60, 100, 40, 100, 40, 0]);
+    });
+
+    it('should subtract hole shapes', () => {
+      const hole = { type: 'polygon', points: [40, 40, 60, 40, 60, 60, 40, 60], hole: true };
+      expect(pointInShapes(50, 50, [square, hole])).toBe(false);
+      expect(pointInShapes(20, 20, [square, hole])).toBe(true);
+    });
+
+    it('should measure the distance to the nearest outline', () => {
+      const hole = { type: 'polygon', points: [40, 40, 60, 40, 60, 60, 40, 60], hole: true };
+      expect(distanceToShapes(20, 20, [square])).toBe(0);
+      expect(distanceToShapes(130, 140, [square])).toBe(50);
+      expect(distanceToShapes(50, 50, [square, hole])).toBe(10);
+    });
+  });
+
+  describe('Shape Outlines', () => {
+    it('should approximate ellipses with evenly spaced vertices', () => {
+      const ellipse = { type: 'ellipse', x: 100, y: 50, radiusX: 40, radiusY: 20, rotation: 90 };
+      const points = shapeToPolygon(ellipse, 4).map(v => Math.round(v) + 0);
+
+      expect(points).toEqual([100, 90, 80, 50, 100, 10, 120, 50]);
+      expect(shapeToPolygon(square)).toEqual(square.points);
+      expect(shapeToPolygon({ type: 'unknown' })).toEqual([]);
+    });
+  });
+
+  describe('Simplification', () => {
+    it('should measure signed polygon area', () => {
+      expect(polygonArea(square.points)).toBe(10000);
+      expect(polygonArea([0, 0, 0, 100, 100, 100, 100, 0])).toBe(-10000);
+    });
+
+    it('should drop vertices within the tolerance', () => {
+      const ring = [0, 0, 50, 1, 100, 0, 100, 50, 99, 100, 0, 100, 1, 50];
+      expect(simplifyPolygon(ring, 2)).toEqual([0, 0, 100, 0, 99, 100, 0, 100]);
+      expect(simplifyPolygon(ring, 0)).toEqual(ring);
+    });
+  });
+
+  describe('Label Placement', () => {
+    it('should place the pole inside concave shapes', () => {
+      const u = [0, 0, 300, 0, 300, 300, 200, 300, 200, 100, 100, 100, 100, 300, 0, 300];
+      const pole = poleOfInaccessibility([{ type: 'polygon', points: u }])!;
+
+      expect(pointInPolygon(pole.x, pole.y, u)).toBe(true);
+      expect(pole.distance).toBeGreaterThan(48);
+    });
+
+    it('should keep the pole out of holes', () => {
+      const outer = { type: 'polygon', points: [0, 0, 300, 0, 300, 300, 0, 300] };
+      const hole = { type: 'polygon', points: [50, 50, 250, 50, 250, 250, 50, 250], hole: true };
+      const pole = poleOfInaccessibility([outer, hole])!;
+
+      expect(pointInPolygon(pole.x, pole.y, hole.points)).toBe(false);
+      expect(pole.distance).toBeGreaterThan(23);
+    });
+
+    it('should use the largest outline', () => {
+      const small = { type: 'polygon', points: [0, 0, 10, 0, 10, 10, 0, 10] };
+      const pole = poleOfInaccessibility([small, square])!;
+
+      expect(pole.x).toBeCloseTo(50, 0);
+      expect(pole.y).toBeCloseTo(50, 0);
+      expect(poleOfInaccessibility([{ ...small, hole: true }])).toBeNull();
+    });
+  });
+
+  describe('Segment Crossings', () => {
+    it('should find polygon edge crossings', () => {
+      const crossings = shapeCrossings({ x: -100, y: 50 }, { x: 200, y: 50 }, square);
+      expect(crossings.sort()).toEqual([1 / 3, 2 / 3]);
+    });
+
+    it('should find ellipse crossings', () => {
+      const circle = { type: 'ellipse', x: 0, y: 0, radiusX: 50, radiusY: 50 };
+      const crossings = shapeCrossings({ x: -100, y: 0 }, { x: 100, y: 0 }, circle);
+      expect(crossings).toEqual([0.25, 0.75]);
+    });
+  });
+
+  describe('Inside Intervals', () => {
+    it('should return the part of a segment inside a shape', () => {
+      const intervals = getInsideIntervals({ x: -100, y: 50 }, { x: 200, y: 50 }, [square]);
+      expect(intervals).toHaveLength(1);
+      expect(intervals[0].start).toBeCloseTo(1 / 3);
+      expect(intervals[0].end).toBeCloseTo(2 / 3);
+    });
+
+    it('should start at zero when the segment begins inside', () => {
+      const intervals = getInsideIntervals({ x: 50, y: 50 }, { x: 150, y: 50 }, [square]);
+      expect(intervals).toEqual([{ start: 0, end: 0.5 }]);
+    });
+
+    it('should merge overlapping shapes and split around holes', () => {
+      const second = { type: 'polygon', points: [80, 0, 200, 0, 200, 100, 80, 100] };
+      const hole = { type: 'polygon', points: [140, 0, 160, 0, 160, 100, 140, 100], hole: true };
+
+      const intervals = getInsideIntervals({ x: 0, y: 50 }, { x: 200, y: 50 }, [
+        square,
+        second,
+        hole
+      ]);
+      expect(intervals).toEqual([
+        { start: 0, end: 0.7 },
+        { start: 0.8, end: 1 }
+      ]);
+    });
+
+    it('should return nothing for a segment that misses', () => {
+      expect(getInsideIntervals({ x: 0, y: 200 }, { x: 100, y: 200 }, [square])).toEqual([]);
+    });
+  });
+});
@@ -0,0 +1,176 @@
+/**
+ * Tests for realm-aware Region behaviors
+ */
+
+import { describe, it, expect, beforeAll, vi } from 'vitest';
+import {
+  REALM_BEHAVIOR_TYPES,
+  createRealmBehaviorTypes,
+  getRealmTravelSpeed,
+  getTokenTravelSpeed,
+  getTokenTags,
+  parseTagList,
+  tokenHasTags,
+  renderRealmDescription
+} from '../src/realm-behaviors';
+import * as API from '../src/api';
+import { createMockRegion } from './foundry-mocks';
+
+function realmRegion(id: string, tags: string[], priority = 0) {
+  return createMockRegion({
+    id,
+    name: `Realm ${id}`,
+    flags: { 'realms-and-reaches': { isRealm: true, tags, priority } }
+  });
+}
+
+describe('Realm Behaviors', () => {
+  describe('Helpers', () => {
+    it('should read travel_speed from realm tags', () => {
+      expect(getRealmTravelSpeed(realmRegion('a', ['travel_speed:0.5']))).toBe(0.5);
+      expect(getRealmTravelSpeed(realmRegion('b', ['biome:forest']))).toBeNull();
+      expect(getRealmTravelSpeed(realmRegion('c', ['travel_speed:fast']))).toBeNull();
+    });
+
+    it('should use the highest-priority region for token travel speed', () => {
+      const regions = new Map([
+        ['forest', realmRegion('forest', [], 0)],
+        ['road', realmRegion('road', [], 5)]
+      ]);
+      const token = {
+        parent: { regions },
+        flags: { 'realms-and-reaches': { travelSpeed: { forest: 0.5, road: 1.5 } } }
+      };
+
+      expect(getTokenTravelSpeed(token)).toBe(1.5);
+      expect(getTokenTravelSpeed({ flags: {} })).toBe(1);
+    });
+
+    it('should combine token and actor tags', () => {
+      const token = {
+        flags: { 'realms-and-reaches': { tags: ['custom:scout'] } },
+        actor: { flags: { 'realms-and-reaches': { tags: ['custom:ranger', 'custom:scout'] } } }
+      };
+
+      expect(getTokenTags(token)).toEqual(['custom:scout', 'custom:ranger']);
+      expect(tokenHasTags(token, ['custom:ranger', 'custom:scout'])).toBe(true);
+      expect(tokenHasTags(token, ['custom:wizard'])).toBe(false);
+      expect(tokenHasTags({}, [])).toBe(true);
+    });
+
+    it('should parse comma-separated tag lists', () => {
+      expect(parseTagList(' Custom:Scout, biome:forest ,,')).toEqual([
+        'custom:scout',
+        'biome:forest'
+      ]);
+      expect(parseTagList(undefined)).toEqual([]);
+    });
+
+    it('should render descriptions with a metadata fallback', () => {
+      const region = realmRegion('a', ['biome:swamp', 'custom:secret']);
+      (region.flags['realms-and-reaches'] as any).metadata = { description: 'Fetid and dark.' };
+
+      const html = renderRealmDescription(region);
+      expect(html).toContain('Realm a');
+      expect(html).toContain('Fetid and dark.');
+      expect(html).toContain('biome:swamp');
+      expect(html).not.toContain('custom:secret');
+
+      expect(renderRealmDescription(region, '<p>Custom text</p>')).toContain('Custom text');
+    });
+  });
+
+  describe('Behavior Types', () => {
+    let types: Record<string, any>;
+
+    beforeAll(() => {
+      const foundry = (globalThis as any).foundry;
+      foundry.data.regionBehaviors = { RegionBehaviorType: class {} };
+      foundry.data.fields.BooleanField ??= class {};
+      foundry.data.fields.DocumentUUIDField ??= class {};
+      foundry.CONST = { REGION_EVENTS: { TOKEN_ENTER: 'tokenEnter', TOKEN_EXIT: 'tokenExit' } };
+
+      types = createRealmBehaviorTypes();
+    });
+
+    it('should create a data model for each behavior type', () => {
+      expect(Object.keys(types)).toEqual(Object.values(REALM_BEHAVIOR_TYPES));
+      for (const type of Object.values(types)) {
+        expect(type.defineSchema()).toBeTypeOf('object');
+      }
+    });
+
+    it('should record the realm travel speed on entering tokens', async () => {
+      const TravelSpeed = types[REALM_BEHAVIOR_TYPES.travelSpeed];
+      const token = { update: vi.fn() };
+      const behavior = { speed: null, region: realmRegion('swamp', ['travel_speed:0.5']) };
+      const event = { user: { isSelf: true }, data: { token } };
+
+      await TravelSpeed.events.tokenEnter.call(behavior, event);
+      expect(token.update).toHaveBeenCalledWith({
+        'flags.realms-and-reaches.travelSpeed.swamp': 0.5
+      });
+
+      await TravelSpeed.events.tokenExit.call(behavior, event);
+      expect(token.update).toHaveBeenLastCalledWith({
+        'flags.realms-and-reaches.travelSpeed.-=swamp': null
+      });
+    });
+
+    it('should read the recorded speed back through the API', async () => {
+      const TravelSpeed = types[REALM_BEHAVIOR_TYPES.travelSpeed];
+      const region = realmRegion('swamp', ['travel_speed:0.5']);
+      const token: any = { id: 'token-1', flags: {} };
+      token.update = vi.fn((changes: any) => {
+        token.flags = {
+          'realms-and-reaches': { travelSpeed: { swamp: Object.values(changes)[0] } }
+        };
+      });
+      const scene = {
+        id: 'swamp-scene',
+        regions: new Map([['swamp', region]]),
+        tokens: new Map([['token-1', token]])
+      };
+      token.parent = scene;
+      (globalThis as any).game.scenes.set(scene.id, scene);
+
+      await TravelSpeed.events.tokenEnter.call(
+        { speed: null, region },
+        {
+          user: { isSelf: true },
+          data: { token }
+        }
+      );
+
+      expect(API.getTokenTravelSpeed('token-1', scene.id)).toBe(0.5);
+      expect(API.getTokenTravelSpeed('missing', scene.id)).toBe(1);
+      (globalThis as any).game.scenes.delete(scene.id);
+    });
+
+    it('should only run macros for tokens with the required tags', async () => {
+      const RealmMacro = types[REALM_BEHAVIOR_TYPES.macro];
+      const macro = { execute: vi.fn() };
+      vi.mocked((globalThis as any).fromUuid).mockResolvedValue(macro);
+      (globalThis as any).ChatMessage.getSpeaker = vi.fn(() => ({}));
+
+      const behavior = {
+        uuid: 'Macro.abc',
+        tokenTags: 'custom:scout',
+        region: realmRegion('a', [])
+      };
+      const scout = { flags: { 'realms-and-reaches': { tags: ['custom:scout'] } } };
+
+      await RealmMacro.events.tokenEnter.call(behavior, {
+        user: { isSelf: true },
+        data: { token: { flags: {} } }
+      });
+      expect(macro.execute).not.toHaveBeenCalled();
+
+      await RealmMacro.events.tokenEnter.call(behavior, {
+        user: { isSelf: true },
+        data: { token: scout }
+      });
+      expect(macro.execute).toHaveBeenCalledOnce();
+    });
+  });
+});
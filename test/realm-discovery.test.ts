@@ -0,0 +1,383 @@
+/**
+ * Tests for realm discovery state and player visibility
+ */
+
+import { describe, it, expect, beforeEach, afterEach, vi } from 'vitest';
+import {
+  REALM_DISCOVERED_HOOK,
+  RealmDiscovery,
+  canSeeRealm,
+  getDiscoveryState,
+  getVisibleRealms
+} from '../src/realm-discovery';
+import { parseDiscoveryForm, renderDiscoveryForm } from '../src/realm-discovery-dialog';
+import { PlayerRealmMap } from '../src/player-realm-map';
+import { RealmDataCompat, RealmManager } from '../src/realm-manager';
+import { createMockRegion, createMockScene } from './foundry-mocks';
+import * as API from '../src/api';
+
+const player = { id: 'player1', isGM: false };
+const gm = { id: 'gm', isGM: true };
+
+function makeRegion(id: string, tags: string[], discovery: Record<string, string> = {}) {
+  return createMockRegion({
+    id,
+    name: id,
+    shapes: [{ type: 'rectangle', x: 0, y: 0, width: 100, height: 100 }],
+    flags: { 'realms-and-reaches': { isRealm: true, tags, discovery } }
+  });
+}
+
+const marsh = makeRegion('Ashen Marsh', ['biome:swamp', 'custom:haunted'], { party: 'explored' });
+const ruins = makeRegion('Sunken Ruins', ['custom:haunted'], { player1: 'rumoured' });
+const peak = makeRegion('Hidden Peak', ['biome:mountain']);
+
+describe('Realm Discovery', () => {
+  it('should take the further of the party and player states', () => {
+    const region = { flags: { 'realms-and-reaches': { discovery: { party: 'rumoured' } } } };
+
+    expect(getDiscoveryState(region, 'player1')).toBe('rumoured');
+    expect(getDiscoveryState(ruins, 'player1')).toBe('rumoured');
+    expect(getDiscoveryState(ruins, 'player2')).toBe('undiscovered');
+    expect(getDiscoveryState(marsh, 'player2')).toBe('explored');
+  });
+
+  it('should let GMs see every realm', () => {
+    expect(canSeeRealm(peak, gm)).toBe(true);
+    expect(canSeeRealm(peak, player)).toBe(false);
+    expect(canSeeRealm(ruins, player)).toBe(true);
+  });
+
+  it('should hide undiscovered realms and unseen tags from players', () => {
+    const realms = [marsh, ruins, peak].map(region => new RealmDataCompat(region as any));
+
+    expect(getVisibleRealms(realms, gm)).toBe(realms);
+
+    const visible = getVisibleRealms(realms, player);
+    expect(visible.map(realm => [realm.name, realm.getTags()])).toEqual([
+      ['Ashen Marsh', ['biome:swamp']],
+      ['Sunken Ruins', []]
+    ]);
+    expect(visible[0].hasTag('custom:haunted')).toBe(false);
+    expect(visible[0].getTag('biome')).toBe('swamp');
+  });
+
+  describe('Storing Discovery', () => {
+    const region = makeRegion('Ashen Marsh', []);
+
+    beforeEach(() => {
+      vi.spyOn(RealmManager, 'getInstance').mockReturnValue({
+        getRealm: (id: string) => (id === region.id ? new RealmDataCompat(region as any) : null)
+      } as any);
+    });
+
+    afterEach(() => {
+      vi.restoreAllMocks();
+    });
+
+    it('should update each realm once', async () => {
+      const updated = await RealmDiscovery.getInstance().applyChanges([
+        { realmId: 'Ashen Marsh', target: 'party', state: 'rumoured' },
+        { realmId: 'Ashen Marsh', target: 'player1', state: 'undiscovered' }
+      ]);
+
+      expect(updated).toBe(1);
+      expect(region.update).toHaveBeenCalledWith({
+        'flags.realms-and-reaches.discovery.party': 'rumoured',
+        'flags.realms-and-reaches.discovery.-=player1': null
+      });
+    });
+
+    it('should reject unknown realms and states', async () => {
+      const discovery = RealmDiscovery.getInstance();
+
+      await expect(discovery.setDiscoveryState('missing', 'explored')).rejects.toThrow(
+        'Realm missing not found'
+      );
+      await expect(discovery.setDiscoveryState('Ashen Marsh', 'mapped' as any)).rejects.toThrow(
+        'Invalid discovery state: "mapped"'
+      );
+    });
+  });
+
+  describe('Player API', () => {
+    const scene = createMockScene({ id: 'discovery-scene' });
+
+    beforeEach(() => {
+      scene.regions.clear();
+      for (const region of [marsh, ruins, peak]) {
+        // restoreAllMocks clears the mock region's testPoint, so stub it again
+        region.testPoint = vi.fn(() => true);
+        scene.regions.set(region.id, region);
+      }
+      game.scenes!.set(scene.id, scene as any);
+      const manager = RealmManager.getInstance(scene.id);
+      manager.invalidateIndex();
+      vi.spyOn(RealmManager, 'getInstance').mockReturnValue(manager);
+      game.user!.isGM = false;
+      (game.user as any).id = 'player1';
+    });
+
+    afterEach(() => {
+      game.user!.isGM = true;
+      (game.user as any).id = 'test-gm';
+      game.scenes!.delete(scene.id);
+      vi.restoreAllMocks();
+    });
+
+    it('should not leak hidden realms or tags', () => {
+      expect(API.getRealmAt(50, 50)?.name).toBe('Ashen Marsh');
+      expect(API.getRealmsAt(50, 50).map(realm => realm.name)).toEqual([
+        'Ashen Marsh',
+        'Sunken Ruins'
+      ]);
+      expect(API.getRealmsByTag('custom:haunted')).toEqual([]);
+      expect(API.getEffectiveTagsAt(50, 50).tags.map(tag => tag.tag)).toEqual(['biome:swamp']);
+    });
+
+    it('should match queries against visible tags only', () => {
+      expect(API.findRealms('custom:haunted')).toEqual([]);
+      expect(API.findRealms('NOT custom:haunted').map(realm => realm.name)).toEqual([
+        'Ashen Marsh',
+        'Sunken Ruins'
+      ]);
+    });
+
+    it('should leave hidden realms out of travel times and routes', () => {
+      const travel = API.calculateTravelTime(
+        [
+          { x: 10, y: 50 },
+          { x: 90, y: 50 }
+        ],
+        { speed: 10 }
+      );
+      expect(travel.realms.map(realm => realm.realmName)).toEqual(['Ashen Marsh']);
+
+      // A GM-only tag must not make the route impassable for players
+      const options = { sceneId: scene.id, weights: { 'custom:haunted': Infinity } };
+      const route = API.findRoute({ x: 10, y: 50 }, { x: 90, y: 50 }, options);
+      expect(route.found).toBe(true);
+      expect(route.realms.map(realm => realm.realmName)).toEqual(['Ashen Marsh', 'Sunken Ruins']);
+
+      game.user!.isGM = true;
+      expect(API.findRoute({ x: 10, y: 50 }, { x: 90, y: 50 }, options).found).toBe(false);
+    });
+  });
+
+  describe('Token Exploration', () => {
+    const discovery = RealmDiscovery.getInstance();
+    const settings: Record<string, unknown> = {};
+    let scene: any;
+    let near: any;
+    let far: any;
+
+    function createToken(x: number, hasPlayerOwner = true) {
+      return {
+        id: 'token-1',
+        name: 'Aria',
+        parent: scene,
+        x,
+        y: 50,
+        width: 1,
+        height: 1,
+        actor: { id: 'actor-1', hasPlayerOwner }
+      };
+    }
+
+    beforeEach(() => {
+      scene = createMockScene({ id: 'explore-scene', grid: { size: 100, distance: 5 } as any });
+      near = makeRegion('Ashen Marsh', []);
+      far = makeRegion('Hidden Peak', []);
+      near.shapes = [{ type: 'rectangle', x: 0, y: 0, width: 500, height: 500 }];
+      far.shapes = [{ type: 'rectangle', x: 1000, y: 0, width: 100, height: 100 }];
+      scene.regions.set(near.id, near);
+      scene.regions.set(far.id, far);
+      game.scenes!.set(scene.id, scene as any);
+      RealmManager.getInstance(scene.id).invalidateIndex();
+
+      Object.assign(settings, { autoDiscovery: true, discoveryRadius: 10 });
+      vi.spyOn(game.settings, 'get').mockImplementation(
+        (_module: string, key: string) => settings[key] as any
+      );
+      vi.mocked(Hooks.callAll).mockClear();
+    });
+
+    afterEach(() => {
+      game.scenes!.delete(scene.id);
+      vi.restoreAllMocks();
+    });
+
+    it('should explore realms within the radius and record the token', async () => {
+      // Token center is 150px (7.5 units) right of the marsh and 350px left of the peak
+      const token = createToken(600);
+      const discovered = await discovery.discoverNearToken(token);
+
+      expect(discovered.map(realm => realm.id)).toEqual(['Ashen Marsh']);
+      expect(near.update).toHaveBeenCalledWith({
+        'flags.realms-and-reaches.discovery.party': 'explored',
+        'flags.realms-and-reaches.discoveredBy': {
+          tokenId: 'token-1',
+          tokenName: 'Aria',
+          actorId: 'actor-1',
+          timestamp: expect.any(Number),
+          worldTime: expect.any(Number)
+        }
+      });
+      expect(far.update).not.toHaveBeenCalled();
+    });
+
+    it('should announce stored discoveries to players with their view of the realm', () => {
+      const token = createToken(0);
+      const record = {
+        tokenId: token.id,
+        tokenName: 'Aria',
+        actorId: null,
+        timestamp: 0,
+        worldTime: 0
+      };
+      scene.tokens = new Map([[token.id, token]]);
+      near.parent = scene;
+      near.flags['realms-and-reaches'].tags = ['biome:swamp', 'custom:haunted'];
+      near.flags['realms-and-reaches'].discovery = { party: 'explored' };
+      near.flags['realms-and-reaches'].discoveredBy = record;
+      const listener = vi.fn();
+      RealmManager.getInstance(scene.id).addEventListener('realmDiscovered', listener);
+
+      game.user!.isGM = false;
+      discovery.handleRegionUpdate(near, { flags: { 'realms-and-reaches': { tags: [] } } });
+      expect(Hooks.callAll).not.toHaveBeenCalled();
+
+      discovery.handleRegionUpdate(near, {
+        flags: { 'realms-and-reaches': { discovery: { party: 'explored' }, discoveredBy: record } }
+      });
+      game.user!.isGM = true;
+
+      expect(Hooks.callAll).toHaveBeenCalledWith(
+        REALM_DISCOVERED_HOOK,
+        expect.anything(),
+        record,
+        token
+      );
+      const realm = vi.mocked(Hooks.callAll).mock.calls[0][1] as any;
+      expect(realm.name).toBe('Ashen Marsh');
+      expect(realm.getTags()).toEqual(['biome:swamp']);
+      expect(listener).toHaveBeenCalledOnce();
+    });
+
+    it('should only explore on entry when the radius is 0', async () => {
+      settings.discoveryRadius = 0;
+
+      expect(await discovery.discoverNearToken(createToken(600))).toEqual([]);
+    });
+
+    it('should ignore non-party tokens, explored realms and players', async () => {
+      const [marsh] = discovery.getRealmsNearToken(createToken(0), 0);
+      expect(await discovery.exploreFromToken(createToken(0, false), [marsh])).toEqual([]);
+
+      near.flags['realms-and-reaches'].discovery = { party: 'explored' };
+      expect(await discovery.exploreFromToken(createToken(0), [marsh])).toEqual([]);
+
+      near.flags['realms-and-reaches'].discovery = {};
+      game.user!.isGM = false;
+      expect(await discovery.exploreFromToken(createToken(0), [marsh])).toEqual([]);
+      game.user!.isGM = true;
+      expect(near.update).not.toHaveBeenCalled();
+    });
+
+    it('should explore each realm once when moves overlap', async () => {
+      const [marsh] = discovery.getRealmsNearToken(createToken(0), 0);
+      await Promise.all([
+        discovery.exploreFromToken(createToken(0), [marsh]),
+        discovery.exploreFromToken(createToken(0), [marsh])
+      ]);
+
+      expect(near.update).toHaveBeenCalledTimes(1);
+    });
+  });
+
+  describe('Discovery Dialog', () => {
+    const realms = [
+      { id: 'marsh', name: 'Ashen Marsh', discovery: { party: 'explored' as const } },
+      { id: 'peak', name: 'Hidden Peak', discovery: {} }
+    ];
+    const players = [{ id: 'player1', name: 'Aria' }];
+
+    it('should show the party and each player', () => {
+      const html = renderDiscoveryForm(realms, players);
+
+      expect(html).toContain('<th>Aria</th>');
+      expect(html).toContain('<option value="explored" selected>Explored</option>');
+    });
+
+    it('should read back only changed states', () => {
+      document.body.innerHTML = renderDiscoveryForm(realms, players);
+      const form = document.querySelector('form') as HTMLFormElement;
+      (form.elements.namedItem('discovery.peak.player1') as HTMLSelectElement).value = 'rumoured';
+
+      expect(parseDiscoveryForm(form, realms, players)).toEqual([
+        { realmId: 'peak', target: 'player1', state: 'rumoured' }
+      ]);
+    });
+  });
+
+  describe('Player Realm Map', () => {
+    const map = PlayerRealmMap.getInstance();
+    const { Graphics } = (globalThis as any).PIXI;
+    let savedCanvas: any;
+    let layer: any;
+
+    beforeEach(() => {
+      (globalThis as any).PIXI.Container = class {
+        children: any[] = [];
+        destroy = vi.fn();
+        addChild(child: any) {
+          this.children.push(child);
+        }
+      };
+      (globalThis as any).PIXI.Graphics = vi.fn(() => ({
+        lineStyle: vi.fn(),
+        beginFill: vi.fn(),
+        drawPolygon: vi.fn(),
+        beginHole: vi.fn(),
+        endHole: vi.fn(),
+        endFill: vi.fn()
+      }));
+      vi.spyOn(game.settings, 'get').mockReturnValue(true);
+      game.user!.isGM = false;
+      (game.user as any).id = 'player1';
+
+      savedCanvas = { ...canvas };
+      layer = { children: [], addChildAt: (child: any) => layer.children.unshift(child) };
+      Object.assign(canvas!, {
+        scene: { id: 'map-scene', regions: [marsh, ruins, peak] },
+        interface: layer
+      });
+    });
+
+    afterEach(() => {
+      map.tearDown();
+      game.user!.isGM = true;
+      (game.user as any).id = 'test-gm';
+      (globalThis as any).PIXI.Graphics = Graphics;
+      Object.assign(canvas!, savedCanvas);
+      vi.restoreAllMocks();
+    });
+
+    it('should fill explored realms and outline rumoured ones', () => {
+      map.draw();
+
+      const [explored, rumoured] = layer.children[0].children;
+      expect(layer.children[0].children).toHaveLength(2);
+      expect(explored.beginFill).toHaveBeenCalled();
+      expect(rumoured.beginFill).not.toHaveBeenCalled();
+      expect(rumoured.drawPolygon).toHaveBeenCalled();
+    });
+
+    it('should draw nothing for GMs', () => {
+      game.user!.isGM = true;
+      map.draw();
+
+      expect(layer.children).toHaveLength(0);
+    });
+  });
+});
@@ -0,0 +1,141 @@
+/**
+ * Tests for realm name labels
+ */
+
+import { describe, it, expect, beforeEach, afterEach, vi } from 'vitest';
+import {
+  RealmLabels,
+  canSeeLabels,
+  getLabelScale,
+  getLabelStyle,
+  LabelVisibility
+} from '../src/realm-labels';
+import { createMockRegion } from './foundry-mocks';
+
+class MockDisplayObject {
+  children: any[] = [];
+  text = '';
+  anchor = { set: vi.fn() };
+  position = { x: 0, y: 0, set: (x: number, y: number) => Object.assign(this.position, { x, y }) };
+  scale = { x: 1, set: (value: number) => (this.scale.x = value) };
+  destroy = vi.fn();
+
+  constructor(text?: string) {
+    this.text = text ?? '';
+  }
+
+  addChild(child: any) {
+    this.children.push(child);
+  }
+}
+
+function createRealm(id: string, name: string, tags: string[]) {
+  const region: any = createMockRegion({
+    id,
+    name,
+    shapes: [{ type: 'rectangle', x: 0, y: 0, width: 200, height: 100 }],
+    flags: { 'realms-and-reaches': { isRealm: true, tags } }
+  });
+  region.parent = { id: 'label-scene' };
+  return region;
+}
+
+describe('Realm Labels', () => {
+  let visibility: LabelVisibility;
+
+  beforeEach(() => {
+    visibility = 'gm';
+    vi.spyOn(game.settings, 'get').mockImplementation(() => visibility);
+  });
+
+  afterEach(() => {
+    vi.restoreAllMocks();
+  });
+
+  it('should style labels by biome', () => {
+    expect(getLabelStyle('forest')).toMatchObject({ fill: '#b8e6a0', fontStyle: 'italic' });
+    expect(getLabelStyle(null)).toMatchObject({ fill: '#ffffff', fontStyle: 'normal' });
+    expect(getLabelStyle('unknown').fontSize).toBe(24);
+  });
+
+  it('should counter the zoom level within limits', () => {
+    expect(getLabelScale(0.5)).toBe(2);
+    expect(getLabelScale(0.1)).toBe(4);
+    expect(getLabelScale(3)).toBe(0.5);
+  });
+
+  it('should show labels to the configured audience', () => {
+    expect(canSeeLabels()).toBe(true);
+
+    game.user!.isGM = false;
+    expect(canSeeLabels()).toBe(false);
+    visibility = 'everyone';
+    expect(canSeeLabels()).toBe(true);
+    game.user!.isGM = true;
+
+    visibility = 'hidden';
+    expect(canSeeLabels()).toBe(false);
+  });
+
+  describe('Canvas Labels', () => {
+    const labels = RealmLabels.getInstance();
+    let savedCanvas: any;
+    let layer: MockDisplayObject;
+
+    beforeEach(() => {
+      (globalThis as any).PIXI.Container = MockDisplayObject;
+      (globalThis as any).PIXI.Text = MockDisplayObject;
+
+      savedCanvas = { ...canvas };
+      layer = new MockDisplayObject();
+      Object.assign(canvas!, {
+        scene: {
+          id: 'label-scene',
+          regions: [
+            createRealm('forest', 'Old Forest', ['biome:forest']),
+            { id: 'plain', name: 'Plain Region', parent: { id: 'label-scene' }, flags: {} }
+          ]
+        },
+        interface: layer,
+        stage: { scale: { x: 0.5 } }
+      });
+    });
+
+    afterEach(() => {
+      labels.tearDown();
+      Object.assign(canvas!, savedCanvas);
+    });
+
+    it('should label realms at their visual centre', () => {
+      labels.draw();
+
+      const drawn = layer.children[0].children;
+      expect(drawn).toHaveLength(1);
+      expect(drawn[0].text).toBe('Old Forest');
+      expect(drawn[0].position).toMatchObject({ x: 100, y: 50 });
+      expect(drawn[0].scale.x).toBe(2);
+    });
+
+    it('should redraw a renamed realm and remove deleted ones', () => {
+      labels.draw();
+      const container = layer.children[0];
+
+      labels.refresh(createRealm('forest', 'Elder Wood', ['biome:forest']));
+      expect(container.children.map((label: any) => label.text)).toEqual([
+        'Old Forest',
+        'Elder Wood'
+      ]);
+      expect(container.children[0].destroy).toHaveBeenCalled();
+
+      labels.remove('forest');
+      expect(container.children[1].destroy).toHaveBeenCalled();
+    });
+
+    it('should draw nothing when labels are hidden', () => {
+      visibility = 'hidden';
+      labels.draw();
+
+      expect(layer.children).toHaveLength(0);
+    });
+  });
+});
@@ -24,6 +24,7 @@ const mockRegions = new Map();
     yield region;
   }
 };
+Object.defineProperty(mockRegions, 'contents', { get: () => Array.from(mockRegions.values()) });
 
 const mockScene = {
   id: 'test-scene',
@@ -33,11 +34,14 @@ const mockScene = {
   regions: mockRegions,
   getFlag: vi.fn(),
   setFlag: vi.fn(),
-  createEmbeddedDocuments: vi.fn().mockImplementation(async (documentType, data) => {
+  createEmbeddedDocuments: vi.fn().mockImplementation(async (documentType, data, options) => {
     // Create mock region documents and add them to the regions collection
     const results = data.map((regionData: any) => {
       const mockRegion = {
-        id: regionData.id || `region-${Math.random().toString(36).substr(2, 9)}`,
+        id:
+          (options?.keepId && regionData._id) ||
+          regionData.id ||
+          `region-${Math.random().toString(36).substr(2, 9)}`,
         name: regionData.name || 'Test Region',
         flags: regionData.flags || {},
         shapes: regionData.shapes || [],
@@ -245,6 +249,81 @@ describe('RealmManager', () => {
     });
   });
 
+  describe('Shape Operations', () => {
+    const square = (x: number, tags: string[], priority = 0) =>
+      manager.createRealm({
+        name: `Realm ${x}`,
+        shapes: [{ type: 'polygon', points: [x, 0, x + 100, 0, x + 100, 100, x, 100] }],
+        tags,
+        priority
+      });
+
+    it('should merge realms into the first and combine their tags', async () => {
+      const west = await square(0, ['biome:forest', 'resources:timber']);
+      const east = await square(100, ['biome:swamp', 'resources:game'], 5);
+
+      const merged = await manager.mergeRealms([west.id, east.id]);
+
+      expect(merged.id).toBe(west.id);
+      expect(west._region.update).toHaveBeenCalledWith({
+        shapes: [{ type: 'polygon', points: [0, 0, 200, 0, 200, 100, 0, 100] }],
+        'flags.realms-and-reaches.tags': ['biome:swamp', 'resources:game', 'resources:timber']
+      });
+      expect(manager.getRealm(east.id)).toBeNull();
+    });
+
+    it('should subtract and intersect without changing the other realm', async () => {
+      const grassland = await square(0, []);
+      const lake = await manager.createRealm({
+        name: 'Lake',
+        shapes: [{ type: 'rectangle', x: 25, y: 25, width: 50, height: 50 }]
+      });
+
+      await manager.subtractRealm(grassland.id, lake.id);
+      expect(grassland._region.update).toHaveBeenCalledWith({
+        shapes: [
+          { type: 'polygon', points: [0, 0, 100, 0, 100, 100, 0, 100] },
+          { type: 'polygon', points: [75, 25, 25, 25, 25, 75, 75, 75], hole: true }
+        ]
+      });
+
+      await manager.intersectRealm(lake.id, grassland.id);
+      expect(lake._region.update).toHaveBeenCalledWith({
+        shapes: [{ type: 'polygon', points: [25, 25, 75, 25, 75, 75, 25, 75] }]
+      });
+
+      const far = await square(500, []);
+      await expect(manager.intersectRealm(far.id, lake.id)).rejects.toThrow(
+        'Realm 500 does not overlap Lake'
+      );
+      await expect(manager.subtractRealm('missing', lake.id)).rejects.toThrow(
+        'Realm missing not found'
+      );
+    });
+
+    it('should split realms along a line into new realms', async () => {
+      const realm = await square(0, ['biome:forest'], 2);
+
+      const pieces = await manager.splitRealm(realm.id, [
+        { x: 30, y: -10 },
+        { x: 30, y: 110 }
+      ]);
+
+      expect(pieces.map(piece => piece.name)).toEqual(['Realm 0', 'Realm 0 2']);
+      expect(pieces[1].getTags()).toEqual(['biome:forest']);
+      expect(pieces[1].priority).toBe(2);
+      expect(pieces[1]._region.shapes).toEqual([
+        { type: 'polygon', points: [0, 0, 30, 0, 30, 100, 0, 100] }
+      ]);
+      await expect(
+        manager.splitRealm(realm.id, [
+          { x: 30, y: -10 },
+          { x: 30, y: 50 }
+        ])
+      ).rejects.toThrow('The line does not cut Realm 0 in two');
+    });
+  });
+
   describe('Spatial Queries', () => {
     beforeEach(async () => {
       // Create some test realms
@@ -300,6 +379,96 @@ describe('RealmManager', () => {
       expect(noMatch.length).toBe(0);
     });
 
+    it('should order overlapping realms by priority', async () => {
+      const grove = await manager.createRealm({
+        name: 'Haunted Grove',
+        geometry: { type: 'polygon', points: [10, 10, 40, 10, 40, 40, 10, 40] },
+        tags: ['custom:haunted'],
+        priority: 10
+      });
+
+      const realms = manager.getRealmsAt(25, 25);
+      expect(realms.map(r => r.name)).toEqual(['Haunted Grove', 'Forest']);
+      expect(manager.getRealmAt(25, 25)?.id).toBe(grove.id);
+      expect(grove.priority).toBe(10);
+      expect(realms[1].priority).toBe(0);
+    });
+
+    it('should keep scene order among equal-priority realms after an update', async () => {
+      const grove = await manager.createRealm({
+        name: 'Grove',
+        geometry: { type: 'polygon', points: [10, 10, 40, 10, 40, 40, 10, 40] },
+        tags: ['custom:haunted']
+      });
+      const forest = manager.getRealmAt(25, 25)!;
+
+      await manager.updateRealm(forest._region, { name: 'Old Forest' });
+
+      expect(manager.getRealmsAt(25, 25).map(r => r.id)).toEqual([forest.id, grove.id]);
+      expect(manager.getRealmAt(25, 25)?.id).toBe(forest.id);
+    });
+
+    it('should find realms along a path with traversal lengths', () => {
+      const result = manager.getRealmsAlongPath([
+        { x: -10, y: 25 },
+        { x: 25, y: 25 },
+        { x: 25, y: 150 },
+        { x: 250, y: 150 }
+      ]);
+
+      expect(result.totalLength).toBeCloseTo(385);
+      expect(result.crossings.map(c => c.realmName)).toEqual(['Forest', 'Mountain']);
+
+      // The forest crossing continues over the waypoint at (25, 25)
+      const [forest, mountain] = result.crossings;
+      expect(forest.entry).toMatchObject({ x: 0, y: 25, distance: 10 });
+      expect(forest.exit.y).toBeCloseTo(50);
+      expect(forest.length).toBeCloseTo(50);
+
+      expect(mountain.entry.x).toBeCloseTo(100);
+      expect(mountain.exit.x).toBeCloseTo(200);
+      expect(mountain.length).toBeCloseTo(100);
+
+      expect(result.realms.map(r => [r.realmName, Math.round(r.length)])).toEqual([
+        ['Forest', 50],
+        ['Mountain', 100]
+      ]);
+    });
+
+    it('should return an empty path result for fewer than two points', () => {
+      const result = manager.getRealmsAlongPath([{ x: 25, y: 25 }]);
+      expect(result.totalLength).toBe(0);
+      expect(result.crossings).toEqual([]);
+    });
+
+    it('should keep the spatial index in sync with CRUD operations', async () => {
+      // First query builds the index
+      expect(manager.getRealmAt(320, 320)).toBe(null);
+
+      const created = await manager.createRealm({
+        name: 'Lake',
+        geometry: { type: 'polygon', points: [300, 300, 350, 300, 350, 350, 300, 350] },
+        tags: ['biome:lake']
+      });
+      expect(manager.getRealmAt(320, 320)?.id).toBe(created.id);
+
+      await manager.deleteRealm(created.id);
+      expect(manager.getRealmAt(320, 320)).toBe(null);
+    });
+
+    it('should drop regions that stop being realms from the index', () => {
+      const forest = manager.getRealmAt(25, 25)!;
+      const region = forest._region as any;
+
+      region.flags['realms-and-reaches'].isRealm = false;
+      manager.refreshRegion(region);
+      expect(manager.getRealmsAt(25, 25)).toHaveLength(0);
+
+      region.flags['realms-and-reaches'].isRealm = true;
+      manager.refreshRegion(region);
+      expect(manager.getRealmsAt(25, 25)).toHaveLength(1);
+    });
+
     it('should find realms with query options', () => {
       // Find by tag
       const forests = manager.findRealms({ tags: ['biome:forest'] });
@@ -315,6 +484,19 @@ describe('RealmManager', () => {
       });
       expect(inBounds.length).toBeGreaterThan(0);
     });
+
+    it('should find realms with a tag query', () => {
+      const notForest = manager.findRealms({ query: 'biome AND NOT biome:forest' });
+      expect(notForest.map(realm => realm.name).sort()).toEqual(['Desert', 'Mountain']);
+
+      const highland = manager.findRealms({ query: 'elevation OR biome:desert', limit: 1 });
+      expect(highland).toHaveLength(1);
+
+      expect(manager.findRealms({ query: '  ' })).toHaveLength(3);
+      expect(() => manager.findRealms({ query: 'biome:forest AND' })).toThrow(
+        'Unexpected end of query'
+      );
+    });
   });
 
   describe('Data Persistence', () => {
@@ -361,33 +543,58 @@ describe('RealmManager', () => {
     it('should export data correctly', () => {
       const exportData = manager.exportData();
 
-      expect(exportData.format).toBe('realms-and-reaches-v1');
+      expect(exportData.format).toBe('realms-and-reaches');
+      expect(exportData.version).toBe(2);
       expect(exportData.metadata).toBeDefined();
-      expect(exportData.realms).toHaveLength(1);
-      expect(exportData.realms[0].id).toBe(createdRealm.id);
+      expect(exportData.scenes).toHaveLength(1);
+      expect(exportData.scenes[0].realms).toHaveLength(1);
+      expect(exportData.scenes[0].realms[0].id).toBe(createdRealm.id);
     });
 
     it('should import data correctly', async () => {
       const exportData = manager.exportData();
+      exportData.scenes[0].realms[0].id = 'importedRealm001';
 
       // Clear and import
       await manager.clearAll();
-      const importCount = await manager.importData(exportData);
+      const report = await manager.importData(exportData);
+
+      expect(report.accepted).toEqual([{ id: 'importedRealm001', name: 'Test Realm' }]);
+      expect(manager.getRealm('importedRealm001')).not.toBeNull();
+    });
+
+    it('should report the IDs the imported realms were created with', async () => {
+      const exportData = manager.exportData();
+      exportData.scenes[0].realms[0].id = 'importedRealm001';
+      await manager.clearAll();
+      mockRegions.set('importedRealm001', { id: 'importedRealm001', name: 'Plain', flags: {} });
 
-      expect(importCount).toBe(1);
-      expect(manager.getRealm(createdRealm.id)).toBeDefined();
+      const report = await manager.importData(exportData);
+      mockRegions.delete('importedRealm001');
+
+      expect(report.accepted).toHaveLength(1);
+      expect(report.accepted[0].id).not.toBe('importedRealm001');
+      expect(manager.getRealm(report.accepted[0].id)!.name).toBe('Test Realm');
     });
 
     it('should handle ID conflicts during import', async () => {
       const exportData = manager.exportData();
 
       // Import with existing data (should skip due to ID conflict)
-      const importCount = await manager.importData(exportData);
-      expect(importCount).toBe(0); // No new realms imported
+      const report = await manager.importData(exportData);
+      expect(report.accepted).toHaveLength(0); // No new realms imported
+      expect(report.skipped).toEqual([
+        {
+          id: createdRealm.id,
+          name: 'Test Realm',
+          reason: 'A realm with this ID already exists'
+        }
+      ]);
 
       // Import with merge option (should create new ID)
-      const mergeCount = await manager.importData(exportData, { merge: true });
-      expect(mergeCount).toBe(1);
+      const mergeReport = await manager.importData(exportData, { merge: true });
+      expect(mergeReport.accepted).toHaveLength(1);
+      expect(manager.getRealm(mergeReport.accepted[0].id)).not.toBeNull();
       expect(manager.getAllRealms().length).toBe(2); // Original + merged
     });
 
@@ -400,8 +607,8 @@ describe('RealmManager', () => {
         geometry: { type: 'circle', x: 100, y: 100, radius: 50 }
       });
 
-      const importCount = await manager.importData(exportData, { replace: true });
-      expect(importCount).toBe(1);
+      const report = await manager.importData(exportData, { replace: true });
+      expect(report.accepted).toHaveLength(1);
       expect(manager.getAllRealms().length).toBe(1); // Only imported realm
     });
 
@@ -410,6 +617,194 @@ describe('RealmManager', () => {
 
       await expect(manager.importData(badData)).rejects.toThrow('Unsupported data format');
     });
+
+    it('should migrate version 1 exports', async () => {
+      const realm = {
+        id: 'legacyRealm00001',
+        name: 'Legacy Marsh',
+        shapes: [{ type: 'polygon', points: [0, 0, 100, 0, 100, 100] }],
+        tags: ['biome:swamp']
+      };
+      await manager.clearAll();
+
+      const report = await manager.importData({
+        format: 'realms-and-reaches-v1',
+        metadata: { version: '1.0.0', sceneId: 'test-scene' },
+        realms: [realm]
+      });
+      expect(report.sourceVersion).toBe(1);
+      expect(report.accepted).toEqual([{ id: realm.id, name: realm.name }]);
+
+      const sceneReport = await manager.importScene({
+        format: 'realms-and-reaches-v1',
+        scenes: { other: { realms: [realm] } }
+      });
+      expect(sceneReport.accepted).toHaveLength(1);
+      expect(sceneReport.accepted[0].id).not.toBe(realm.id);
+      expect(manager.getAllRealms()).toHaveLength(2);
+    });
+
+    it('should report invalid realms and import the rest', async () => {
+      const exportData = manager.exportData();
+      exportData.scenes[0].realms.push(
+        { name: '', shapes: [], tags: ['untagged'] } as any,
+        { name: 'Shapeless' } as any
+      );
+      await manager.clearAll();
+
+      const report = await manager.importData(exportData);
+
+      expect(report.accepted).toHaveLength(1);
+      expect(report.invalid).toEqual([
+        {
+          id: undefined,
+          name: '',
+          errors: [
+            '/name must not be empty',
+            '/shapes must have at least 1 items',
+            '/tags/0 must match ^[^:]+:.+$'
+          ]
+        },
+        {
+          id: undefined,
+          name: 'Shapeless',
+          errors: ['/shapes is required', '/tags is required']
+        }
+      ]);
+    });
+
+    it('should preview and apply an import diff', async () => {
+      const exportData = manager.exportData();
+      const [record] = exportData.scenes[0].realms;
+      exportData.scenes[0].realms = [
+        { ...record, name: 'Renamed Realm', tags: [...record.tags, 'climate:arctic'] },
+        { name: 'New Realm', shapes: record.shapes, tags: ['biome:desert'] }
+      ];
+
+      const { items, invalid } = manager.previewImport(exportData);
+      expect(items.map(item => item.kind)).toEqual(['changed', 'new']);
+      expect(invalid).toEqual([]);
+
+      const result = await manager.applyImportDiff(items, [
+        { accept: true, tags: ['climate:arctic'] },
+        { accept: false }
+      ]);
+
+      expect(result).toEqual({
+        created: [],
+        updated: [createdRealm.id],
+        deleted: [],
+        rejected: ['New Realm']
+      });
+      expect(manager.getAllRealms()).toHaveLength(1);
+      expect(createdRealm._region.update).toHaveBeenCalledWith(
+        expect.objectContaining({
+          name: 'Renamed Realm',
+          'flags.realms-and-reaches.tags': ['climate:arctic']
+        })
+      );
+    });
+
+    it('should keep free incoming IDs when applying an import diff', async () => {
+      const exportData = manager.exportData();
+      const [record] = exportData.scenes[0].realms;
+      exportData.scenes[0].realms = [
+        record,
+        { id: 'importedRealm002', name: 'Dunes', shapes: record.shapes, tags: ['biome:desert'] },
+        { id: 'not-a-foundry-id', name: 'Marsh', shapes: record.shapes, tags: ['biome:swamp'] }
+      ];
+
+      const { items } = manager.previewImport(exportData);
+      const result = await manager.applyImportDiff(items);
+
+      expect(result.created).toHaveLength(2);
+      expect(result.created[0]).toBe('importedRealm002');
+      expect(result.created[1]).not.toBe('not-a-foundry-id');
+      expect(manager.getRealm('importedRealm002')?.name).toBe('Dunes');
+    });
+
+    it('should reject exports from newer versions', async () => {
+      const exportData = { ...manager.exportData(), version: 99 };
+
+      await expect(manager.importData(exportData)).rejects.toThrow('newer than this module');
+    });
+
+    it('should export realms as GeoJSON features', () => {
+      const collection = manager.exportGeoJSON();
+
+      expect(collection.type).toBe('FeatureCollection');
+      expect(collection.features).toHaveLength(1);
+      expect(collection.features[0].id).toBe(createdRealm.id);
+      expect(collection.features[0].geometry?.type).toBe('Polygon');
+      expect(collection.features[0].properties?.tags).toEqual(['biome:forest', 'terrain:dense']);
+    });
+
+    it('should round-trip GeoJSON through a transform', async () => {
+      const transform = { a: 0.5, b: 0, c: 10, d: 0, e: -0.5, f: 500 };
+      const collection = manager.exportGeoJSON({ transform });
+      expect(collection.features[0].geometry?.coordinates[0]).toContainEqual([60, 450]);
+
+      await manager.clearAll();
+      const count = await manager.importGeoJSON(collection, { transform });
+
+      expect(count).toBe(1);
+      const [realm] = manager.getAllRealms();
+      expect(realm.getTags()).toEqual(['biome:forest', 'terrain:dense']);
+      expect(realm._region.shapes[0].points).toHaveLength(8);
+      expect(realm._region.shapes[0].points).toEqual(expect.arrayContaining([0, 100]));
+    });
+
+    it('should preserve valid GeoJSON IDs when requested', async () => {
+      const feature = (id: string) => ({
+        type: 'Feature' as const,
+        id,
+        geometry: {
+          type: 'Polygon' as const,
+          coordinates: [
+            [
+              [0, 0],
+              [10, 0],
+              [10, 10],
+              [0, 0]
+            ]
+          ]
+        },
+        properties: { name: 'Imported', tags: 'biome:forest, custom:haunted' }
+      });
+      const data = {
+        type: 'FeatureCollection' as const,
+        features: [feature('abcdefghijklmnop'), feature('short'), feature('abcdefghijklmnop')]
+      };
+
+      await manager.importGeoJSON(data, { preserveIds: true });
+      const created = mockScene.createEmbeddedDocuments.mock.calls.at(-1)[1];
+
+      expect(created).toHaveLength(3);
+      expect(created[0]._id).toBe('abcdefghijklmnop');
+      expect(created[1]._id).not.toBe('short');
+      expect(created[2]._id).not.toBe('abcdefghijklmnop');
+      expect(created[0].flags['realms-and-reaches'].tags).toEqual([
+        'biome:forest',
+        'custom:haunted'
+      ]);
+
+      // A plain Region already holding the ID must not make creation fail
+      mockRegions.set('plainRegion00001', { id: 'plainRegion00001', name: 'Plain', flags: {} });
+      await manager.importGeoJSON(
+        { ...data, features: [feature('plainRegion00001')] },
+        { preserveIds: true, replace: true }
+      );
+      mockRegions.delete('plainRegion00001');
+      expect(mockScene.createEmbeddedDocuments.mock.calls.at(-1)[1][0]._id).not.toBe(
+        'plainRegion00001'
+      );
+    });
+
+    it('should reject data that is not GeoJSON', async () => {
+      await expect(
+        manager.importGeoJSON({ format: 'realms-and-reaches-v1' } as any)
+      ).rejects.toThrow('Unsupported data format');
+    });
   });
 
   describe('Statistics and Utilities', () => {
@@ -0,0 +1,111 @@
+/**
+ * Tests for the realm hover tooltip
+ */
+
+import { describe, it, expect, beforeEach, afterEach, vi } from 'vitest';
+import { RealmTooltip, getVisibleTags, renderRealmTooltip, throttle } from '../src/realm-tooltip';
+import { RealmDataCompat, RealmManager } from '../src/realm-manager';
+import { createMockRegion } from './foundry-mocks';
+
+function makeRealm(name: string, tags: string[]) {
+  return new RealmDataCompat(
+    createMockRegion({
+      id: name,
+      name,
+      flags: { 'realms-and-reaches': { isRealm: true, tags } }
+    }) as any
+  );
+}
+
+const forest = makeRealm('Old Forest', ['biome:forest', 'resources:timber', 'custom:haunted']);
+
+describe('Realm Tooltip', () => {
+  afterEach(() => {
+    vi.useRealTimers();
+    vi.restoreAllMocks();
+  });
+
+  it('should run at most once per interval and finish with the latest call', () => {
+    vi.useFakeTimers();
+    const calls: number[] = [];
+    const throttled = throttle((value: number) => calls.push(value), 100);
+
+    throttled(1);
+    throttled(2);
+    throttled(3);
+    expect(calls).toEqual([1]);
+
+    vi.advanceTimersByTime(100);
+    expect(calls).toEqual([1, 3]);
+
+    throttled(4);
+    throttled.cancel();
+    vi.advanceTimersByTime(100);
+    expect(calls).toEqual([1, 3]);
+  });
+
+  it('should show players only player-visible tags', () => {
+    expect(getVisibleTags(forest, true)).toEqual([
+      'biome:forest',
+      'resources:timber',
+      'custom:haunted'
+    ]);
+    expect(getVisibleTags(forest, false)).toEqual(['biome:forest']);
+  });
+
+  it('should render colour-coded tag chips per realm', () => {
+    const html = renderRealmTooltip([forest, makeRealm('Hidden Vale', ['custom:secret'])], false);
+
+    expect(html).toContain('<strong>Old Forest</strong>');
+    expect(html).toContain('style="border-color: #28a745; background: #28a74540">biome:forest');
+    expect(html).not.toContain('timber');
+    expect(html).toContain('<strong>Hidden Vale</strong>');
+    expect(html.match(/realm-tooltip-tags/g)).toHaveLength(1);
+  });
+
+  it('should escape realm names and tags', () => {
+    const realm = makeRealm('<b>Bold</b> Marsh', ['biome:<i>swamp</i>']);
+    const html = renderRealmTooltip([realm], true);
+
+    expect(html).toContain('<strong>&lt;b&gt;Bold&lt;/b&gt; Marsh</strong>');
+    expect(html).toContain('biome:&lt;i&gt;swamp&lt;/i&gt;');
+  });
+
+  describe('Canvas Tooltip', () => {
+    const tooltip = RealmTooltip.getInstance();
+    let getRealmsAt: ReturnType<typeof vi.fn>;
+
+    beforeEach(() => {
+      (ui as any).controls = { control: { name: 'realms-travel' } };
+      getRealmsAt = vi.fn(() => [forest]);
+      vi.spyOn(RealmManager, 'getInstance').mockReturnValue({ getRealmsAt } as any);
+    });
+
+    afterEach(() => {
+      tooltip.hide();
+      delete (ui as any).controls;
+    });
+
+    it('should list the realms under the cursor next to it', () => {
+      tooltip.show(150, 250, 400, 300);
+
+      const element = document.getElementById('realm-tooltip')!;
+      expect(getRealmsAt).toHaveBeenCalledWith(150, 250);
+      expect(element.textContent).toContain('Old Forest');
+      expect(element.style.left).toBe('416px');
+      expect(element.style.top).toBe('316px');
+    });
+
+    it('should hide over empty ground or with other controls active', () => {
+      tooltip.show(150, 250, 400, 300);
+      getRealmsAt.mockReturnValue([]);
+      tooltip.show(900, 900, 400, 300);
+      expect(document.getElementById('realm-tooltip')).toBeNull();
+
+      getRealmsAt.mockReturnValue([forest]);
+      (ui as any).controls = { control: { name: 'tokens' } };
+      tooltip.show(150, 250, 400, 300);
+      expect(document.getElementById('realm-tooltip')).toBeNull();
+    });
+  });
+});
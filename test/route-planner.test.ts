@@ -0,0 +1,196 @@
+/**
+ * Tests for RoutePlanner
+ */
+
+import { describe, it, expect, beforeEach, afterEach, vi } from 'vitest';
+import { RoutePlanner } from '../src/route-planner';
+import { RealmManager } from '../src/realm-manager';
+
+function effective(tags: string[]) {
+  return {
+    realms: [],
+    tags: tags.map(tag => {
+      const [key, ...rest] = tag.split(':');
+      return { tag, key, value: rest.join(':'), sources: [] };
+    })
+  };
+}
+
+describe('RoutePlanner', () => {
+  let planner: RoutePlanner;
+  let tagsAt: (x: number, y: number) => string[];
+  let behaviorsAt: (x: number, y: number) => any[];
+  let allRealms: any[];
+
+  function addScene(gridType: number) {
+    const scene = {
+      id: 'route-scene',
+      width: 1000,
+      height: 1000,
+      grid: { type: gridType, size: 100, distance: 5, units: 'ft' }
+    };
+    (globalThis as any).game.scenes.set(scene.id, scene);
+  }
+
+  beforeEach(() => {
+    planner = RoutePlanner.getInstance();
+    tagsAt = () => [];
+    behaviorsAt = () => [];
+    allRealms = [];
+
+    vi.spyOn(RealmManager, 'getInstance').mockReturnValue({
+      getRealmsAt: (x: number, y: number) => [
+        {
+          id: 'cell',
+          name: 'Cell',
+          priority: 0,
+          getTags: () => tagsAt(x, y),
+          _region: { behaviors: behaviorsAt(x, y) }
+        }
+      ],
+      getAllRealms: () => allRealms,
+      getRealmsAlongPath: () => ({ totalLength: 0, units: 'ft', crossings: [], realms: [] })
+    } as any);
+  });
+
+  afterEach(() => {
+    vi.restoreAllMocks();
+    (globalThis as any).game.scenes.delete('route-scene');
+  });
+
+  describe('Cost Multipliers', () => {
+    it('should divide by travel_speed', () => {
+      expect(planner.getCostMultiplier(effective(['travel_speed:0.5']).tags)).toBe(2);
+    });
+
+    it('should treat travel_speed 0 as impassable', () => {
+      expect(planner.getCostMultiplier(effective(['travel_speed:0']).tags)).toBe(Infinity);
+    });
+
+    it('should apply default and caller weights', () => {
+      const tags = effective(['terrain:steep', 'custom:dangerous']).tags;
+      expect(planner.getCostMultiplier(tags)).toBe(4);
+      expect(planner.getCostMultiplier(tags, { weights: { 'custom:dangerous': 1 } })).toBe(2);
+    });
+
+    it('should ignore travel_speed when disabled', () => {
+      const tags = effective(['travel_speed:0.5']).tags;
+      expect(planner.getCostMultiplier(tags, { useTravelSpeed: false })).toBe(1);
+    });
+  });
+
+  describe('Square Grids', () => {
+    beforeEach(() => addScene(1));
+
+    it('should take a straight line across open ground', () => {
+      const route = planner.findRoute(
+        { x: 50, y: 50 },
+        { x: 950, y: 50 },
+        { sceneId: 'route-scene' }
+      );
+
+      expect(route.found).toBe(true);
+      expect(route.points).toEqual([
+        { x: 50, y: 50 },
+        { x: 950, y: 50 }
+      ]);
+      expect(route.cost).toBeCloseTo(45);
+      expect(route.units).toBe('ft');
+    });
+
+    it('should detour around impassable realms', () => {
+      // A wall down x = 500 with a gap at the bottom row
+      tagsAt = (x, y) => (x === 550 && y < 900 ? ['travel_speed:0'] : []);
+
+      const route = planner.findRoute(
+        { x: 50, y: 50 },
+        { x: 950, y: 50 },
+        { sceneId: 'route-scene' }
+      );
+
+      expect(route.found).toBe(true);
+      expect(route.points.some(p => p.y >= 900)).toBe(true);
+    });
+
+    it('should detour around realms stopped by travel speed behaviors', () => {
+      const wall = { type: 'realms-and-reaches.travelSpeed', system: { speed: 0 } };
+      tagsAt = x => (x === 550 ? ['biome:swamp'] : []);
+      behaviorsAt = (x, y) => (x === 550 && y < 900 ? [wall] : []);
+
+      const route = planner.findRoute(
+        { x: 50, y: 50 },
+        { x: 950, y: 50 },
+        { sceneId: 'route-scene' }
+      );
+
+      expect(route.found).toBe(true);
+      expect(route.points.some(p => p.y >= 900)).toBe(true);
+    });
+
+    it('should prefer cheaper realms over a shorter path', () => {
+      // Swamp across the direct line, open ground to the south
+      tagsAt = (x, y) => (y < 300 ? ['travel_speed:0.1'] : []);
+
+      const route = planner.findRoute(
+        { x: 50, y: 150 },
+        { x: 950, y: 150 },
+        { sceneId: 'route-scene' }
+      );
+      const direct = planner.findRoute(
+        { x: 50, y: 150 },
+        { x: 950, y: 150 },
+        { sceneId: 'route-scene', useTravelSpeed: false }
+      );
+
+      expect(route.points.some(p => p.y >= 300)).toBe(true);
+      expect(route.cost).toBeLessThan(900 * 10 * 0.05);
+      expect(direct.points).toHaveLength(2);
+    });
+
+    it('should report unreachable destinations', () => {
+      tagsAt = x => (x === 550 ? ['custom:lava'] : []);
+
+      const route = planner.findRoute(
+        { x: 50, y: 50 },
+        { x: 950, y: 50 },
+        { sceneId: 'route-scene', weights: { 'custom:lava': Infinity } }
+      );
+
+      expect(route.found).toBe(false);
+      expect(route.points).toEqual([]);
+    });
+  });
+
+  describe('Hex Grids', () => {
+    it('should move between adjacent hexes in row layouts', () => {
+      addScene(2); // HEXODDR
+      const route = planner.findRoute(
+        { x: 50, y: 43 },
+        { x: 950, y: 43 },
+        { sceneId: 'route-scene' }
+      );
+
+      expect(route.found).toBe(true);
+      expect(route.cost).toBeCloseTo(45);
+    });
+
+    it('should step a full hex between lanes in column layouts', () => {
+      addScene(4); // HEXODDQ
+      const route = planner.findRoute(
+        { x: 43, y: 50 },
+        { x: 43, y: 950 },
+        { sceneId: 'route-scene' }
+      );
+
+      expect(route.found).toBe(true);
+      expect(route.cost).toBeCloseTo(45);
+
+      const diagonal = planner.findRoute(
+        { x: 43, y: 50 },
+        { x: 216, y: 50 },
+        { sceneId: 'route-scene' }
+      );
+      expect(diagonal.cost).toBeCloseTo(10);
+    });
+  });
+});
@@ -0,0 +1,135 @@
+/**
+ * Tests for boolean operations on Region shapes
+ */
+
+import { describe, it, expect } from 'vitest';
+import { booleanShapes, splitShapes } from '../src/shape-boolean';
+import { pointInShapes, polygonArea } from '../src/path-geometry';
+
+const rect = (x: number, y: number, width: number, height: number) => ({
+  type: 'rectangle',
+  x,
+  y,
+  width,
+  height
+});
+
+describe('Shape Boolean', () => {
+  describe('Union', () => {
+    it('should merge realms along a shared border', () => {
+      expect(booleanShapes([rect(0, 0, 500, 500)], [rect(500, 100, 500, 200)], 'union')).toEqual([
+        {
+          type: 'polygon',
+          points: [0, 0, 500, 0, 500, 100, 1000, 100, 1000, 300, 500, 300, 500, 500, 0, 500]
+        }
+      ]);
+    });
+
+    it('should keep realms touching at a corner as separate outlines', () => {
+      expect(booleanShapes([rect(0, 0, 100, 100)], [rect(100, 100, 100, 100)], 'union')).toEqual([
+        { type: 'polygon', points: [0, 0, 100, 0, 100, 100, 0, 100] },
+        { type: 'polygon', points: [100, 100, 200, 100, 200, 200, 100, 200] }
+      ]);
+    });
+
+    it('should fill holes the other realm covers', () => {
+      const ring = [
+        rect(0, 0, 300, 300),
+        { type: 'polygon', points: [100, 100, 200, 100, 200, 200, 100, 200], hole: true }
+      ];
+
+      expect(booleanShapes(ring, [rect(50, 50, 200, 200)], 'union')).toEqual([
+        { type: 'polygon', points: [0, 0, 300, 0, 300, 300, 0, 300] }
+      ]);
+    });
+  });
+
+  describe('Difference', () => {
+    it('should cut a lake out of a grassland as a hole', () => {
+      const shapes = booleanShapes(
+        [rect(0, 0, 500, 500)],
+        [{ type: 'circle', x: 250, y: 250, radius: 50 }],
+        'difference'
+      );
+
+      expect(shapes).toHaveLength(2);
+      expect(shapes[1].hole).toBe(true);
+      expect(pointInShapes(250, 250, shapes)).toBe(false);
+      expect(pointInShapes(100, 100, shapes)).toBe(true);
+    });
+
+    it('should notch the edge of a realm', () => {
+      expect(
+        booleanShapes([rect(0, 0, 500, 500)], [rect(400, 400, 500, 500)], 'difference')
+      ).toEqual([
+        { type: 'polygon', points: [0, 0, 500, 0, 500, 400, 400, 400, 400, 500, 0, 500] }
+      ]);
+    });
+
+    it('should leave nothing when the other realm covers it', () => {
+      expect(booleanShapes([rect(100, 100, 50, 50)], [rect(0, 0, 500, 500)], 'difference')).toEqual(
+        []
+      );
+    });
+  });
+
+  describe('Intersection', () => {
+    it('should keep only the overlap', () => {
+      expect(
+        booleanShapes([rect(0, 0, 500, 500)], [rect(400, 400, 500, 500)], 'intersection')
+      ).toEqual([{ type: 'polygon', points: [500, 400, 500, 500, 400, 500, 400, 400] }]);
+      expect(booleanShapes([rect(0, 0, 10, 10)], [rect(20, 20, 10, 10)], 'intersection')).toEqual(
+        []
+      );
+    });
+  });
+
+  describe('Split', () => {
+    it('should cut a realm in two along a line', () => {
+      const pieces = splitShapes(
+        [rect(0, 0, 500, 500)],
+        [
+          { x: 100, y: -50 },
+          { x: 100, y: 550 }
+        ]
+      );
+
+      expect(pieces).toEqual([
+        [{ type: 'polygon', points: [100, 0, 500, 0, 500, 500, 100, 500] }],
+        [{ type: 'polygon', points: [0, 0, 100, 0, 100, 500, 0, 500] }]
+      ]);
+    });
+
+    it('should give holes to the piece around them', () => {
+      const shapes = [
+        rect(0, 0, 500, 500),
+        { type: 'polygon', points: [350, 200, 450, 200, 450, 300, 350, 300], hole: true }
+      ];
+      const pieces = splitShapes(shapes, [
+        { x: 250, y: -50 },
+        { x: 200, y: 250 },
+        { x: 250, y: 550 }
+      ]);
+
+      expect(pieces).toHaveLength(2);
+      expect(pieces[0]).toHaveLength(2);
+      expect(pieces[0][1].hole).toBe(true);
+      expect(pieces[1]).toHaveLength(1);
+      const area = pieces.flat().reduce((sum, shape) => sum + polygonArea(shape.points), 0);
+      expect(area).toBeCloseTo(500 * 500 - 100 * 100);
+    });
+
+    it('should ignore lines that stop inside the realm', () => {
+      const pieces = splitShapes(
+        [rect(0, 0, 500, 500)],
+        [
+          { x: 100, y: -50 },
+          { x: 100, y: 300 },
+          { x: 300, y: 300 }
+        ]
+      );
+
+      expect(pieces).toEqual([[{ type: 'polygon', points: [0, 0, 500, 0, 500, 500, 0, 500] }]]);
+    });
+  });
+});
@@ -0,0 +1,117 @@
+/**
+ * Tests for shape editing helpers
+ */
+
+import { describe, it, expect } from 'vitest';
+import {
+  ROTATE_HANDLE_OFFSET,
+  deleteVertex,
+  findEdge,
+  findHandle,
+  findSharedVertices,
+  getRotateHandle,
+  insertVertex,
+  moveVertex,
+  rotateRectangle,
+  snapToRings,
+  translateShape
+} from '../src/shape-editor';
+
+const square = { type: 'polygon', points: [0, 0, 100, 0, 100, 100, 0, 100] };
+const hole = { type: 'polygon', points: [40, 40, 60, 40, 60, 60, 40, 60], hole: true };
+const rect = { type: 'rectangle', x: 200, y: 0, width: 100, height: 50 };
+
+describe('Shape Editor', () => {
+  describe('Picking', () => {
+    it('should prefer vertices over shape bodies', () => {
+      expect(findHandle([square], 98, 3, 5)).toEqual({ kind: 'vertex', shape: 0, index: 1 });
+      expect(findHandle([square], 20, 20, 5)).toEqual({ kind: 'body', shape: 0 });
+      expect(findHandle([square], 150, 150, 5)).toBeNull();
+    });
+
+    it('should pick holes inside the shape they cut', () => {
+      expect(findHandle([square, hole], 50, 50, 5)).toEqual({ kind: 'body', shape: 1 });
+    });
+
+    it('should pick the rotation handle above a rectangle', () => {
+      expect(getRotateHandle(rect)).toEqual({ x: 250, y: -ROTATE_HANDLE_OFFSET });
+      expect(findHandle([rect], 250, -ROTATE_HANDLE_OFFSET, 5)).toEqual({
+        kind: 'rotate',
+        shape: 0
+      });
+    });
+
+    it('should find the nearest polygon edge', () => {
+      expect(findEdge([square], 50, 97, 5)).toEqual({
+        shape: 0,
+        index: 3,
+        point: { x: 50, y: 100 }
+      });
+      expect(findEdge([square], 50, 50, 5)).toBeNull();
+    });
+  });
+
+  describe('Editing', () => {
+    it('should move, insert and delete vertices without touching the input', () => {
+      const shapes = [square];
+
+      expect(moveVertex(shapes, 0, 2, 120, 130)[0].points).toEqual([
+        0, 0, 100, 0, 120, 130, 0, 100
+      ]);
+      expect(insertVertex(shapes, 0, 1, 50, -10)[0].points).toEqual([
+        0, 0, 50, -10, 100, 0, 100, 100, 0, 100
+      ]);
+      expect(deleteVertex(shapes, 0, 0)[0].points).toEqual([100, 0, 100, 100, 0, 100]);
+      expect(shapes[0]).toBe(square);
+      expect(square.points).toHaveLength(8);
+    });
+
+    it('should keep at least three vertices', () => {
+      const triangle = { type: 'polygon', points: [0, 0, 10, 0, 0, 10] };
+      expect(() => deleteVertex([triangle], 0, 0)).toThrow('A polygon needs at least 3 vertices');
+    });
+
+    it('should move whole shapes', () => {
+      const [moved, movedRect] = translateShape(translateShape([hole, rect], 0, 5, -5), 1, 10, 20);
+
+      expect(moved.points).toEqual([45, 35, 65, 35, 65, 55, 45, 55]);
+      expect(moved.hole).toBe(true);
+      expect(movedRect).toMatchObject({ x: 210, y: 20, width: 100 });
+    });
+
+    it('should rotate rectangles towards the pointer', () => {
+      // Pointer to the right of the center turns the top edge to face it
+      expect(rotateRectangle([rect], 0, 400, 25)[0].rotation).toBeCloseTo(90);
+      expect(rotateRectangle([rect], 0, 250, 200)[0].rotation).toBeCloseTo(180);
+      expect(rotateRectangle([rect], 0, 100, 15, 15)[0].rotation).toBe(270);
+    });
+  });
+
+  describe('Neighbours', () => {
+    it('should snap to vertices before edges', () => {
+      const rings = [square.points];
+
+      expect(snapToRings(104, 97, rings, 10)).toEqual({ x: 100, y: 100 });
+      expect(snapToRings(106, 50, rings, 10)).toEqual({ x: 100, y: 50 });
+      expect(snapToRings(150, 50, rings, 10)).toBeNull();
+    });
+
+    it('should find vertices neighbouring realms share', () => {
+      const east = { type: 'polygon', points: [100, 0, 200, 0, 200, 100, 100, 100] };
+
+      expect(
+        findSharedVertices(
+          [
+            { id: 'west', shapes: [square] },
+            { id: 'east', shapes: [rect, east] }
+          ],
+          100,
+          100.2
+        )
+      ).toEqual([
+        { realmId: 'west', shape: 0, index: 2 },
+        { realmId: 'east', shape: 1, index: 3 }
+      ]);
+    });
+  });
+});
@@ -0,0 +1,72 @@
+/**
+ * Tests for SpatialIndex class
+ */
+
+import { describe, it, expect, beforeEach } from 'vitest';
+import { SpatialIndex } from '../src/spatial-index';
+
+describe('SpatialIndex', () => {
+  let index: SpatialIndex;
+
+  beforeEach(() => {
+    index = new SpatialIndex(100);
+    index.insert('forest', { x: 0, y: 0, width: 150, height: 150 });
+    index.insert('desert', { x: 200, y: 200, width: 50, height: 50 });
+    index.insert('continent', { x: 0, y: 0, width: 1000, height: 1000 });
+  });
+
+  describe('Point Queries', () => {
+    it('should return entries whose bounds contain the point', () => {
+      expect(index.queryPoint(50, 50).sort()).toEqual(['continent', 'forest']);
+      expect(index.queryPoint(225, 225).sort()).toEqual(['continent', 'desert']);
+    });
+
+    it('should exclude entries that only share a cell with the point', () => {
+      // (180, 180) is in the same cell as the desert but outside its bounds
+      expect(index.queryPoint(180, 180)).toEqual(['continent']);
+    });
+
+    it('should return nothing outside all bounds', () => {
+      expect(index.queryPoint(5000, 5000)).toEqual([]);
+      expect(index.queryPoint(-10, -10)).toEqual([]);
+    });
+
+    it('should include points on the bounds edge', () => {
+      expect(index.queryPoint(150, 150)).toContain('forest');
+    });
+  });
+
+  describe('Bounds Queries', () => {
+    it('should return entries intersecting the area once each', () => {
+      const results = index.queryBounds({ x: 100, y: 100, width: 150, height: 150 });
+      expect(results.sort()).toEqual(['continent', 'desert', 'forest']);
+    });
+
+    it('should ignore invalid areas', () => {
+      expect(index.queryBounds({ x: NaN, y: 0, width: 10, height: 10 })).toEqual([]);
+    });
+  });
+
+  describe('Maintenance', () => {
+    it('should replace bounds on re-insert', () => {
+      index.insert('forest', { x: 500, y: 500, width: 10, height: 10 });
+
+      expect(index.size).toBe(3);
+      expect(index.queryPoint(50, 50)).not.toContain('forest');
+      expect(index.queryPoint(505, 505)).toContain('forest');
+    });
+
+    it('should remove entries', () => {
+      expect(index.remove('desert')).toBe(true);
+      expect(index.remove('desert')).toBe(false);
+      expect(index.has('desert')).toBe(false);
+      expect(index.queryPoint(225, 225)).toEqual(['continent']);
+    });
+
+    it('should clear all entries', () => {
+      index.clear();
+      expect(index.size).toBe(0);
+      expect(index.queryPoint(50, 50)).toEqual([]);
+    });
+  });
+});
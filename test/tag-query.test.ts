@@ -0,0 +1,98 @@
+/**
+ * Tests for the boolean tag query language
+ */
+
+import { describe, it, expect } from 'vitest';
+import { TagQuery, TagQueryError } from '../src/tag-query';
+import { renderRealmSearchResults } from '../src/realm-search';
+
+const forest = ['biome:forest', 'terrain:dense', 'travel_speed:0.5', 'resources:game'];
+const haunted = ['biome:forest', 'custom:haunted', 'travel_speed:1', 'resources:timber'];
+const plains = ['biome:grassland', 'terrain:open', 'travel_speed:1.25'];
+
+function matching(query: string): number[] {
+  const parsed = TagQuery.parse(query);
+  return [forest, haunted, plains].flatMap((tags, index) => (parsed.matches(tags) ? [index] : []));
+}
+
+describe('TagQuery', () => {
+  describe('Parsing', () => {
+    it('should build a tree with NOT above AND above OR', () => {
+      const query = TagQuery.parse('biome:forest OR NOT terrain:open AND custom:haunted');
+
+      expect(query.root).toEqual({
+        type: 'or',
+        left: { type: 'tag', tag: 'biome:forest' },
+        right: {
+          type: 'and',
+          left: { type: 'not', operand: { type: 'tag', tag: 'terrain:open' } },
+          right: { type: 'tag', tag: 'custom:haunted' }
+        }
+      });
+    });
+
+    it('should parse comparisons, bare keys and wildcards', () => {
+      expect(TagQuery.parse('travel_speed<=0.75').root).toEqual({
+        type: 'compare',
+        key: 'travel_speed',
+        operator: '<=',
+        value: '0.75'
+      });
+      expect(TagQuery.parse('elevation').root).toEqual({ type: 'key', key: 'elevation' });
+      expect(TagQuery.parse('biome:*').root).toEqual({ type: 'key', key: 'biome' });
+    });
+
+    it('should report malformed queries with their position', () => {
+      expect(() => TagQuery.parse('')).toThrow(TagQueryError);
+      expect(() => TagQuery.parse('(biome:forest')).toThrow('Unexpected end of query');
+      expect(() => TagQuery.parse('biome:forest)')).toThrow('Unexpected ")" (at position 13)');
+      expect(() => TagQuery.parse('AND biome:forest')).toThrow('Expected a tag but found "AND"');
+      expect(() => TagQuery.parse('travel_speed < fast')).toThrow('"<" needs a number');
+      expect(() => TagQuery.parse('biome:forest & terrain:dense')).toThrow('Unexpected "&"');
+    });
+  });
+
+  describe('Evaluation', () => {
+    it('should combine tags with AND, OR, NOT and parentheses', () => {
+      expect(
+        matching('biome:forest AND (terrain:dense OR custom:haunted) AND NOT resources:timber')
+      ).toEqual([0]);
+      expect(matching('biome:forest AND (terrain:dense OR custom:haunted)')).toEqual([0, 1]);
+      expect(matching('NOT biome:forest')).toEqual([2]);
+      expect(matching('not (biome:forest or terrain:open)')).toEqual([]);
+    });
+
+    it('should AND adjacent terms', () => {
+      expect(matching('biome:forest resources:timber')).toEqual([1]);
+    });
+
+    it('should compare numeric tag values', () => {
+      expect(matching('travel_speed < 0.75')).toEqual([0]);
+      expect(matching('travel_speed >= 1')).toEqual([1, 2]);
+      expect(matching('travel_speed = 1.0')).toEqual([1]);
+      expect(matching('travel_speed != 1')).toEqual([0, 2]);
+    });
+
+    it('should compare text values and match bare keys', () => {
+      expect(matching('terrain = open')).toEqual([2]);
+      expect(matching('terrain')).toEqual([0, 2]);
+      expect(matching('custom AND travel_speed > 0.5')).toEqual([1]);
+    });
+
+    it('should ignore case in keywords and tags', () => {
+      expect(matching('Biome:Forest and Not Custom:Haunted')).toEqual([0]);
+      expect(TagQuery.parse('biome:forest').matches(['Biome:Forest'])).toBe(true);
+    });
+  });
+
+  describe('Search Results', () => {
+    it('should escape realm names, tags and errors', () => {
+      const realm = { id: 'a', name: '<img src=x>', getTags: () => ['custom:<b>'] };
+      const html = renderRealmSearchResults([realm as any], null);
+
+      expect(html).toContain('<strong>&lt;img src=x&gt;</strong>');
+      expect(html).toContain('custom:&lt;b&gt;');
+      expect(renderRealmSearchResults([], 'Unexpected <script>')).not.toContain('<script>');
+    });
+  });
+});
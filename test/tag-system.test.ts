@@ -2,8 +2,9 @@
  * Tests for TagSystem class
  */
 
-import { describe, it, expect, beforeEach } from 'vitest';
+import { describe, it, expect, beforeEach, afterEach } from 'vitest';
 import { TagSystem, TAG_NAMESPACES } from '../src/tag-system';
+import { RealmData } from '../src/realm-data';
 
 describe('TagSystem', () => {
   let tagSystem: TagSystem;
@@ -183,6 +184,74 @@ describe('TagSystem', () => {
     });
   });
 
+  describe('Effective Tag Resolution', () => {
+    const realm = (id: string, priority: number, tags: string[]) => ({
+      id,
+      name: id,
+      priority,
+      getTags: () => tags
+    });
+
+    it('should resolve single-value namespaces by priority', () => {
+      const result = tagSystem.resolveEffectiveTags([
+        realm('grove', 10, ['biome:forest', 'custom:haunted']),
+        realm('plains', 0, ['biome:grassland', 'travel_speed:1.25'])
+      ]);
+      const tags = result.tags.map(t => t.tag);
+
+      expect(tags).toContain('biome:forest');
+      expect(tags).not.toContain('biome:grassland');
+      expect(tags).toContain('travel_speed:1.25');
+      expect(result.tags.find(t => t.key === 'biome')!.sources[0].realmId).toBe('grove');
+    });
+
+    it('should union multi-value namespaces and record every source', () => {
+      const result = tagSystem.resolveEffectiveTags([
+        realm('grove', 10, ['resources:herbs', 'resources:timber']),
+        realm('forest', 0, ['resources:timber', 'resources:game'])
+      ]);
+
+      expect(result.tags.map(t => t.tag).sort()).toEqual([
+        'resources:game',
+        'resources:herbs',
+        'resources:timber'
+      ]);
+      const timber = result.tags.find(t => t.tag === 'resources:timber')!;
+      expect(timber.sources.map(s => s.realmId)).toEqual(['grove', 'forest']);
+    });
+
+    it('should resolve module properties by priority', () => {
+      const result = tagSystem.resolveEffectiveTags([
+        realm('grove', 10, ['module:jj:encounter_chance:0.5']),
+        realm('forest', 0, ['module:jj:encounter_chance:0.1', 'module:jj:forage:high'])
+      ]);
+      const tags = result.tags.map(t => t.tag);
+
+      expect(tags).toEqual(['module:jj:encounter_chance:0.5', 'module:jj:forage:high']);
+    });
+
+    it('should list the contributing realms', () => {
+      const result = tagSystem.resolveEffectiveTags([realm('grove', 10, [])]);
+      expect(result.realms).toEqual([{ id: 'grove', name: 'grove', priority: 10 }]);
+      expect(result.tags).toEqual([]);
+    });
+
+    it('should combine the tags of merged realms', () => {
+      const tags = tagSystem.combineTags([
+        realm('forest', 0, ['biome:forest', 'resources:timber', 'old_growth']),
+        realm('grove', 10, ['biome:grassland', 'resources:herbs']),
+        realm('wood', 0, ['biome:swamp', 'resources:timber'])
+      ]);
+
+      expect(tags).toEqual([
+        'biome:grassland',
+        'resources:herbs',
+        'resources:timber',
+        'old_growth'
+      ]);
+    });
+  });
+
   describe('Namespace Configuration', () => {
     it('should have all expected core namespaces', () => {
       const expectedNamespaces = [
@@ -227,6 +296,158 @@ describe('TagSystem', () => {
     });
   });
 
+  describe('Namespace Registry', () => {
+    afterEach(() => {
+      for (const prefix of ['faction', 'danger', 'cursed', 'lore', 'biome']) {
+        tagSystem.unregisterNamespace(prefix);
+      }
+    });
+
+    it('should validate enum namespaces', () => {
+      tagSystem.registerNamespace({
+        prefix: 'faction',
+        label: 'Faction',
+        valueType: { type: 'enum', values: ['empire', 'rebels'] }
+      });
+
+      expect(tagSystem.validateTag('faction:empire').valid).toBe(true);
+      expect(tagSystem.validateTag('faction:pirates').error).toContain('empire, rebels');
+      expect(tagSystem.getSuggestions('faction:').map(s => s.tag)).toEqual(
+        expect.arrayContaining(['faction:empire', 'faction:rebels'])
+      );
+    });
+
+    it('should validate number ranges and boolean values', () => {
+      tagSystem.registerNamespace({
+        prefix: 'danger',
+        label: 'Danger',
+        valueType: { type: 'number', min: 1, max: 5 }
+      });
+      tagSystem.registerNamespace({
+        prefix: 'cursed',
+        label: 'Cursed',
+        valueType: { type: 'boolean' }
+      });
+
+      expect(tagSystem.validateTag('danger:3').valid).toBe(true);
+      expect(tagSystem.validateTag('danger:9').error).toContain('at most 5');
+      expect(tagSystem.validateTag('danger:high').valid).toBe(false);
+      expect(tagSystem.validateTag('cursed:true').valid).toBe(true);
+      expect(tagSystem.validateTag('cursed:maybe').valid).toBe(false);
+      expect(tagSystem.isSingleValue('cursed')).toBe(true);
+    });
+
+    it('should use custom validator messages', () => {
+      tagSystem.registerNamespace({
+        prefix: 'lore',
+        label: 'Lore',
+        valueType: { type: 'text' },
+        validator: value => value.startsWith('book') || 'Lore tags must reference a book'
+      });
+
+      expect(tagSystem.validateTag('lore:book1').valid).toBe(true);
+      expect(tagSystem.validateTag('lore:rumour').error).toBe('Lore tags must reference a book');
+    });
+
+    it('should detect conflicts in registered single-value namespaces', () => {
+      tagSystem.registerNamespace({ prefix: 'faction', label: 'Faction', singleValue: true });
+
+      expect(tagSystem.detectConflicts(['faction:empire', 'faction:rebels'])).toContain(
+        'Multiple faction tags found: faction:empire, faction:rebels'
+      );
+    });
+
+    it('should replace single-value tags in RealmData', () => {
+      tagSystem.registerNamespace({ prefix: 'faction', label: 'Faction', singleValue: true });
+      const realm = new RealmData({ name: 'Border' });
+
+      realm.addTag('faction:empire');
+      realm.addTag('faction:rebels');
+
+      expect(realm.getTags()).toEqual(['faction:rebels']);
+    });
+
+    it('should restore core namespaces when unregistered', () => {
+      tagSystem.registerNamespace({ prefix: 'biome', label: 'Biome', singleValue: false });
+      expect(tagSystem.isSingleValue('biome')).toBe(false);
+
+      tagSystem.unregisterNamespace('biome');
+      expect(tagSystem.isSingleValue('biome')).toBe(true);
+    });
+
+    it('should reject invalid or reserved prefixes', () => {
+      expect(() => tagSystem.registerNamespace({ prefix: 'bad prefix', label: 'Bad' })).toThrow();
+      expect(() => tagSystem.registerNamespace({ prefix: 'module', label: 'Module' })).toThrow();
+    });
+  });
+
+  describe('World Vocabulary', () => {
+    afterEach(() => {
+      tagSystem.setVocabulary({});
+    });
+
+    it('should suggest vocabulary values', () => {
+      tagSystem.setVocabulary({
+        biome: { suggestions: ['forest', 'feywild', 'ashlands'] }
+      });
+
+      expect(tagSystem.getSuggestions('biome:fey').map(s => s.tag)).toContain('biome:feywild');
+      expect(tagSystem.getSuggestions('ashl').map(s => s.tag)).toContain('biome:ashlands');
+      expect(TagSystem.getSuggestions('biome')).toEqual(['forest', 'feywild', 'ashlands']);
+    });
+
+    it('should add vocabulary-only namespaces', () => {
+      tagSystem.setVocabulary({
+        plane: { label: 'Plane', color: '#9933ff', suggestions: ['feywild'], singleValue: true }
+      });
+
+      const namespace = tagSystem.getNamespaceByPrefix('plane');
+      expect(namespace?.name).toBe('Plane');
+      expect(namespace?.color).toBe('#9933ff');
+      expect(tagSystem.isSingleValue('plane')).toBe(true);
+      expect(tagSystem.isRegistered('plane')).toBe(false);
+    });
+
+    it('should apply edited player visibility', () => {
+      expect(tagSystem.isPlayerVisible('biome:forest')).toBe(true);
+      expect(tagSystem.isPlayerVisible('resources:timber')).toBe(false);
+
+      tagSystem.setVocabulary({
+        biome: { playerVisible: false },
+        resources: { playerVisible: true }
+      });
+
+      expect(tagSystem.isPlayerVisible('biome:forest')).toBe(false);
+      expect(tagSystem.isPlayerVisible('resources:timber')).toBe(true);
+    });
+
+    it('should apply edited validation ranges', () => {
+      tagSystem.setVocabulary({ travel_speed: { min: 0, max: 3 } });
+
+      expect(tagSystem.validateTag('travel_speed:2.5').valid).toBe(true);
+      expect(tagSystem.validateTag('travel_speed:4').valid).toBe(false);
+    });
+
+    it('should offer common tags from each namespace', () => {
+      tagSystem.setVocabulary({ biome: { suggestions: ['feywild', 'ashlands'] } });
+
+      const common = tagSystem.getCommonTags(['terrain:dense'], 2);
+      expect(common).toContain('biome:feywild');
+      expect(common).toContain('terrain:sparse');
+      expect(common).not.toContain('terrain:dense');
+
+      expect(tagSystem.getCommonTags(['biome:feywild'])).not.toContain('biome:ashlands');
+    });
+
+    it('should keep vocabulary edits when modules register namespaces later', () => {
+      tagSystem.setVocabulary({ faction: { suggestions: ['guild'] } });
+      tagSystem.registerNamespace({ prefix: 'faction', label: 'Faction', suggestions: ['empire'] });
+
+      expect(tagSystem.getNamespaceByPrefix('faction')?.suggestions).toEqual(['guild']);
+      tagSystem.unregisterNamespace('faction');
+    });
+  });
+
   describe('Edge Cases', () => {
     it('should handle empty suggestion queries', () => {
       const suggestions = tagSystem.getSuggestions('');
@@ -0,0 +1,118 @@
+/**
+ * Tests for the tag vocabulary settings menu
+ */
+
+import { describe, it, expect, afterEach } from 'vitest';
+import {
+  getVocabularyRows,
+  parseVocabularyFormData,
+  renderVocabularyForm
+} from '../src/tag-vocabulary-config';
+import { TagSystem } from '../src/tag-system';
+
+describe('TagVocabularyConfig', () => {
+  const tagSystem = TagSystem.getInstance();
+
+  afterEach(() => {
+    tagSystem.setVocabulary({});
+  });
+
+  it('should build rows for every namespace except module', () => {
+    const rows = getVocabularyRows();
+    const biome = rows.find(row => row.prefix === 'biome')!;
+    const travel = rows.find(row => row.prefix === 'travel_speed')!;
+
+    expect(rows.some(row => row.prefix === 'module')).toBe(false);
+    expect(biome.suggestions).toContain('forest, desert');
+    expect(biome.singleValue).toBe(true);
+    expect(biome.playerVisible).toBe(true);
+    expect(biome.registered).toBe(true);
+    expect(travel.min).toBe('0.1');
+    expect(travel.max).toBe('2');
+  });
+
+  it('should parse submitted rows into a vocabulary', () => {
+    const vocabulary = parseVocabularyFormData({
+      'namespaces.0.prefix': 'biome',
+      'namespaces.0.label': 'Biome',
+      'namespaces.0.color': '#00ff00',
+      'namespaces.0.suggestions': 'forest, Feywild , ashlands,',
+      'namespaces.0.singleValue': true,
+      'namespaces.0.playerVisible': 'on',
+      'namespaces.0.min': '',
+      'namespaces.0.max': '',
+      'namespaces.new1.prefix': 'Danger',
+      'namespaces.new1.label': '',
+      'namespaces.new1.suggestions': '',
+      'namespaces.new1.singleValue': false,
+      'namespaces.new1.min': '1',
+      'namespaces.new1.max': '5',
+      'namespaces.new2.prefix': 'bad prefix'
+    });
+
+    expect(vocabulary).toEqual({
+      biome: {
+        color: '#00ff00',
+        suggestions: ['forest', 'Feywild', 'ashlands']
+      },
+      danger: {
+        label: 'danger',
+        color: undefined,
+        suggestions: [],
+        singleValue: false,
+        playerVisible: false,
+        min: 1,
+        max: 5
+      }
+    });
+  });
+
+  it('should leave unchanged namespaces out of the vocabulary', () => {
+    tagSystem.registerNamespace({
+      prefix: 'faction',
+      label: 'Faction',
+      suggestions: ['Iron Court', 'Red Hand'],
+      valueType: { type: 'enum', values: ['Iron Court', 'Red Hand'] }
+    });
+    const formData: Record<string, any> = {};
+    getVocabularyRows().forEach((row, index) => {
+      for (const [field, value] of Object.entries(row)) {
+        formData[`namespaces.${index}.${field}`] = value;
+      }
+    });
+
+    expect(parseVocabularyFormData(formData)).toEqual({});
+
+    formData['namespaces.0.label'] = 'Biomes';
+    expect(parseVocabularyFormData(formData)).toEqual({ biome: { label: 'Biomes' } });
+    tagSystem.unregisterNamespace('faction');
+  });
+
+  it('should only allow removing vocabulary-only namespaces', () => {
+    tagSystem.setVocabulary({ planes: { label: 'Planes', suggestions: ['feywild'] } });
+    const html = renderVocabularyForm(getVocabularyRows());
+    const form = document.createElement('div');
+    form.innerHTML = html;
+
+    const planes = form.querySelector('[data-prefix="planes"]')!;
+    const biome = form.querySelector('[data-prefix="biome"]')!;
+    expect(planes.querySelector('.vocabulary-remove')).not.toBeNull();
+    expect(biome.querySelector('.vocabulary-remove')).toBeNull();
+    expect(biome.querySelector('input[readonly]')).not.toBeNull();
+  });
+
+  it('should escape labels and suggestions in the form', () => {
+    tagSystem.setVocabulary({
+      planes: { label: 'The "Outer" Planes', suggestions: ['</textarea><img src=x>'] }
+    });
+    const form = document.createElement('div');
+    form.innerHTML = renderVocabularyForm(getVocabularyRows());
+
+    const planes = form.querySelector('[data-prefix="planes"]')!;
+    expect(planes.querySelector<HTMLInputElement>('input[name$=".label"]')!.value).toBe(
+      'The "Outer" Planes'
+    );
+    expect(planes.querySelector('textarea')!.value).toBe('</textarea><img src=x>');
+    expect(form.querySelector('img')).toBeNull();
+  });
+});
@@ -0,0 +1,163 @@
+/**
+ * Tests for the thematic map overlay
+ */
+
+import { describe, it, expect, beforeEach, afterEach, vi } from 'vitest';
+import {
+  GRADIENT_STOPS,
+  ThematicOverlay,
+  buildTheme,
+  getThemeColor,
+  gradientColor,
+  renderThemeLegend
+} from '../src/thematic-overlay';
+import { createMockRegion } from './foundry-mocks';
+
+class MockContainer {
+  children: any[] = [];
+  eventMode = 'auto';
+  destroy = vi.fn();
+
+  addChild(child: any) {
+    this.children.push(child);
+  }
+
+  addChildAt(child: any, index: number) {
+    this.children.splice(index, 0, child);
+  }
+}
+
+function makeGraphics() {
+  return {
+    beginFill: vi.fn(),
+    drawPolygon: vi.fn(),
+    beginHole: vi.fn(),
+    endHole: vi.fn(),
+    endFill: vi.fn()
+  };
+}
+
+function createRealm(id: string, tags: string[], shapes: any[] = []) {
+  return createMockRegion({
+    id,
+    name: id,
+    shapes,
+    flags: { 'realms-and-reaches': { isRealm: true, tags } }
+  });
+}
+
+describe('Thematic Overlay', () => {
+  it('should give each registered value a stable colour', () => {
+    const full = buildTheme('biome');
+    const scene = buildTheme('biome', ['desert', 'forest', 'volcanic']);
+
+    expect(scene.mode).toBe('categorical');
+    expect(scene.colors.get('forest')).toBe(full.colors.get('forest'));
+    expect(scene.colors.get('forest')).not.toBe(scene.colors.get('desert'));
+    expect(scene.legend.map(entry => entry.label)).toEqual(['forest', 'desert', 'volcanic']);
+  });
+
+  it('should use a gradient across a numeric namespace range', () => {
+    const theme = buildTheme('travel_speed', ['0.5']);
+
+    expect(theme.mode).toBe('gradient');
+    expect([theme.min, theme.max]).toEqual([0.1, 2]);
+    expect(theme.legend.map(entry => entry.label)).toEqual(['0.1', '0.57', '1.05', '1.52', '2']);
+    expect(getThemeColor(theme, '0.1')).toBe(GRADIENT_STOPS[0]);
+    expect(getThemeColor(theme, '5')).toBe(GRADIENT_STOPS[GRADIENT_STOPS.length - 1]);
+    expect(getThemeColor(theme, 'fast')).toBeNull();
+  });
+
+  it('should treat unregistered all-number namespaces as gradients', () => {
+    const theme = buildTheme('danger_level', ['1', '3', '5']);
+
+    expect(theme.mode).toBe('gradient');
+    expect([theme.min, theme.max]).toEqual([1, 5]);
+    expect(getThemeColor(theme, '3')).toBe(gradientColor(0.5));
+    expect(buildTheme('faction', ['1', 'red']).mode).toBe('categorical');
+  });
+
+  it('should render a legend', () => {
+    const html = renderThemeLegend(buildTheme('biome', ['forest']));
+
+    expect(html).toContain('<h3>Biome</h3>');
+    expect(html).toContain('forest');
+    expect(html).toContain('Realms without a biome tag are not coloured.');
+  });
+
+  it('should escape tag values in the legend', () => {
+    const html = renderThemeLegend(buildTheme('faction', ['<img src=x onerror=alert(1)>']));
+
+    expect(html).toContain('&lt;img src=x onerror=alert(1)&gt;');
+    expect(html).not.toContain('<img');
+  });
+
+  describe('Canvas Overlay', () => {
+    const overlay = ThematicOverlay.getInstance();
+    let savedCanvas: any;
+    let layer: MockContainer;
+    let namespace: string;
+    const { Graphics } = (globalThis as any).PIXI;
+
+    beforeEach(() => {
+      (globalThis as any).PIXI.Container = MockContainer;
+      (globalThis as any).PIXI.Graphics = vi.fn(makeGraphics);
+
+      namespace = 'biome';
+      vi.spyOn(game.settings, 'get').mockImplementation(() => namespace);
+
+      savedCanvas = { ...canvas };
+      layer = new MockContainer();
+      layer.addChild({ name: 'existing' });
+      Object.assign(canvas!, {
+        scene: {
+          id: 'theme-scene',
+          regions: [
+            createRealm(
+              'forest',
+              ['biome:forest'],
+              [
+                { type: 'rectangle', x: 0, y: 0, width: 100, height: 100 },
+                { type: 'rectangle', x: 25, y: 25, width: 50, height: 50, hole: true }
+              ]
+            ),
+            createRealm('road', ['terrain:road']),
+            { id: 'plain', flags: {}, shapes: [] }
+          ]
+        },
+        interface: layer
+      });
+    });
+
+    afterEach(() => {
+      overlay.tearDown();
+      (globalThis as any).PIXI.Graphics = Graphics;
+      Object.assign(canvas!, savedCanvas);
+      vi.restoreAllMocks();
+    });
+
+    it('should fill tagged realms below other interface objects', () => {
+      const theme = overlay.draw()!;
+
+      const container = layer.children[0];
+      expect(container).toBeInstanceOf(MockContainer);
+      expect(container.children).toHaveLength(1);
+
+      const graphics = container.children[0];
+      expect(graphics.beginFill).toHaveBeenCalledWith(theme.colors.get('forest'), 0.45);
+      expect(graphics.drawPolygon).toHaveBeenCalledTimes(2);
+      expect(graphics.beginHole).toHaveBeenCalledTimes(1);
+      expect(document.getElementById('realm-theme-legend')?.textContent).toContain('forest');
+    });
+
+    it('should clear the overlay and legend when turned off', () => {
+      overlay.draw();
+      const container = layer.children[0];
+      namespace = '';
+
+      expect(overlay.draw()).toBeNull();
+      expect(container.destroy).toHaveBeenCalledWith({ children: true });
+      expect(document.getElementById('realm-theme-legend')).toBeNull();
+    });
+  });
+});
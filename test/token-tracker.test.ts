@@ -0,0 +1,178 @@
+/**
+ * Tests for TokenTracker
+ */
+
+import { describe, it, expect, beforeEach, afterEach, vi } from 'vitest';
+import { TokenTracker } from '../src/token-tracker';
+import { RealmManager } from '../src/realm-manager';
+import { pointInShapes } from '../src/path-geometry';
+import { createMockScene, createMockRegion } from './foundry-mocks';
+
+function createRealm(id: string, shape: any) {
+  const region = createMockRegion({
+    id,
+    name: id,
+    shapes: [shape],
+    flags: { 'realms-and-reaches': { isRealm: true, tags: [] } }
+  });
+  region.testPoint = vi.fn(({ x, y }) => pointInShapes(x, y, region.shapes));
+  return region;
+}
+
+describe('TokenTracker', () => {
+  let tracker: TokenTracker;
+  let scene: any;
+  let manager: RealmManager;
+
+  function createToken(x: number, y: number) {
+    return { id: 'token-1', parent: scene, x, y, width: 1, height: 1 };
+  }
+
+  function hookCalls() {
+    return vi
+      .mocked(Hooks.callAll)
+      .mock.calls.map(([hook, , realm]) => `${hook.split('.')[1]}:${(realm as any).id}`);
+  }
+
+  beforeEach(() => {
+    scene = createMockScene({ id: 'tracker-scene', grid: { size: 100, distance: 5 } as any });
+    scene.regions.set(
+      'west',
+      createRealm('west', { type: 'rectangle', x: 0, y: 0, width: 500, height: 500 })
+    );
+    scene.regions.set(
+      'east',
+      createRealm('east', { type: 'rectangle', x: 500, y: 0, width: 500, height: 500 })
+    );
+    scene.regions.set(
+      'pond',
+      createRealm('pond', { type: 'ellipse', x: 250, y: 250, radiusX: 60, radiusY: 60 })
+    );
+    (globalThis as any).game.scenes.set(scene.id, scene);
+
+    manager = RealmManager.getInstance(scene.id);
+    manager.invalidateIndex();
+    tracker = TokenTracker.getInstance();
+    vi.mocked(Hooks.callAll).mockClear();
+  });
+
+  afterEach(() => {
+    (globalThis as any).game.scenes.delete(scene.id);
+  });
+
+  it('should record realms without firing hooks when tracked', () => {
+    const token = createToken(150, 150);
+    tracker.track(token);
+
+    expect(tracker.getTokenRealms(scene.id, 'token-1')).toEqual(['west']);
+    expect(Hooks.callAll).not.toHaveBeenCalled();
+  });
+
+  it('should fire exit then enter when crossing a shared border', () => {
+    const token = createToken(350, 50);
+    tracker.track(token);
+
+    token.x = 550;
+    tracker.handleTokenMove(token);
+
+    expect(hookCalls()).toEqual(['tokenExitRealm:west', 'tokenEnterRealm:east']);
+    expect(tracker.getTokenRealms(scene.id, 'token-1')).toEqual(['east']);
+  });
+
+  it('should fire events for realms crossed mid-move', () => {
+    const token = createToken(0, 200);
+    tracker.track(token);
+
+    // Walks straight through the pond and ends in the east realm
+    token.x = 700;
+    tracker.handleTokenMove(token);
+
+    expect(hookCalls()).toEqual([
+      'tokenEnterRealm:pond',
+      'tokenExitRealm:pond',
+      'tokenExitRealm:west',
+      'tokenEnterRealm:east'
+    ]);
+  });
+
+  it('should follow the waypoints of the movement data', () => {
+    const token = createToken(50, 150);
+    tracker.track(token);
+
+    // Walks around the pond that the straight line between the ends crosses
+    token.x = 350;
+    const waypoints = [
+      { x: 50, y: 350 },
+      { x: 350, y: 350 },
+      { x: 350, y: 150 }
+    ];
+    tracker.handleTokenMove(token, { movement: { 'token-1': { waypoints } } });
+    expect(hookCalls()).toEqual([]);
+
+    // A detour that dips into the east realm, then heads back west through the pond
+    token.x = 50;
+    tracker.handleTokenMove(token, {
+      movement: {
+        'token-1': {
+          waypoints: [
+            { x: 550, y: 150 },
+            { x: 50, y: 150 }
+          ]
+        }
+      }
+    });
+    expect(hookCalls()).toEqual([
+      'tokenExitRealm:west',
+      'tokenEnterRealm:east',
+      'tokenExitRealm:east',
+      'tokenEnterRealm:west',
+      'tokenEnterRealm:pond',
+      'tokenExitRealm:pond'
+    ]);
+    expect(tracker.getTokenRealms(scene.id, 'token-1')).toEqual(['west']);
+  });
+
+  it('should pass the crossing point and distance in the movement', () => {
+    const token = createToken(350, 50);
+    tracker.track(token);
+
+    token.x = 550;
+    tracker.handleTokenMove(token);
+
+    const movement = vi.mocked(Hooks.callAll).mock.calls[0][3] as any;
+    expect(movement.from).toEqual({ x: 400, y: 100 });
+    expect(movement.to).toEqual({ x: 600, y: 100 });
+    expect(movement.point.x).toBeCloseTo(500);
+    expect(movement.distance).toBeCloseTo(5);
+  });
+
+  it('should dispatch matching RealmManager events', () => {
+    const entered: string[] = [];
+    const listener = (event: Event) => entered.push((event as CustomEvent).detail.realm.id);
+    manager.addEventListener('tokenEnterRealm', listener);
+
+    const token = createToken(350, 50);
+    tracker.track(token);
+    token.x = 550;
+    tracker.handleTokenMove(token);
+
+    manager.removeEventListener('tokenEnterRealm', listener);
+    expect(entered).toEqual(['east']);
+  });
+
+  it('should start tracking untracked tokens on their first move', () => {
+    const token = { ...createToken(150, 150), id: 'token-2' };
+    tracker.handleTokenMove(token);
+
+    expect(Hooks.callAll).not.toHaveBeenCalled();
+    expect(tracker.getTokenRealms(scene.id, 'token-2')).toEqual(['west']);
+  });
+
+  it('should stop tracking forgotten tokens', () => {
+    const token = createToken(150, 150);
+    tracker.track(token);
+    tracker.forget(token);
+
+    expect(tracker.getTokenRealms(scene.id, 'token-1')).toEqual([]);
+  });
+});
@@ -0,0 +1,216 @@
+/**
+ * Tests for TravelCalculator
+ */
+
+import { describe, it, expect, beforeEach, afterEach, vi } from 'vitest';
+import { TravelCalculator } from '../src/travel-calculator';
+import {
+  cancelWaypoints,
+  collectWaypoints,
+  parseTravelTimeForm,
+  renderTravelTimeForm
+} from '../src/travel-time-dialog';
+import { RealmManager, RealmPathResult } from '../src/realm-manager';
+
+function mockRealm(id: string, name: string, tags: string[], priority = 0) {
+  return {
+    id,
+    name,
+    priority,
+    getTags: () => tags,
+    getTag: (key: string) => {
+      const tag = tags.find(t => t.startsWith(`${key}:`));
+      return tag ? tag.slice(key.length + 1) : null;
+    }
+  };
+}
+
+function crossing(realmId: string, realmName: string, entry: number, exit: number) {
+  return {
+    realmId,
+    realmName,
+    entry: { x: entry, y: 0, distance: entry },
+    exit: { x: exit, y: 0, distance: exit },
+    length: exit - entry
+  };
+}
+
+describe('TravelCalculator', () => {
+  let calculator: TravelCalculator;
+  let realms: Map<string, any>;
+  let path: RealmPathResult;
+
+  beforeEach(() => {
+    calculator = TravelCalculator.getInstance();
+    realms = new Map();
+    path = { totalLength: 0, units: 'mi', crossings: [], realms: [] };
+
+    vi.spyOn(RealmManager, 'getInstance').mockReturnValue({
+      getRealmsAlongPath: () => path,
+      getRealm: (id: string) => realms.get(id) || null
+    } as any);
+  });
+
+  afterEach(() => {
+    vi.restoreAllMocks();
+  });
+
+  it('should use the base speed outside realms', () => {
+    path.totalLength = 30;
+
+    const result = calculator.calculate([], { speed: 3 });
+
+    expect(result.totalTime).toBe(10);
+    expect(result.timeUnit).toBe('hours');
+    expect(result.legs).toEqual([
+      { realmId: null, realmName: 'Open Ground', distance: 30, speedModifier: 1, time: 10 }
+    ]);
+  });
+
+  it('should slow travel through realms by their travel_speed', () => {
+    realms.set('swamp', mockRealm('swamp', 'Swamp', ['biome:swamp', 'travel_speed:0.5']));
+    path.totalLength = 30;
+    path.crossings = [crossing('swamp', 'Swamp', 10, 20)];
+
+    const result = calculator.calculate([], { speed: 5 });
+
+    expect(result.legs.map(l => l.realmName)).toEqual(['Open Ground', 'Swamp', 'Open Ground']);
+    expect(result.legs[1].time).toBe(4);
+    expect(result.totalTime).toBe(8);
+
+    // Both open ground legs are merged in the realm breakdown
+    expect(result.realms).toHaveLength(2);
+    expect(result.realms[0]).toMatchObject({ realmId: null, distance: 20, time: 4 });
+  });
+
+  it('should take travel_speed from the highest priority overlapping realm', () => {
+    realms.set('forest', mockRealm('forest', 'Forest', ['travel_speed:0.5']));
+    realms.set('road', mockRealm('road', "King's Road", ['travel_speed:1.5'], 10));
+    path.totalLength = 30;
+    path.crossings = [crossing('forest', 'Forest', 0, 30), crossing('road', "King's Road", 10, 20)];
+
+    const result = calculator.calculate([], { speed: 1 });
+
+    expect(result.legs.map(l => l.speedModifier)).toEqual([0.5, 1.5, 0.5]);
+    expect(result.totalTime).toBeCloseTo(40 + 10 / 1.5);
+  });
+
+  it('should credit realms without travel_speed at the base speed', () => {
+    realms.set('ruins', mockRealm('ruins', 'Ruins', ['custom:haunted']));
+    path.totalLength = 10;
+    path.crossings = [crossing('ruins', 'Ruins', 0, 10)];
+
+    const result = calculator.calculate([], { speed: 2 });
+
+    expect(result.legs).toEqual([
+      { realmId: 'ruins', realmName: 'Ruins', distance: 10, speedModifier: 1, time: 5 }
+    ]);
+  });
+
+  it('should apply the speed of travel speed behaviors', () => {
+    const swamp = mockRealm('swamp', 'Swamp', ['biome:swamp', 'travel_speed:0.5']);
+    const behavior = {
+      type: 'realms-and-reaches.travelSpeed',
+      disabled: false,
+      system: { speed: 0.25 }
+    };
+    realms.set('swamp', { ...swamp, _region: { behaviors: [behavior] } });
+    path.totalLength = 10;
+    path.crossings = [crossing('swamp', 'Swamp', 0, 10)];
+
+    expect(calculator.calculate([], { speed: 1 }).totalTime).toBe(40);
+
+    // Disabled behaviors leave the realm's travel_speed tag in charge
+    behavior.disabled = true;
+    expect(calculator.calculate([], { speed: 1 }).totalTime).toBe(20);
+  });
+
+  it('should reject a non-positive speed', () => {
+    expect(() => calculator.calculate([], { speed: 0 })).toThrow();
+  });
+
+  it('should whisper the chat card to GMs', async () => {
+    realms.set('swamp', mockRealm('swamp', 'Swamp', ['travel_speed:0.5']));
+    path.totalLength = 10;
+    path.crossings = [crossing('swamp', 'Swamp', 0, 10)];
+    (globalThis as any).ChatMessage.getWhisperRecipients = vi.fn(() => [{ id: 'gm-1' }]);
+    const create = vi.spyOn((globalThis as any).ChatMessage, 'create');
+
+    const result = calculator.calculate([], { speed: 1, timeUnit: 'days' });
+    await calculator.postChatCard(result);
+
+    expect(create).toHaveBeenCalledWith(expect.objectContaining({ whisper: ['gm-1'] }));
+    const content = create.mock.calls[0][0].content;
+    expect(content).toContain('Swamp');
+    expect(content).toContain('20 days');
+  });
+
+  it('should escape realm names and the time unit in the chat card', () => {
+    realms.set('swamp', mockRealm('swamp', '<img src=x>', ['travel_speed:0.5']));
+    path.totalLength = 10;
+    path.crossings = [crossing('swamp', '<img src=x>', 0, 10)];
+
+    const html = calculator.renderChatCard(
+      calculator.calculate([], { speed: 1, timeUnit: '<b>days</b>' })
+    );
+
+    expect(html).not.toContain('<img');
+    expect(html).not.toContain('<b>');
+    expect(html).toContain('&lt;img src=x&gt;');
+  });
+
+  describe('Travel Time Dialog', () => {
+    it('should read the speed and time unit back', () => {
+      document.body.innerHTML = renderTravelTimeForm({ speed: 24, timeUnit: 'days' });
+      const form = document.querySelector('form') as HTMLFormElement;
+
+      expect(parseTravelTimeForm(form)).toEqual({ speed: 24, timeUnit: 'days' });
+      (form.elements.namedItem('timeUnit') as HTMLInputElement).value = ' ';
+      expect(parseTravelTimeForm(form).timeUnit).toBe('hours');
+    });
+
+    it('should collect clicked waypoints until a right-click', async () => {
+      const handlers = new Set<(event: any) => void>();
+      const stage = {
+        on: (_type: string, handler: any) => handlers.add(handler),
+        off: (_type: string, handler: any) => handlers.delete(handler)
+      };
+      const click = (button: number, x = 0, y = 0) =>
+        [...handlers].forEach(handler => handler({ button, getLocalPosition: () => ({ x, y }) }));
+
+      const waypoints = collectWaypoints(stage);
+      click(0, 10, 20);
+      click(1, 50, 50);
+      click(0, 30, 40);
+      click(2);
+
+      expect(await waypoints).toEqual([
+        { x: 10, y: 20 },
+        { x: 30, y: 40 }
+      ]);
+      expect(handlers.size).toBe(0);
+    });
+
+    it('should cancel with no waypoints on Escape or a new collection', async () => {
+      const handlers = new Set<(event: any) => void>();
+      const stage = {
+        on: (_type: string, handler: any) => handlers.add(handler),
+        off: (_type: string, handler: any) => handlers.delete(handler)
+      };
+
+      const escaped = collectWaypoints(stage);
+      document.dispatchEvent(new KeyboardEvent('keydown', { key: 'Escape' }));
+      expect(await escaped).toEqual([]);
+      expect(handlers.size).toBe(0);
+
+      const first = collectWaypoints(stage);
+      const second = collectWaypoints(stage);
+      expect(await first).toEqual([]);
+      expect(handlers.size).toBe(1);
+
+      cancelWaypoints();
+      expect(await second).toEqual([]);
+      expect(handlers.size).toBe(0);
+    });
+  });
+});
@@ -0,0 +1,172 @@
+/**
+ * Tests for whole-world realm export and import
+ */
+
+import { describe, it, expect, beforeEach, afterEach, vi } from 'vitest';
+import { WorldSceneImport, WorldTransfer, findReplaceConflicts } from '../src/world-transfer';
+import {
+  parseSceneMappingForm,
+  renderSceneMappingTable,
+  summarizeWorldImport
+} from '../src/world-transfer-dialog';
+import { RealmManager } from '../src/realm-manager';
+
+const realm = {
+  id: 'realm1',
+  name: 'Ancient Forest',
+  shapes: [{ type: 'polygon', points: [0, 0, 100, 0, 100, 100] }],
+  tags: ['biome:forest']
+};
+
+const report = (accepted: number) => ({
+  sourceVersion: 2,
+  accepted: Array.from({ length: accepted }, () => ({})),
+  skipped: [],
+  invalid: []
+});
+
+describe('WorldTransfer', () => {
+  const transfer = WorldTransfer.getInstance();
+  let managers: Record<string, any>;
+
+  beforeEach(() => {
+    game.scenes = new Map([
+      ['vale', { id: 'vale', name: 'Misty Vale' }],
+      ['peaks', { id: 'peaks', name: 'Frost Peaks' }],
+      ['empty', { id: 'empty', name: 'Empty' }]
+    ]) as any;
+
+    managers = {};
+    for (const id of ['vale', 'peaks', 'empty']) {
+      managers[id] = {
+        getExportScene: vi.fn(() => ({
+          id,
+          name: id,
+          bounds: null,
+          realms: id === 'empty' ? [] : [realm]
+        })),
+        importData: vi.fn().mockResolvedValue(report(1))
+      };
+    }
+    vi.spyOn(RealmManager, 'getInstance').mockImplementation((id?: string) => managers[id!]);
+  });
+
+  afterEach(() => {
+    vi.restoreAllMocks();
+  });
+
+  it('should export every scene that has realms', () => {
+    const data = transfer.exportWorld();
+
+    expect(data.format).toBe('realms-and-reaches');
+    expect(data.scenes.map(scene => scene.id)).toEqual(['vale', 'peaks']);
+  });
+
+  it('should match scenes by ID, then by name', () => {
+    const matches = transfer.matchScenes({
+      format: 'realms-and-reaches',
+      version: 2,
+      metadata: {},
+      scenes: [
+        { id: 'vale', name: 'Renamed', realms: [realm] },
+        { id: 'other-world', name: ' frost peaks ', realms: [realm, realm] },
+        { id: 'missing', name: 'Lost Isle', realms: [] }
+      ]
+    });
+
+    expect(matches.map(match => [match.targetId, match.matchedBy, match.realmCount])).toEqual([
+      ['vale', 'id', 1],
+      ['peaks', 'name', 2],
+      [null, null, 0]
+    ]);
+  });
+
+  it('should import each scene with its own mode', async () => {
+    const data = transfer.exportWorld();
+
+    const result = await transfer.importWorld(data, [
+      { index: 0, targetId: 'peaks', mode: 'replace' },
+      { index: 1, targetId: null, mode: 'merge' }
+    ]);
+
+    expect(managers.peaks.importData).toHaveBeenCalledWith(
+      expect.objectContaining({ scenes: [data.scenes[0]] }),
+      { replace: true, merge: false }
+    );
+    expect(managers.vale.importData).not.toHaveBeenCalled();
+    expect(result.scenes.map(scene => scene.mode)).toEqual(['replace', 'skip']);
+    expect(summarizeWorldImport(result)).toBe('Imported 1 realms into 1 scenes');
+  });
+
+  it('should reject plans that replace a scene another scene is imported into', async () => {
+    const data = transfer.exportWorld();
+    const plan: WorldSceneImport[] = [
+      { index: 0, targetId: 'peaks', mode: 'merge' },
+      { index: 1, targetId: 'peaks', mode: 'replace' }
+    ];
+
+    expect(findReplaceConflicts(plan)).toEqual(['peaks']);
+    await expect(transfer.importWorld(data, plan)).rejects.toThrow('peaks');
+    expect(managers.peaks.importData).not.toHaveBeenCalled();
+
+    plan[1].mode = 'merge';
+    expect(findReplaceConflicts(plan)).toEqual([]);
+  });
+
+  it('should merge matched scenes and skip the rest by default', async () => {
+    const result = await transfer.importWorld({
+      format: 'realms-and-reaches-v1',
+      scenes: { vale: { realms: [realm] }, elsewhere: { realms: [realm] } }
+    });
+
+    expect(result.sourceVersion).toBe(1);
+    expect(managers.vale.importData).toHaveBeenCalledWith(expect.anything(), {
+      replace: false,
+      merge: true
+    });
+    expect(result.scenes.map(scene => [scene.targetId, scene.mode])).toEqual([
+      ['vale', 'merge'],
+      [null, 'skip']
+    ]);
+  });
+
+  describe('Scene Mapping Dialog', () => {
+    const matches = [
+      { index: 0, sourceName: 'Vale', realmCount: 2, targetId: 'vale', matchedBy: 'id' as const },
+      { index: 1, sourceName: 'Isle', realmCount: 1, targetId: null, matchedBy: null }
+    ];
+    const worldScenes = [
+      { id: 'vale', name: 'Misty Vale' },
+      { id: 'peaks', name: 'Frost Peaks' }
+    ];
+
+    it('should preselect matched scenes and skip unmatched ones', () => {
+      const html = renderSceneMappingTable(matches, worldScenes);
+
+      expect(html).toContain('<option value="vale" selected>Misty Vale</option>');
+      expect(html).toContain('Matched by id');
+      expect(html).toContain('No matching scene');
+    });
+
+    it('should escape exported and world scene names', () => {
+      const html = renderSceneMappingTable(
+        [{ ...matches[1], sourceName: '<img src=x onerror=alert(1)>' }],
+        [{ id: 'vale', name: '<b>Vale</b>' }]
+      );
+
+      expect(html).not.toContain('<img');
+      expect(html).toContain('&lt;b&gt;Vale&lt;/b&gt;');
+    });
+
+    it('should read the chosen targets and modes', () => {
+      document.body.innerHTML = renderSceneMappingTable(matches, worldScenes);
+      const form = document.querySelector('form') as HTMLFormElement;
+      (form.elements.namedItem('mode-0') as HTMLSelectElement).value = 'replace';
+
+      expect(parseSceneMappingForm(form, matches)).toEqual([
+        { index: 0, targetId: 'vale', mode: 'replace' },
+        { index: 1, targetId: null, mode: 'skip' }
+      ]);
+    });
+  });
+});